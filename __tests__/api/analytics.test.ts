@@ -0,0 +1,211 @@
+/**
+ * Tests for Rating Analytics
+ *
+ * Validates query parsing, weekly and monthly bucketing, comparison with
+ * the previous range, the property card trend and the
+ * GET /api/analytics/ratings route, including manager property scoping.
+ */
+
+jest.mock('@/lib/db', () => ({
+  getReviewsMatching: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+  getPropertyScope: jest.fn(),
+}));
+
+import { GET } from '@/app/api/analytics/ratings/route';
+import { getReviewsMatching } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import {
+  buildRatingAnalytics,
+  calculateRecentTrend,
+  getAnalyticsDateRange,
+  getPeriodStart,
+  listBucketStarts,
+  parseAnalyticsQuery,
+} from '@/lib/analytics';
+import type { AnalyticsQuery, Review } from '@/types';
+import { makeReview } from '../helpers/fixtures';
+
+const review = (id: string, submittedAt: string, rating: number | null, extra: Partial<Review> = {}): Review =>
+  makeReview(id, { submittedAt: new Date(submittedAt), rating, ...extra });
+
+const reviews = [
+  // Previous range (February)
+  review('1', '2025-02-10T10:00:00Z', 8),
+  // Requested range (March)
+  review('2', '2025-03-03T10:00:00Z', 10, { categories: [{ category: 'cleanliness', rating: 10 }] }),
+  review('3', '2025-03-04T10:00:00Z', 9, {
+    channel: 'booking',
+    categories: [{ category: 'cleanliness', rating: 8 }],
+  }),
+  review('4', '2025-03-20T10:00:00Z', null, { propertyId: 'camden-loft', propertyName: 'Camden Loft' }),
+  review('5', '2025-03-21T10:00:00Z', 2, { reviewType: 'host-to-guest' }),
+];
+
+describe('parseAnalyticsQuery', () => {
+  const now = new Date('2025-03-19T12:00:00Z'); // A Wednesday
+  const parse = (query: string) => parseAnalyticsQuery(new URLSearchParams(query), now);
+
+  it('should default to the last 12 weeks, compared with the 12 before', () => {
+    expect(parse('')).toEqual({ period: 'week', from: '2024-12-30', to: '2025-03-19', compare: true });
+    expect(parse('period=month&compare=false')).toMatchObject({ from: '2024-04-01', compare: false });
+  });
+
+  it('should reject invalid parameters', () => {
+    expect(() => parse('period=day')).toThrow('Invalid period: day');
+    expect(() => parse('from=2025-13-01')).toThrow('Invalid from');
+    expect(() => parse('from=2025-03-01&to=2025-02-01')).toThrow('from is after to');
+    expect(() => parse('from=2000-01-01&to=2025-01-01')).toThrow('more than 120 weeks');
+  });
+});
+
+describe('bucketing', () => {
+  it('should start weeks on Monday and months on the 1st (UTC)', () => {
+    expect(getPeriodStart(new Date('2025-03-09T23:30:00Z'), 'week').toISOString()).toBe(
+      '2025-03-03T00:00:00.000Z'
+    );
+    expect(getPeriodStart(new Date('2025-03-09T23:30:00Z'), 'month').toISOString()).toBe(
+      '2025-03-01T00:00:00.000Z'
+    );
+    expect(listBucketStarts('2025-01-15', '2025-03-01', 'month')).toEqual([
+      '2025-01-01',
+      '2025-02-01',
+      '2025-03-01',
+    ]);
+  });
+});
+
+describe('buildRatingAnalytics', () => {
+  const query: AnalyticsQuery = { period: 'week', from: '2025-03-03', to: '2025-03-30', compare: true };
+
+  it('should bucket guest reviews, including empty weeks', () => {
+    const { overall } = buildRatingAnalytics(reviews, query);
+
+    expect(overall.summary).toEqual({
+      reviewCount: 3,
+      averageRating: 9.5,
+      categoryAverages: { cleanliness: 9 },
+    });
+    expect(overall.buckets.map(b => [b.start, b.reviewCount, b.averageRating])).toEqual([
+      ['2025-03-03', 2, 9.5],
+      ['2025-03-10', 0, null],
+      ['2025-03-17', 1, null],
+      ['2025-03-24', 0, null],
+    ]);
+  });
+
+  it('should split series by property and channel', () => {
+    const analytics = buildRatingAnalytics(reviews, query);
+
+    expect(analytics.byProperty.map(s => [s.label, s.summary.reviewCount])).toEqual([
+      ['2B N1 A - 29 Shoreditch Heights', 2],
+      ['Camden Loft', 1],
+    ]);
+    expect(analytics.byChannel.map(s => s.key)).toEqual(['airbnb', 'booking']);
+    expect(analytics.byChannel[1].buckets).toHaveLength(4);
+  });
+
+  it('should compare with the equally long range before', () => {
+    const { comparison } = buildRatingAnalytics(reviews, query);
+
+    expect(comparison).toMatchObject({
+      from: '2025-02-03',
+      to: '2025-03-02',
+      summary: { reviewCount: 1, averageRating: 8 },
+      trend: { direction: 'up', percentage: 19 },
+    });
+    expect(buildRatingAnalytics(reviews, { ...query, compare: false }).comparison).toBeUndefined();
+  });
+
+  it('should load reviews for both ranges', () => {
+    expect(getAnalyticsDateRange(query)).toEqual({
+      dateFrom: new Date('2025-02-03T00:00:00Z'),
+      dateTo: new Date('2025-03-30T23:59:59.999Z'),
+    });
+  });
+});
+
+describe('calculateRecentTrend', () => {
+  const now = new Date('2025-03-31T00:00:00Z');
+
+  it('should report no trend without ratings in both windows', () => {
+    expect(calculateRecentTrend([], now)).toBeNull();
+    expect(calculateRecentTrend([review('1', '2025-03-20T00:00:00Z', 9)], now)).toBeNull();
+  });
+
+  it('should compare the last 30 days with the 30 before', () => {
+    expect(
+      calculateRecentTrend(
+        [review('1', '2025-03-20T00:00:00Z', 8), review('2', '2025-02-20T00:00:00Z', 10)],
+        now
+      )
+    ).toEqual({ direction: 'down', percentage: 20 });
+    expect(
+      calculateRecentTrend(
+        [review('1', '2025-03-20T00:00:00Z', 9), review('2', '2025-02-20T00:00:00Z', 9)],
+        now
+      )
+    ).toEqual({ direction: 'flat', percentage: 0 });
+  });
+});
+
+describe('GET /api/analytics/ratings', () => {
+  beforeEach(() => {
+    (getReviewsMatching as jest.Mock).mockReset().mockResolvedValue(reviews);
+    (getCurrentUser as jest.Mock).mockResolvedValue({
+      id: 'user-1',
+      email: 'admin@flexliving.com',
+      name: null,
+      role: 'admin',
+    });
+    (getPropertyScope as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should return buckets for the requested range', async () => {
+    const response = await GET(
+      new Request('http://localhost/api/analytics/ratings?period=month&from=2025-03-01&to=2025-03-31&channel=airbnb')
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe('success');
+    expect(data.result.overall.buckets).toEqual([
+      { start: '2025-03-01', reviewCount: 2, averageRating: 10, categoryAverages: { cleanliness: 10 } },
+    ]);
+    expect(getReviewsMatching).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'airbnb',
+        reviewType: 'guest-to-host',
+        dateFrom: new Date('2025-01-29T00:00:00Z'),
+      }),
+      { field: 'submittedAt', direction: 'asc' }
+    );
+  });
+
+  it('should only include the assigned properties of a manager', async () => {
+    (getPropertyScope as jest.Mock).mockResolvedValue(['camden-loft']);
+
+    await GET(new Request('http://localhost/api/analytics/ratings'));
+
+    expect((getReviewsMatching as jest.Mock).mock.calls[0][0].propertyIds).toEqual(['camden-loft']);
+  });
+
+  it('should require a signed-in user', async () => {
+    (getCurrentUser as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(new Request('http://localhost/api/analytics/ratings'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject invalid parameters', async () => {
+    const response = await GET(new Request('http://localhost/api/analytics/ratings?period=year'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid period: year');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for Audit Log Formatting
+ *
+ * Validates the descriptions shown in the Activity tab and review
+ * history drawer.
+ */
+
+import { describeAuditEvent } from '@/lib/audit';
+import type { AuditEvent } from '@/types';
+
+const event = (overrides: Partial<AuditEvent>): AuditEvent => ({
+  id: 'event-1',
+  actor: 'manager',
+  action: 'moderate',
+  reviewId: 'review-1',
+  before: null,
+  after: null,
+  createdAt: new Date('2025-03-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('describeAuditEvent', () => {
+  it('should describe moderation changes', () => {
+    expect(
+      describeAuditEvent(
+        event({
+          action: 'toggle-display',
+          before: { moderationStatus: 'new' },
+          after: { moderationStatus: 'approved' },
+        })
+      )
+    ).toBe('Status new → approved');
+
+    expect(
+      describeAuditEvent(
+        event({
+          before: { moderationStatus: 'pending' },
+          after: { moderationStatus: 'rejected', moderationReason: 'spam' },
+        })
+      )
+    ).toBe('Status pending → rejected (spam)');
+  });
+
+  it('should describe deletions from the deleted review', () => {
+    expect(
+      describeAuditEvent(event({ action: 'delete', before: { guestName: 'Jane Doe' } }))
+    ).toBe('Deleted review by Jane Doe');
+  });
+
+  it('should describe imports and syncs', () => {
+    expect(
+      describeAuditEvent(
+        event({ action: 'import', reviewId: null, after: { format: 'csv', imported: 8, totalRows: 10 } })
+      )
+    ).toBe('Imported 8 of 10 rows from CSV');
+
+    expect(
+      describeAuditEvent(
+        event({
+          action: 'sync',
+          actor: 'system',
+          reviewId: null,
+          after: { source: 'hostaway', status: 'success', saved: 12, failed: 1 },
+        })
+      )
+    ).toBe('hostaway sync success: 12 saved, 1 failed');
+  });
+});
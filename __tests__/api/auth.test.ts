@@ -0,0 +1,112 @@
+/**
+ * Tests for Authentication
+ *
+ * Validates password hashing, signed session tokens, role permissions
+ * and the middleware protecting the dashboard and sync endpoints.
+ */
+
+import { NextRequest } from 'next/server';
+import { middleware } from '@/middleware';
+import { hashPassword, verifyPassword } from '@/lib/password';
+import { hasPermission, isPropertyInScope } from '@/lib/permissions';
+import { SESSION_COOKIE, createSessionToken, verifySessionToken } from '@/lib/session';
+import type { SessionUser } from '@/types';
+
+const manager: SessionUser = { id: 'user-1', email: 'manager@flexliving.com', role: 'manager' };
+const viewer: SessionUser = { id: 'user-2', email: 'viewer@flexliving.com', role: 'viewer' };
+
+beforeEach(() => {
+  process.env.AUTH_SECRET = 'test-secret';
+});
+
+describe('password hashing', () => {
+  it('should verify the original password only', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+    expect(await verifyPassword('correct horse', 'plain-text')).toBe(false);
+  });
+});
+
+describe('session tokens', () => {
+  it('should round-trip the session user', async () => {
+    const token = await createSessionToken(manager);
+
+    expect(await verifySessionToken(token)).toEqual(manager);
+  });
+
+  it('should reject tampered, expired and unsigned tokens', async () => {
+    const token = await createSessionToken(manager, new Date('2025-03-01T10:00:00Z'));
+    const [body, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...manager, role: 'admin', exp: 9999999999 }))
+      .toString('base64url');
+
+    expect(await verifySessionToken(`${forged}.${signature}`)).toBeNull();
+    expect(await verifySessionToken(`${body}.${signature}`, new Date('2025-03-01T19:00:00Z'))).toBeNull();
+
+    delete process.env.AUTH_SECRET;
+    expect(await verifySessionToken(token, new Date('2025-03-01T11:00:00Z'))).toBeNull();
+  });
+});
+
+describe('hasPermission', () => {
+  it('should limit viewers to reading', () => {
+    expect(hasPermission('viewer', 'reviews:read')).toBe(true);
+    expect(hasPermission('viewer', 'reviews:moderate')).toBe(false);
+    expect(hasPermission('manager', 'reviews:moderate')).toBe(true);
+    expect(hasPermission('manager', 'users:manage')).toBe(false);
+    expect(hasPermission('admin', 'users:manage')).toBe(true);
+  });
+});
+
+describe('isPropertyInScope', () => {
+  it('should allow every property for a null scope and only assigned ones otherwise', () => {
+    expect(isPropertyInScope(null, 'camden-loft')).toBe(true);
+    expect(isPropertyInScope(['camden-loft'], 'camden-loft')).toBe(true);
+    expect(isPropertyInScope(['camden-loft'], 'shoreditch-heights')).toBe(false);
+    expect(isPropertyInScope([], 'camden-loft')).toBe(false);
+  });
+
+  it('should only allow records without a property for a null scope', () => {
+    expect(isPropertyInScope(null, null)).toBe(true);
+    expect(isPropertyInScope(['camden-loft'], null)).toBe(false);
+  });
+});
+
+describe('middleware', () => {
+  const request = async (path: string, user?: SessionUser) => {
+    const headers = new Headers();
+    if (user) {
+      headers.set('cookie', `${SESSION_COOKIE}=${await createSessionToken(user)}`);
+    }
+    return new NextRequest(`http://localhost${path}`, { headers });
+  };
+
+  it('should redirect signed-out visitors to the sign-in page', async () => {
+    const response = await middleware(await request('/dashboard/moderation?x=1'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe(
+      'http://localhost/login?next=%2Fdashboard%2Fmoderation%3Fx%3D1'
+    );
+  });
+
+  it('should let signed-in users through to the dashboard', async () => {
+    const response = await middleware(await request('/dashboard', viewer));
+
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+  });
+
+  it('should protect sync endpoints by role', async () => {
+    expect((await middleware(await request('/api/reviews/hostaway/sync'))).status).toBe(401);
+    expect((await middleware(await request('/api/reviews/hostaway/sync', viewer))).status).toBe(403);
+
+    const allowed = await middleware(await request('/api/reviews/hostaway/sync', manager));
+    expect(allowed.headers.get('x-middleware-next')).toBe('1');
+
+    const exported = await middleware(await request('/api/reviews/export', viewer));
+    expect(exported.headers.get('x-middleware-next')).toBe('1');
+  });
+});
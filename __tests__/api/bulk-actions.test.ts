@@ -0,0 +1,90 @@
+/**
+ * Tests for Bulk Review Actions
+ *
+ * Validates the confirmation plan for each bulk action, its summary and
+ * shift-click range selection.
+ */
+
+import {
+  describeBulkAction,
+  getSelectionRange,
+  normalizeTag,
+  planBulkAction,
+} from '@/lib/bulk-actions';
+import type { ModerationStatus, Review } from '@/types';
+import { makeReview } from '../helpers/fixtures';
+
+const review = (id: string, moderationStatus: ModerationStatus, extra: Partial<Review> = {}): Review =>
+  makeReview(id, { moderationStatus, displayOnWebsite: moderationStatus === 'approved', ...extra });
+
+const selection = [
+  review('1', 'new'),
+  review('2', 'approved', { tags: ['maintenance'], assignedTo: 'manager@flexliving.com' }),
+  review('3', 'rejected'),
+  review('4', 'hidden'),
+];
+
+describe('planBulkAction', () => {
+  it('should skip reviews that are already published or cannot be', () => {
+    const plan = planBulkAction(selection, { type: 'publish' });
+
+    expect(plan.reviewIds).toEqual(['1', '4']);
+    expect(plan.skipped).toEqual([
+      { reviewId: '2', reason: 'Already published' },
+      { reviewId: '3', reason: "Can't publish a rejected review" },
+    ]);
+  });
+
+  it('should only unpublish published reviews', () => {
+    expect(planBulkAction(selection, { type: 'unpublish' }).reviewIds).toEqual(['2']);
+  });
+
+  it('should skip reviews that already have the tag or assignee', () => {
+    expect(planBulkAction(selection, { type: 'tag', tag: ' Maintenance ' }).reviewIds).toEqual([
+      '1',
+      '3',
+      '4',
+    ]);
+    expect(
+      planBulkAction(selection, { type: 'assign', assignee: 'manager@flexliving.com' }).reviewIds
+    ).toEqual(['1', '3', '4']);
+    expect(planBulkAction(selection, { type: 'assign', assignee: null }).reviewIds).toEqual(['2']);
+  });
+
+  it('should delete every selected review', () => {
+    expect(planBulkAction(selection, { type: 'delete' }).skipped).toHaveLength(0);
+  });
+});
+
+describe('describeBulkAction', () => {
+  it('should summarize the action and skipped reviews', () => {
+    const publish = { type: 'publish' } as const;
+    const tag = { type: 'tag', tag: 'Noise  Complaint' } as const;
+
+    expect(describeBulkAction(publish, planBulkAction(selection, publish))).toBe(
+      'Publish 2 reviews (2 skipped)'
+    );
+    expect(describeBulkAction(tag, planBulkAction(selection.slice(0, 1), tag))).toBe(
+      'Tag 1 review "noise complaint"'
+    );
+  });
+});
+
+describe('normalizeTag', () => {
+  it('should lowercase and collapse whitespace', () => {
+    expect(normalizeTag('  Late   Check-in ')).toBe('late check-in');
+  });
+});
+
+describe('getSelectionRange', () => {
+  const ids = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should select from the anchor to the target in either direction', () => {
+    expect(getSelectionRange(ids, 'b', 'd')).toEqual(['b', 'c', 'd']);
+    expect(getSelectionRange(ids, 'e', 'c')).toEqual(['c', 'd', 'e']);
+  });
+
+  it('should select only the target if the anchor is no longer shown', () => {
+    expect(getSelectionRange(ids, 'z', 'c')).toEqual(['c']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Data Source Selection
+ *
+ * Validates REVIEWS_DATA_MODE handling and the provenance reported when
+ * falling back to mock data.
+ */
+
+import { getReviewsDataMode, loadWithFallback } from '@/lib/data-source';
+
+describe('Data Source Selection', () => {
+  const originalMode = process.env.REVIEWS_DATA_MODE;
+
+  afterEach(() => {
+    if (originalMode === undefined) {
+      delete process.env.REVIEWS_DATA_MODE;
+    } else {
+      process.env.REVIEWS_DATA_MODE = originalMode;
+    }
+  });
+
+  describe('getReviewsDataMode', () => {
+    it('should default to fallback mode', () => {
+      delete process.env.REVIEWS_DATA_MODE;
+      expect(getReviewsDataMode()).toBe('fallback');
+    });
+
+    it('should read the configured mode', () => {
+      process.env.REVIEWS_DATA_MODE = 'strict';
+      expect(getReviewsDataMode()).toBe('strict');
+    });
+
+    it('should treat unknown modes as strict', () => {
+      process.env.REVIEWS_DATA_MODE = 'mocks';
+      expect(getReviewsDataMode()).toBe('strict');
+    });
+  });
+
+  describe('loadWithFallback', () => {
+    const load = jest.fn();
+    const loadMock = jest.fn();
+
+    beforeEach(() => {
+      load.mockReset();
+      loadMock.mockReset().mockResolvedValue(['mock']);
+    });
+
+    it('should report the real source when loading succeeds', async () => {
+      delete process.env.REVIEWS_DATA_MODE;
+      load.mockResolvedValue(['real']);
+
+      const { data, provenance } = await loadWithFallback('database', load, loadMock);
+
+      expect(data).toEqual(['real']);
+      expect(provenance).toEqual({ source: 'database' });
+      expect(loadMock).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to mock data with a reason', async () => {
+      delete process.env.REVIEWS_DATA_MODE;
+      load.mockRejectedValue(new Error('Connection refused'));
+
+      const { data, provenance } = await loadWithFallback('database', load, loadMock);
+
+      expect(data).toEqual(['mock']);
+      expect(provenance.source).toBe('mock');
+      expect(provenance.fallbackReason).toContain('Connection refused');
+    });
+
+    it('should never use mock data in strict mode', async () => {
+      process.env.REVIEWS_DATA_MODE = 'strict';
+      load.mockRejectedValue(new Error('Connection refused'));
+
+      await expect(loadWithFallback('database', load, loadMock)).rejects.toThrow(
+        'Connection refused'
+      );
+      expect(loadMock).not.toHaveBeenCalled();
+    });
+
+    it('should skip the real source in mock mode', async () => {
+      process.env.REVIEWS_DATA_MODE = 'mock';
+
+      const { provenance } = await loadWithFallback('database', load, loadMock);
+
+      expect(provenance.source).toBe('mock');
+      expect(load).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for Review Export
+ *
+ * Validates CSV/JSON serialization, flattened category columns and the
+ * GET /api/reviews/export route, including manager property scoping.
+ */
+
+jest.mock('@/lib/db', () => ({
+  getReviewsMatching: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+  getPropertyScope: jest.fn(),
+}));
+
+import { GET } from '@/app/api/reviews/export/route';
+import { getReviewsMatching } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { exportReviews, getCategoryColumns } from '@/lib/export';
+import type { Review } from '@/types';
+import { makeReview } from '../helpers/fixtures';
+
+const reviews: Review[] = [
+  makeReview('hostaway-1', {
+    guestName: 'Jane Doe',
+    rating: 9.5,
+    rawRating: 9.5,
+    ratingScale: 10,
+    publicReview: 'Lovely, "spotless" flat\nwould stay again',
+    displayOnWebsite: true,
+    moderationStatus: 'approved',
+    categories: [
+      { category: 'communication', rating: 9 },
+      { category: 'cleanliness', rating: 10 },
+    ],
+  }),
+  makeReview('booking-2', {
+    propertyId: 'camden-loft',
+    guestName: '=HYPERLINK("x")',
+    rating: null,
+    publicReview: '-',
+    channel: 'booking',
+    categories: [{ category: 'cleanliness', rating: 6 }],
+    submittedAt: new Date('2025-02-01T10:00:00Z'),
+  }),
+];
+
+describe('exportReviews', () => {
+  it('should collect category columns alphabetically', () => {
+    expect(getCategoryColumns(reviews)).toEqual(['cleanliness', 'communication']);
+  });
+
+  it('should write CSV with flattened categories and escaped cells', () => {
+    const lines = exportReviews(reviews, 'csv').split('\r\n');
+
+    expect(lines[0]).toBe(
+      'id,propertyId,guestName,rating,rawRating,ratingScale,channel,reviewType,status,displayOnWebsite,moderationStatus,' +
+        'submittedAt,publicReview,cleanliness,communication'
+    );
+    expect(lines[1]).toBe(
+      'hostaway-1,shoreditch-heights,Jane Doe,9.5,9.5,10,airbnb,guest-to-host,published,true,approved,' +
+        '2025-03-01T10:00:00.000Z,"Lovely, ""spotless"" flat\nwould stay again",10,9'
+    );
+    expect(lines[2]).toBe(
+      'booking-2,camden-loft,"=HYPERLINK(""x"")",,,,booking,guest-to-host,published,false,new,' +
+        '2025-02-01T10:00:00.000Z,-,6,'
+    );
+  });
+
+  it('should add a byte order mark and neutralize formulas for Excel', () => {
+    const content = exportReviews(reviews, 'excel');
+
+    expect(content.charCodeAt(0)).toBe(0xfeff);
+    expect(content).toContain(`,"'=HYPERLINK(""x"")",`);
+    expect(content).toContain(`,'-,`);
+  });
+
+  it('should write JSON records with the same columns', () => {
+    const records = JSON.parse(exportReviews(reviews, 'json'));
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({
+      id: 'booking-2',
+      rating: null,
+      cleanliness: 6,
+      communication: null,
+    });
+  });
+});
+
+describe('GET /api/reviews/export', () => {
+  beforeEach(() => {
+    (getReviewsMatching as jest.Mock).mockReset().mockResolvedValue(reviews);
+    (getCurrentUser as jest.Mock).mockResolvedValue({
+      id: 'user-1',
+      email: 'admin@flexliving.com',
+      name: null,
+      role: 'admin',
+    });
+    (getPropertyScope as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should stream matching reviews with download headers', async () => {
+    const response = await GET(
+      new Request('http://localhost/api/reviews/export?format=json&channel=airbnb&sortBy=rating')
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('application/json');
+    expect(response.headers.get('Content-Disposition')).toMatch(/attachment; filename="reviews-.*\.json"/);
+    expect(JSON.parse(await response.text())).toHaveLength(2);
+    expect(getReviewsMatching).toHaveBeenCalledWith(
+      { channel: 'airbnb' },
+      { field: 'rating', direction: 'desc' }
+    );
+  });
+
+  it('should only export the assigned properties of a manager', async () => {
+    (getPropertyScope as jest.Mock).mockResolvedValue(['camden-loft']);
+
+    await GET(new Request('http://localhost/api/reviews/export?channel=booking'));
+
+    expect(getReviewsMatching).toHaveBeenCalledWith(
+      { channel: 'booking', propertyIds: ['camden-loft'] },
+      { field: 'submittedAt', direction: 'desc' }
+    );
+  });
+
+  it('should require a signed-in user', async () => {
+    (getCurrentUser as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(new Request('http://localhost/api/reviews/export'));
+
+    expect(response.status).toBe(401);
+    expect(getReviewsMatching).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown formats', async () => {
+    const response = await GET(new Request('http://localhost/api/reviews/export?format=xml'));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.message).toBe('Invalid format: xml');
+    expect(getReviewsMatching).not.toHaveBeenCalled();
+  });
+});
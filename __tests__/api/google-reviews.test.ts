@@ -0,0 +1,162 @@
+/**
+ * Tests for Google Places Reviews
+ *
+ * Validates normalization of Google reviews and fetching against a
+ * recorded Place Details response instead of the live API, and that
+ * GET /api/reviews/google only fetches places the user may see.
+ */
+
+jest.mock('@/lib/db', () => ({
+  getGooglePlaceMappings: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+  getPropertyScope: jest.fn(),
+}));
+
+import { GET } from '@/app/api/reviews/google/route';
+import { getGooglePlaceMappings } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { normalizeGoogleReview } from '@/lib/utils';
+import { fetchGoogleReviews } from '@/lib/google/places';
+import type { GooglePlaceDetailsResponse } from '@/types';
+import placeDetails from '../fixtures/google-place-details.json';
+
+const fixture = placeDetails as GooglePlaceDetailsResponse;
+const propertyId = '2b-n1-a-29-shoreditch-heights';
+
+describe('Google Places Reviews', () => {
+  describe('normalizeGoogleReview', () => {
+    const [first, second, withoutText] = fixture.reviews!;
+
+    it('should normalize review correctly', () => {
+      const normalized = normalizeGoogleReview(first, propertyId);
+
+      expect(normalized.id).toBe('google-ChZDSUhNMG9nS0VJQ0FnSUNsNjlyX1B3EAE');
+      expect(normalized.propertyId).toBe(propertyId);
+      expect(normalized.guestName).toBe('Priya Shah');
+      expect(normalized.publicReview).toContain('Spotless flat');
+      expect(normalized.channel).toBe('google');
+      expect(normalized.reviewType).toBe('guest-to-host');
+      expect(normalized.status).toBe('published');
+      expect(normalized.displayOnWebsite).toBe(false);
+      expect(normalized.categories).toEqual([]);
+    });
+
+    it('should map the 1-5 rating to the 0-10 scale', () => {
+      expect(normalizeGoogleReview(first, propertyId).rating).toBe(10);
+      expect(normalizeGoogleReview(second, propertyId).rating).toBe(6);
+    });
+
+    it('should convert publishTime to a Date', () => {
+      const normalized = normalizeGoogleReview(first, propertyId);
+      expect(normalized.submittedAt).toEqual(new Date('2025-08-15T10:30:00Z'));
+    });
+
+    it('should handle reviews without text', () => {
+      expect(normalizeGoogleReview(withoutText, propertyId).publicReview).toBe('');
+    });
+
+    it('should reject reviews with an invalid publish time', () => {
+      expect(() =>
+        normalizeGoogleReview({ ...first, publishTime: 'last week' }, propertyId)
+      ).toThrow('publishTime');
+    });
+  });
+
+  describe('fetchGoogleReviews', () => {
+    const originalKey = process.env.GOOGLE_API_KEY;
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      process.env.GOOGLE_API_KEY = 'test-key';
+      fetchSpy = jest.spyOn(global, 'fetch');
+    });
+
+    afterEach(() => {
+      process.env.GOOGLE_API_KEY = originalKey;
+      fetchSpy.mockRestore();
+    });
+
+    it('should fetch and normalize reviews for each mapped place', async () => {
+      fetchSpy.mockResolvedValue(new Response(JSON.stringify(fixture), { status: 200 }));
+
+      const { reviews, fetched, errors } = await fetchGoogleReviews([
+        { propertyId, placeId: fixture.id },
+      ]);
+
+      expect(fetched).toBe(3);
+      expect(reviews).toHaveLength(3);
+      expect(errors).toEqual([]);
+
+      const [url, init] = fetchSpy.mock.calls[0];
+      expect(url).toContain(`/places/${fixture.id}`);
+      expect(init.headers['X-Goog-Api-Key']).toBe('test-key');
+      expect(init.headers['X-Goog-FieldMask']).toContain('reviews');
+    });
+
+    it('should record failures per place and continue', async () => {
+      fetchSpy
+        .mockResolvedValueOnce(new Response('{}', { status: 404, statusText: 'Not Found' }))
+        .mockResolvedValueOnce(new Response(JSON.stringify(fixture), { status: 200 }));
+
+      const { reviews, errors } = await fetchGoogleReviews([
+        { propertyId: 'missing-property', placeId: 'bad-place' },
+        { propertyId, placeId: fixture.id },
+      ]);
+
+      expect(reviews).toHaveLength(3);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('missing-property');
+    });
+  });
+
+  describe('GET /api/reviews/google', () => {
+    const originalKey = process.env.GOOGLE_API_KEY;
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      process.env.GOOGLE_API_KEY = 'test-key';
+      fetchSpy = jest
+        .spyOn(global, 'fetch')
+        .mockImplementation(async () => new Response(JSON.stringify(fixture), { status: 200 }));
+      (getGooglePlaceMappings as jest.Mock).mockReset().mockResolvedValue([
+        { propertyId, placeId: fixture.id },
+        { propertyId: 'camden-loft', placeId: 'camden-place' },
+      ]);
+      (getCurrentUser as jest.Mock).mockResolvedValue({
+        id: 'user-2',
+        email: 'manager@flexliving.com',
+        name: null,
+        role: 'manager',
+      });
+      (getPropertyScope as jest.Mock).mockResolvedValue(['camden-loft']);
+    });
+
+    afterEach(() => {
+      process.env.GOOGLE_API_KEY = originalKey;
+      fetchSpy.mockRestore();
+    });
+
+    it('should only fetch the assigned properties of a manager', async () => {
+      const response = await GET(new Request('http://localhost/api/reviews/google'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy.mock.calls[0][0]).toContain('/places/camden-place');
+      expect(body.result.every((review: { propertyId: string }) => review.propertyId === 'camden-loft')).toBe(true);
+    });
+
+    it('should require a signed-in user before calling Google', async () => {
+      (getCurrentUser as jest.Mock).mockResolvedValue(null);
+
+      const response = await GET(new Request('http://localhost/api/reviews/google'));
+
+      expect(response.status).toBe(401);
+      expect(getGooglePlaceMappings).not.toHaveBeenCalled();
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
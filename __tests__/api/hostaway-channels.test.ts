@@ -0,0 +1,118 @@
+/**
+ * Tests for Hostaway Channels
+ *
+ * Validates mapping Hostaway channel IDs and names to channel slugs,
+ * HOSTAWAY_CHANNEL_MAP overrides, normalization and the channel backfill.
+ */
+
+import {
+  formatChannel,
+  getChannelMap,
+  resolveHostawayChannel,
+} from '@/lib/hostaway/channels';
+import { backfillHostawayChannels } from '@/lib/hostaway/sync';
+import { fetchHostawayReviews } from '@/lib/hostaway/reviews';
+import { backfillReviewChannels } from '@/lib/db';
+import { normalizeHostawayReview } from '@/lib/utils';
+import type { HostawayReview } from '@/types';
+import { makeHostawayReview } from '../helpers/fixtures';
+
+jest.mock('@/lib/hostaway/reviews', () => ({
+  fetchHostawayReviews: jest.fn(),
+}));
+
+jest.mock('@/lib/db', () => ({
+  backfillReviewChannels: jest.fn(),
+}));
+
+const mockFetch = fetchHostawayReviews as jest.MockedFunction<typeof fetchHostawayReviews>;
+const mockBackfill = backfillReviewChannels as jest.MockedFunction<typeof backfillReviewChannels>;
+
+const raw = (id: number, extra: Partial<HostawayReview> = {}): HostawayReview =>
+  makeHostawayReview({ id, listingMapId: 155613, ...extra });
+
+describe('resolveHostawayChannel', () => {
+  afterEach(() => {
+    delete process.env.HOSTAWAY_CHANNEL_MAP;
+  });
+
+  it('should map channel IDs before channel names', () => {
+    expect(resolveHostawayChannel(2018, 'bookingcom')).toBe('airbnb');
+    expect(resolveHostawayChannel(2005, null)).toBe('booking');
+    expect(resolveHostawayChannel(null, 'Booking.com')).toBe('booking');
+    expect(resolveHostawayChannel(9999, 'HomeAway')).toBe('vrbo');
+  });
+
+  it('should fall back to the name, then to hostaway', () => {
+    expect(resolveHostawayChannel(9999, 'Marriott Homes')).toBe('marriott-homes');
+    expect(resolveHostawayChannel(9999, null)).toBe('hostaway');
+    expect(resolveHostawayChannel(undefined, undefined)).toBe('hostaway');
+    expect(resolveHostawayChannel(null, 'constructor')).toBe('constructor');
+  });
+
+  it('should apply HOSTAWAY_CHANNEL_MAP overrides', () => {
+    process.env.HOSTAWAY_CHANNEL_MAP = JSON.stringify({ 2022: 'Google', 'Partner Site': 'direct' });
+
+    expect(resolveHostawayChannel(2022, null)).toBe('google');
+    expect(resolveHostawayChannel(null, 'partner_site')).toBe('direct');
+    expect(resolveHostawayChannel(2018, null)).toBe('airbnb');
+  });
+
+  it('should ignore an invalid HOSTAWAY_CHANNEL_MAP', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.HOSTAWAY_CHANNEL_MAP = '["airbnb"]';
+
+    expect(getChannelMap()['2018']).toBe('airbnb');
+    expect(warn).toHaveBeenCalledWith('Ignoring HOSTAWAY_CHANNEL_MAP: expected a JSON object');
+    warn.mockRestore();
+  });
+});
+
+describe('formatChannel', () => {
+  it('should use display names where known', () => {
+    expect(formatChannel('booking')).toBe('Booking.com');
+    expect(formatChannel('marriott')).toBe('Marriott');
+  });
+});
+
+describe('normalizeHostawayReview', () => {
+  it('should derive the channel and keep the source channel', () => {
+    const review = normalizeHostawayReview(raw(1, { channelId: 2005, channelName: 'bookingcom' }));
+
+    expect(review.channel).toBe('booking');
+    expect(review.sourceChannelId).toBe(2005);
+    expect(review.sourceChannelName).toBe('bookingcom');
+  });
+
+  it('should keep reviews without a channel on hostaway', () => {
+    const review = normalizeHostawayReview(raw(1));
+
+    expect(review.channel).toBe('hostaway');
+    expect(review.sourceChannelId).toBeNull();
+  });
+});
+
+describe('backfillHostawayChannels', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockBackfill.mockReset().mockResolvedValue({ updated: 2, unchanged: 0, unresolved: 1 });
+  });
+
+  it('should pass the Hostaway channel of every fetched review to the database', async () => {
+    mockFetch.mockResolvedValue([
+      raw(1, { channelId: 2018 }),
+      raw(2, { channelName: 'bookingcom' }),
+      raw(3),
+    ]);
+
+    const result = await backfillHostawayChannels();
+
+    expect(result).toEqual({ updated: 2, unchanged: 0, unresolved: 1 });
+    expect(mockBackfill).toHaveBeenCalledWith(
+      new Map([
+        ['1', { channelId: 2018, channelName: null }],
+        ['2', { channelId: null, channelName: 'bookingcom' }],
+      ])
+    );
+  });
+});
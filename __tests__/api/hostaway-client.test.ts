@@ -0,0 +1,106 @@
+/**
+ * Tests for Hostaway API Client
+ *
+ * Runs the client against a local stub of the Hostaway API to validate
+ * token exchange, caching, refresh on 401 and retry behaviour.
+ */
+
+import {
+  hostawayRequest,
+  getHostawayAccessToken,
+  clearHostawayTokenCache,
+} from '@/lib/hostaway/client';
+import { startHostawayStub, type HostawayStub } from '../helpers/hostaway-stub';
+
+describe('Hostaway API client', () => {
+  let stub: HostawayStub;
+  const originalEnv = process.env;
+
+  const tokenRequests = () => stub.requests.filter((r) => r.path === '/v1/accessTokens');
+
+  beforeEach(async () => {
+    clearHostawayTokenCache();
+    stub = await startHostawayStub([]);
+    process.env = {
+      ...originalEnv,
+      HOSTAWAY_ACCOUNT_ID: '12345',
+      HOSTAWAY_API_KEY: 'test-key',
+      HOSTAWAY_API_URL: stub.url,
+    };
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await stub.close();
+  });
+
+  describe('getHostawayAccessToken', () => {
+    it('should exchange client credentials for a token', async () => {
+      const token = await getHostawayAccessToken();
+
+      expect(token).toBe('token-1');
+      expect(tokenRequests()).toHaveLength(1);
+      expect(tokenRequests()[0].headers['content-type']).toBe(
+        'application/x-www-form-urlencoded'
+      );
+    });
+
+    it('should cache the token until it expires', async () => {
+      await getHostawayAccessToken();
+      await getHostawayAccessToken();
+
+      expect(tokenRequests()).toHaveLength(1);
+    });
+
+    it('should throw when credentials are missing', async () => {
+      delete process.env.HOSTAWAY_ACCOUNT_ID;
+
+      await expect(getHostawayAccessToken()).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('hostawayRequest', () => {
+    it('should send the access token as a bearer token', async () => {
+      await hostawayRequest('/reviews');
+
+      const reviewRequest = stub.requests.find((r) => r.path === '/v1/reviews');
+      expect(reviewRequest?.headers.authorization).toBe('Bearer token-1');
+    });
+
+    it('should refresh the token once when it is rejected', async () => {
+      await hostawayRequest('/reviews');
+      stub.revokeTokens();
+
+      const data = await hostawayRequest<{ status: string }>('/reviews');
+
+      expect(data.status).toBe('success');
+      expect(tokenRequests()).toHaveLength(2);
+    });
+
+    it('should retry on 429 and 5xx responses', async () => {
+      await getHostawayAccessToken();
+      stub.failNext(429);
+      stub.failNext(503);
+
+      const data = await hostawayRequest<{ status: string }>('/reviews', { retryDelayMs: 1 });
+
+      expect(data.status).toBe('success');
+      expect(stub.requests.filter((r) => r.path === '/v1/reviews')).toHaveLength(3);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      await getHostawayAccessToken();
+      stub.failNext(500, 3);
+
+      await expect(
+        hostawayRequest('/reviews', { retries: 2, retryDelayMs: 1 })
+      ).rejects.toThrow('500');
+    });
+
+    it('should not retry client errors', async () => {
+      await expect(hostawayRequest('/unknown', { retryDelayMs: 1 })).rejects.toThrow('404');
+
+      expect(stub.requests.filter((r) => r.path === '/v1/unknown')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for Hostaway Reviews Fetching
+ *
+ * Runs fetchHostawayReviews against a local stub of the Hostaway API to
+ * validate pagination and incremental fetching.
+ */
+
+import { fetchHostawayReviews } from '@/lib/hostaway/reviews';
+import { clearHostawayTokenCache, getHostawayAccessToken } from '@/lib/hostaway/client';
+import { startHostawayStub, type HostawayStub } from '../helpers/hostaway-stub';
+import { makeHostawayReview } from '../helpers/fixtures';
+
+// 25 reviews, one per day in August 2025
+const reviews = Array.from({ length: 25 }, (_, i) =>
+  makeHostawayReview({
+    id: 1000 + i,
+    submittedAt: `2025-08-${String(i + 1).padStart(2, '0')} 12:00:00`,
+  })
+);
+
+describe('fetchHostawayReviews', () => {
+  let stub: HostawayStub;
+  const originalEnv = process.env;
+
+  const reviewRequests = () => stub.requests.filter((r) => r.path === '/v1/reviews');
+
+  beforeEach(async () => {
+    clearHostawayTokenCache();
+    stub = await startHostawayStub(reviews);
+    process.env = {
+      ...originalEnv,
+      HOSTAWAY_ACCOUNT_ID: '12345',
+      HOSTAWAY_API_KEY: 'test-key',
+      HOSTAWAY_API_URL: stub.url,
+    };
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await stub.close();
+  });
+
+  it('should fetch every page', async () => {
+    const result = await fetchHostawayReviews({ pageSize: 10 });
+
+    expect(result).toHaveLength(25);
+    expect(new Set(result.map((r) => r.id)).size).toBe(25);
+    expect(reviewRequests()).toHaveLength(3);
+    expect(reviewRequests()[1].url).toContain('offset=10');
+  });
+
+  it('should only return reviews submitted at or after the cursor', async () => {
+    const since = new Date('2025-08-20T12:00:00');
+    const result = await fetchHostawayReviews({ pageSize: 3, since });
+
+    // The review at the cursor comes again, with any others submitted at the same time
+    expect(result.map((r) => r.id).sort()).toEqual([1019, 1020, 1021, 1022, 1023, 1024]);
+  });
+
+  it('should stop paging once it reaches reviews older than the cursor', async () => {
+    const since = new Date('2025-08-23T12:00:00');
+    await fetchHostawayReviews({ pageSize: 5, since });
+
+    expect(reviewRequests()).toHaveLength(2);
+    expect(reviewRequests()[0].url).toContain('sortBy=submittedAt&sortOrder=desc');
+  });
+
+  it('should return nothing when credentials are missing', async () => {
+    delete process.env.HOSTAWAY_API_KEY;
+
+    const result = await fetchHostawayReviews();
+
+    expect(result).toEqual([]);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('should throw when the API responds with an error', async () => {
+    await getHostawayAccessToken();
+    stub.failNext(400);
+
+    await expect(fetchHostawayReviews()).rejects.toThrow('400');
+  });
+});
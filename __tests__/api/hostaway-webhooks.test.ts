@@ -0,0 +1,228 @@
+/**
+ * Tests for the Hostaway Webhook Receiver
+ *
+ * Validates authentication, idempotency on event ID, recording failed
+ * deliveries and replaying them, for POST /api/webhooks/hostaway.
+ */
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}));
+
+jest.mock('@/lib/db', () => ({
+  getWebhookEvent: jest.fn(),
+  getWebhookEventById: jest.fn(),
+  findHostawayReviewPropertyId: jest.fn(),
+  getReviewPropertyIds: jest.fn(),
+  quarantineReviews: jest.fn(),
+  recordWebhookEvent: jest.fn(),
+  releaseQuarantinedReviews: jest.fn(),
+  saveReviewsToDb: jest.fn(),
+}));
+
+import { POST } from '@/app/api/webhooks/hostaway/route';
+import { replayHostawayWebhook, verifyHostawayWebhookAuth } from '@/lib/hostaway/webhooks';
+import {
+  getWebhookEvent,
+  getWebhookEventById,
+  findHostawayReviewPropertyId,
+  getReviewPropertyIds,
+  quarantineReviews,
+  recordWebhookEvent,
+  releaseQuarantinedReviews,
+  saveReviewsToDb,
+} from '@/lib/db';
+import { makeHostawayReview, makeWebhookEvent } from '../helpers/fixtures';
+
+const mockGetEvent = getWebhookEvent as jest.Mock;
+const mockGetEventById = getWebhookEventById as jest.Mock;
+const mockRecord = recordWebhookEvent as jest.Mock;
+const mockSave = saveReviewsToDb as jest.Mock;
+const mockFindProperty = findHostawayReviewPropertyId as jest.Mock;
+const mockReviewProperties = getReviewPropertyIds as jest.Mock;
+const mockQuarantine = quarantineReviews as jest.Mock;
+const mockRelease = releaseQuarantinedReviews as jest.Mock;
+
+const review = makeHostawayReview({ channelId: 2018 });
+
+const deliver = (body: unknown, headers: Record<string, string> = { 'X-Webhook-Secret': 'shh' }) =>
+  POST(
+    new Request('http://localhost/api/webhooks/hostaway', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+  );
+
+beforeEach(() => {
+  process.env.HOSTAWAY_WEBHOOK_SECRET = 'shh';
+  mockGetEvent.mockReset().mockResolvedValue(null);
+  mockGetEventById.mockReset();
+  mockRecord.mockReset().mockImplementation(async delivery => makeWebhookEvent(delivery));
+  mockSave.mockReset().mockResolvedValue({ inserted: 1, updated: 0, unchanged: 0 });
+  mockFindProperty.mockReset().mockResolvedValue(null);
+  mockReviewProperties.mockReset().mockResolvedValue(['shoreditch-heights']);
+  mockQuarantine.mockReset().mockResolvedValue(1);
+  mockRelease.mockReset().mockResolvedValue(0);
+});
+
+afterEach(() => {
+  delete process.env.HOSTAWAY_WEBHOOK_SECRET;
+  delete process.env.HOSTAWAY_WEBHOOK_LOGIN;
+  delete process.env.HOSTAWAY_WEBHOOK_PASSWORD;
+});
+
+describe('verifyHostawayWebhookAuth', () => {
+  it('should accept the shared secret or basic auth', () => {
+    process.env.HOSTAWAY_WEBHOOK_LOGIN = 'hostaway';
+    process.env.HOSTAWAY_WEBHOOK_PASSWORD = 'p4ss';
+    const basic = (credentials: string) =>
+      new Headers({ Authorization: `Basic ${Buffer.from(credentials).toString('base64')}` });
+
+    expect(verifyHostawayWebhookAuth(new Headers({ 'X-Webhook-Secret': 'shh' }))).toBe(true);
+    expect(verifyHostawayWebhookAuth(basic('hostaway:p4ss'))).toBe(true);
+    expect(verifyHostawayWebhookAuth(basic('hostaway:wrong'))).toBe(false);
+    expect(verifyHostawayWebhookAuth(new Headers({ 'X-Webhook-Secret': 'nope' }))).toBe(false);
+    expect(verifyHostawayWebhookAuth(new Headers())).toBe(false);
+  });
+});
+
+describe('POST /api/webhooks/hostaway', () => {
+  it('should refuse deliveries until credentials are configured', async () => {
+    delete process.env.HOSTAWAY_WEBHOOK_SECRET;
+
+    expect((await deliver({ event: 'review.created', data: review })).status).toBe(503);
+  });
+
+  it('should reject wrong credentials', async () => {
+    const response = await deliver({ event: 'review.created', data: review }, { 'X-Webhook-Secret': 'nope' });
+
+    expect(response.status).toBe(401);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid bodies', async () => {
+    expect((await deliver('not json')).status).toBe(400);
+    expect((await deliver({ event: 'review.updated' })).status).toBe(400);
+  });
+
+  it('should normalize and save the review', async () => {
+    const response = await deliver({ event: 'review.created', eventId: 'evt-1', data: review });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.result).toEqual({ eventId: 'evt-1', status: 'processed', reviewId: '7453' });
+    expect(mockSave).toHaveBeenCalledWith([
+      expect.objectContaining({ id: '7453', channel: 'airbnb', rating: 9, rawRating: 9, ratingScale: 10 }),
+    ]);
+    expect(mockRecord).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: 'hostaway',
+        eventId: 'evt-1',
+        status: 'processed',
+        reviewId: '7453',
+        propertyId: 'shoreditch-heights',
+      })
+    );
+    expect(mockRelease).toHaveBeenCalledWith('hostaway', ['7453']);
+  });
+
+  it('should quarantine invalid reviews and acknowledge the delivery', async () => {
+    const invalid = { ...review, listingName: '', submittedAt: 'yesterday' };
+
+    const response = await deliver({ event: 'review.created', eventId: 'evt-1', data: invalid });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.result).toEqual({
+      eventId: 'evt-1',
+      status: 'quarantined',
+      reviewId: '7453',
+      error: 'Listing name is required; Invalid date: yesterday',
+    });
+    expect(mockSave).not.toHaveBeenCalled();
+    expect(mockQuarantine).toHaveBeenCalledWith(
+      'hostaway',
+      [
+        {
+          sourceReviewId: '7453',
+          payload: JSON.stringify(invalid),
+          errors: [
+            { field: 'listingName', message: 'Listing name is required' },
+            { field: 'submittedAt', message: 'Invalid date: yesterday' },
+          ],
+          propertyId: null,
+        },
+      ],
+      null
+    );
+    expect(mockRecord).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: 'evt-1', status: 'processed', reviewId: '7453' })
+    );
+  });
+
+  it('should skip events that were already processed', async () => {
+    mockGetEvent.mockResolvedValue(makeWebhookEvent({ status: 'processed' }));
+
+    const response = await deliver(
+      { event: 'review.created', data: review },
+      { 'X-Webhook-Secret': 'shh', 'X-Hostaway-Event-Id': 'evt-1' }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.result.status).toBe('duplicate');
+    expect(mockGetEvent).toHaveBeenCalledWith('hostaway', 'evt-1');
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should identify events without an ID by their body', async () => {
+    await deliver({ event: 'review.updated', data: review });
+
+    expect(mockGetEvent.mock.calls[0][1]).toMatch(/^sha256-[0-9a-f]{64}$/);
+  });
+
+  it('should acknowledge other events without storing them', async () => {
+    const response = await deliver({ event: 'reservation.created', data: {} });
+    const data = await response.json();
+
+    expect(data.result.status).toBe('ignored');
+    expect(mockRecord).not.toHaveBeenCalled();
+  });
+
+  it('should record failed deliveries for replay with their property', async () => {
+    mockFindProperty.mockResolvedValue('shoreditch-heights');
+    mockSave.mockRejectedValue(new Error('Database unavailable'));
+
+    const response = await deliver({ event: 'review.created', eventId: 'evt-1', data: review });
+
+    expect(response.status).toBe(500);
+    expect(mockFindProperty).toHaveBeenCalledWith(review);
+    expect(mockRecord).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventId: 'evt-1',
+        status: 'failed',
+        error: 'Database unavailable',
+        propertyId: 'shoreditch-heights',
+      })
+    );
+  });
+});
+
+describe('replayHostawayWebhook', () => {
+  it('should process the stored body again', async () => {
+    mockGetEventById.mockResolvedValue(makeWebhookEvent());
+
+    const result = await replayHostawayWebhook('wh-1');
+
+    expect(result).toEqual({ eventId: 'evt-1', status: 'processed', reviewId: '7453' });
+    expect(mockSave).toHaveBeenCalledWith([expect.objectContaining({ id: '7453' })]);
+  });
+
+  it('should refuse to replay processed events', async () => {
+    mockGetEventById.mockResolvedValue(makeWebhookEvent({ status: 'processed' }));
+
+    await expect(replayHostawayWebhook('wh-1')).rejects.toThrow('already processed');
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tests for Review Import
+ *
+ * Validates CSV/JSON parsing, column mapping suggestions and per-row
+ * validation of imported reviews.
+ */
+
+import {
+  parseCsv,
+  parseImportFile,
+  suggestColumnMapping,
+  normalizeImportRows,
+  parseImportDate,
+} from '@/lib/import';
+import type { ImportOptions } from '@/types';
+
+const BOOKING_CSV = [
+  'Review ID,Property Name,Guest,Score,Comment,Date,Cleanliness',
+  'B-1,2B N1 A - 29 Shoreditch Heights,Jane Doe,9,"Great flat, lovely host",2025-03-01,10',
+  'B-2,2B N1 A - 29 Shoreditch Heights,John Smith,11,Too noisy,2025-03-02,6',
+  'B-3,,Ana,8,"Said ""wow""",not a date,',
+].join('\r\n');
+
+const options = (overrides: Partial<ImportOptions> = {}): ImportOptions => ({
+  mapping: {
+    id: 'Review ID',
+    propertyId: 'Property Name',
+    guestName: 'Guest',
+    rating: 'Score',
+    publicReview: 'Comment',
+    submittedAt: 'Date',
+  },
+  categoryColumns: ['Cleanliness'],
+  defaultChannel: 'booking',
+  ratingScale: 10,
+  ...overrides,
+});
+
+const properties = [
+  {
+    id: '2b-n1-a-29-shoreditch-heights',
+    name: '2B N1 A - 29 Shoreditch Heights',
+    slug: '2b-n1-a-29-shoreditch-heights',
+  },
+  { id: 'camden-loft', name: 'Camden Loft', slug: 'camden-loft' },
+];
+
+describe('parseCsv', () => {
+  it('should handle quoted cells, escaped quotes and embedded newlines', () => {
+    const rows = parseCsv('a,b\n"x, y","say ""hi""\nthere"\n\n');
+
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('should strip a byte order mark', () => {
+    expect(parseCsv('﻿id\n1')).toEqual([['id'], ['1']]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('should key CSV rows by header', () => {
+    const { columns, rows } = parseImportFile(BOOKING_CSV, 'csv');
+
+    expect(columns).toEqual([
+      'Review ID',
+      'Property Name',
+      'Guest',
+      'Score',
+      'Comment',
+      'Date',
+      'Cleanliness',
+    ]);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]['Comment']).toBe('Great flat, lovely host');
+    expect(rows[2]['Comment']).toBe('Said "wow"');
+  });
+
+  it('should accept a JSON array or a result wrapper', () => {
+    const items = [{ id: 1, guestName: 'Jane', rating: null }];
+
+    expect(parseImportFile(JSON.stringify(items), 'json').rows).toEqual([
+      { id: '1', guestName: 'Jane', rating: '' },
+    ]);
+    expect(parseImportFile(JSON.stringify({ result: items }), 'json').columns).toEqual([
+      'id',
+      'guestName',
+      'rating',
+    ]);
+  });
+
+  it('should reject invalid files', () => {
+    expect(() => parseImportFile('', 'csv')).toThrow('CSV file is empty');
+    expect(() => parseImportFile('{oops', 'json')).toThrow('not valid JSON');
+    expect(() => parseImportFile('{"a":1}', 'json')).toThrow('array of reviews');
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('should match common column names', () => {
+    const mapping = suggestColumnMapping(['Review ID', 'Property Name', 'Guest', 'Score', 'Comment', 'Date']);
+
+    expect(mapping).toEqual(options().mapping);
+  });
+});
+
+describe('parseImportDate', () => {
+  it('should parse UK and ISO dates', () => {
+    expect(parseImportDate('01/03/2025')?.toISOString()).toBe('2025-03-01T00:00:00.000Z');
+    expect(parseImportDate('2025-03-01')).not.toBeNull();
+    expect(parseImportDate('31/02/2025')).toBeNull();
+  });
+});
+
+describe('normalizeImportRows', () => {
+  it('should normalize valid rows and report errors per row', () => {
+    const { rows } = parseImportFile(BOOKING_CSV, 'csv');
+    const { reviews, errors } = normalizeImportRows(rows, options());
+
+    expect(reviews).toHaveLength(1);
+    expect(reviews[0]).toMatchObject({
+      id: 'booking-B-1',
+      propertyId: '2b-n1-a-29-shoreditch-heights',
+      guestName: 'Jane Doe',
+      rating: 9,
+      channel: 'booking',
+      reviewType: 'guest-to-host',
+      status: 'published',
+      displayOnWebsite: false,
+      categories: [{ category: 'cleanliness', rating: 10 }],
+    });
+
+    expect(errors).toEqual([
+      { row: 2, field: 'rating', message: 'Rating must be a number from 0 to 10' },
+      { row: 3, field: 'propertyId', message: 'Property is required' },
+      { row: 3, field: 'submittedAt', message: 'Invalid date: not a date' },
+    ]);
+  });
+
+  it('should reject rows for properties outside the manager\'s scope', () => {
+    const { rows } = parseImportFile(BOOKING_CSV, 'csv');
+    const { reviews, errors } = normalizeImportRows(rows, options(), ['camden-loft'], properties);
+
+    expect(reviews).toHaveLength(0);
+    expect(errors[0]).toEqual({
+      row: 1,
+      field: 'propertyId',
+      message: 'Property 2B N1 A - 29 Shoreditch Heights is not assigned to you',
+    });
+  });
+
+  it('should reject rows that would move a review from a property outside the scope', () => {
+    const rows = parseImportFile(BOOKING_CSV, 'csv').rows.slice(0, 1);
+    const reviewProperties = new Map([['booking-B-1', 'camden-loft']]);
+    const { reviews, errors } = normalizeImportRows(
+      rows,
+      options(),
+      ['2b-n1-a-29-shoreditch-heights'],
+      properties,
+      reviewProperties
+    );
+
+    expect(reviews).toHaveLength(0);
+    expect(errors).toEqual([
+      { row: 1, field: 'id', message: 'Review B-1 belongs to a property not assigned to you' },
+    ]);
+
+    // Admins can move reviews between properties
+    expect(
+      normalizeImportRows(rows, options(), null, properties, reviewProperties).reviews
+    ).toHaveLength(1);
+  });
+
+  it('should import into an existing property by its old or new name', () => {
+    const renamed = [
+      { id: 'shoreditch-heights', name: 'Shoreditch Heights Loft', slug: 'shoreditch-heights-loft' },
+    ];
+    const importOptions = options({
+      mapping: { propertyId: 'Property', submittedAt: 'Date' },
+      categoryColumns: [],
+    });
+
+    const { reviews, errors } = normalizeImportRows(
+      [
+        { Property: 'Shoreditch Heights', Date: '2025-01-01' },
+        { Property: 'shoreditch heights loft', Date: '2025-01-02' },
+      ],
+      importOptions,
+      ['shoreditch-heights'],
+      renamed
+    );
+
+    expect(errors).toEqual([]);
+    expect(reviews.map((r) => r.propertyId)).toEqual(['shoreditch-heights', 'shoreditch-heights']);
+    // The property keeps its current name
+    expect(reviews[0].propertyName).toBeUndefined();
+  });
+
+  it('should only let admins import into new properties', () => {
+    const rows = [{ Property: 'Flat A', Date: '2025-01-01' }];
+    const importOptions = options({
+      mapping: { propertyId: 'Property', submittedAt: 'Date' },
+      categoryColumns: [],
+    });
+
+    expect(normalizeImportRows(rows, importOptions, ['flat-a'], properties).errors).toEqual([
+      { row: 1, field: 'propertyId', message: 'Unknown property: Flat A' },
+    ]);
+    expect(normalizeImportRows(rows, importOptions, null, properties).reviews[0]).toMatchObject({
+      propertyId: 'flat-a',
+      propertyName: 'Flat A',
+    });
+  });
+
+  it('should convert 5-point ratings to the 10-point scale', () => {
+    const rows = [{ Property: 'Flat A', Date: '2025-01-01', Stars: '4.5' }];
+    const { reviews } = normalizeImportRows(
+      rows,
+      options({
+        mapping: { propertyId: 'Property', submittedAt: 'Date', rating: 'Stars' },
+        categoryColumns: [],
+        ratingScale: 5,
+      })
+    );
+
+    expect(reviews[0].rating).toBe(9);
+  });
+
+  it('should generate stable IDs when no ID column is mapped', () => {
+    const rows = [{ Property: 'Flat A', Date: '2025-01-01', Guest: 'Jane Doe' }];
+    const importOptions = options({
+      mapping: { propertyId: 'Property', submittedAt: 'Date', guestName: 'Guest' },
+      categoryColumns: [],
+      defaultChannel: 'vrbo',
+    });
+
+    const first = normalizeImportRows(rows, importOptions).reviews[0];
+    const second = normalizeImportRows(rows, importOptions).reviews[0];
+
+    expect(first.id).toBe(second.id);
+    expect(first.id).toMatch(/^vrbo-flat-a-\d+-jane-doe$/);
+  });
+});
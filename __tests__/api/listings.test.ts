@@ -0,0 +1,22 @@
+/**
+ * Tests for Listing Metadata
+ *
+ * Validates matching listing names to hero images under public/properties/.
+ */
+
+import { findHeroImage } from '@/lib/listings';
+
+describe('findHeroImage', () => {
+  it('should match listing names to image files by slug', () => {
+    expect(findHeroImage('2B N1 A - 29 Shoreditch Heights')).toBe(
+      '/properties/2b N1 A 29 Shoreditch Heights.png'
+    );
+    expect(findHeroImage('Studio W1 C - 42 Westminster Court')).toBe(
+      '/properties/Studio W1 C 42 Westminster Court.png'
+    );
+  });
+
+  it('should return null when there is no image', () => {
+    expect(findHeroImage('Unknown Listing')).toBeNull();
+  });
+});
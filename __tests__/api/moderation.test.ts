@@ -0,0 +1,58 @@
+/**
+ * Tests for Review Moderation
+ *
+ * Validates the moderation state machine and rejection reason rules.
+ */
+
+import { getAllowedTransitions, validateModerationDecision } from '@/lib/moderation';
+import type { RejectionReason } from '@/types';
+
+describe('getAllowedTransitions', () => {
+  it('should let new reviews be queued or decided directly', () => {
+    expect(getAllowedTransitions('new')).toEqual(['pending', 'approved', 'rejected', 'hidden']);
+  });
+
+  it('should only reopen rejected reviews', () => {
+    expect(getAllowedTransitions('rejected')).toEqual(['pending']);
+  });
+});
+
+describe('validateModerationDecision', () => {
+  it('should accept allowed transitions', () => {
+    expect(validateModerationDecision('pending', { status: 'approved' })).toBeNull();
+    expect(validateModerationDecision('approved', { status: 'hidden' })).toBeNull();
+    expect(validateModerationDecision('hidden', { status: 'approved' })).toBeNull();
+  });
+
+  it('should reject transitions outside the state machine', () => {
+    expect(validateModerationDecision('rejected', { status: 'approved' })).toBe(
+      'Cannot change a review from rejected to approved'
+    );
+    expect(validateModerationDecision('pending', { status: 'new' })).toBe(
+      'Cannot change a review from pending to new'
+    );
+  });
+
+  it('should require a known reason to reject', () => {
+    expect(validateModerationDecision('new', { status: 'rejected' })).toBe(
+      'A reason is required to reject a review'
+    );
+    expect(
+      validateModerationDecision('new', { status: 'rejected', reason: 'rude' as RejectionReason })
+    ).toBe('Unknown rejection reason: rude');
+    expect(validateModerationDecision('new', { status: 'rejected', reason: 'spam' })).toBeNull();
+  });
+
+  it('should require a note when the reason is "other"', () => {
+    expect(
+      validateModerationDecision('pending', { status: 'rejected', reason: 'other', note: ' ' })
+    ).toBe('A note is required when the reason is "other"');
+    expect(
+      validateModerationDecision('pending', {
+        status: 'rejected',
+        reason: 'other',
+        note: 'Guest asked us to remove it',
+      })
+    ).toBeNull();
+  });
+});
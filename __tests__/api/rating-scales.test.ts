@@ -0,0 +1,134 @@
+/**
+ * Tests for Rating Scales
+ *
+ * Validates the per-channel scale registry, normalization to 0-10 and
+ * that the Hostaway, Google and import paths keep the source rating.
+ */
+
+import {
+  getDisplayRating,
+  getRatingScale,
+  HOSTAWAY_RATING_SCALE,
+  normalizeRating,
+  NORMALIZED_SCALE,
+} from '@/lib/rating-scales';
+import { normalizeGoogleReview, normalizeHostawayReview } from '@/lib/utils';
+import { normalizeImportRows } from '@/lib/import';
+import type { HostawayReview, ImportOptions, Review } from '@/types';
+import { makeHostawayReview } from '../helpers/fixtures';
+
+const raw = (extra: Partial<HostawayReview> = {}): HostawayReview =>
+  makeHostawayReview({ rating: null, ...extra });
+
+describe('getRatingScale', () => {
+  it('should know the scale of each channel', () => {
+    expect(getRatingScale('airbnb')).toEqual({ min: 1, max: 5 });
+    expect(getRatingScale('booking')).toEqual({ min: 1, max: 10 });
+    expect(getRatingScale('google')).toEqual({ min: 1, max: 5 });
+  });
+
+  it('should use 0-10 for other channels', () => {
+    expect(getRatingScale('hostaway')).toBe(NORMALIZED_SCALE);
+    expect(getRatingScale('toString')).toBe(NORMALIZED_SCALE);
+  });
+});
+
+describe('normalizeRating', () => {
+  it('should scale ratings proportionally to 0-10', () => {
+    expect(normalizeRating(4, { min: 1, max: 5 })).toEqual({ rating: 8, rawRating: 4, ratingScale: 5 });
+    expect(normalizeRating(4.3, { min: 1, max: 5 }).rating).toBe(8.6);
+    expect(normalizeRating(7, { min: 1, max: 10 }).rating).toBe(7);
+  });
+
+  it('should keep a missing rating missing', () => {
+    expect(normalizeRating(null, NORMALIZED_SCALE)).toEqual({ rating: null, rawRating: null, ratingScale: null });
+  });
+
+  it('should reject ratings outside the scale', () => {
+    expect(() => normalizeRating(9.5, { min: 1, max: 5 })).toThrow('Rating 9.5 is outside the 1-5 scale');
+    expect(() => normalizeRating(0, { min: 1, max: 5 })).toThrow();
+    expect(() => normalizeRating(NaN, NORMALIZED_SCALE)).toThrow();
+  });
+});
+
+describe('getDisplayRating', () => {
+  const review = { rating: 8, rawRating: 4, ratingScale: 5 } as Review;
+
+  it('should show the source rating in native mode', () => {
+    expect(getDisplayRating(review, 'native')).toEqual({ rating: 4, scale: 5 });
+    expect(getDisplayRating(review, 'normalized')).toEqual({ rating: 8, scale: 10 });
+  });
+
+  it('should fall back to the normalized rating without a source rating', () => {
+    expect(getDisplayRating({ rating: 8 } as Review, 'native')).toEqual({ rating: 8, scale: 10 });
+  });
+});
+
+describe('ingestion', () => {
+  it("should normalize Hostaway ratings on Hostaway's 0-10 scale, whatever the channel", () => {
+    expect(HOSTAWAY_RATING_SCALE).toEqual({ min: 0, max: 10 });
+    expect(normalizeHostawayReview(raw({ rating: 9.5, channelId: 2018 }))).toMatchObject({
+      channel: 'airbnb',
+      rating: 9.5,
+      rawRating: 9.5,
+      ratingScale: 10,
+    });
+    expect(normalizeHostawayReview(raw({ rating: 8.5, channelId: 2005 }))).toMatchObject({
+      rating: 8.5,
+      ratingScale: 10,
+    });
+  });
+
+  it('should use the 0-10 Hostaway categories when there is no overall rating', () => {
+    const review = normalizeHostawayReview(
+      raw({ channelId: 2018, reviewCategory: [{ category: 'cleanliness', rating: 9 }] })
+    );
+
+    expect(review).toMatchObject({ rating: 9, rawRating: 9, ratingScale: 10 });
+  });
+
+  it("should reject a Hostaway rating outside Hostaway's scale", () => {
+    expect(() => normalizeHostawayReview(raw({ rating: 11, channelId: 2018 }))).toThrow(
+      'outside the 0-10 scale'
+    );
+  });
+
+  it('should keep Google stars', () => {
+    const review = normalizeGoogleReview(
+      {
+        name: 'places/abc/reviews/r1',
+        relativePublishTimeDescription: 'a month ago',
+        rating: 3,
+        authorAttribution: { displayName: 'Sam' },
+        publishTime: '2025-03-01T10:00:00Z',
+      },
+      'shoreditch-heights'
+    );
+
+    expect(review).toMatchObject({ rating: 6, rawRating: 3, ratingScale: 5 });
+  });
+
+  it("should import ratings on each row's channel scale", () => {
+    const options: ImportOptions = {
+      mapping: { propertyId: 'Property', submittedAt: 'Date', rating: 'Score', channel: 'Channel' },
+      categoryColumns: [],
+      defaultChannel: 'booking',
+      ratingScale: 'channel',
+    };
+
+    const { reviews, errors } = normalizeImportRows(
+      [
+        { Property: 'Camden Loft', Date: '2025-03-01', Score: '4', Channel: 'airbnb' },
+        { Property: 'Camden Loft', Date: '2025-03-02', Score: '7', Channel: '' },
+        { Property: 'Camden Loft', Date: '2025-03-03', Score: '7', Channel: 'vrbo' },
+      ],
+      options
+    );
+
+    expect(reviews.map(r => [r.channel, r.rating, r.rawRating, r.ratingScale])).toEqual([
+      ['airbnb', 8, 4, 5],
+      ['booking', 7, 7, 10],
+    ]);
+    expect(errors).toEqual([{ row: 3, field: 'rating', message: 'Rating must be a number from 1 to 5' }]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for Review Quarantine
+ *
+ * Validates that raw Hostaway reviews are checked before normalizing,
+ * and that quarantined reviews can be fixed and re-ingested or discarded.
+ */
+
+import {
+  getQuarantineId,
+  parseHostawayReview,
+  validateHostawayReview,
+} from '@/lib/hostaway/validation';
+import { discardHostawayReview, reingestHostawayReview } from '@/lib/hostaway/quarantine';
+import { normalizeHostawayReview } from '@/lib/utils';
+import {
+  findHostawayReviewPropertyId,
+  getQuarantinedReviewById,
+  getReviewPropertyMap,
+  resolveQuarantinedReview,
+  saveReviewsToDb,
+} from '@/lib/db';
+import { makeHostawayReview, makeQuarantinedReview } from '../helpers/fixtures';
+
+jest.mock('@/lib/db', () => ({
+  findHostawayReviewPropertyId: jest.fn(),
+  getQuarantinedReviewById: jest.fn(),
+  getReviewPropertyMap: jest.fn(),
+  resolveQuarantinedReview: jest.fn(),
+  saveReviewsToDb: jest.fn(),
+}));
+
+const mockFindProperty = findHostawayReviewPropertyId as jest.Mock;
+const mockGetById = getQuarantinedReviewById as jest.Mock;
+const mockGetReviewProperties = getReviewPropertyMap as jest.Mock;
+const mockResolve = resolveQuarantinedReview as jest.Mock;
+const mockSave = saveReviewsToDb as jest.Mock;
+
+const review = makeHostawayReview({
+  channelId: 2018,
+  reviewCategory: [{ category: 'cleanliness', rating: 10 }],
+});
+
+describe('validateHostawayReview', () => {
+  it('should accept a valid review', () => {
+    expect(validateHostawayReview(review)).toEqual([]);
+    expect(validateHostawayReview({ ...review, rating: null, channelId: undefined })).toEqual([]);
+  });
+
+  it('should report every invalid field', () => {
+    const errors = validateHostawayReview({
+      ...review,
+      id: '7453',
+      type: 'guest-review',
+      listingName: ' - ',
+      submittedAt: '',
+      guestName: 42,
+    });
+
+    expect(errors.map((error) => error.field)).toEqual([
+      'id',
+      'type',
+      'listingName',
+      'submittedAt',
+      'guestName',
+    ]);
+  });
+
+  it("should check the rating against Hostaway's 0-10 scale", () => {
+    // Hostaway gives Airbnb ratings out of 10 too
+    expect(validateHostawayReview({ ...review, rating: 9.5 })).toEqual([]);
+    expect(validateHostawayReview({ ...review, rating: 11 })).toEqual([
+      { field: 'rating', message: 'Rating must be a number from 0 to 10, got 11' },
+    ]);
+  });
+
+  it('should check category ratings are 0-10', () => {
+    const errors = validateHostawayReview({
+      ...review,
+      reviewCategory: [
+        { category: 'cleanliness', rating: 11 },
+        { category: 'communication', rating: null },
+        { rating: 8 },
+      ],
+    });
+
+    expect(errors).toEqual([
+      { field: 'reviewCategory', message: 'cleanliness rating must be a number from 0 to 10, got 11' },
+      { field: 'reviewCategory', message: 'Category 3 has no name' },
+    ]);
+  });
+
+  it('should reject anything that is not a review object', () => {
+    expect(validateHostawayReview(null)).toEqual([{ field: 'review', message: 'Review is not an object' }]);
+    expect(validateHostawayReview([review])).toHaveLength(1);
+  });
+});
+
+describe('parseHostawayReview', () => {
+  it('should normalize valid reviews', () => {
+    const { review: parsed, errors } = parseHostawayReview(review);
+
+    expect(errors).toEqual([]);
+    expect(parsed).toMatchObject({ id: '7453', channel: 'airbnb', rating: 9, ratingScale: 10 });
+  });
+
+  it('should return the errors instead of a review', () => {
+    expect(parseHostawayReview({ ...review, submittedAt: 'yesterday' })).toEqual({
+      review: null,
+      errors: [{ field: 'submittedAt', message: 'Invalid date: yesterday' }],
+    });
+  });
+});
+
+describe('normalizeHostawayReview', () => {
+  it('should refuse to make up a date', () => {
+    expect(() => normalizeHostawayReview({ ...review, submittedAt: 'yesterday' })).toThrow(
+      'Invalid submittedAt for review 7453: yesterday'
+    );
+  });
+});
+
+describe('getQuarantineId', () => {
+  it('should use the Hostaway ID, or a hash of the review without one', () => {
+    expect(getQuarantineId(review)).toBe('7453');
+
+    const id = getQuarantineId({ ...review, id: null });
+    expect(id).toMatch(/^sha256-[0-9a-f]{64}$/);
+    expect(getQuarantineId({ ...review, id: null })).toBe(id);
+  });
+});
+
+describe('reingestHostawayReview', () => {
+  const scope = ['shoreditch-heights'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockGetById.mockResolvedValue(makeQuarantinedReview());
+    mockFindProperty.mockResolvedValue('shoreditch-heights');
+    mockGetReviewProperties.mockResolvedValue(new Map());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should save the fixed review and take it out of quarantine', async () => {
+    const fixed = JSON.stringify(review);
+
+    const result = await reingestHostawayReview('q-1', fixed, 'manager@flexliving.com', scope);
+
+    expect(result).toEqual({ reviewId: '7453', errors: [] });
+    expect(mockSave).toHaveBeenCalledWith([expect.objectContaining({ id: '7453' })]);
+    expect(mockResolve).toHaveBeenCalledWith('q-1', {
+      status: 'reingested',
+      resolvedBy: 'manager@flexliving.com',
+      fixedPayload: fixed,
+    });
+  });
+
+  it('should keep it quarantined while it is still invalid', async () => {
+    const result = await reingestHostawayReview(
+      'q-1',
+      makeQuarantinedReview().payload,
+      'manager@flexliving.com',
+      scope
+    );
+
+    expect(result.reviewId).toBeNull();
+    expect(result.errors).toEqual([{ field: 'submittedAt', message: 'Invalid date: yesterday' }]);
+    expect(mockSave).not.toHaveBeenCalled();
+    expect(mockResolve).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid JSON and a changed review ID', async () => {
+    const badJson = await reingestHostawayReview('q-1', '{"id": 7453,', 'manager@flexliving.com', scope);
+    const changedId = await reingestHostawayReview(
+      'q-1',
+      JSON.stringify({ ...review, id: 9999 }),
+      'manager@flexliving.com',
+      scope
+    );
+
+    expect(badJson.errors[0].message).toMatch(/^Invalid JSON/);
+    expect(changedId.errors).toEqual([{ field: 'id', message: 'Review ID must stay 7453' }]);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should refuse reviews that are no longer quarantined', async () => {
+    mockGetById.mockResolvedValue(makeQuarantinedReview({ status: 'discarded' }));
+
+    await expect(
+      reingestHostawayReview('q-1', JSON.stringify(review), 'manager@flexliving.com', scope)
+    ).rejects.toThrow('Review 7453 was already discarded');
+  });
+
+  it("should refuse reviews of another manager's property", async () => {
+    mockGetById.mockResolvedValue(makeQuarantinedReview({ propertyId: 'camden-loft' }));
+
+    await expect(
+      reingestHostawayReview('q-1', JSON.stringify(review), 'manager@flexliving.com', scope)
+    ).rejects.toThrow('Quarantined review q-1 not found');
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should leave reviews without a known property to admins', async () => {
+    mockGetById.mockResolvedValue(makeQuarantinedReview({ propertyId: null }));
+
+    await expect(
+      reingestHostawayReview('q-1', JSON.stringify(review), 'manager@flexliving.com', scope)
+    ).rejects.toThrow('not found');
+    await expect(
+      reingestHostawayReview('q-1', JSON.stringify(review), 'admin@flexliving.com', null)
+    ).resolves.toEqual({ reviewId: '7453', errors: [] });
+  });
+
+  it('should not let a fix move the review to another property', async () => {
+    mockFindProperty.mockResolvedValue('camden-loft');
+
+    const result = await reingestHostawayReview(
+      'q-1',
+      JSON.stringify({ ...review, listingName: 'Camden Loft' }),
+      'manager@flexliving.com',
+      scope
+    );
+
+    expect(result.errors).toEqual([
+      { field: 'listingName', message: 'The listing is not one of your properties' },
+    ]);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should not let a fixed placeholder ID take over a review of another property', async () => {
+    mockGetById.mockResolvedValue(makeQuarantinedReview({ sourceReviewId: 'sha256-abc' }));
+    mockGetReviewProperties.mockResolvedValue(new Map([['8000', 'camden-loft']]));
+
+    const result = await reingestHostawayReview(
+      'q-1',
+      JSON.stringify({ ...review, id: 8000 }),
+      'manager@flexliving.com',
+      scope
+    );
+
+    expect(mockGetReviewProperties).toHaveBeenCalledWith(['8000']);
+    expect(result.errors).toEqual([
+      { field: 'id', message: 'Review 8000 belongs to a property not assigned to you' },
+    ]);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+});
+
+describe('discardHostawayReview', () => {
+  it('should discard quarantined reviews without saving them', async () => {
+    jest.clearAllMocks();
+    mockGetById.mockResolvedValue(makeQuarantinedReview());
+    mockResolve.mockResolvedValue(makeQuarantinedReview({ status: 'discarded' }));
+
+    await discardHostawayReview('q-1', 'manager@flexliving.com', ['shoreditch-heights']);
+
+    expect(mockResolve).toHaveBeenCalledWith('q-1', {
+      status: 'discarded',
+      resolvedBy: 'manager@flexliving.com',
+    });
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for Review Query Parsing
+ *
+ * Validates conversion of GET /api/reviews query parameters into
+ * filters, sort options and pagination, and the route's manager
+ * property scoping.
+ */
+
+jest.mock('@/lib/db', () => ({
+  getReviewsPage: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  getCurrentUser: jest.fn(),
+  getPropertyScope: jest.fn(),
+}));
+
+import { GET } from '@/app/api/reviews/route';
+import { getReviewsPage } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { parseReviewQuery, DEFAULT_PAGE_SIZE } from '@/lib/review-query';
+
+const parse = (query: string) => parseReviewQuery(new URLSearchParams(query));
+
+describe('parseReviewQuery', () => {
+  it('should apply defaults when no parameters are given', () => {
+    const query = parse('');
+
+    expect(query.filters).toEqual({});
+    expect(query.sort).toEqual({ field: 'submittedAt', direction: 'desc' });
+    expect(query.pagination).toEqual({ page: 1, pageSize: DEFAULT_PAGE_SIZE });
+  });
+
+  it('should parse every filter', () => {
+    const query = parse(
+      'propertyId=2b-n1-a-29-shoreditch-heights&channel=airbnb&status=published' +
+        '&reviewType=guest-to-host&minRating=7&maxRating=9.5' +
+        '&dateFrom=2025-01-01&dateTo=2025-06-30&displayOnWebsite=true&needsReapproval=true' +
+        '&search=%20wifi%20'
+    );
+
+    expect(query.filters).toEqual({
+      propertyId: '2b-n1-a-29-shoreditch-heights',
+      channel: 'airbnb',
+      status: 'published',
+      reviewType: 'guest-to-host',
+      minRating: 7,
+      maxRating: 9.5,
+      dateFrom: new Date('2025-01-01'),
+      dateTo: new Date('2025-06-30T23:59:59.999Z'),
+      displayOnWebsite: true,
+      needsReapproval: true,
+      search: 'wifi',
+    });
+  });
+
+  it('should keep the time of a dateTo that has one', () => {
+    expect(parse('dateTo=2025-06-30T12:00:00Z').filters.dateTo).toEqual(
+      new Date('2025-06-30T12:00:00Z')
+    );
+  });
+
+  it('should parse sort and pagination', () => {
+    const query = parse('sortBy=rating&sortDirection=asc&page=3&pageSize=50');
+
+    expect(query.sort).toEqual({ field: 'rating', direction: 'asc' });
+    expect(query.pagination).toEqual({ page: 3, pageSize: 50 });
+  });
+
+  it('should parse category rating filters', () => {
+    const query = parse('category=cleanliness&categoryMaxRating=6.9');
+
+    expect(query.filters).toEqual({ category: 'cleanliness', categoryMaxRating: 6.9 });
+  });
+
+  it('should parse a moderation status list', () => {
+    const query = parse('moderationStatus=new,pending');
+
+    expect(query.filters).toEqual({ moderationStatus: ['new', 'pending'] });
+  });
+
+  it.each([
+    ['reviewType=everyone', 'reviewType'],
+    ['categoryMaxRating=7', 'category'],
+    ['minRating=high', 'minRating'],
+    ['dateFrom=yesterday', 'dateFrom'],
+    ['displayOnWebsite=yes', 'displayOnWebsite'],
+    ['needsReapproval=1', 'needsReapproval'],
+    ['moderationStatus=new,deleted', 'moderationStatus'],
+    ['sortBy=propertyId', 'sortBy'],
+    ['sortDirection=up', 'sortDirection'],
+    ['page=0', 'page'],
+    ['pageSize=500', 'pageSize'],
+  ])('should reject %s', (queryString, name) => {
+    expect(() => parse(queryString)).toThrow(name);
+  });
+});
+
+describe('GET /api/reviews', () => {
+  const page = {
+    data: [],
+    pagination: { currentPage: 1, pageSize: DEFAULT_PAGE_SIZE, totalItems: 0, totalPages: 0 },
+  };
+
+  beforeEach(() => {
+    (getReviewsPage as jest.Mock).mockReset().mockResolvedValue(page);
+    (getCurrentUser as jest.Mock).mockResolvedValue({
+      id: 'user-1',
+      email: 'admin@flexliving.com',
+      name: null,
+      role: 'admin',
+    });
+    (getPropertyScope as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should list matching reviews', async () => {
+    const response = await GET(new Request('http://localhost/api/reviews?channel=airbnb'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.result).toEqual(page);
+    expect(getReviewsPage).toHaveBeenCalledWith(
+      { channel: 'airbnb' },
+      { field: 'submittedAt', direction: 'desc' },
+      { page: 1, pageSize: DEFAULT_PAGE_SIZE }
+    );
+  });
+
+  it('should only list the assigned properties of a manager', async () => {
+    (getPropertyScope as jest.Mock).mockResolvedValue(['camden-loft']);
+
+    await GET(new Request('http://localhost/api/reviews?channel=airbnb'));
+
+    expect((getReviewsPage as jest.Mock).mock.calls[0][0]).toEqual({
+      channel: 'airbnb',
+      propertyIds: ['camden-loft'],
+    });
+  });
+
+  it('should require a signed-in user', async () => {
+    (getCurrentUser as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(new Request('http://localhost/api/reviews'));
+
+    expect(response.status).toBe(401);
+    expect(getReviewsPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for Review Responses
+ *
+ * Runs the Hostaway reply push against a local stub of the Hostaway API
+ * and validates how replies are described in the audit log.
+ */
+
+import { pushHostawayReviewResponse } from '@/lib/hostaway/responses';
+import { clearHostawayTokenCache } from '@/lib/hostaway/client';
+import { isHostawayReviewId } from '@/lib/utils';
+import { describeAuditEvent } from '@/lib/audit';
+import type { AuditEvent } from '@/types';
+import { makeHostawayReview } from '../helpers/fixtures';
+import { startHostawayStub, type HostawayStub } from '../helpers/hostaway-stub';
+
+const review = makeHostawayReview({ guestName: 'Shane Finkelstein' });
+
+describe('isHostawayReviewId', () => {
+  it('should only accept numeric Hostaway review IDs', () => {
+    expect(isHostawayReviewId('7453')).toBe(true);
+    expect(isHostawayReviewId('google-abc123')).toBe(false);
+    expect(isHostawayReviewId('airbnb-42')).toBe(false);
+  });
+});
+
+describe('pushHostawayReviewResponse', () => {
+  let stub: HostawayStub;
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    clearHostawayTokenCache();
+    stub = await startHostawayStub([review]);
+    process.env = {
+      ...originalEnv,
+      HOSTAWAY_ACCOUNT_ID: '12345',
+      HOSTAWAY_API_KEY: 'test-key',
+      HOSTAWAY_API_URL: stub.url,
+    };
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await stub.close();
+  });
+
+  it('should post the reply to the Hostaway review', async () => {
+    await pushHostawayReviewResponse('7453', 'Thank you, Shane!');
+
+    const put = stub.requests.find((r) => r.method === 'PUT');
+    expect(put?.path).toBe('/v1/reviews/7453');
+    expect(stub.responses['7453']).toBe('Thank you, Shane!');
+  });
+
+  it('should refuse reviews that did not come from Hostaway', async () => {
+    await expect(pushHostawayReviewResponse('google-abc123', 'Thanks!')).rejects.toThrow(
+      'did not come from Hostaway'
+    );
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('should throw when Hostaway rejects the reply', async () => {
+    await expect(pushHostawayReviewResponse('9999', 'Thanks!')).rejects.toThrow('status 404');
+  });
+});
+
+describe('describeAuditEvent for replies', () => {
+  const event = (before: Record<string, unknown> | null, after: Record<string, unknown>): AuditEvent => ({
+    id: 'event-1',
+    actor: 'manager@flexliving.com',
+    action: 'respond',
+    reviewId: '7453',
+    before,
+    after,
+    createdAt: new Date('2025-03-02T09:00:00Z'),
+  });
+
+  it('should describe new and changed replies', () => {
+    expect(describeAuditEvent(event(null, { status: 'draft' }))).toBe('Reply saved as draft');
+    expect(describeAuditEvent(event({ status: 'draft' }, { status: 'published' }))).toBe(
+      'Reply draft → published'
+    );
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for Review Edit Diffs
+ *
+ * Validates the word diff shown to managers when a guest edits a
+ * review. Storing revisions is covered by save-reviews.test.ts.
+ */
+
+import { diffWords } from '@/lib/text-diff';
+import type { TextDiffPart } from '@/types';
+
+const join = (parts: TextDiffPart[], skip: TextDiffPart['type']) =>
+  parts.filter(p => p.type !== skip).map(p => p.text).join('');
+
+describe('diffWords', () => {
+  it('should mark added and removed words', () => {
+    expect(diffWords('The flat was clean and quiet', 'The flat was dirty and quiet')).toEqual([
+      { type: 'same', text: 'The flat was ' },
+      { type: 'removed', text: 'clean' },
+      { type: 'added', text: 'dirty' },
+      { type: 'same', text: ' and quiet' },
+    ]);
+  });
+
+  it('should rebuild both versions from the parts', () => {
+    const before = 'Great location.\nHost replied quickly.';
+    const after = 'Great location, but noisy at night.\nHost replied quickly!';
+    const parts = diffWords(before, after);
+
+    expect(join(parts, 'added')).toBe(before);
+    expect(join(parts, 'removed')).toBe(after);
+  });
+
+  it('should return a single part for identical or empty texts', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ type: 'same', text: 'Same text' }]);
+    expect(diffWords('', 'New review')).toEqual([{ type: 'added', text: 'New review' }]);
+  });
+});
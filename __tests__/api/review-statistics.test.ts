@@ -0,0 +1,133 @@
+/**
+ * Tests for Dashboard Review Pages and Statistics
+ *
+ * Validates the in-memory filtering, paging and statistics used with
+ * mock data, and runs getReviewStatistics against a local Postgres
+ * database when TEST_DATABASE_URL is set, checking both agree:
+ *
+ *   npm run test:db -- review-statistics
+ */
+
+import { calculateReviewStatistics, getMockReviewsPage } from '@/lib/mock-data';
+import { filterReviews } from '@/lib/utils';
+import type { Review } from '@/types';
+import { makeReview } from '../helpers/fixtures';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+const reviews: Review[] = [
+  makeReview('1', {
+    rating: 9,
+    displayOnWebsite: true,
+    moderationStatus: 'approved',
+    categories: [{ category: 'cleanliness', rating: 10 }],
+    submittedAt: new Date('2025-03-08T10:00:00Z'),
+  }),
+  makeReview('2', {
+    rating: 6,
+    channel: 'booking',
+    publicReview: 'The wifi kept dropping',
+    categories: [{ category: 'cleanliness', rating: 5 }],
+    submittedAt: new Date('2025-02-01T10:00:00Z'),
+  }),
+  makeReview('3', {
+    rating: null,
+    reviewType: 'host-to-guest',
+    needsReapproval: true,
+    submittedAt: new Date('2025-01-15T10:00:00Z'),
+  }),
+];
+
+describe('filterReviews', () => {
+  it('should match like the database query', () => {
+    const ids = (matching: Review[]) => matching.map(r => r.id);
+
+    expect(ids(filterReviews(reviews, { minRating: 7 }))).toEqual(['1']);
+    expect(ids(filterReviews(reviews, { search: 'WIFI' }))).toEqual(['2']);
+    expect(ids(filterReviews(reviews, { reviewType: 'guest-to-host' }))).toEqual(['1', '2']);
+    expect(ids(filterReviews(reviews, { needsReapproval: true }))).toEqual(['3']);
+    expect(
+      ids(filterReviews(reviews, { category: 'cleanliness', categoryMaxRating: 6.9 }))
+    ).toEqual(['2']);
+    expect(ids(filterReviews(reviews, { dateFrom: new Date('2025-02-01') }))).toEqual(['1', '2']);
+  });
+});
+
+describe('getMockReviewsPage', () => {
+  it('should sort and page the matching reviews', () => {
+    const page = getMockReviewsPage(
+      reviews,
+      { reviewType: 'all' },
+      { field: 'rating', direction: 'desc' },
+      { page: 2, pageSize: 2 }
+    );
+
+    expect(page.data.map(r => r.id)).toEqual(['3']);
+    expect(page.pagination).toEqual({ currentPage: 2, pageSize: 2, totalItems: 3, totalPages: 2 });
+  });
+});
+
+describe('calculateReviewStatistics', () => {
+  it('should count and average the reviews', () => {
+    expect(calculateReviewStatistics(reviews, now)).toEqual({
+      totalReviews: 3,
+      averageRating: 7.5,
+      reviewsByChannel: { airbnb: 2, booking: 1 },
+      reviewsByType: { 'guest-to-host': 2, 'host-to-guest': 1 },
+      selectedForWebsite: 1,
+      categoryAverages: { cleanliness: 7.5 },
+      recentReviews: 1,
+    });
+  });
+});
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+describeWithDatabase('getReviewStatistics (Postgres)', () => {
+  let db: typeof import('@/lib/db');
+  let prisma: typeof import('@/lib/prisma').prisma;
+
+  // Submitted relative to now, as the database counts recent reviews from the current time
+  const recent = reviews.map((review, index) => ({
+    ...review,
+    submittedAt: new Date(Date.now() - (index * 20 + 1) * 24 * 60 * 60 * 1000),
+  }));
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = databaseUrl;
+    db = await import('@/lib/db');
+    ({ prisma } = await import('@/lib/prisma'));
+  });
+
+  beforeEach(async () => {
+    await prisma.auditEvent.deleteMany();
+    await prisma.review.deleteMany();
+    await prisma.property.deleteMany();
+    await db.saveReviewsToDb(recent);
+    await prisma.review.update({ where: { id: '3' }, data: { needsReapproval: true } });
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('should agree with the statistics calculated in memory', async () => {
+    expect(await db.getReviewStatistics({})).toEqual(calculateReviewStatistics(recent));
+    expect(await db.getReviewStatistics({ channel: 'booking' })).toEqual(
+      calculateReviewStatistics(filterReviews(recent, { channel: 'booking' }))
+    );
+  });
+
+  it('should count reviews and list filter options', async () => {
+    expect(await db.countReviews({ needsReapproval: true })).toBe(1);
+    expect(await db.getReviewFilterOptions(['other-property'])).toEqual({
+      channels: [],
+      categories: [],
+    });
+    expect(await db.getReviewFilterOptions()).toEqual({
+      channels: ['airbnb', 'booking'],
+      categories: ['cleanliness'],
+    });
+  });
+});
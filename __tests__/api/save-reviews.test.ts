@@ -0,0 +1,165 @@
+/**
+ * Tests for Saving Reviews
+ *
+ * Validates review content hashing, and runs saveReviewsToDb against a
+ * local Postgres database when TEST_DATABASE_URL is set. `npm run test:db`
+ * migrates the database and sets it (its reviews and properties are
+ * deleted):
+ *
+ *   npm run test:db -- save-reviews
+ */
+
+import { computeReviewContentHash } from '@/lib/review-hash';
+import type { Review } from '@/types';
+import { makeReview } from '../helpers/fixtures';
+
+const review = (id: string, extra: Partial<Review> = {}): Review =>
+  makeReview(id, {
+    guestName: 'Jane Doe',
+    publicReview: 'Lovely flat, would stay again.',
+    categories: [
+      { category: 'cleanliness', rating: 10 },
+      { category: 'communication', rating: 9 },
+    ],
+    listingMapId: 155613,
+    ...extra,
+  });
+
+describe('computeReviewContentHash', () => {
+  it('should ignore category order and manager-owned fields', () => {
+    const hash = computeReviewContentHash(review('1'));
+
+    expect(
+      computeReviewContentHash(
+        review('1', {
+          categories: [
+            { category: 'communication', rating: 9 },
+            { category: 'cleanliness', rating: 10 },
+          ],
+          moderationStatus: 'approved',
+          displayOnWebsite: true,
+          tags: ['maintenance'],
+        })
+      )
+    ).toBe(hash);
+  });
+
+  it('should change when source fields change', () => {
+    const hash = computeReviewContentHash(review('1'));
+
+    expect(computeReviewContentHash(review('1', { publicReview: 'Edited' }))).not.toBe(hash);
+    expect(computeReviewContentHash(review('1', { rating: 8 }))).not.toBe(hash);
+    expect(computeReviewContentHash(review('1', { sourceChannelId: 2018 }))).not.toBe(hash);
+    expect(computeReviewContentHash(review('1', { sourceChannelName: 'Airbnb' }))).not.toBe(hash);
+    expect(computeReviewContentHash(review('1', { rawRating: 9, ratingScale: 10 }))).not.toBe(
+      computeReviewContentHash(review('1', { rawRating: 4.5, ratingScale: 5 }))
+    );
+    expect(
+      computeReviewContentHash(review('1', { categories: [{ category: 'cleanliness', rating: 10 }] }))
+    ).not.toBe(hash);
+  });
+});
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+describeWithDatabase('saveReviewsToDb (Postgres)', () => {
+  let db: typeof import('@/lib/db');
+  let prisma: typeof import('@/lib/prisma').prisma;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = databaseUrl;
+    db = await import('@/lib/db');
+    ({ prisma } = await import('@/lib/prisma'));
+  });
+
+  beforeEach(async () => {
+    await prisma.auditEvent.deleteMany();
+    await prisma.review.deleteMany();
+    await prisma.property.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('should insert new reviews with their properties and category ratings', async () => {
+    const result = await db.saveReviewsToDb([review('1'), review('2')]);
+
+    expect(result).toEqual({ inserted: 2, updated: 0, unchanged: 0 });
+    expect(await prisma.property.count()).toBe(1);
+    expect(await prisma.reviewCategoryRating.count({ where: { reviewId: '1' } })).toBe(2);
+  });
+
+  it('should skip unchanged reviews and update changed ones', async () => {
+    await db.saveReviewsToDb([review('1'), review('2')]);
+    await db.moderateReview('2', { status: 'approved' }, 'manager@flexliving.com');
+
+    const result = await db.saveReviewsToDb([
+      review('1'),
+      review('2', { publicReview: 'Edited by the guest', categories: [{ category: 'value', rating: 8 }] }),
+      review('3'),
+    ]);
+
+    expect(result).toEqual({ inserted: 1, updated: 1, unchanged: 1 });
+
+    const updated = await db.getReviewById('2');
+    expect(updated?.publicReview).toBe('Edited by the guest');
+    expect(updated?.categories).toEqual([{ category: 'value', rating: 8 }]);
+    // Moderation belongs to managers and survives re-syncs
+    expect(updated?.moderationStatus).toBe('approved');
+  });
+
+  it('should keep the previous version and flag approved reviews whose text changed', async () => {
+    await db.saveReviewsToDb([review('1'), review('2')]);
+    await db.moderateReview('1', { status: 'approved' }, 'manager@flexliving.com');
+
+    await db.saveReviewsToDb([
+      review('1', { publicReview: 'Edited after approval' }),
+      review('2', { publicReview: 'Edited before moderation' }),
+    ]);
+
+    const revisions = await db.getReviewRevisions('1');
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].publicReview).toBe('Lovely flat, would stay again.');
+    expect(revisions[0].categories).toHaveLength(2);
+
+    expect((await db.getReviewById('1'))?.needsReapproval).toBe(true);
+    expect((await db.getReviewById('2'))?.needsReapproval).toBe(false);
+
+    const reapproved = await db.reapproveReview('1', 'manager@flexliving.com');
+    expect(reapproved.needsReapproval).toBe(false);
+    expect(reapproved.moderationStatus).toBe('approved');
+  });
+
+  it('should store a new rating scale without recording a revision', async () => {
+    await db.saveReviewsToDb([review('1', { rating: 10, rawRating: 5, ratingScale: 5 })]);
+
+    const result = await db.saveReviewsToDb([
+      review('1', { rating: 10, rawRating: 10, ratingScale: 10 }),
+    ]);
+
+    expect(result).toEqual({ inserted: 0, updated: 1, unchanged: 0 });
+    expect((await db.getReviewById('1'))?.ratingScale).toBe(10);
+    expect(await db.getReviewRevisions('1')).toEqual([]);
+  });
+
+  it('should keep the last copy of a review that appears twice', async () => {
+    const result = await db.saveReviewsToDb([
+      review('1', { publicReview: 'First copy' }),
+      review('1', { publicReview: 'Second copy' }),
+    ]);
+
+    expect(result.inserted).toBe(1);
+    expect((await db.getReviewById('1'))?.publicReview).toBe('Second copy');
+  });
+
+  it('should save nothing when any review fails', async () => {
+    await expect(
+      db.saveReviewsToDb([review('1'), review('2', { guestName: null as unknown as string })])
+    ).rejects.toThrow();
+
+    expect(await prisma.review.count()).toBe(0);
+    expect(await prisma.property.count()).toBe(0);
+  });
+});
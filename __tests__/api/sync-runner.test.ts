@@ -0,0 +1,319 @@
+/**
+ * Tests for Scheduled Syncing
+ *
+ * Validates cron expression parsing, that the sync runner skips sources
+ * another process holds the lock for, and that the scheduler runs syncs
+ * on its schedule. The locks themselves run against a local Postgres
+ * database when TEST_DATABASE_URL is set (see `npm run test:db`).
+ */
+
+import { getNextCronTime, parseCronExpression } from '@/lib/cron';
+import { getConfiguredSyncSources, runSyncs } from '@/lib/sync-runner';
+import { startSyncScheduler } from '@/lib/sync-scheduler';
+import { syncHostawayReviews } from '@/lib/hostaway/sync';
+import { syncGoogleReviews } from '@/lib/google/sync';
+import { withLock } from '@/lib/db';
+import { formatTimeAgo } from '@/lib/utils';
+import type { SyncResult } from '@/types';
+
+jest.mock('@/lib/hostaway/sync', () => ({
+  syncHostawayReviews: jest.fn(),
+}));
+
+jest.mock('@/lib/google/sync', () => ({
+  syncGoogleReviews: jest.fn(),
+}));
+
+jest.mock('@/lib/db', () => ({
+  withLock: jest.fn(),
+}));
+
+const mockSyncHostaway = syncHostawayReviews as jest.MockedFunction<typeof syncHostawayReviews>;
+const mockSyncGoogle = syncGoogleReviews as jest.MockedFunction<typeof syncGoogleReviews>;
+const mockLock = withLock as jest.Mock;
+
+const syncResult = (extra: Partial<SyncResult> = {}): SyncResult => ({
+  runId: 'run-1',
+  mode: 'incremental',
+  fetched: 3,
+  saved: 3,
+  inserted: 2,
+  updated: 1,
+  unchanged: 0,
+  failed: 0,
+  quarantined: 0,
+  errors: [],
+  cursor: null,
+  startedAt: new Date('2025-03-01T10:00:00Z'),
+  finishedAt: new Date('2025-03-01T10:00:05Z'),
+  ...extra,
+});
+
+// Runs fn as if the lock were free
+const lockSignal = new AbortController().signal;
+const lockAcquired = async (_name: string, fn: (signal: AbortSignal) => Promise<unknown>) => ({
+  acquired: true,
+  result: await fn(lockSignal),
+});
+
+const next = (expression: string, after: string) =>
+  getNextCronTime(parseCronExpression(expression), new Date(after)).toISOString();
+
+describe('parseCronExpression', () => {
+  it('should parse wildcards, ranges, lists and steps', () => {
+    const schedule = parseCronExpression('*/15 9-17 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('expected 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('minute "60" is outside 0-59');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('invalid step');
+    expect(() => parseCronExpression('a * * * *')).toThrow('invalid value');
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('should find the next matching minute after the given time', () => {
+    expect(next('*/15 * * * *', '2025-03-01T10:07:30Z')).toBe('2025-03-01T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2025-03-01T10:15:00Z')).toBe('2025-03-01T10:30:00.000Z');
+    expect(next('0 2 * * *', '2025-03-01T10:00:00Z')).toBe('2025-03-02T02:00:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    expect(next('0 0 1 * *', '2025-12-15T00:00:00Z')).toBe('2026-01-01T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2025-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2025-03-03 is a Monday, before the 15th
+    expect(next('0 0 15 * 1', '2025-03-01T00:00:00Z')).toBe('2025-03-03T00:00:00.000Z');
+  });
+
+  it('should reject schedules that never match', () => {
+    expect(() => next('0 0 31 2 *', '2025-01-01T00:00:00Z')).toThrow('never matches');
+  });
+});
+
+describe('runSyncs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLock.mockImplementation(lockAcquired);
+    process.env.HOSTAWAY_ACCOUNT_ID = '61148';
+    process.env.HOSTAWAY_API_KEY = 'test-key';
+    delete process.env.GOOGLE_API_KEY;
+  });
+
+  afterEach(() => {
+    delete process.env.HOSTAWAY_ACCOUNT_ID;
+    delete process.env.HOSTAWAY_API_KEY;
+  });
+
+  it('should sync only configured sources by default', async () => {
+    mockSyncHostaway.mockResolvedValue(syncResult());
+
+    const outcomes = await runSyncs();
+
+    expect(getConfiguredSyncSources()).toEqual(['hostaway']);
+    expect(outcomes).toEqual([{ source: 'hostaway', status: 'success', result: syncResult() }]);
+    expect(mockSyncHostaway).toHaveBeenCalledWith({ mode: 'incremental', signal: lockSignal });
+    expect(mockSyncGoogle).not.toHaveBeenCalled();
+  });
+
+  it('should hold a per-source lock while syncing', async () => {
+    mockSyncHostaway.mockResolvedValue(syncResult({ mode: 'full' }));
+
+    await runSyncs({ mode: 'full' });
+
+    expect(mockLock).toHaveBeenCalledWith('review-sync:hostaway', expect.any(Function), expect.any(Number));
+    // The sync stops if the lock is lost
+    expect(mockSyncHostaway).toHaveBeenCalledWith({ mode: 'full', signal: lockSignal });
+  });
+
+  it('should skip sources another process is syncing', async () => {
+    mockLock.mockResolvedValueOnce({ acquired: false });
+    mockSyncGoogle.mockResolvedValue(syncResult({ mode: 'full' }));
+
+    const outcomes = await runSyncs({ sources: ['hostaway', 'google'] });
+
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(['locked', 'success']);
+    expect(mockSyncHostaway).not.toHaveBeenCalled();
+  });
+
+  it('should keep syncing other sources when one fails', async () => {
+    mockSyncHostaway.mockRejectedValue(new Error('Hostaway API error: 503'));
+    mockSyncGoogle.mockResolvedValue(syncResult({ mode: 'full' }));
+
+    const outcomes = await runSyncs({ sources: ['hostaway', 'google'] });
+
+    expect(outcomes[0]).toEqual({ source: 'hostaway', status: 'failed', error: 'Hostaway API error: 503' });
+    expect(outcomes[1].status).toBe('success');
+  });
+});
+
+describe('startSyncScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-03-01T10:07:00Z'));
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockLock.mockImplementation(lockAcquired);
+    mockSyncHostaway.mockResolvedValue(syncResult());
+    process.env.HOSTAWAY_ACCOUNT_ID = '61148';
+    process.env.HOSTAWAY_API_KEY = 'test-key';
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    delete process.env.HOSTAWAY_ACCOUNT_ID;
+    delete process.env.HOSTAWAY_API_KEY;
+  });
+
+  it('should sync at each scheduled time until stopped', async () => {
+    const stop = startSyncScheduler('*/15 * * * *');
+
+    await jest.advanceTimersByTimeAsync(7 * 60 * 1000);
+    expect(mockSyncHostaway).not.toHaveBeenCalled();
+
+    // 10:15
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(mockSyncHostaway).toHaveBeenCalledTimes(1);
+
+    // 10:30
+    await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+    expect(mockSyncHostaway).toHaveBeenCalledTimes(2);
+
+    stop();
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(mockSyncHostaway).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not start a second scheduler for the same expression', async () => {
+    const stop = startSyncScheduler('0 * * * *');
+    startSyncScheduler('0 * * * *');
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(mockSyncHostaway).toHaveBeenCalledTimes(1);
+
+    stop();
+  });
+
+  it('should reject an invalid expression', () => {
+    expect(() => startSyncScheduler('every 5 minutes')).toThrow('Invalid cron expression');
+  });
+});
+
+describe('formatTimeAgo', () => {
+  const now = new Date('2025-03-01T10:00:00Z');
+
+  it('should format recent times relative to now', () => {
+    expect(formatTimeAgo(new Date('2025-03-01T09:59:30Z'), now)).toBe('just now');
+    expect(formatTimeAgo(new Date('2025-03-01T09:59:00Z'), now)).toBe('1 minute ago');
+    expect(formatTimeAgo(new Date('2025-03-01T09:55:00Z'), now)).toBe('5 minutes ago');
+    expect(formatTimeAgo('2025-03-01T07:00:00Z', now)).toBe('3 hours ago');
+    expect(formatTimeAgo(new Date('2025-02-27T10:00:00Z'), now)).toBe('2 days ago');
+  });
+});
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+const describeWithDatabase = databaseUrl ? describe : describe.skip;
+
+describeWithDatabase('withLock (Postgres)', () => {
+  let db: typeof import('@/lib/db');
+  let prisma: typeof import('@/lib/prisma').prisma;
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = databaseUrl;
+    db = jest.requireActual('@/lib/db');
+    ({ prisma } = await import('@/lib/prisma'));
+  });
+
+  beforeEach(async () => {
+    await prisma.lock.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('should let only one holder in and release the lock afterwards', async () => {
+    const outcome = await db.withLock(
+      'review-sync:test',
+      async () => {
+        // The database stays usable while the lock is held
+        const inner = await db.withLock('review-sync:test', async () => 'second', 60_000);
+        return { inner, reviews: await prisma.review.count() };
+      },
+      60_000
+    );
+
+    expect(outcome).toEqual({
+      acquired: true,
+      result: { inner: { acquired: false }, reviews: expect.any(Number) },
+    });
+    expect(await prisma.lock.count()).toBe(0);
+  });
+
+  it('should take over a lock whose lease expired', async () => {
+    await prisma.lock.create({
+      data: {
+        name: 'review-sync:test',
+        holder: 'dead-process',
+        expiresAt: new Date(Date.now() - 1000),
+      },
+    });
+
+    await expect(db.withLock('review-sync:test', async () => 'done', 60_000)).resolves.toEqual({
+      acquired: true,
+      result: 'done',
+    });
+  });
+
+  it('should release the lock when the work fails', async () => {
+    await expect(
+      db.withLock(
+        'review-sync:test',
+        async () => {
+          throw new Error('Hostaway API error: 503');
+        },
+        60_000
+      )
+    ).rejects.toThrow('503');
+    expect(await prisma.lock.count()).toBe(0);
+  });
+
+  it('should abort the work when its lease is taken over', async () => {
+    const outcome = await db.withLock(
+      'review-sync:test',
+      async (signal) => {
+        await prisma.lock.update({
+          where: { name: 'review-sync:test' },
+          data: { holder: 'other-process' },
+        });
+        // The lease is renewed every 100ms
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        return { aborted: signal.aborted, reason: (signal.reason as Error)?.message };
+      },
+      300
+    );
+
+    expect(outcome).toEqual({
+      acquired: true,
+      result: { aborted: true, reason: 'Lost lock review-sync:test: its lease expired' },
+    });
+    // The other process keeps its lock
+    expect(await prisma.lock.findUnique({ where: { name: 'review-sync:test' } })).toMatchObject({
+      holder: 'other-process',
+    });
+  });
+});
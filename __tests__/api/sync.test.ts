@@ -0,0 +1,243 @@
+/**
+ * Tests for Hostaway Review Sync
+ *
+ * Validates that syncHostawayReviews normalizes fetched reviews and
+ * hands them to the persistence layer, quarantining invalid ones.
+ */
+
+import { syncHostawayReviews } from '@/lib/hostaway/sync';
+import { fetchHostawayReviews } from '@/lib/hostaway/reviews';
+import { fetchHostawayListing } from '@/lib/hostaway/listings';
+import {
+  saveReviewsToDb,
+  createSyncRun,
+  completeSyncRun,
+  getLastSuccessfulSyncRun,
+  getListingsMissingMetadata,
+  updateListingMetadata,
+  quarantineReviews,
+  releaseQuarantinedReviews,
+  findHostawayReviewPropertyId,
+} from '@/lib/db';
+import type { HostawayReview } from '@/types';
+import { makeHostawayReview } from '../helpers/fixtures';
+
+jest.mock('@/lib/hostaway/reviews', () => ({
+  fetchHostawayReviews: jest.fn(),
+}));
+
+jest.mock('@/lib/hostaway/listings', () => ({
+  fetchHostawayListing: jest.fn(),
+}));
+
+jest.mock('@/lib/db', () => ({
+  saveReviewsToDb: jest.fn(),
+  createSyncRun: jest.fn(),
+  completeSyncRun: jest.fn(),
+  getLastSuccessfulSyncRun: jest.fn(),
+  getListingsMissingMetadata: jest.fn(),
+  updateListingMetadata: jest.fn(),
+  quarantineReviews: jest.fn(),
+  releaseQuarantinedReviews: jest.fn(),
+  findHostawayReviewPropertyId: jest.fn(),
+}));
+
+const mockFetch = fetchHostawayReviews as jest.MockedFunction<typeof fetchHostawayReviews>;
+const mockSave = saveReviewsToDb as jest.MockedFunction<typeof saveReviewsToDb>;
+const mockCreateRun = createSyncRun as jest.MockedFunction<typeof createSyncRun>;
+const mockCompleteRun = completeSyncRun as jest.MockedFunction<typeof completeSyncRun>;
+const mockLastRun = getLastSuccessfulSyncRun as jest.MockedFunction<
+  typeof getLastSuccessfulSyncRun
+>;
+const mockMissingMetadata = getListingsMissingMetadata as jest.MockedFunction<
+  typeof getListingsMissingMetadata
+>;
+const mockUpdateMetadata = updateListingMetadata as jest.MockedFunction<
+  typeof updateListingMetadata
+>;
+const mockFetchListing = fetchHostawayListing as jest.MockedFunction<typeof fetchHostawayListing>;
+const mockQuarantine = quarantineReviews as jest.MockedFunction<typeof quarantineReviews>;
+const mockRelease = releaseQuarantinedReviews as jest.MockedFunction<
+  typeof releaseQuarantinedReviews
+>;
+
+const run = {
+  id: 'run-1',
+  source: 'hostaway',
+  mode: 'incremental' as const,
+  status: 'running' as const,
+  fetched: 0,
+  saved: 0,
+  inserted: 0,
+  updated: 0,
+  unchanged: 0,
+  failed: 0,
+  quarantined: 0,
+  errors: [],
+  cursor: null,
+  startedAt: new Date('2025-09-01T00:00:00Z'),
+  finishedAt: null,
+};
+
+const rawReview = makeHostawayReview({
+  submittedAt: '2025-08-21 22:45:14',
+  reviewCategory: [{ category: 'cleanliness', rating: 9 }],
+  listingMapId: 155613,
+});
+
+describe('syncHostawayReviews', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateRun.mockResolvedValue(run);
+    mockCompleteRun.mockResolvedValue({ ...run, status: 'success', finishedAt: new Date() });
+    mockLastRun.mockResolvedValue(null);
+    mockMissingMetadata.mockResolvedValue([]);
+    mockSave.mockResolvedValue({ inserted: 1, updated: 0, unchanged: 0 });
+  });
+
+  it('should persist normalized reviews', async () => {
+    mockFetch.mockResolvedValue([rawReview]);
+
+    const result = await syncHostawayReviews();
+
+    expect(mockSave).toHaveBeenCalledTimes(1);
+    expect(mockSave.mock.calls[0][0][0]).toMatchObject({
+      id: '7453',
+      listingMapId: 155613,
+      propertyName: '2B N1 A - 29 Shoreditch Heights',
+    });
+    expect(result.fetched).toBe(1);
+    expect(result.saved).toBe(1);
+    expect(result.inserted).toBe(1);
+    expect(result.failed).toBe(0);
+    expect(mockCompleteRun).toHaveBeenCalledWith(
+      'run-1',
+      expect.objectContaining({ inserted: 1, updated: 0, unchanged: 0 })
+    );
+  });
+
+  it('should fetch metadata for listings that are missing it', async () => {
+    mockFetch.mockResolvedValue([rawReview]);
+    mockMissingMetadata.mockResolvedValue([155613, 155614]);
+    mockFetchListing
+      .mockResolvedValueOnce({
+        id: 155613,
+        name: '2B N1 A - 29 Shoreditch Heights',
+        address: '29 Shoreditch High St, London',
+        bedroomsNumber: 2,
+      })
+      .mockRejectedValueOnce(new Error('Hostaway API returned status 404'));
+
+    const result = await syncHostawayReviews();
+
+    expect(mockUpdateMetadata).toHaveBeenCalledTimes(1);
+    expect(mockUpdateMetadata).toHaveBeenCalledWith(155613, {
+      address: '29 Shoreditch High St, London',
+      bedrooms: 2,
+    });
+    // Listing metadata failures don't fail the review sync
+    expect(result.failed).toBe(0);
+  });
+
+  it('should quarantine reviews that fail validation', async () => {
+    (findHostawayReviewPropertyId as jest.Mock).mockImplementation(async (raw: HostawayReview) =>
+      raw.listingName ? '2b-n1-a-29-shoreditch-heights' : null
+    );
+    mockFetch.mockResolvedValue([
+      rawReview,
+      { ...rawReview, id: 7454, listingName: '' },
+      { ...rawReview, id: 7455, submittedAt: 'not a date' },
+    ]);
+
+    const result = await syncHostawayReviews();
+
+    expect(mockSave.mock.calls[0][0]).toHaveLength(1);
+    expect(result.saved).toBe(1);
+    expect(result.quarantined).toBe(2);
+    expect(result.failed).toBe(0);
+    expect(mockQuarantine).toHaveBeenCalledWith(
+      'hostaway',
+      [
+        expect.objectContaining({
+          sourceReviewId: '7454',
+          errors: [{ field: 'listingName', message: 'Listing name is required' }],
+          propertyId: null,
+        }),
+        expect.objectContaining({
+          sourceReviewId: '7455',
+          errors: [{ field: 'submittedAt', message: 'Invalid date: not a date' }],
+          propertyId: '2b-n1-a-29-shoreditch-heights',
+        }),
+      ],
+      'run-1'
+    );
+    expect(JSON.parse(mockQuarantine.mock.calls[0][1][1].payload)).toMatchObject({ id: 7455 });
+    expect(mockCompleteRun).toHaveBeenCalledWith('run-1', expect.objectContaining({ quarantined: 2 }));
+  });
+
+  it('should release quarantined reviews that are now valid', async () => {
+    mockFetch.mockResolvedValue([rawReview]);
+
+    await syncHostawayReviews();
+
+    expect(mockRelease).toHaveBeenCalledWith('hostaway', ['7453']);
+  });
+
+  it('should not touch the database when nothing is fetched', async () => {
+    mockFetch.mockResolvedValue([]);
+
+    const result = await syncHostawayReviews();
+
+    expect(mockSave).not.toHaveBeenCalled();
+    expect(result.fetched).toBe(0);
+  });
+
+  it('should resume from the cursor of the last successful run', async () => {
+    const cursor = new Date('2025-08-01T00:00:00Z');
+    mockLastRun.mockResolvedValue({ ...run, status: 'success', cursor });
+    mockFetch.mockResolvedValue([rawReview]);
+
+    const result = await syncHostawayReviews({ mode: 'incremental' });
+
+    expect(mockFetch).toHaveBeenCalledWith({ since: cursor });
+    expect(result.cursor).toEqual(new Date(rawReview.submittedAt));
+  });
+
+  it('should ignore the cursor on a full sync', async () => {
+    mockFetch.mockResolvedValue([]);
+
+    await syncHostawayReviews({ mode: 'full' });
+
+    expect(mockLastRun).not.toHaveBeenCalled();
+    expect(mockFetch).toHaveBeenCalledWith({ since: null });
+  });
+
+  it('should stop before saving once its lock is lost', async () => {
+    mockFetch.mockResolvedValue([rawReview]);
+    const lock = new AbortController();
+    lock.abort(new Error('Lost lock review-sync:hostaway: its lease expired'));
+
+    await expect(syncHostawayReviews({ signal: lock.signal })).rejects.toThrow('Lost lock');
+
+    expect(mockSave).not.toHaveBeenCalled();
+    expect(mockCompleteRun).toHaveBeenCalledWith(
+      'run-1',
+      expect.objectContaining({ status: 'failed', cursor: null })
+    );
+  });
+
+  it('should record failed runs without moving the cursor', async () => {
+    mockFetch.mockRejectedValue(new Error('Hostaway API returned status 500'));
+
+    await expect(syncHostawayReviews()).rejects.toThrow('500');
+
+    expect(mockCompleteRun).toHaveBeenCalledWith(
+      'run-1',
+      expect.objectContaining({
+        status: 'failed',
+        cursor: null,
+        errors: ['Hostaway API returned status 500'],
+      })
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for Review Text Analysis
+ *
+ * Validates tokenizing, lexicon sentiment with negation and intensity,
+ * clause-level theme extraction and per-property complaints and praise.
+ */
+
+import {
+  analyzeReviewText,
+  extractThemes,
+  getPropertyThemeInsights,
+  getTopThemes,
+  scoreSentiment,
+  tokenize,
+} from '@/lib/text-analysis';
+import type { Review } from '@/types';
+import { makeReview } from '../helpers/fixtures';
+
+const review = (id: string, publicReview: string, extra: Partial<Review> = {}): Review =>
+  makeReview(id, { publicReview, ...extra });
+
+describe('tokenize', () => {
+  it('should keep hyphenated words and contractions whole', () => {
+    expect(tokenize('Self Check-in DIDN’T work!')).toEqual(['self', 'check-in', "didn't", 'work']);
+  });
+});
+
+describe('scoreSentiment', () => {
+  it('should label positive, negative and neutral text', () => {
+    expect(scoreSentiment('Lovely flat, spotless and quiet.').label).toBe('positive');
+    expect(scoreSentiment('Dirty bathroom and rude staff.').label).toBe('negative');
+    expect(scoreSentiment('We stayed for three nights.').label).toBe('neutral');
+  });
+
+  it('should flip negated words and scale intensified ones', () => {
+    expect(scoreSentiment('not clean').score).toBeLessThan(0);
+    expect(scoreSentiment('no issues at all').score).toBeGreaterThan(0);
+    expect(scoreSentiment('very clean').score).toBeGreaterThan(scoreSentiment('clean').score);
+    expect(scoreSentiment('slightly noisy').score).toBeGreaterThan(scoreSentiment('noisy').score);
+  });
+
+  it('should score two-word phrases', () => {
+    expect(scoreSentiment('The heating didn’t work').score).toBe(-2);
+  });
+});
+
+describe('analyzeReviewText', () => {
+  it('should score each theme on its own clause', () => {
+    const { mentions } = analyzeReviewText(
+      'Great location, but the wifi was unreliable. Could use better wifi.'
+    );
+
+    expect(mentions.map(m => m.theme)).toEqual(['location', 'wifi']);
+    expect(mentions[0].score).toBeGreaterThan(0);
+    expect(mentions[1]).toEqual({
+      theme: 'wifi',
+      quote: 'Great location, but the wifi was unreliable.',
+      score: -3,
+    });
+  });
+
+  it('should match two-word keywords', () => {
+    const { mentions } = analyzeReviewText('Check in was easy and the hot water never ran out.');
+    expect(mentions.map(m => m.theme)).toEqual(['check-in', 'heating']);
+  });
+});
+
+describe('theme summaries', () => {
+  const reviews = [
+    review('1', 'Spotless flat. Noisy street at night though.'),
+    review('2', 'Very clean. The neighbours were loud.'),
+    review('3', 'Dirty towels and a noisy fridge.'),
+    review('4', 'Great guest, left it clean.', { reviewType: 'host-to-guest' }),
+    review('5', 'Wonderful host and a quiet, clean flat.', {
+      propertyId: 'camden-lock',
+      propertyName: 'Camden Lock Studio',
+    }),
+  ];
+
+  it('should count guest reviews mentioning each theme', () => {
+    const [cleanliness, noise] = extractThemes(reviews);
+
+    expect(cleanliness).toMatchObject({ theme: 'cleanliness', mentions: 4, positive: 3, negative: 1 });
+    expect(noise).toMatchObject({ theme: 'noise', mentions: 4, positive: 1, negative: 3 });
+  });
+
+  it('should rank complaints and praise with sample quotes', () => {
+    const [complaint] = getTopThemes(reviews, 'complaint', 1);
+
+    expect(complaint.theme).toBe('noise');
+    expect(complaint.count).toBe(3);
+    expect(complaint.samples[0]).toMatchObject({ reviewId: '3', quote: 'Dirty towels and a noisy fridge.' });
+
+    expect(getTopThemes(reviews, 'praise', 1)[0].theme).toBe('cleanliness');
+  });
+
+  it('should group insights by property', () => {
+    const insights = getPropertyThemeInsights(reviews);
+
+    expect(insights.map(i => i.propertyName)).toEqual([
+      '2B N1 A - 29 Shoreditch Heights',
+      'Camden Lock Studio',
+    ]);
+    expect(insights[0].analyzedReviews).toBe(3);
+    expect(insights[0].topComplaints.map(t => t.theme)).toEqual(['noise', 'cleanliness', 'amenities']);
+    expect(insights[1].topComplaints).toEqual([]);
+    expect(insights[1].sentiment).toEqual({ positive: 1, negative: 0, neutral: 0 });
+  });
+});
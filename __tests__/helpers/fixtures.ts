@@ -0,0 +1,76 @@
+/**
+ * Test fixtures
+ *
+ * Factories for the records the API tests work with. Each one returns a
+ * valid record for the Shoreditch Heights listing; tests pass the fields
+ * they care about.
+ */
+
+import type { HostawayReview, QuarantinedReview, Review, WebhookEvent } from '@/types';
+
+/** Stored review, as saved and returned by lib/db */
+export const makeReview = (id: string, extra: Partial<Review> = {}): Review => ({
+  id,
+  propertyId: 'shoreditch-heights',
+  propertyName: '2B N1 A - 29 Shoreditch Heights',
+  guestName: `Guest ${id}`,
+  rating: 9,
+  publicReview: 'Great stay',
+  channel: 'airbnb',
+  reviewType: 'guest-to-host',
+  status: 'published',
+  displayOnWebsite: false,
+  moderationStatus: 'new',
+  categories: [],
+  submittedAt: new Date('2025-03-01T10:00:00Z'),
+  ...extra,
+});
+
+/** Review as returned by the Hostaway API and sent by its webhooks */
+export const makeHostawayReview = (extra: Partial<HostawayReview> = {}): HostawayReview => ({
+  id: 7453,
+  type: 'guest-to-host',
+  status: 'published',
+  rating: 9,
+  publicReview: 'Great stay',
+  reviewCategory: [],
+  submittedAt: '2025-03-01 10:00:00',
+  guestName: 'Jane Doe',
+  listingName: '2B N1 A - 29 Shoreditch Heights',
+  ...extra,
+});
+
+/** Hostaway review that was quarantined for its invalid date */
+export const makeQuarantinedReview = (extra: Partial<QuarantinedReview> = {}): QuarantinedReview => ({
+  id: 'q-1',
+  source: 'hostaway',
+  sourceReviewId: '7453',
+  payload: JSON.stringify(makeHostawayReview({ submittedAt: 'yesterday' })),
+  fixedPayload: null,
+  errors: [{ field: 'submittedAt', message: 'Invalid date: yesterday' }],
+  status: 'quarantined',
+  syncRunId: 'run-1',
+  propertyId: 'shoreditch-heights',
+  firstSeenAt: new Date('2025-03-01T10:00:00Z'),
+  lastSeenAt: new Date('2025-03-01T10:00:00Z'),
+  resolvedAt: null,
+  resolvedBy: null,
+  ...extra,
+});
+
+/** Stored Hostaway webhook delivery that failed */
+export const makeWebhookEvent = (extra: Partial<WebhookEvent> = {}): WebhookEvent => ({
+  id: 'wh-1',
+  source: 'hostaway',
+  eventId: 'evt-1',
+  event: 'review.created',
+  payload: JSON.stringify({ event: 'review.created', eventId: 'evt-1', data: makeHostawayReview() }),
+  status: 'failed',
+  error: 'Database unavailable',
+  attempts: 1,
+  reviewId: '7453',
+  propertyId: 'shoreditch-heights',
+  receivedAt: new Date('2025-03-01T10:00:00Z'),
+  processedAt: null,
+  ...extra,
+});
@@ -0,0 +1,135 @@
+/**
+ * Local Hostaway API stub for tests
+ *
+ * Starts an HTTP server on a random port that behaves like the parts of
+ * the Hostaway API we use:
+ * - POST /v1/accessTokens issues bearer tokens for client credentials
+ * - GET /v1/reviews serves a fixed set of reviews with limit/offset
+ *   pagination, in the given order or newest first with
+ *   sortBy=submittedAt&sortOrder=desc, and rejects unknown tokens with 401
+ * - PUT /v1/reviews/:id stores the `revieweeResponse` reply of a review
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { HostawayReview } from '@/types';
+
+export interface HostawayStub {
+  /** Base URL to use as HOSTAWAY_API_URL */
+  url: string;
+  /** Every request the stub received, in order */
+  requests: Array<{ method: string; path: string; url: string; headers: http.IncomingHttpHeaders }>;
+  /** Replies posted with PUT /v1/reviews/:id, by review ID */
+  responses: Record<string, string>;
+  /** Respond to the next `times` API requests with the given status */
+  failNext: (status: number, times?: number) => void;
+  /** Invalidate every token issued so far */
+  revokeTokens: () => void;
+  close: () => Promise<void>;
+}
+
+export async function startHostawayStub(reviews: HostawayReview[]): Promise<HostawayStub> {
+  const requests: HostawayStub['requests'] = [];
+  const responses: HostawayStub['responses'] = {};
+  const failures: number[] = [];
+  const tokens = new Set<string>();
+  let issued = 0;
+
+  const newestFirst = [...reviews].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+
+  const send = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push({
+      method: req.method || 'GET',
+      path: url.pathname,
+      url: req.url || '',
+      headers: req.headers,
+    });
+
+    const failure = failures.shift();
+    if (failure) {
+      send(res, failure, { status: 'fail', message: `Stub failure ${failure}` });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/v1/accessTokens') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        if (params.get('grant_type') !== 'client_credentials' || !params.get('client_secret')) {
+          send(res, 403, { status: 'fail', message: 'Invalid credentials' });
+          return;
+        }
+
+        const token = `token-${++issued}`;
+        tokens.add(token);
+        send(res, 200, { token_type: 'Bearer', expires_in: 3600, access_token: token });
+      });
+      return;
+    }
+
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    if (!tokens.has(token)) {
+      send(res, 401, { status: 'fail', message: 'Unauthorized' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/v1/reviews') {
+      const sorted =
+        url.searchParams.get('sortBy') === 'submittedAt' && url.searchParams.get('sortOrder') === 'desc'
+          ? newestFirst
+          : reviews;
+      const limit = Number(url.searchParams.get('limit') || sorted.length);
+      const offset = Number(url.searchParams.get('offset') || 0);
+
+      send(res, 200, {
+        status: 'success',
+        result: sorted.slice(offset, offset + limit),
+        count: sorted.length,
+        limit,
+        offset,
+      });
+      return;
+    }
+
+    const reviewMatch = url.pathname.match(/^\/v1\/reviews\/(\d+)$/);
+    if (req.method === 'PUT' && reviewMatch) {
+      const review = reviews.find((r) => r.id === Number(reviewMatch[1]));
+      if (!review) {
+        send(res, 404, { status: 'fail', message: 'Review not found' });
+        return;
+      }
+
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { revieweeResponse } = JSON.parse(body || '{}');
+        responses[reviewMatch[1]] = revieweeResponse;
+        send(res, 200, { status: 'success', result: { ...review, revieweeResponse } });
+      });
+      return;
+    }
+
+    send(res, 404, { status: 'fail', message: 'Not found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    responses,
+    failNext: (status, times = 1) => {
+      for (let i = 0; i < times; i++) failures.push(status);
+    },
+    revokeTokens: () => tokens.clear(),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
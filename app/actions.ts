@@ -2,24 +2,88 @@
  * Server Actions for Flex Living Reviews Dashboard
  *
  * These functions run on the server and can be called from client components
- * to update database state without creating API routes.
+ * to update database state without creating API routes. Every action that
+ * reads or changes reviews checks the signed-in user's permissions itself,
+ * since server actions can be called directly with a POST request.
  */
 
 'use server';
 
-import { updateReviewDisplayStatus } from '@/lib/db';
+import {
+  assignReviews,
+  deleteReviews,
+  getAuditEvents,
+  getProperties,
+  moderateReview,
+  moderateReviews,
+  getReviewPropertyMap,
+  getReviewRevisions,
+  getReviewsMatching,
+  getWebhookEventById,
+  reapproveReview,
+  recordAuditEvent,
+  recordResponsePush,
+  saveReviewResponse,
+  setPropertyAssignments,
+  setPropertyGooglePlaceId,
+  saveReviewsToDb,
+  tagReviews,
+} from '@/lib/db';
+import { normalizeTag } from '@/lib/bulk-actions';
+import { parseImportFile, normalizeImportRows } from '@/lib/import';
+import { pushHostawayReviewResponse } from '@/lib/hostaway/responses';
+import { replayHostawayWebhook } from '@/lib/hostaway/webhooks';
+import { discardHostawayReview, reingestHostawayReview } from '@/lib/hostaway/quarantine';
+import { isHostawayReviewId } from '@/lib/utils';
+import { parseReviewQuery } from '@/lib/review-query';
+import {
+  getPropertyScope,
+  requirePermission,
+  requirePropertyAccess,
+  requireRecordPropertyAccess,
+  requireReviewAccess,
+  signInWithPassword,
+  signOut as endSession,
+} from '@/lib/auth';
 import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import type {
+  AuditEvent,
+  BulkReviewAction,
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+  ModerationDecision,
+  Review,
+  ReviewResponse,
+  ReviewResponseStatus,
+  ReviewRevision,
+  ReviewValidationError,
+  WebhookDeliveryResult,
+} from '@/types';
 
 /**
  * Update a review's display status
  *
+ * Shorthand for moderation: displaying a review approves it and
+ * removing it from the website hides it. Requires the
+ * `reviews:moderate` permission and access to the review's property.
+ *
  * @param reviewId - The review ID to update
  * @param display - Whether to display on website
  * @returns Success status and optional error message
  */
 export async function toggleReviewDisplay(reviewId: string, display: boolean) {
   try {
-    await updateReviewDisplayStatus(reviewId, display);
+    const user = await requirePermission('reviews:moderate');
+    await requireReviewAccess(user, [reviewId]);
+
+    await moderateReview(
+      reviewId,
+      { status: display ? 'approved' : 'hidden' },
+      user.email,
+      'toggle-display'
+    );
 
     // Revalidate relevant pages so they show updated data
     revalidatePath('/dashboard');
@@ -38,6 +102,10 @@ export async function toggleReviewDisplay(reviewId: string, display: boolean) {
 /**
  * Batch update multiple reviews' display status
  *
+ * Requires the `reviews:moderate` permission and access to every
+ * review's property. The updates are applied in one transaction, so
+ * nothing is changed if any review is out of scope or can't be moved.
+ *
  * @param updates - Array of {reviewId, display} objects
  * @returns Success status and optional error message
  */
@@ -45,10 +113,15 @@ export async function batchToggleReviewDisplay(
   updates: Array<{ reviewId: string; display: boolean }>
 ) {
   try {
-    await Promise.all(
-      updates.map(({ reviewId, display }) =>
-        updateReviewDisplayStatus(reviewId, display)
-      )
+    const user = await requirePermission('reviews:moderate');
+    await requireReviewAccess(user, updates.map(({ reviewId }) => reviewId));
+
+    await moderateReviews(
+      updates.map(({ reviewId, display }) => ({
+        reviewId,
+        decision: { status: display ? 'approved' : 'hidden' },
+      })),
+      user.email
     );
 
     // Revalidate relevant pages
@@ -64,3 +137,538 @@ export async function batchToggleReviewDisplay(
     };
   }
 }
+
+/**
+ * Get every review matching the dashboard filters, to select them all
+ *
+ * The dashboard only loads one page of reviews; this loads the rest
+ * when a manager selects all matching reviews for a bulk action.
+ * Requires the `reviews:moderate` permission; managers only get reviews
+ * of their assigned properties.
+ *
+ * @param query - Filters and sort, as GET /api/reviews query parameters
+ * @returns Success status with the matching reviews in sort order, or an error message
+ */
+export async function getMatchingReviews(
+  query: string
+): Promise<{ success: boolean; reviews?: Review[]; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:moderate');
+    const { filters, sort } = parseReviewQuery(new URLSearchParams(query));
+    const scope = await getPropertyScope(user);
+    const reviews = await getReviewsMatching(scope ? { ...filters, propertyIds: scope } : filters, sort);
+
+    return { success: true, reviews };
+  } catch (error) {
+    console.error('Error fetching matching reviews:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch matching reviews'
+    };
+  }
+}
+
+/**
+ * Apply a bulk action to the selected reviews
+ *
+ * Publish, unpublish, tag, assign and delete each run in a single
+ * transaction: if any review can't take the action, none are changed.
+ * Exporting a selection happens in the browser. Requires the
+ * `reviews:moderate` permission and access to every review's property.
+ *
+ * @param reviewIds - Reviews to change (see planBulkAction)
+ * @param action - Bulk action to apply
+ * @returns Success status with the number of reviews changed, or an error message
+ */
+export async function applyBulkReviewAction(
+  reviewIds: string[],
+  action: BulkReviewAction
+): Promise<{ success: boolean; updated?: number; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:moderate');
+    await requireReviewAccess(user, reviewIds);
+
+    let updated: number;
+    switch (action.type) {
+      case 'publish':
+      case 'unpublish': {
+        const status = action.type === 'publish' ? 'approved' : 'hidden';
+        const reviews = await moderateReviews(
+          reviewIds.map((reviewId) => ({ reviewId, decision: { status } })),
+          user.email
+        );
+        updated = reviews.length;
+        break;
+      }
+      case 'tag':
+        updated = await tagReviews(reviewIds, normalizeTag(action.tag), user.email);
+        break;
+      case 'assign':
+        updated = await assignReviews(reviewIds, action.assignee, user.email);
+        break;
+      case 'delete':
+        updated = await deleteReviews(reviewIds, user.email);
+        break;
+      default:
+        throw new Error('Unsupported bulk action');
+    }
+
+    revalidatePath('/dashboard');
+    revalidatePath('/dashboard/moderation');
+    revalidatePath('/properties/[id]', 'page');
+
+    return { success: true, updated };
+  } catch (error) {
+    console.error('Error applying bulk action:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update reviews'
+    };
+  }
+}
+
+/**
+ * Apply a moderation decision to a review
+ *
+ * @param reviewId - The review ID to moderate
+ * @param decision - New status, with a reason code when rejecting
+ * @returns Success status with the updated review, or an error message
+ */
+export async function setReviewModeration(
+  reviewId: string,
+  decision: ModerationDecision
+): Promise<{ success: boolean; review?: Review; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:moderate');
+    await requireReviewAccess(user, [reviewId]);
+    const review = await moderateReview(reviewId, decision, user.email);
+
+    revalidatePath('/dashboard');
+    revalidatePath('/dashboard/moderation');
+    revalidatePath('/properties/[id]', 'page');
+
+    return { success: true, review };
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to moderate review'
+    };
+  }
+}
+
+/**
+ * Save a management reply to a review
+ *
+ * Replies are saved as drafts or published beneath the review on the
+ * property page. When publishing a Hostaway review with `pushToHostaway`,
+ * the reply is also posted to Hostaway; a failed push keeps the saved
+ * reply and is returned as a warning so it can be retried.
+ *
+ * @param reviewId - The review being replied to
+ * @param input - Reply text, status and whether to post it to Hostaway
+ * @returns Success status with the saved reply and optional warning, or an error message
+ */
+export async function saveReviewReply(
+  reviewId: string,
+  input: { body: string; status: ReviewResponseStatus; pushToHostaway?: boolean }
+): Promise<{ success: boolean; response?: ReviewResponse; warning?: string; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:respond');
+    await requireReviewAccess(user, [reviewId]);
+
+    let response = await saveReviewResponse(
+      reviewId,
+      { body: input.body, status: input.status },
+      user.email
+    );
+    let warning: string | undefined;
+
+    if (input.pushToHostaway && input.status === 'published' && isHostawayReviewId(reviewId)) {
+      try {
+        await pushHostawayReviewResponse(reviewId, response.body);
+        response = await recordResponsePush(reviewId, null);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to post reply to Hostaway';
+        console.error(`Error posting reply to Hostaway review ${reviewId}:`, error);
+        response = await recordResponsePush(reviewId, message);
+        warning = `Reply saved, but not posted to Hostaway: ${message}`;
+      }
+    }
+
+    revalidatePath('/dashboard');
+    revalidatePath('/properties/[id]', 'page');
+
+    return { success: true, response, warning };
+  } catch (error) {
+    console.error('Error saving review reply:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save reply'
+    };
+  }
+}
+
+/**
+ * Map a property to its Google Place ID
+ *
+ * Google reviews are only fetched for properties with a Place ID.
+ *
+ * @param propertyId - The property ID to update
+ * @param placeId - Google Place ID, or empty to remove the mapping
+ * @returns Success status and optional error message
+ */
+export async function updateGooglePlaceId(propertyId: string, placeId: string) {
+  try {
+    const user = await requirePermission('properties:manage');
+    await requirePropertyAccess(user, [propertyId]);
+    await setPropertyGooglePlaceId(propertyId, placeId.trim() || null);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating Google Place ID:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update Google Place ID'
+    };
+  }
+}
+
+/**
+ * Import reviews from a CSV or JSON export
+ *
+ * Parses and validates every row. With `dryRun` the normalized reviews
+ * and row errors are returned for preview without saving anything;
+ * otherwise the valid rows are upserted via saveReviewsToDb.
+ *
+ * @param file - File content and format
+ * @param options - Column mapping and defaults
+ * @param dryRun - Validate and preview only
+ * @returns Success status with the import result, or an error message
+ */
+export async function importReviews(
+  file: { content: string; format: ImportFormat },
+  options: ImportOptions,
+  dryRun = false
+): Promise<{ success: boolean; result?: ImportResult; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:import');
+    const { rows } = parseImportFile(file.content, file.format);
+    const propertyScope = await getPropertyScope(user);
+    const properties = await getProperties();
+    // Row IDs can match reviews of properties outside the scope, which
+    // saving would move, so normalize again knowing where they belong
+    const { reviews: valid } = normalizeImportRows(rows, options, propertyScope, properties);
+    const { reviews, errors } = normalizeImportRows(
+      rows,
+      options,
+      propertyScope,
+      properties,
+      await getReviewPropertyMap(valid.map((r) => r.id))
+    );
+
+    if (!dryRun && reviews.length > 0) {
+      const saved = await saveReviewsToDb(reviews);
+      await recordAuditEvent({
+        actor: user.email,
+        action: 'import',
+        after: {
+          format: file.format,
+          channel: options.defaultChannel,
+          totalRows: rows.length,
+          imported: reviews.length,
+          ...saved,
+          errors: errors.length,
+        },
+      });
+
+      revalidatePath('/dashboard');
+      revalidatePath('/properties/[id]', 'page');
+    }
+
+    return {
+      success: true,
+      result: {
+        totalRows: rows.length,
+        reviews,
+        errors,
+        imported: dryRun ? 0 : reviews.length,
+      },
+    };
+  } catch (error) {
+    console.error('Error importing reviews:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import reviews'
+    };
+  }
+}
+
+/**
+ * Get the audit history of a review
+ *
+ * @param reviewId - The review ID
+ * @returns Success status with audit events (newest first), or an error message
+ */
+export async function getReviewHistory(
+  reviewId: string
+): Promise<{ success: boolean; events?: AuditEvent[]; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:read');
+    await requireReviewAccess(user, [reviewId]);
+    const events = await getAuditEvents({ reviewId });
+
+    return { success: true, events };
+  } catch (error) {
+    console.error('Error fetching review history:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch review history'
+    };
+  }
+}
+
+/**
+ * Get the earlier versions of a review, for the edit diff view
+ *
+ * @param reviewId - The review ID
+ * @returns Success status with revisions (newest first), or an error message
+ */
+export async function getReviewVersions(
+  reviewId: string
+): Promise<{ success: boolean; revisions?: ReviewRevision[]; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:read');
+    await requireReviewAccess(user, [reviewId]);
+    const revisions = await getReviewRevisions(reviewId);
+
+    return { success: true, revisions };
+  } catch (error) {
+    console.error('Error fetching review revisions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch review revisions'
+    };
+  }
+}
+
+/**
+ * Keep an edited review on the website after checking its new text
+ *
+ * @param reviewId - The review ID
+ * @returns Success status with the updated review, or an error message
+ */
+export async function reapproveReviewEdit(
+  reviewId: string
+): Promise<{ success: boolean; review?: Review; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:moderate');
+    await requireReviewAccess(user, [reviewId]);
+    const review = await reapproveReview(reviewId, user.email);
+
+    revalidatePath('/dashboard');
+
+    return { success: true, review };
+  } catch (error) {
+    console.error('Error re-approving review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to re-approve review'
+    };
+  }
+}
+
+/**
+ * Process a failed Hostaway webhook delivery again
+ *
+ * Requires the `reviews:sync` permission and access to the delivery's
+ * property; deliveries whose property isn't known are for admins only.
+ * Every replay is recorded in the audit log, whatever its outcome.
+ *
+ * @param webhookEventId - The stored webhook event to replay
+ * @returns Success status, the outcome of the replay and optional error message
+ */
+export async function replayWebhookEvent(
+  webhookEventId: string
+): Promise<{ success: boolean; result?: WebhookDeliveryResult; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:sync');
+    const stored = await getWebhookEventById(webhookEventId);
+    if (!stored) {
+      throw new Error(`Webhook event ${webhookEventId} not found`);
+    }
+    await requireRecordPropertyAccess(user, stored.propertyId);
+
+    const result = await replayHostawayWebhook(webhookEventId);
+
+    await recordAuditEvent({
+      actor: user.email,
+      action: 'replay-webhook',
+      reviewId: result.reviewId ?? null,
+      after: { eventId: result.eventId, status: result.status, error: result.error ?? null },
+    });
+
+    revalidatePath('/dashboard');
+    revalidatePath('/dashboard/webhooks');
+    if (result.status === 'processed') {
+      revalidatePath('/properties/[id]', 'page');
+    }
+
+    return result.status === 'failed'
+      ? { success: false, result, error: result.error }
+      : { success: true, result };
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to replay webhook event'
+    };
+  }
+}
+
+/**
+ * Save a fixed quarantined review
+ *
+ * Requires the `reviews:sync` permission and access to the review's
+ * property. The fixed JSON is validated like a synced review; if it's
+ * still invalid nothing is saved and the problems are returned.
+ *
+ * @param quarantinedReviewId - The quarantined review to re-ingest
+ * @param fixedPayload - Corrected review JSON
+ * @returns Success status, remaining validation errors and optional error message
+ */
+export async function reingestQuarantinedReview(
+  quarantinedReviewId: string,
+  fixedPayload: string
+): Promise<{ success: boolean; errors?: ReviewValidationError[]; error?: string }> {
+  try {
+    const user = await requirePermission('reviews:sync');
+    const { reviewId, errors } = await reingestHostawayReview(
+      quarantinedReviewId,
+      fixedPayload,
+      user.email,
+      await getPropertyScope(user)
+    );
+
+    if (!reviewId) {
+      return { success: false, errors, error: 'The review is still invalid' };
+    }
+
+    await recordAuditEvent({
+      actor: user.email,
+      action: 'reingest-review',
+      reviewId,
+      after: { source: 'hostaway', sourceReviewId: reviewId },
+    });
+
+    revalidatePath('/dashboard');
+    revalidatePath('/dashboard/quarantine');
+    revalidatePath('/properties/[id]', 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error re-ingesting quarantined review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to re-ingest review'
+    };
+  }
+}
+
+/**
+ * Discard a quarantined review without saving it
+ *
+ * Requires the `reviews:sync` permission and access to the review's
+ * property. It stays discarded unless the source sends a different
+ * version of it.
+ *
+ * @param quarantinedReviewId - The quarantined review to discard
+ * @returns Success status and optional error message
+ */
+export async function discardQuarantinedReview(quarantinedReviewId: string) {
+  try {
+    const user = await requirePermission('reviews:sync');
+    const discarded = await discardHostawayReview(
+      quarantinedReviewId,
+      user.email,
+      await getPropertyScope(user)
+    );
+
+    await recordAuditEvent({
+      actor: user.email,
+      action: 'discard-quarantined',
+      reviewId: discarded.sourceReviewId.startsWith('sha256-') ? null : discarded.sourceReviewId,
+      before: { source: discarded.source, sourceReviewId: discarded.sourceReviewId },
+    });
+
+    revalidatePath('/dashboard');
+    revalidatePath('/dashboard/quarantine');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error discarding quarantined review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to discard review'
+    };
+  }
+}
+
+/**
+ * Replace the properties assigned to a manager or viewer
+ *
+ * Requires the `users:manage` permission (admins only).
+ *
+ * @param userId - The user to update
+ * @param propertyIds - Every property the user should see and curate
+ * @returns Success status and optional error message
+ */
+export async function setUserAssignments(userId: string, propertyIds: string[]) {
+  try {
+    const admin = await requirePermission('users:manage');
+    await setPropertyAssignments(userId, propertyIds, admin.email);
+
+    revalidatePath('/dashboard/users');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error assigning properties:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to assign properties'
+    };
+  }
+}
+
+/**
+ * Sign in with email and password
+ *
+ * @param email - Email address
+ * @param password - Plain-text password
+ * @returns Success status and optional error message
+ */
+export async function signIn(email: string, password: string) {
+  try {
+    const user = await signInWithPassword(email, password);
+
+    if (!user) {
+      return { success: false, error: 'Invalid email or password' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to sign in'
+    };
+  }
+}
+
+/**
+ * Sign out and return to the sign-in page
+ */
+export async function signOut() {
+  endSession();
+  redirect('/login');
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { getReviewsMatching } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import {
+  buildRatingAnalytics,
+  getAnalyticsDateRange,
+  parseAnalyticsQuery,
+} from '@/lib/analytics';
+import type { AnalyticsQuery, ReviewFilters } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/analytics/ratings
+ *
+ * Weekly or monthly buckets of guest review count, average rating and
+ * per-category averages, overall, per property and per channel, with
+ * the previous range for comparison. Query parameters are documented on
+ * parseAnalyticsQuery, e.g.:
+ *   /api/analytics/ratings?period=month&from=2025-01-01&to=2025-06-30
+ *
+ * Requires a signed-in user; managers and viewers only get analytics of
+ * their assigned properties.
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": {
+ *     "period": "month", "from": "2025-01-01", "to": "2025-06-30",
+ *     "overall": { key, label, summary, buckets: [{ start, reviewCount, averageRating, categoryAverages }] },
+ *     "byProperty": [...], "byChannel": [...],
+ *     "comparison": { from, to, summary, buckets, trend: { direction, percentage } }
+ *   }
+ * }
+ */
+export async function GET(request: Request) {
+  let query: AnalyticsQuery;
+
+  try {
+    query = parseAnalyticsQuery(new URL(request.url).searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Invalid query parameters',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Unauthorized',
+          message: 'Sign in to view analytics',
+        },
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const scope = await getPropertyScope(user);
+    const filters: ReviewFilters = {
+      propertyId: query.propertyId,
+      channel: query.channel,
+      reviewType: 'guest-to-host',
+      ...getAnalyticsDateRange(query),
+    };
+    if (scope) filters.propertyIds = scope;
+
+    const reviews = await getReviewsMatching(filters, { field: 'submittedAt', direction: 'asc' });
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result: buildRatingAnalytics(reviews, query),
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in rating analytics endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to build rating analytics',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
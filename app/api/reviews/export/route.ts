@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { getReviewsMatching } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { parseReviewQuery } from '@/lib/review-query';
+import {
+  EXPORT_FORMATS,
+  serializeReviews,
+  getExportContentType,
+  getExportFileName,
+} from '@/lib/export';
+import type { ExportFormat } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/reviews/export
+ *
+ * Downloads every review matching the filters as a file. Accepts the
+ * same filter and sort parameters as GET /api/reviews (pagination is
+ * ignored) plus:
+ *   format: csv | excel | json (default csv)
+ *
+ * Category ratings are flattened into one column per category, e.g.:
+ *   /api/reviews/export?format=csv&propertyId=...&sortBy=rating
+ *
+ * Requires a signed-in user; managers and viewers only get reviews of
+ * their assigned properties.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const format = (params.get('format') ?? 'csv') as ExportFormat;
+  let query: ReturnType<typeof parseReviewQuery>;
+
+  try {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Invalid format: ${format}`);
+    }
+    query = parseReviewQuery(params);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Invalid query parameters',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Unauthorized',
+          message: 'Sign in to export reviews',
+        },
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const scope = await getPropertyScope(user);
+    const filters = scope ? { ...query.filters, propertyIds: scope } : query.filters;
+
+    const reviews = await getReviewsMatching(filters, query.sort);
+    const chunks = serializeReviews(reviews, format);
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const next = chunks.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': getExportContentType(format),
+        'Content-Disposition': `attachment; filename="${getExportFileName(format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in reviews export endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to export reviews',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
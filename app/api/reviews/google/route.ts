@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { getGooglePlaceMappings } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { isPropertyInScope } from '@/lib/permissions';
+import { fetchGoogleReviews, isGoogleConfigured } from '@/lib/google/places';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/reviews/google
+ *
+ * Fetches reviews from the Google Places API for every property mapped
+ * to a Google Place ID and normalizes them. Read-only; to persist them
+ * use POST /api/reviews/google/sync.
+ *
+ * Query parameters:
+ * - propertyId: only fetch reviews for this property
+ *
+ * Requires a signed-in user; managers and viewers only get reviews of
+ * their assigned properties, and no other places are fetched.
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": Review[],
+ *   "source": "live",
+ *   "errors": string[]
+ * }
+ */
+export async function GET(request: Request) {
+  if (!isGoogleConfigured()) {
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Google Places API key not configured',
+        result: [],
+      },
+      {
+        status: 503,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Unauthorized',
+          message: 'Sign in to fetch Google reviews',
+          result: [],
+        },
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const scope = await getPropertyScope(user);
+    const propertyId = new URL(request.url).searchParams.get('propertyId') ?? undefined;
+    const mappings = (await getGooglePlaceMappings(propertyId)).filter((mapping) =>
+      isPropertyInScope(scope, mapping.propertyId)
+    );
+    const { reviews, errors } = await fetchGoogleReviews(mappings);
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result: reviews,
+        source: 'live',
+        errors,
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Fatal error in Google reviews endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to fetch Google reviews',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        result: [],
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
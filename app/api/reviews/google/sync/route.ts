@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { runLockedSync } from '@/lib/sync-runner';
+
+/**
+ * POST /api/reviews/google/sync
+ *
+ * Pulls reviews from the Google Places API for every mapped property
+ * and persists them to the database.
+ *
+ * Returns 409 if another process (e.g. the sync scheduler) is already
+ * syncing the source.
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": SyncResult
+ * }
+ */
+export async function POST() {
+  try {
+    const result = await runLockedSync('google');
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Sync already running',
+          message: 'Google reviews are being synced by another process; try again when it finishes',
+        },
+        {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Revalidate pages that read reviews from the database
+    revalidatePath('/dashboard');
+    revalidatePath('/properties/[id]', 'page');
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result,
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Fatal error in Google sync endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to sync Google reviews',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { backfillHostawayChannels } from '@/lib/hostaway/sync';
+
+/**
+ * POST /api/reviews/hostaway/backfill-channels
+ *
+ * Moves stored Hostaway reviews to the channel they came through
+ * (airbnb, booking, vrbo, direct...), using the Hostaway channel of each
+ * review and the channel mapping table. Run it once after upgrading, and
+ * again after changing HOSTAWAY_CHANNEL_MAP.
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": { "updated": 120, "unchanged": 4, "unresolved": 0 }
+ * }
+ */
+export async function POST() {
+  try {
+    const result = await backfillHostawayChannels();
+
+    // Revalidate pages that read reviews from the database
+    revalidatePath('/dashboard');
+    revalidatePath('/properties/[id]', 'page');
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result,
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Fatal error in Hostaway channel backfill endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to backfill review channels',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
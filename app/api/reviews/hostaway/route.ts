@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
-import type { HostawayApiResponse, HostawayReview, Review } from '@/types';
-import { normalizeHostawayReview } from '@/lib/utils';
+import type { DataProvenance, HostawayReview, QuarantineInput, Review } from '@/types';
+import { getQuarantineId, parseHostawayReview } from '@/lib/hostaway/validation';
+import { fetchHostawayReviews } from '@/lib/hostaway/reviews';
+import { isHostawayConfigured } from '@/lib/hostaway/client';
+import { getReviewsDataMode, describeSource } from '@/lib/data-source';
 
 /**
  * GET /api/reviews/hostaway
@@ -13,85 +16,87 @@ import { normalizeHostawayReview } from '@/lib/utils';
  * Flow:
  * 1. Attempt to fetch from Hostaway API using credentials
  * 2. If API returns empty or errors, fall back to mock data
- * 3. Normalize all reviews to internal format
+ *    (unless REVIEWS_DATA_MODE=strict)
+ * 3. Validate and normalize all reviews to internal format, leaving out
+ *    invalid ones
  * 4. Return structured response: { status: 'success', result: Review[] }
+ *    along with `source`, the `invalid` reviews with their validation
+ *    errors and, for mock data, the `fallbackReason`
+ *
+ * This endpoint is read-only. To persist reviews to the database use
+ * POST /api/reviews/hostaway/sync.
  */
 
 /**
- * Fetch reviews from Hostaway API
- *
- * Makes authenticated request to Hostaway API endpoint.
- * Returns empty array if API is unavailable or returns no data.
+ * Load mock reviews from JSON file
  *
  * @returns Promise resolving to array of HostawayReview objects
  */
-async function fetchHostawayReviews(): Promise<HostawayReview[]> {
-  const accountId = process.env.HOSTAWAY_ACCOUNT_ID;
-  const apiKey = process.env.HOSTAWAY_API_KEY;
-
-  if (!accountId || !apiKey) {
-    console.warn('Hostaway credentials not configured. Using mock data.');
-    return [];
-  }
-
+async function loadMockReviews(): Promise<HostawayReview[]> {
   try {
-    // Hostaway API endpoint for reviews
-    const baseUrl = 'https://api.hostaway.com/v1/reviews';
-    const url = new URL(baseUrl);
-
-    console.log(`Fetching reviews from Hostaway API (Account: ${accountId})...`);
-
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'Cache-Control': 'no-cache',
-      },
-    });
-
-    if (!response.ok) {
-      console.warn(
-        `Hostaway API returned status ${response.status}: ${response.statusText}`
-      );
-      return [];
-    }
-
-    const data: HostawayApiResponse = await response.json();
+    const mockData = await import('@/lib/mock-reviews.json');
 
-    if (data.status === 'success' && Array.isArray(data.result)) {
-      console.log(`Fetched ${data.result.length} reviews from Hostaway API`);
-      return data.result;
+    if (mockData.status === 'success' && Array.isArray(mockData.result)) {
+      console.log(`Loaded ${mockData.result.length} reviews from mock data`);
+      return mockData.result as HostawayReview[];
     }
 
-    console.warn('Hostaway API response format unexpected:', data);
+    console.error('Invalid mock data format');
     return [];
   } catch (error) {
-    console.error('Error fetching from Hostaway API:', error);
+    console.error('Error loading mock reviews:', error);
     return [];
   }
 }
 
 /**
- * Load mock reviews from JSON file
+ * Fetch reviews from Hostaway, falling back to mock data when allowed
  *
- * @returns Promise resolving to array of HostawayReview objects
+ * Mock data is used when REVIEWS_DATA_MODE is 'mock', or in 'fallback'
+ * mode when the API is unavailable or returns nothing. In 'strict' mode
+ * API errors are rethrown and an empty result is returned as-is.
+ *
+ * @returns Promise resolving to raw reviews and where they came from
  */
-async function loadMockReviews(): Promise<HostawayReview[]> {
+async function loadHostawayReviews(): Promise<{
+  reviews: HostawayReview[];
+  provenance: DataProvenance;
+}> {
+  const mode = getReviewsDataMode();
+
+  if (mode === 'mock') {
+    return {
+      reviews: await loadMockReviews(),
+      provenance: { source: 'mock', fallbackReason: 'REVIEWS_DATA_MODE is set to mock' },
+    };
+  }
+
+  let fallbackReason: string;
+
   try {
-    const mockData = await import('@/lib/mock-reviews.json');
+    const reviews = await fetchHostawayReviews();
 
-    if (mockData.status === 'success' && Array.isArray(mockData.result)) {
-      console.log(`Loaded ${mockData.result.length} reviews from mock data`);
-      return mockData.result as HostawayReview[];
+    if (reviews.length > 0 || mode === 'strict') {
+      return { reviews, provenance: { source: 'live' } };
     }
 
-    console.error('Invalid mock data format');
-    return [];
+    fallbackReason = isHostawayConfigured()
+      ? 'Hostaway API returned no reviews'
+      : 'Hostaway credentials not configured';
   } catch (error) {
-    console.error('Error loading mock reviews:', error);
-    return [];
+    if (mode === 'strict') throw error;
+
+    fallbackReason = `${describeSource('live')} unavailable: ${
+      error instanceof Error ? error.message : 'Unknown error'
+    }`;
   }
+
+  console.log(`${fallbackReason}, falling back to mock data`);
+
+  return {
+    reviews: await loadMockReviews(),
+    provenance: { source: 'mock', fallbackReason },
+  };
 }
 
 /**
@@ -101,46 +106,38 @@ async function loadMockReviews(): Promise<HostawayReview[]> {
  * It must return exactly this format:
  * {
  *   "status": "success",
- *   "result": Review[]
+ *   "result": Review[],
+ *   "invalid": { sourceReviewId, errors }[],
+ *   "source": "live" | "mock",
+ *   "fallbackReason"?: string
  * }
  */
 export async function GET(request: Request) {
   try {
     console.log('=== Hostaway Reviews API Request ===');
 
-    // Step 1: Try to fetch from Hostaway API
-    let hostawayReviews = await fetchHostawayReviews();
-
-    // Step 2: If Hostaway returns empty, fall back to mock data
-    if (hostawayReviews.length === 0) {
-      console.log('Hostaway API returned no data, falling back to mock data');
-      hostawayReviews = await loadMockReviews();
-    }
-
-    // Step 3: Normalize all reviews to internal format
-    const normalizedReviews: Review[] = hostawayReviews.map((rawReview) => {
-      try {
-        return normalizeHostawayReview(rawReview);
-      } catch (error) {
-        console.error(`Error normalizing review ${rawReview.id}:`, error);
-        // Return a fallback review if normalization fails
-        return {
-          id: rawReview.id.toString(),
-          propertyId: 'unknown',
-          guestName: rawReview.guestName || 'Anonymous',
-          rating: rawReview.rating,
-          publicReview: rawReview.publicReview || '',
-          channel: 'hostaway',
-          reviewType: rawReview.type,
-          status: rawReview.status,
-          displayOnWebsite: false,
-          categories: rawReview.reviewCategory || [],
-          submittedAt: new Date(),
-        };
+    // Step 1 & 2: Fetch from Hostaway API, or mock data if allowed
+    const { reviews: hostawayReviews, provenance } = await loadHostawayReviews();
+
+    // Step 3: Validate and normalize all reviews; invalid ones are
+    // reported instead of being returned with made-up values
+    const normalizedReviews: Review[] = [];
+    const invalid: Pick<QuarantineInput, 'sourceReviewId' | 'errors'>[] = [];
+
+    for (const rawReview of hostawayReviews) {
+      const { review, errors } = parseHostawayReview(rawReview);
+      if (review) {
+        normalizedReviews.push(review);
+      } else {
+        const sourceReviewId = getQuarantineId(rawReview);
+        console.error(`Skipping invalid review ${sourceReviewId}:`, errors);
+        invalid.push({ sourceReviewId, errors });
       }
-    });
+    }
 
-    console.log(`Successfully normalized ${normalizedReviews.length} reviews`);
+    console.log(
+      `Successfully normalized ${normalizedReviews.length} reviews (source: ${provenance.source})`
+    );
     console.log('=== End Hostaway Reviews API Request ===');
 
     // Step 4: Return properly formatted response
@@ -148,6 +145,8 @@ export async function GET(request: Request) {
       {
         status: 'success',
         result: normalizedReviews,
+        invalid,
+        ...provenance,
       },
       {
         status: 200,
@@ -159,39 +158,20 @@ export async function GET(request: Request) {
   } catch (error) {
     console.error('Fatal error in Hostaway reviews endpoint:', error);
 
-    // Even on error, try to return mock data if possible
-    try {
-      const mockReviews = await loadMockReviews();
-      const normalizedMockReviews = mockReviews.map(normalizeHostawayReview);
-
-      return NextResponse.json(
-        {
-          status: 'success',
-          result: normalizedMockReviews,
-        },
-        {
-          status: 200,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    } catch (fallbackError) {
-      // Last resort: return error response
-      return NextResponse.json(
-        {
-          status: 'error',
-          error: 'Failed to fetch reviews',
-          message: error instanceof Error ? error.message : 'Unknown error',
-          result: [],
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to fetch reviews',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        result: [],
+        source: 'live',
+      },
+      {
+        status: 502,
+        headers: {
+          'Content-Type': 'application/json',
         },
-        {
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    }
+      }
+    );
   }
 }
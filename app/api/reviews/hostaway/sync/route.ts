@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { runLockedSync } from '@/lib/sync-runner';
+
+/**
+ * POST /api/reviews/hostaway/sync
+ *
+ * Pulls reviews from the Hostaway API and persists them to the database.
+ * Unlike GET /api/reviews/hostaway this never falls back to mock data,
+ * so only real Hostaway reviews are written.
+ *
+ * Query parameters:
+ * - mode: 'incremental' (default) fetches only reviews newer than the
+ *   last successful sync, 'full' re-fetches everything
+ *
+ * Returns 409 if another process (e.g. the sync scheduler) is already
+ * syncing the source.
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": SyncResult
+ * }
+ */
+export async function POST(request: Request) {
+  const mode = new URL(request.url).searchParams.get('mode') ?? 'incremental';
+
+  if (mode !== 'full' && mode !== 'incremental') {
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Invalid sync mode',
+        message: `Expected 'full' or 'incremental', got '${mode}'`,
+      },
+      {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+
+  try {
+    const result = await runLockedSync('hostaway', { mode });
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Sync already running',
+          message: 'Hostaway reviews are being synced by another process; try again when it finishes',
+        },
+        {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Revalidate pages that read reviews from the database
+    revalidatePath('/dashboard');
+    revalidatePath('/properties/[id]', 'page');
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result,
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Fatal error in Hostaway sync endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to sync reviews',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { getReviewsPage } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { parseReviewQuery } from '@/lib/review-query';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/reviews
+ *
+ * Lists stored reviews with server-side filtering, sorting and
+ * pagination. Reads from the database only; it never falls back to
+ * mock data.
+ *
+ * Query parameters are documented on parseReviewQuery, e.g.:
+ *   /api/reviews?propertyId=...&minRating=8&sortBy=rating&page=2&pageSize=50
+ *
+ * Requires a signed-in user; managers and viewers only get reviews of
+ * their assigned properties.
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": {
+ *     "data": Review[],
+ *     "pagination": { currentPage, pageSize, totalItems, totalPages }
+ *   },
+ *   "source": "database"
+ * }
+ */
+export async function GET(request: Request) {
+  let query: ReturnType<typeof parseReviewQuery>;
+
+  try {
+    query = parseReviewQuery(new URL(request.url).searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Invalid query parameters',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Unauthorized',
+          message: 'Sign in to list reviews',
+        },
+        {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const scope = await getPropertyScope(user);
+    const filters = scope ? { ...query.filters, propertyIds: scope } : query.filters;
+
+    const result = await getReviewsPage(filters, query.sort, query.pagination);
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result,
+        source: 'database',
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in reviews endpoint:', error);
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'Failed to fetch reviews',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import {
+  handleHostawayWebhook,
+  isHostawayWebhookConfigured,
+  parseHostawayWebhook,
+  verifyHostawayWebhookAuth,
+} from '@/lib/hostaway/webhooks';
+import type { HostawayWebhookPayload } from '@/types';
+
+/**
+ * POST /api/webhooks/hostaway
+ *
+ * Receives Hostaway review.created and review.updated events and saves
+ * the review. Not behind the dashboard session: deliveries authenticate
+ * with the shared secret or basic auth configured for the webhook.
+ *
+ * Status codes:
+ * - 200: processed, quarantined (failed validation), already processed
+ *   (duplicate) or ignored
+ * - 400: body is not a valid event
+ * - 401: credentials missing or wrong
+ * - 500: processing failed; recorded for replay, and Hostaway retries
+ * - 503: webhook credentials are not configured
+ *
+ * Response format:
+ * {
+ *   "status": "success",
+ *   "result": WebhookDeliveryResult
+ * }
+ */
+export async function POST(request: Request) {
+  if (!isHostawayWebhookConfigured()) {
+    return errorResponse(503, 'Webhook not configured', 'Set HOSTAWAY_WEBHOOK_SECRET or basic auth credentials');
+  }
+
+  if (!verifyHostawayWebhookAuth(request.headers)) {
+    return errorResponse(401, 'Unauthorized', 'Invalid webhook credentials');
+  }
+
+  const body = await request.text();
+
+  let payload: HostawayWebhookPayload;
+  try {
+    payload = parseHostawayWebhook(body);
+  } catch (error) {
+    return errorResponse(400, 'Invalid webhook', error instanceof Error ? error.message : 'Invalid body');
+  }
+
+  try {
+    const result = await handleHostawayWebhook(payload, body, request.headers);
+
+    if (result.status === 'failed') {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'Failed to process webhook',
+          message: result.error,
+          result,
+        },
+        {
+          status: 500,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    if (result.status === 'processed') {
+      // Revalidate pages that read reviews from the database
+      revalidatePath('/dashboard');
+      revalidatePath('/properties/[id]', 'page');
+    }
+
+    if (result.status === 'quarantined') {
+      revalidatePath('/dashboard/quarantine');
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        result,
+      },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Fatal error in Hostaway webhook endpoint:', error);
+
+    return errorResponse(
+      500,
+      'Failed to process webhook',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+function errorResponse(status: number, error: string, message: string) {
+  return NextResponse.json(
+    {
+      status: 'error',
+      error,
+      message,
+    },
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
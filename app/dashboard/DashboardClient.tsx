@@ -1,33 +1,110 @@
 /**
  * Dashboard Client Component
  *
- * Client-side interactive dashboard with filtering and review management
+ * Client-side interactive dashboard with filtering and review management.
+ * Filters, sort and page live in the URL; the server loads the matching
+ * page of reviews and their statistics for each change.
  */
 
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { PropertyCard } from '@/components/PropertyCard';
 import { FilterBar } from '@/components/FilterBar';
 import { ReviewTable } from '@/components/ReviewTable';
 import { TrendInsights } from '@/components/TrendInsights';
-import { toggleReviewDisplay } from '@/app/actions';
-import type { Review, PropertyPerformance } from '@/types';
+import { ReviewThemes } from '@/components/ReviewThemes';
+import { RatingCharts } from '@/components/RatingCharts';
+import { ExportButton } from '@/components/ExportButton';
+import { ActivityLog } from '@/components/ActivityLog';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { getMatchingReviews, toggleReviewDisplay } from '@/app/actions';
+import { normalizeTag } from '@/lib/bulk-actions';
+import type {
+  AuditEvent,
+  BulkReviewAction,
+  PaginatedResponse,
+  Review,
+  PropertyPerformance,
+  PropertyThemeInsights,
+  RatingDisplay,
+  ReviewFilterOptions,
+  ReviewStatistics,
+  SortOptions,
+  User,
+} from '@/types';
 
 interface DashboardClientProps {
-  initialReviews: Review[];
+  reviews: PaginatedResponse<Review>; // Current page of the reviews matching the URL
+  sort: SortOptions;
+  queryError: string | null; // Why the URL's filters were ignored, if they were
+  statistics: ReviewStatistics; // Of every matching review
+  themes: PropertyThemeInsights[];
+  filterOptions: ReviewFilterOptions;
+  editedCount: number; // Published reviews edited by guests, whatever the filters
   properties: PropertyPerformance[];
+  auditEvents: AuditEvent[];
+  assignees: User[]; // Users reviews can be assigned to
+  canModerate: boolean;
 }
 
-export function DashboardClient({ initialReviews, properties }: DashboardClientProps) {
-  const [reviews, setReviews] = useState<Review[]>(initialReviews);
-  const [filteredReviews, setFilteredReviews] = useState<Review[]>(initialReviews);
-  const [selectedProperty, setSelectedProperty] = useState<string | null>(null);
+type DashboardTab = 'reviews' | 'activity';
+
+export function DashboardClient({
+  reviews: page,
+  sort,
+  queryError,
+  statistics,
+  themes,
+  filterOptions,
+  editedCount,
+  properties,
+  auditEvents,
+  assignees,
+  canModerate,
+}: DashboardClientProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  // Filters the server couldn't use are dropped, as the server did
+  const urlParams = useSearchParams();
+  const searchParams: URLSearchParams = queryError ? new URLSearchParams() : urlParams;
+  const query = searchParams.toString();
+  const selectedProperty = searchParams.get('propertyId');
+
+  const [activeTab, setActiveTab] = useState<DashboardTab>('reviews');
+  const [reviews, setReviews] = useState<Review[]>(page.data);
+  // Every matching review, once loaded to select them all
+  const [matchingReviews, setMatchingReviews] = useState<Review[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [ratingDisplay, setRatingDisplay] = useState<RatingDisplay>('normalized');
   const reviewsSectionRef = useRef<HTMLDivElement>(null);
 
-  const handleFilterChange = useCallback((filtered: Review[]) => {
-    setFilteredReviews(filtered);
-  }, []);
+  // The server sends a new page after navigating and after every change
+  useEffect(() => {
+    setReviews(page.data);
+  }, [page.data]);
+
+  // Selections don't carry over to other filters or pages
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setMatchingReviews(null);
+  }, [query]);
+
+  const updateQuery = useCallback((changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(query);
+    Object.entries(changes).forEach(([name, value]) =>
+      value === null ? params.delete(name) : params.set(name, value)
+    );
+    // Other filters or sort start again from the first page
+    if (!('page' in changes)) params.delete('page');
+
+    const next = params.toString();
+    router.push(next ? `${pathname}?${next}` : pathname, { scroll: false });
+  }, [router, pathname, query]);
+
+  const loadedReviews = new Map([...(matchingReviews ?? []), ...reviews].map(r => [r.id, r]));
+  const selectedReviews = Array.from(selectedIds).flatMap(id => loadedReviews.get(id) ?? []);
 
   const scrollToReviews = () => {
     reviewsSectionRef.current?.scrollIntoView({
@@ -37,31 +114,43 @@ export function DashboardClient({ initialReviews, properties }: DashboardClientP
   };
 
   const handlePropertyClick = (propertyId: string) => {
-    if (selectedProperty === propertyId) {
-      setSelectedProperty(null);
-      setFilteredReviews(reviews);
-    } else {
-      setSelectedProperty(propertyId);
-      setFilteredReviews(reviews.filter(r => r.propertyId === propertyId));
-    }
+    setActiveTab('reviews');
+    updateQuery({ propertyId: selectedProperty === propertyId ? null : propertyId });
 
     // Scroll to reviews section after a short delay to ensure state updates
     setTimeout(scrollToReviews, 100);
   };
 
+  const handleSelectAll = async () => {
+    const result = await getMatchingReviews(query);
+
+    if (result.success && result.reviews) {
+      setMatchingReviews(result.reviews);
+      setSelectedIds(new Set(result.reviews.map(r => r.id)));
+    } else {
+      console.error('Failed to load matching reviews:', result.error);
+      alert('Failed to select all matching reviews. Please try again.');
+    }
+  };
+
+  const updateLoadedReviews = (update: (prevReviews: Review[]) => Review[]) => {
+    setReviews(update);
+    setMatchingReviews(prevReviews => prevReviews && update(prevReviews));
+  };
+
   const handleToggleDisplay = async (reviewId: string, display: boolean) => {
     const result = await toggleReviewDisplay(reviewId, display);
 
     if (result.success) {
+      const moderationUpdate: Partial<Review> = {
+        displayOnWebsite: display,
+        moderationStatus: display ? 'approved' : 'hidden',
+      };
+
       // Optimistically update local state
-      setReviews(prevReviews =>
-        prevReviews.map(r =>
-          r.id === reviewId ? { ...r, displayOnWebsite: display } : r
-        )
-      );
-      setFilteredReviews(prevReviews =>
+      updateLoadedReviews(prevReviews =>
         prevReviews.map(r =>
-          r.id === reviewId ? { ...r, displayOnWebsite: display } : r
+          r.id === reviewId ? { ...r, ...moderationUpdate } : r
         )
       );
     } else {
@@ -70,8 +159,42 @@ export function DashboardClient({ initialReviews, properties }: DashboardClientP
     }
   };
 
-  // Calculate statistics for filtered reviews
-  const selectedForWebsite = filteredReviews.filter(r => r.displayOnWebsite).length;
+  const handleReviewChange = (updated: Review) => {
+    updateLoadedReviews(prevReviews =>
+      prevReviews.map(r => (r.id === updated.id ? { ...r, ...updated } : r))
+    );
+  };
+
+  const handleBulkApplied = (action: BulkReviewAction, reviewIds: string[]) => {
+    const changed = new Set(reviewIds);
+    const update = (prevReviews: Review[]): Review[] => {
+      if (action.type === 'delete') {
+        return prevReviews.filter(r => !changed.has(r.id));
+      }
+
+      return prevReviews.map(r => {
+        if (!changed.has(r.id)) return r;
+
+        switch (action.type) {
+          case 'publish':
+            return { ...r, displayOnWebsite: true, moderationStatus: 'approved' };
+          case 'unpublish':
+            return { ...r, displayOnWebsite: false, moderationStatus: 'hidden' };
+          case 'tag':
+            return { ...r, tags: [...(r.tags ?? []), normalizeTag(action.tag)].sort() };
+          case 'assign':
+            return { ...r, assignedTo: action.assignee };
+        }
+      });
+    };
+
+    updateLoadedReviews(update);
+    if (action.type === 'delete') {
+      setSelectedIds(new Set());
+    }
+  };
+
+  const { totalReviews, selectedForWebsite } = statistics;
 
   return (
     <div className="space-y-6">
@@ -93,20 +216,13 @@ export function DashboardClient({ initialReviews, properties }: DashboardClientP
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow-md p-6">
           <h3 className="text-sm font-medium text-gray-500 mb-2">Total Reviews</h3>
-          <p className="text-3xl font-bold text-gray-900">{filteredReviews.length}</p>
+          <p className="text-3xl font-bold text-gray-900">{totalReviews}</p>
         </div>
 
         <div className="bg-white rounded-lg shadow-md p-6">
           <h3 className="text-sm font-medium text-gray-500 mb-2">Average Rating</h3>
           <p className="text-3xl font-bold text-gray-900">
-            {filteredReviews.length > 0
-              ? (
-                  filteredReviews
-                    .filter(r => r.rating !== null)
-                    .reduce((sum, r) => sum + r.rating!, 0) /
-                  filteredReviews.filter(r => r.rating !== null).length
-                ).toFixed(1)
-              : '0.0'}
+            {statistics.averageRating.toFixed(1)}
           </p>
           <p className="text-xs text-gray-500 mt-1">out of 10</p>
         </div>
@@ -115,8 +231,8 @@ export function DashboardClient({ initialReviews, properties }: DashboardClientP
           <h3 className="text-sm font-medium text-gray-500 mb-2">Selected for Website</h3>
           <p className="text-3xl font-bold text-blue-600">{selectedForWebsite}</p>
           <p className="text-xs text-gray-500 mt-1">
-            {filteredReviews.length > 0
-              ? `${Math.round((selectedForWebsite / filteredReviews.length) * 100)}% of reviews`
+            {totalReviews > 0
+              ? `${Math.round((selectedForWebsite / totalReviews) * 100)}% of reviews`
               : 'No reviews'}
           </p>
         </div>
@@ -128,40 +244,147 @@ export function DashboardClient({ initialReviews, properties }: DashboardClientP
         </div>
       </div>
 
-      {/* Trend Insights */}
-      <TrendInsights reviews={filteredReviews} />
-
-      {/* Filter Bar */}
-      <FilterBar reviews={reviews} onFilterChange={handleFilterChange} />
-
-      {/* Reviews Table */}
-      <div ref={reviewsSectionRef} className="scroll-mt-6">
-        <div className="mb-4 flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-gray-900">
-            Reviews
-            {selectedProperty && (
-              <span className="ml-2 text-sm font-normal text-gray-600">
-                (Filtered by property)
-              </span>
-            )}
-          </h2>
-          {selectedProperty && (
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex gap-6">
+          {(['reviews', 'activity'] as DashboardTab[]).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-3 text-sm font-medium border-b-2 -mb-px ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'reviews' ? 'Reviews' : 'Activity'}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'activity' && (
+        <div className="bg-white rounded-lg shadow-md px-6 py-2">
+          <ActivityLog events={auditEvents} />
+        </div>
+      )}
+
+      {/* Kept mounted while hidden so filters survive switching tabs */}
+      <div className={activeTab === 'reviews' ? 'space-y-6' : 'hidden'}>
+        {/* Published reviews edited by guests */}
+        {editedCount > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-3 flex items-center justify-between">
+            <p className="text-sm text-yellow-800">
+              {editedCount} published review{editedCount !== 1 ? 's were' : ' was'} edited
+              by the guest and need{editedCount === 1 ? 's' : ''} re-approval
+            </p>
             <button
               onClick={() => {
-                setSelectedProperty(null);
-                setFilteredReviews(reviews);
+                router.push(`${pathname}?needsReapproval=true`, { scroll: false });
+                setTimeout(scrollToReviews, 100);
               }}
-              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+              className="text-sm text-yellow-900 hover:text-yellow-700 font-medium"
             >
-              Clear property filter
+              Show edited reviews
             </button>
-          )}
-        </div>
+          </div>
+        )}
+
+        {/* Trend Insights */}
+        <TrendInsights statistics={statistics} />
+
+        {/* Ratings over time */}
+        <RatingCharts properties={properties} channels={filterOptions.channels} />
 
-        <ReviewTable
-          reviews={filteredReviews}
-          onToggleDisplay={handleToggleDisplay}
+        {/* Complaints and praise from review text */}
+        <ReviewThemes insights={themes} />
+
+        {/* Filters from an invalid link */}
+        {queryError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+            <p className="text-sm text-red-800">Showing all reviews: {queryError}</p>
+          </div>
+        )}
+
+        {/* Filter Bar */}
+        <FilterBar
+          params={searchParams}
+          properties={properties}
+          channels={filterOptions.channels}
+          categories={filterOptions.categories}
+          onFilterChange={updateQuery}
         />
+
+        {/* Reviews Table */}
+        <div ref={reviewsSectionRef} className="scroll-mt-6">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Reviews
+              {selectedProperty && (
+                <span className="ml-2 text-sm font-normal text-gray-600">
+                  (Filtered by property)
+                </span>
+              )}
+              {searchParams.get('needsReapproval') === 'true' && (
+                <span className="ml-2 text-sm font-normal text-gray-600">
+                  (Edited by guests)
+                </span>
+              )}
+            </h2>
+            <div className="flex items-center gap-4">
+              <div className="flex rounded-lg border border-gray-300 text-sm" role="group" aria-label="Show ratings">
+                {(['normalized', 'native'] as RatingDisplay[]).map(display => (
+                  <button
+                    key={display}
+                    onClick={() => setRatingDisplay(display)}
+                    aria-pressed={ratingDisplay === display}
+                    title={display === 'native' ? 'As given on each channel, e.g. Airbnb stars' : 'Every channel on 0-10'}
+                    className={`px-3 py-1.5 first:rounded-l-lg last:rounded-r-lg ${
+                      ratingDisplay === display ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {display === 'native' ? 'Native' : '0-10'}
+                  </button>
+                ))}
+              </div>
+              {selectedProperty && (
+                <button
+                  onClick={() => updateQuery({ propertyId: null })}
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  Clear property filter
+                </button>
+              )}
+              <ExportButton query={query} count={totalReviews} />
+            </div>
+          </div>
+
+          {canModerate && selectedReviews.length > 0 && (
+            <BulkActionBar
+              selectedReviews={selectedReviews}
+              matchingCount={totalReviews}
+              assignees={assignees}
+              sort={sort}
+              onSelectAll={handleSelectAll}
+              onClear={() => setSelectedIds(new Set())}
+              onApplied={handleBulkApplied}
+            />
+          )}
+
+          <ReviewTable
+            reviews={reviews}
+            pagination={page.pagination}
+            sort={sort}
+            onToggleDisplay={handleToggleDisplay}
+            onSortChange={({ field, direction }) => updateQuery({ sortBy: field, sortDirection: direction })}
+            onPageChange={pageNumber => updateQuery({ page: String(pageNumber) })}
+            readOnly={!canModerate}
+            selectedIds={selectedIds}
+            onSelectionChange={canModerate ? setSelectedIds : undefined}
+            onReviewChange={handleReviewChange}
+            ratingDisplay={ratingDisplay}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,340 @@
+/**
+ * Import Client Component
+ *
+ * File upload, column mapping, preview and import of review exports
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/Badge';
+import { importReviews } from '@/app/actions';
+import {
+  IMPORT_FIELDS,
+  detectImportFormat,
+  parseImportFile,
+  suggestColumnMapping,
+} from '@/lib/import';
+import { formatDate } from '@/lib/utils';
+import { formatChannel } from '@/lib/hostaway/channels';
+import type {
+  ImportColumnMapping,
+  ImportField,
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+} from '@/types';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  id: 'Review ID',
+  propertyId: 'Property *',
+  guestName: 'Guest Name',
+  rating: 'Rating',
+  publicReview: 'Review Text',
+  channel: 'Channel',
+  reviewType: 'Review Type',
+  status: 'Status',
+  submittedAt: 'Date *',
+};
+
+const PREVIEW_LIMIT = 20;
+
+export function ImportClient() {
+  const [fileName, setFileName] = useState<string>('');
+  const [content, setContent] = useState<string>('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [categoryColumns, setCategoryColumns] = useState<string[]>([]);
+  const [defaultChannel, setDefaultChannel] = useState<string>('booking');
+  const [ratingScale, setRatingScale] = useState<ImportOptions['ratingScale']>('channel');
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetResults = () => {
+    setPreview(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const loadFile = (text: string, name: string, fileFormat: ImportFormat) => {
+    resetResults();
+    setFileName(name);
+    setContent(text);
+    setFormat(fileFormat);
+
+    try {
+      const parsed = parseImportFile(text, fileFormat);
+      const suggested = suggestColumnMapping(parsed.columns);
+      setColumns(parsed.columns);
+      setMapping(suggested);
+      setCategoryColumns([]);
+    } catch (err) {
+      setColumns([]);
+      setMapping({});
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => loadFile(String(reader.result ?? ''), file.name, detectImportFormat(file.name));
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    resetResults();
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column) {
+        next[field] = column;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const toggleCategoryColumn = (column: string) => {
+    resetResults();
+    setCategoryColumns(prev =>
+      prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]
+    );
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+
+    const result = await importReviews(
+      { content, format },
+      { mapping, categoryColumns, defaultChannel, ratingScale },
+      dryRun
+    );
+
+    setIsLoading(false);
+
+    if (!result.success || !result.result) {
+      setError(result.error ?? 'Import failed');
+      return;
+    }
+
+    setPreview(result.result);
+
+    if (!dryRun) {
+      setMessage(
+        `Imported ${result.result.imported} of ${result.result.totalRows} rows` +
+          (result.result.errors.length > 0 ? ` (${result.result.errors.length} errors)` : '')
+      );
+    }
+  };
+
+  const mappedColumns = Object.values(mapping);
+  const unmappedColumns = columns.filter(c => !mappedColumns.includes(c));
+  const canImport = content !== '' && Boolean(mapping.propertyId) && Boolean(mapping.submittedAt);
+
+  return (
+    <div className="space-y-6">
+      {/* File Upload */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">1. Choose a file</h2>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="block text-sm text-gray-700"
+        />
+        {fileName && (
+          <p className="text-sm text-gray-600 mt-2">
+            {fileName} ({format.toUpperCase()}, {columns.length} columns)
+          </p>
+        )}
+      </div>
+
+      {/* Column Mapping */}
+      {columns.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">2. Map columns</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {FIELD_LABELS[field]}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Not mapped</option>
+                  {columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Default Channel
+              </label>
+              <input
+                type="text"
+                value={defaultChannel}
+                onChange={(e) => {
+                  resetResults();
+                  setDefaultChannel(e.target.value);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Used when the channel column is empty</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rating Scale
+              </label>
+              <select
+                value={ratingScale}
+                onChange={(e) => {
+                  resetResults();
+                  const value = e.target.value;
+                  setRatingScale(value === 'channel' ? 'channel' : Number(value) === 5 ? 5 : 10);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="channel">Channel&apos;s own scale (e.g. Airbnb 1-5)</option>
+                <option value={10}>0-10</option>
+                <option value={5}>0-5 (converted to 0-10)</option>
+              </select>
+            </div>
+          </div>
+
+          {unmappedColumns.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Category rating columns</h3>
+              <div className="flex flex-wrap gap-3">
+                {unmappedColumns.map(column => (
+                  <label key={column} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={categoryColumns.includes(column)}
+                      onChange={() => toggleCategoryColumn(column)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {column}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={() => runImport(true)}
+              disabled={!canImport || isLoading}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => runImport(false)}
+              disabled={!canImport || isLoading || !preview || preview.reviews.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+            >
+              {isLoading ? 'Working...' : 'Import'}
+            </button>
+          </div>
+          {!canImport && (
+            <p className="text-xs text-gray-500 mt-2">Map the property and date columns to continue</p>
+          )}
+        </div>
+      )}
+
+      {/* Messages */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-800 rounded-lg p-4">
+          {message}
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">3. Preview</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {preview.reviews.length} of {preview.totalRows} rows are valid
+            {preview.reviews.length > PREVIEW_LIMIT && ` (showing first ${PREVIEW_LIMIT})`}
+          </p>
+
+          {preview.reviews.length > 0 && (
+            <div className="overflow-x-auto mb-6">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Property</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Guest</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Rating</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Channel</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Review</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.reviews.slice(0, PREVIEW_LIMIT).map(review => (
+                    <tr key={review.id}>
+                      <td className="px-4 py-2 text-gray-900">{review.propertyId}</td>
+                      <td className="px-4 py-2 text-gray-900">{review.guestName}</td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {review.rating ?? '—'}
+                        {review.ratingScale && review.ratingScale !== 10 && (
+                          <span className="ml-1 text-xs text-gray-500">
+                            ({review.rawRating}/{review.ratingScale})
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <Badge variant="channel" value={review.channel}>{formatChannel(review.channel)}</Badge>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{formatDate(review.submittedAt)}</td>
+                      <td className="px-4 py-2 text-gray-600 max-w-md truncate">{review.publicReview}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {preview.errors.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-red-700 mb-2">
+                {preview.errors.length} errors
+              </h3>
+              <ul className="text-sm text-red-700 space-y-1 max-h-64 overflow-y-auto">
+                {preview.errors.map((rowError, index) => (
+                  <li key={index}>
+                    Row {rowError.row}: {rowError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Review Import Page
+ *
+ * Lets managers bulk import reviews from CSV or JSON exports of channels
+ * that are not synced automatically (e.g., Booking.com, VRBO).
+ */
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ImportClient } from './ImportClient';
+import { getCurrentUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+export default async function ImportPage() {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, 'reviews:import')) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">
+            Import Reviews
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Upload a CSV or JSON export, map its columns and preview the result before importing
+          </p>
+        </div>
+
+        <ImportClient />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * Moderation Client Component
+ *
+ * Moderation queue with approve, hide, pending and reject actions.
+ * Reviews leave the queue as soon as a decision is saved.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/Badge';
+import { StarRating } from '@/components/StarRating';
+import { setReviewModeration } from '@/app/actions';
+import { REJECTION_REASONS, getAllowedTransitions } from '@/lib/moderation';
+import { formatDate } from '@/lib/utils';
+import { formatChannel } from '@/lib/hostaway/channels';
+import type { ModerationDecision, RejectionReason, Review } from '@/types';
+
+interface ModerationClientProps {
+  initialReviews: Review[];
+}
+
+export function ModerationClient({ initialReviews }: ModerationClientProps) {
+  const [reviews, setReviews] = useState<Review[]>(initialReviews);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDecision = async (reviewId: string, decision: ModerationDecision) => {
+    setError(null);
+    const result = await setReviewModeration(reviewId, decision);
+
+    if (!result.success || !result.review) {
+      setError(result.error ?? 'Failed to moderate review');
+      return;
+    }
+
+    const updated = result.review;
+    setReviews(prev =>
+      updated.moderationStatus === 'pending'
+        ? prev.map(r => (r.id === reviewId ? updated : r))
+        : prev.filter(r => r.id !== reviewId)
+    );
+  };
+
+  if (reviews.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-12 text-center">
+        <h3 className="text-lg font-medium text-gray-900">Queue is empty</h3>
+        <p className="text-gray-500 mt-1">Every review has been moderated</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">{reviews.length} reviews waiting for a decision</p>
+
+      {reviews.map(review => (
+        <ModerationItem key={review.id} review={review} onDecision={handleDecision} />
+      ))}
+    </div>
+  );
+}
+
+interface ModerationItemProps {
+  review: Review;
+  onDecision: (reviewId: string, decision: ModerationDecision) => Promise<void>;
+}
+
+function ModerationItem({ review, onDecision }: ModerationItemProps) {
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState<RejectionReason>('inappropriate-language');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const allowed = getAllowedTransitions(review.moderationStatus);
+
+  const decide = async (decision: ModerationDecision) => {
+    setIsSaving(true);
+    try {
+      await onDecision(review.id, decision);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-900">{review.guestName}</span>
+            <Badge variant="channel" value={review.channel}>{formatChannel(review.channel)}</Badge>
+            <Badge variant="status" value={review.moderationStatus}>{review.moderationStatus}</Badge>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {review.propertyName ?? review.propertyId} · {formatDate(review.submittedAt)}
+          </p>
+        </div>
+        <StarRating rating={review.rating} scale={10} size="sm" />
+      </div>
+
+      <p className="text-gray-700 mt-4 whitespace-pre-line">{review.publicReview}</p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {allowed.includes('approved') && (
+          <button
+            onClick={() => decide({ status: 'approved' })}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
+          >
+            Approve
+          </button>
+        )}
+        {allowed.includes('hidden') && (
+          <button
+            onClick={() => decide({ status: 'hidden' })}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 disabled:opacity-50"
+          >
+            Hide
+          </button>
+        )}
+        {allowed.includes('pending') && (
+          <button
+            onClick={() => decide({ status: 'pending' })}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-yellow-500 text-white text-sm rounded-lg hover:bg-yellow-600 disabled:opacity-50"
+          >
+            Mark Pending
+          </button>
+        )}
+        {allowed.includes('rejected') && (
+          <button
+            onClick={() => setIsRejecting(!isRejecting)}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            Reject…
+          </button>
+        )}
+      </div>
+
+      {isRejecting && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as RejectionReason)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {Object.entries(REJECTION_REASONS).map(([code, label]) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Note{reason === 'other' ? ' *' : ''}
+            </label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            onClick={() => decide({ status: 'rejected', reason, note: note.trim() || undefined })}
+            disabled={isSaving || (reason === 'other' && !note.trim())}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+          >
+            Confirm Rejection
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
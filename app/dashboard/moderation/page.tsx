@@ -0,0 +1,74 @@
+/**
+ * Moderation Queue Page
+ *
+ * Lists reviews waiting for a moderation decision (new and pending),
+ * oldest first, so managers can approve, hide or reject them.
+ */
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ModerationClient } from './ModerationClient';
+import { getReviewsMatching } from '@/lib/db';
+import { loadMockReviewsNormalized } from '@/lib/mock-data';
+import { loadWithFallback } from '@/lib/data-source';
+import { QUEUE_STATUSES } from '@/lib/moderation';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { hasPermission, isPropertyInScope } from '@/lib/permissions';
+import { sortReviews } from '@/lib/utils';
+import { DataSourceBanner } from '@/components/DataSourceBanner';
+import type { SortOptions } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const QUEUE_SORT: SortOptions = { field: 'submittedAt', direction: 'asc' };
+
+export default async function ModerationPage() {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, 'reviews:moderate')) {
+    redirect('/dashboard');
+  }
+
+  const scope = await getPropertyScope(user);
+
+  const { data: reviews, provenance } = await loadWithFallback(
+    'database',
+    () =>
+      getReviewsMatching(
+        { moderationStatus: QUEUE_STATUSES, propertyIds: scope ?? undefined },
+        QUEUE_SORT
+      ),
+    async () => {
+      const reviews = await loadMockReviewsNormalized();
+      return sortReviews(
+        reviews.filter(
+          r => QUEUE_STATUSES.includes(r.moderationStatus) && isPropertyInScope(scope, r.propertyId)
+        ),
+        QUEUE_SORT
+      );
+    }
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">
+            Moderation Queue
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Decide which new reviews are published on the property pages
+          </p>
+        </div>
+
+        {/* Data Source Warning */}
+        <DataSourceBanner provenance={provenance} />
+
+        <ModerationClient initialReviews={reviews} />
+      </div>
+    </div>
+  );
+}
@@ -2,59 +2,235 @@
  * Manager Dashboard Page
  *
  * This is the main dashboard where property managers can:
- * - View all reviews across properties
+ * - View all reviews across properties, a page at a time
  * - Filter by rating, category, channel, time period
  * - Sort reviews by various criteria
+ *
+ * Filters, sort and page are kept in the URL and run in the database.
  * - Select reviews for public website display
+ * - Publish, tag, assign, export or delete reviews in bulk
  * - View performance metrics and trends
+ * - See recent manager and sync activity, and when each source last synced
  */
 
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
 import { DashboardClient } from './DashboardClient';
-import { getPropertiesWithReviews, getAllReviews } from '@/lib/db';
-import { loadMockReviewsNormalized, calculatePropertyPerformance } from '@/lib/mock-data';
+import {
+  getPropertiesWithReviews,
+  getReviewsPage,
+  getReviewStatistics,
+  getReviewFilterOptions,
+  countReviews,
+  getAuditEvents,
+  getAssignableUsers,
+  getLatestSyncRuns,
+} from '@/lib/db';
+import {
+  loadMockReviewsNormalized,
+  calculatePropertyPerformance,
+  calculateReviewStatistics,
+  getMockFilterOptions,
+  getMockReviewsPage,
+} from '@/lib/mock-data';
+import { loadWithFallback } from '@/lib/data-source';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { hasPermission, isPropertyInScope } from '@/lib/permissions';
+import { parseReviewQuery, type ReviewQuery } from '@/lib/review-query';
+import { getPropertyThemeInsights } from '@/lib/text-analysis';
+import { filterReviews } from '@/lib/utils';
+import { DataSourceBanner } from '@/components/DataSourceBanner';
+import { SyncStatus } from '@/components/SyncStatus';
+import { UserMenu } from '@/components/UserMenu';
+import type { ReviewFilters } from '@/types';
 
 export const dynamic = 'force-dynamic';
 
-export default async function DashboardPage() {
-  // Fetch data on the server with error handling for build time
-  let properties: Awaited<ReturnType<typeof getPropertiesWithReviews>> = [];
-  let reviews: Awaited<ReturnType<typeof getAllReviews>> = [];
+// Guest themes are found in this many of the most recent matching reviews
+const THEME_SAMPLE_SIZE = 500;
+
+interface DashboardPageProps {
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
+  // Middleware checks the session cookie; this also catches deleted users
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login?next=/dashboard');
+  }
+  const canModerate = hasPermission(user.role, 'reviews:moderate');
+
+  // Managers and viewers only see their assigned properties
+  const scope = await getPropertyScope(user);
+
+  // Filters, sort and page come from the URL, in GET /api/reviews parameters
+  const params = new URLSearchParams();
+  Object.entries(searchParams).forEach(([name, value]) => {
+    [value ?? []].flat().forEach(v => params.append(name, v));
+  });
 
+  let query: ReviewQuery;
+  let queryError: string | null = null;
   try {
-    [properties, reviews] = await Promise.all([
-      getPropertiesWithReviews(),
-      getAllReviews()
-    ]);
+    query = parseReviewQuery(params);
   } catch (error) {
-    console.error('Error fetching dashboard data from database:', error);
-    console.log('Falling back to mock data...');
-
-    // Load mock data as fallback
-    try {
-      reviews = await loadMockReviewsNormalized();
-      properties = calculatePropertyPerformance(reviews);
-      console.log(`Loaded ${reviews.length} reviews and ${properties.length} properties from mock data`);
-    } catch (mockError) {
-      console.error('Error loading mock data:', mockError);
-      // Use empty arrays if mock data also fails
-    }
+    query = parseReviewQuery(new URLSearchParams());
+    queryError = error instanceof Error ? error.message : 'Invalid filters';
   }
 
+  const filters: ReviewFilters = scope ? { ...query.filters, propertyIds: scope } : query.filters;
+  const scopeFilters: ReviewFilters = scope ? { propertyIds: scope } : {};
+  // Themes come from guest reviews unless another review type is selected
+  const themeFilters: ReviewFilters = { reviewType: 'guest-to-host', ...filters };
+  const themeSort = { field: 'submittedAt', direction: 'desc' } as const;
+
+  // Fetch data on the server, falling back to mock data if allowed
+  const { data, provenance } = await loadWithFallback(
+    'database',
+    async () => {
+      const [
+        properties,
+        reviews,
+        statistics,
+        themeSample,
+        filterOptions,
+        editedCount,
+        assignees,
+        syncRuns,
+        auditEvents,
+      ] = await Promise.all([
+        getPropertiesWithReviews(scope),
+        getReviewsPage(filters, query.sort, query.pagination),
+        getReviewStatistics(filters),
+        getReviewsPage(themeFilters, themeSort, { page: 1, pageSize: THEME_SAMPLE_SIZE }),
+        getReviewFilterOptions(scope),
+        countReviews({ ...scopeFilters, needsReapproval: true }),
+        canModerate ? getAssignableUsers() : [],
+        getLatestSyncRuns(),
+        getAuditEvents({ limit: 100, propertyIds: scope ?? undefined }),
+      ]);
+      return {
+        properties,
+        reviews,
+        statistics,
+        themes: getPropertyThemeInsights(themeSample.data),
+        filterOptions,
+        editedCount,
+        auditEvents,
+        assignees,
+        syncRuns,
+      };
+    },
+    async () => {
+      const allReviews = (await loadMockReviewsNormalized()).filter(r =>
+        isPropertyInScope(scope, r.propertyId)
+      );
+      const themeSample = getMockReviewsPage(allReviews, themeFilters, themeSort, {
+        page: 1,
+        pageSize: THEME_SAMPLE_SIZE,
+      });
+      return {
+        properties: calculatePropertyPerformance(allReviews),
+        reviews: getMockReviewsPage(allReviews, filters, query.sort, query.pagination),
+        statistics: calculateReviewStatistics(filterReviews(allReviews, filters)),
+        themes: getPropertyThemeInsights(themeSample.data),
+        filterOptions: getMockFilterOptions(allReviews),
+        editedCount: filterReviews(allReviews, { needsReapproval: true }).length,
+        auditEvents: [],
+        assignees: [],
+        syncRuns: []
+      };
+    }
+  );
+  const {
+    properties,
+    reviews,
+    statistics,
+    themes,
+    filterOptions,
+    editedCount,
+    auditEvents,
+    assignees,
+    syncRuns,
+  } = data;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto p-6">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">
-            Manager Dashboard
-          </h1>
-          <p className="text-gray-600 mt-2">
-            Review and manage guest feedback across all properties
-          </p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Manager Dashboard
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Review and manage guest feedback across all properties
+            </p>
+            {provenance.source !== 'mock' && <SyncStatus runs={syncRuns} />}
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu user={user} />
+            {hasPermission(user.role, 'users:manage') && (
+              <Link
+                href="/dashboard/users"
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+              >
+                Users
+              </Link>
+            )}
+            {hasPermission(user.role, 'reviews:sync') && (
+              <Link
+                href="/dashboard/webhooks"
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+              >
+                Webhooks
+              </Link>
+            )}
+            {hasPermission(user.role, 'reviews:sync') && (
+              <Link
+                href="/dashboard/quarantine"
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+              >
+                Quarantine
+              </Link>
+            )}
+            {canModerate && (
+              <>
+                <Link
+                  href="/dashboard/moderation"
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                >
+                  Moderation Queue
+                </Link>
+                <Link
+                  href="/dashboard/import"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                >
+                  Import Reviews
+                </Link>
+              </>
+            )}
+          </div>
         </div>
 
+        {/* Data Source Warning */}
+        <DataSourceBanner provenance={provenance} />
+
         {/* Dashboard Content */}
-        <DashboardClient initialReviews={reviews} properties={properties} />
+        <DashboardClient
+          reviews={reviews}
+          sort={query.sort}
+          queryError={queryError}
+          statistics={statistics}
+          themes={themes}
+          filterOptions={filterOptions}
+          editedCount={editedCount}
+          properties={properties}
+          auditEvents={auditEvents}
+          assignees={assignees}
+          canModerate={canModerate}
+        />
       </div>
     </div>
   );
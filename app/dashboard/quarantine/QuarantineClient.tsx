@@ -0,0 +1,182 @@
+/**
+ * Quarantine Client Component
+ *
+ * Quarantined reviews with their validation errors and editable JSON,
+ * each with Re-ingest and Discard buttons, followed by recently
+ * re-ingested reviews
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { discardQuarantinedReview, reingestQuarantinedReview } from '@/app/actions';
+import { formatDateTime } from '@/lib/utils';
+import type { QuarantinedReview, ReviewValidationError } from '@/types';
+
+interface QuarantineClientProps {
+  quarantined: QuarantinedReview[];
+  resolved: QuarantinedReview[];
+}
+
+export function QuarantineClient({ quarantined, resolved }: QuarantineClientProps) {
+  return (
+    <div className="space-y-8">
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">
+          Quarantined ({quarantined.length})
+        </h2>
+        {quarantined.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-sm text-gray-500">
+            No reviews in quarantine
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {quarantined.map(review => (
+              <QuarantinedReviewCard key={review.id} review={review} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Recently re-ingested</h2>
+        {resolved.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-sm text-gray-500">
+            No reviews re-ingested yet
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Review</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">First seen</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Re-ingested</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {resolved.map(review => (
+                  <tr key={review.id}>
+                    <td className="px-4 py-2 text-gray-900">{review.sourceReviewId}</td>
+                    <td className="px-4 py-2 text-gray-600">{formatDateTime(review.firstSeenAt)}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {review.resolvedAt ? formatDateTime(review.resolvedAt) : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{review.resolvedBy ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function QuarantinedReviewCard({ review }: { review: QuarantinedReview }) {
+  const [payload, setPayload] = useState(() => formatPayload(review.payload));
+  const [errors, setErrors] = useState<ReviewValidationError[]>(review.errors);
+  const [isSaving, setIsSaving] = useState(false);
+  const [outcome, setOutcome] = useState<'reingested' | 'discarded' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReingest = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await reingestQuarantinedReview(review.id, payload);
+
+    setIsSaving(false);
+    if (result.success) {
+      setOutcome('reingested');
+    } else if (result.errors) {
+      setErrors(result.errors);
+    } else {
+      setError(result.error ?? 'Re-ingest failed');
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirm(`Discard review ${review.sourceReviewId}? It won't be saved.`)) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    const result = await discardQuarantinedReview(review.id);
+
+    setIsSaving(false);
+    if (result.success) {
+      setOutcome('discarded');
+    } else {
+      setError(result.error ?? 'Discard failed');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium text-gray-900">
+            {review.source} review {review.sourceReviewId}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            First seen {formatDateTime(review.firstSeenAt)} · last seen {formatDateTime(review.lastSeenAt)}
+            {review.syncRunId ? ' by a sync' : ' by a webhook'}
+          </div>
+          <ul className="text-sm text-red-600 mt-2 list-disc list-inside">
+            {errors.map((validationError, index) => (
+              <li key={index}>
+                <span className="font-mono">{validationError.field}</span>: {validationError.message}
+              </li>
+            ))}
+          </ul>
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          {outcome ? (
+            <span className="text-sm text-green-600">
+              {outcome === 'reingested' ? 'Re-ingested' : 'Discarded'}
+            </span>
+          ) : (
+            <>
+              <button
+                onClick={handleDiscard}
+                disabled={isSaving}
+                className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleReingest}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Re-ingest'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!outcome && (
+        <textarea
+          value={payload}
+          onChange={e => setPayload(e.target.value)}
+          rows={Math.min(payload.split('\n').length, 20)}
+          spellCheck={false}
+          className="mt-4 w-full p-3 bg-gray-50 rounded border border-gray-200 font-mono text-xs text-gray-700"
+        />
+      )}
+    </div>
+  );
+}
+
+function formatPayload(payload: string): string {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Quarantined Reviews Page
+ *
+ * Lists reviews that failed validation during a sync or webhook
+ * delivery, with the reasons, so managers can fix the JSON and
+ * re-ingest them or discard them. Managers only see reviews of their
+ * assigned properties.
+ */
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { QuarantineClient } from './QuarantineClient';
+import { getQuarantinedReviews } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
+
+export default async function QuarantinePage() {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, 'reviews:sync')) {
+    redirect('/dashboard');
+  }
+
+  const propertyIds = await getPropertyScope(user);
+  const [quarantined, resolved] = await Promise.all([
+    getQuarantinedReviews({ status: 'quarantined', propertyIds }),
+    getQuarantinedReviews({ status: 'reingested', propertyIds, limit: 50 }),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">
+            Quarantined Reviews
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Reviews from Hostaway that failed validation and were not saved
+          </p>
+        </div>
+
+        <QuarantineClient quarantined={quarantined} resolved={resolved} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Users Client Component
+ *
+ * Property assignment editor, one card per user
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { setUserAssignments } from '@/app/actions';
+import type { Property, User } from '@/types';
+
+interface UsersClientProps {
+  users: User[];
+  properties: Property[];
+}
+
+export function UsersClient({ users, properties }: UsersClientProps) {
+  if (users.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-12 text-center">
+        <h3 className="text-lg font-medium text-gray-900">No users yet</h3>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {users.map(user => (
+        <UserAssignments key={user.id} user={user} properties={properties} />
+      ))}
+    </div>
+  );
+}
+
+interface UserAssignmentsProps {
+  user: User;
+  properties: Property[];
+}
+
+function UserAssignments({ user, properties }: UserAssignmentsProps) {
+  const [selected, setSelected] = useState<string[]>(user.propertyIds ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleProperty = (propertyId: string) => {
+    setMessage(null);
+    setSelected(prev =>
+      prev.includes(propertyId) ? prev.filter(id => id !== propertyId) : [...prev, propertyId]
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await setUserAssignments(user.id, selected);
+
+    setIsSaving(false);
+    if (result.success) {
+      setMessage('Saved');
+    } else {
+      setError(result.error ?? 'Failed to save assignments');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium text-gray-900">{user.name ?? user.email}</div>
+          <div className="text-sm text-gray-500">
+            {user.email} · <span className="capitalize">{user.role}</span>
+          </div>
+        </div>
+        {user.role !== 'admin' && (
+          <div className="flex items-center gap-3">
+            {message && <span className="text-sm text-green-600">{message}</span>}
+            {error && <span className="text-sm text-red-600">{error}</span>}
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {user.role === 'admin' ? (
+        <p className="text-sm text-gray-500 mt-4">Admins can see every property</p>
+      ) : (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+          {properties.map(property => (
+            <label key={property.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(property.id)}
+                onChange={() => toggleProperty(property.id)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              {property.name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * User Assignments Page
+ *
+ * Lets admins choose which properties each manager and viewer can see
+ * and curate. Admins always see every property.
+ */
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { UsersClient } from './UsersClient';
+import { getProperties, getUsersWithAssignments } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
+
+export default async function UsersPage() {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, 'users:manage')) {
+    redirect('/dashboard');
+  }
+
+  const [users, properties] = await Promise.all([getUsersWithAssignments(), getProperties()]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">
+            Users
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Assign properties to managers and viewers
+          </p>
+        </div>
+
+        <UsersClient users={users} properties={properties} />
+      </div>
+    </div>
+  );
+}
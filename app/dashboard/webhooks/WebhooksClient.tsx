@@ -0,0 +1,145 @@
+/**
+ * Webhooks Client Component
+ *
+ * Failed webhook deliveries with their error, body and a Replay button,
+ * followed by recently processed deliveries
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { replayWebhookEvent } from '@/app/actions';
+import { formatDateTime } from '@/lib/utils';
+import type { WebhookEvent } from '@/types';
+
+interface WebhooksClientProps {
+  failed: WebhookEvent[];
+  recent: WebhookEvent[];
+}
+
+export function WebhooksClient({ failed, recent }: WebhooksClientProps) {
+  return (
+    <div className="space-y-8">
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">
+          Failed ({failed.length})
+        </h2>
+        {failed.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-sm text-gray-500">
+            No failed deliveries
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {failed.map(event => (
+              <FailedDelivery key={event.id} event={event} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Recently processed</h2>
+        {recent.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-sm text-gray-500">
+            No deliveries received yet
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Received</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Event</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Review</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Attempts</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {recent.map(event => (
+                  <tr key={event.id}>
+                    <td className="px-4 py-2 text-gray-600">{formatDateTime(event.receivedAt)}</td>
+                    <td className="px-4 py-2 text-gray-900">{event.event}</td>
+                    <td className="px-4 py-2 text-gray-900">{event.reviewId ?? '—'}</td>
+                    <td className="px-4 py-2 text-gray-600">{event.attempts}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function FailedDelivery({ event }: { event: WebhookEvent }) {
+  const [showPayload, setShowPayload] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayed, setReplayed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReplay = async () => {
+    setIsReplaying(true);
+    setError(null);
+
+    const result = await replayWebhookEvent(event.id);
+
+    setIsReplaying(false);
+    if (result.success) {
+      setReplayed(true);
+    } else {
+      setError(result.error ?? 'Replay failed');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium text-gray-900">
+            {event.event}
+            {event.reviewId && <span className="text-gray-500 font-normal"> · review {event.reviewId}</span>}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {formatDateTime(event.receivedAt)} · event {event.eventId} · {event.attempts} attempt
+            {event.attempts !== 1 ? 's' : ''}
+          </div>
+          <p className="text-sm text-red-600 mt-2">{error ?? event.error}</p>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <button
+            onClick={() => setShowPayload(!showPayload)}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            {showPayload ? 'Hide body' : 'Show body'}
+          </button>
+          {replayed ? (
+            <span className="text-sm text-green-600">Processed</span>
+          ) : (
+            <button
+              onClick={handleReplay}
+              disabled={isReplaying}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm disabled:opacity-50"
+            >
+              {isReplaying ? 'Replaying...' : 'Replay'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showPayload && (
+        <pre className="mt-4 p-3 bg-gray-50 rounded text-xs text-gray-700 overflow-x-auto">
+          {formatPayload(event.payload)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function formatPayload(payload: string): string {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
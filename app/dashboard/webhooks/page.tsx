@@ -0,0 +1,51 @@
+/**
+ * Webhook Deliveries Page
+ *
+ * Lists recent Hostaway webhook deliveries, failed ones first, so
+ * managers can see why a review didn't arrive and replay the delivery
+ * once the cause is fixed. Managers only see deliveries for their
+ * assigned properties.
+ */
+
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { WebhooksClient } from './WebhooksClient';
+import { getWebhookEvents } from '@/lib/db';
+import { getCurrentUser, getPropertyScope } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
+
+export default async function WebhooksPage() {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, 'reviews:sync')) {
+    redirect('/dashboard');
+  }
+
+  const propertyIds = await getPropertyScope(user);
+  const [failed, recent] = await Promise.all([
+    getWebhookEvents({ status: 'failed', propertyIds }),
+    getWebhookEvents({ status: 'processed', propertyIds, limit: 50 }),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/dashboard" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">
+            Webhook Deliveries
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Reviews sent by Hostaway as they are written or edited
+          </p>
+        </div>
+
+        <WebhooksClient failed={failed} recent={recent} />
+      </div>
+    </div>
+  );
+}
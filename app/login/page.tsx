@@ -0,0 +1,35 @@
+/**
+ * Sign-In Page
+ *
+ * Email and password sign-in for the manager dashboard. Users are
+ * created by an admin (see `npm run seed` for the first admin).
+ */
+
+import { LoginClient } from './LoginClient';
+
+interface LoginPageProps {
+  searchParams: { next?: string };
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  // Only redirect within this site after signing in
+  const next =
+    searchParams.next?.startsWith('/') && !searchParams.next.startsWith('//')
+      ? searchParams.next
+      : '/dashboard';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+      <div className="w-full max-w-sm">
+        <h1 className="text-3xl font-bold text-gray-900 text-center">
+          Manager Sign In
+        </h1>
+        <p className="text-gray-600 mt-2 text-center">
+          Sign in to manage guest reviews
+        </p>
+
+        <LoginClient next={next} />
+      </div>
+    </div>
+  );
+}
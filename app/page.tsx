@@ -1,28 +1,16 @@
 import Link from 'next/link'
 import { getPropertiesWithReviews } from '@/lib/db'
 import { loadMockReviewsNormalized, calculatePropertyPerformance } from '@/lib/mock-data'
+import { loadWithFallback } from '@/lib/data-source'
 
 export const dynamic = 'force-dynamic';
 
 export default async function Home() {
-  let properties: Awaited<ReturnType<typeof getPropertiesWithReviews>> = [];
-
-  try {
-    properties = await getPropertiesWithReviews();
-  } catch (error) {
-    console.error('Error fetching properties from database:', error);
-    console.log('Falling back to mock data...');
-
-    // Load mock data as fallback
-    try {
-      const mockReviews = await loadMockReviewsNormalized();
-      properties = calculatePropertyPerformance(mockReviews);
-      console.log(`Loaded ${properties.length} properties from mock data`);
-    } catch (mockError) {
-      console.error('Error loading mock data:', mockError);
-      // Use empty array if mock data also fails
-    }
-  }
+  const { data: properties } = await loadWithFallback(
+    'database',
+    () => getPropertiesWithReviews(),
+    async () => calculatePropertyPerformance(await loadMockReviewsNormalized())
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white">
@@ -62,7 +50,7 @@ export default async function Home() {
               {properties.map(property => (
                 <Link
                   key={property.propertyId}
-                  href={`/properties/${property.propertyId}`}
+                  href={`/properties/${property.slug ?? property.propertyId}`}
                   className="bg-white rounded-lg shadow-md p-6 hover:shadow-xl transition-shadow border border-gray-200"
                 >
                   <h3 className="text-xl font-semibold text-gray-900 mb-2">
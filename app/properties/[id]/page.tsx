@@ -4,15 +4,21 @@
  * This page displays only manager-approved reviews for public viewing
  * with a clean, professional layout matching the Flex Living brand.
  *
- * Route: /properties/[id]
+ * Route: /properties/[id], where id is the property slug (or its ID for
+ * links made before a listing was renamed)
  */
 
-import { getReviewsByProperty } from '@/lib/db';
+import Image from 'next/image';
+import { notFound } from 'next/navigation';
+import { getPropertyBySlug, getReviewsByProperty } from '@/lib/db';
 import { ReviewCard } from '@/components/ReviewCard';
 import { StarRating } from '@/components/StarRating';
 import { EmptyState } from '@/components/EmptyState';
 import { loadMockReviewsNormalized } from '@/lib/mock-data';
+import { loadWithFallback } from '@/lib/data-source';
+import { findHeroImage } from '@/lib/listings';
 import Link from 'next/link';
+import type { Property } from '@/types';
 
 interface PropertyPageProps {
   params: {
@@ -25,27 +31,31 @@ export const dynamic = 'force-dynamic';
 export default async function PropertyPage({ params }: PropertyPageProps) {
   const { id } = params;
 
-  // Fetch all reviews for this property with error handling
-  let allReviews: Awaited<ReturnType<typeof getReviewsByProperty>> = [];
-  try {
-    allReviews = await getReviewsByProperty(id);
-  } catch (error) {
-    console.error(`Error fetching reviews for property ${id} from database:`, error);
-    console.log('Falling back to mock data...');
-
-    // Load mock data and filter for this property
-    try {
-      const mockReviews = await loadMockReviewsNormalized();
-      allReviews = mockReviews.filter(r => r.propertyId === id);
-      console.log(`Loaded ${allReviews.length} reviews for property ${id} from mock data`);
-    } catch (mockError) {
-      console.error('Error loading mock data:', mockError);
-      // Use empty array if mock data also fails
+  // Fetch the property and its reviews, falling back to mock data if allowed
+  const { data } = await loadWithFallback(
+    'database',
+    async () => {
+      const property = await getPropertyBySlug(id);
+      const reviews = property ? await getReviewsByProperty(property.id) : [];
+      return { property, reviews };
+    },
+    async () => {
+      const reviews = (await loadMockReviewsNormalized()).filter(r => r.propertyId === id);
+      const name = reviews[0]?.propertyName ?? id;
+      const property: Property | null =
+        reviews.length > 0 ? { id, name, slug: id, heroImage: findHeroImage(name) } : null;
+      return { property, reviews };
     }
+  );
+
+  if (!data.property) {
+    notFound();
   }
 
+  const { property, reviews: allReviews } = data;
+
   // Filter to only show approved reviews
-  const approvedReviews = allReviews.filter(r => r.displayOnWebsite);
+  const approvedReviews = allReviews.filter(r => r.moderationStatus === 'approved');
 
   // Calculate statistics
   const reviewsWithRating = approvedReviews.filter(r => r.rating !== null);
@@ -53,11 +63,7 @@ export default async function PropertyPage({ params }: PropertyPageProps) {
     ? reviewsWithRating.reduce((sum, r) => sum + r.rating!, 0) / reviewsWithRating.length
     : null;
 
-  // Property name from ID
-  const propertyName = id
-    .split('-')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
+  const propertyName = property.name;
 
   // Calculate category breakdown
   const categoryRatings: Record<string, { total: number; count: number }> = {};
@@ -103,11 +109,36 @@ export default async function PropertyPage({ params }: PropertyPageProps) {
       <main className="max-w-7xl mx-auto px-6 py-12">
         {/* Property Hero */}
         <div className="mb-12">
-          <div className="bg-gradient-to-br from-blue-50 to-indigo-100 h-96 rounded-2xl flex items-center justify-center mb-6 shadow-lg">
-            <div className="text-center">
+          <div className="relative bg-gradient-to-br from-blue-50 to-indigo-100 h-96 rounded-2xl overflow-hidden flex items-center justify-center mb-6 shadow-lg">
+            {property.heroImage && (
+              <>
+                <Image
+                  src={property.heroImage}
+                  alt={propertyName}
+                  fill
+                  priority
+                  className="object-cover"
+                  sizes="(max-width: 1280px) 100vw, 1280px"
+                />
+                <div className="absolute inset-0 bg-white/70" />
+              </>
+            )}
+            <div className="relative text-center">
               <h1 className="text-5xl font-bold text-gray-900 mb-4">
                 {propertyName}
               </h1>
+              {(property.address || property.bedrooms) && (
+                <p className="text-lg text-gray-700 mb-4">
+                  {[
+                    property.address,
+                    property.bedrooms
+                      ? `${property.bedrooms} ${property.bedrooms === 1 ? 'bedroom' : 'bedrooms'}`
+                      : null,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              )}
               {averageRating !== null && (
                 <div className="flex items-center justify-center gap-3">
                   <StarRating rating={averageRating} scale={10} size="lg" />
@@ -0,0 +1,42 @@
+/**
+ * ActivityLog Component
+ *
+ * Lists audit events, newest first
+ */
+
+import { AUDIT_ACTION_LABELS, describeAuditEvent } from '@/lib/audit';
+import { formatDateTime } from '@/lib/utils';
+import type { AuditEvent } from '@/types';
+
+interface ActivityLogProps {
+  events: AuditEvent[];
+  showReviewId?: boolean;
+}
+
+export function ActivityLog({ events, showReviewId = true }: ActivityLogProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">No activity recorded yet</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {events.map(event => (
+        <li key={event.id} className="py-3">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium text-gray-900">
+              {AUDIT_ACTION_LABELS[event.action] ?? event.action}
+            </span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {formatDateTime(event.createdAt)}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700 mt-1">{describeAuditEvent(event)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            by {event.actor}
+            {showReviewId && event.reviewId && <> · review {event.reviewId}</>}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
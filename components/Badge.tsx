@@ -18,6 +18,9 @@ export function Badge({ children, variant = 'default', value }: BadgeProps) {
         airbnb: 'bg-pink-100 text-pink-800',
         booking: 'bg-purple-100 text-purple-800',
         vrbo: 'bg-orange-100 text-orange-800',
+        expedia: 'bg-yellow-100 text-yellow-800',
+        direct: 'bg-green-100 text-green-800',
+        google: 'bg-teal-100 text-teal-800',
       };
       return channelColors[value?.toLowerCase() || ''] || 'bg-gray-100 text-gray-800';
     }
@@ -30,9 +33,11 @@ export function Badge({ children, variant = 'default', value }: BadgeProps) {
 
     if (variant === 'status') {
       const statusColors: Record<string, string> = {
+        new: 'bg-blue-100 text-blue-800',
         approved: 'bg-green-100 text-green-800',
         pending: 'bg-yellow-100 text-yellow-800',
         rejected: 'bg-red-100 text-red-800',
+        hidden: 'bg-gray-200 text-gray-700',
       };
       return statusColors[value?.toLowerCase() || ''] || 'bg-gray-100 text-gray-800';
     }
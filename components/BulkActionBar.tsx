@@ -0,0 +1,180 @@
+/**
+ * BulkActionBar Component
+ *
+ * Shown above the review table while reviews are selected. Offers
+ * "select all matching", export of the selection and bulk actions
+ * (publish, unpublish, tag, assign, delete). Every change is confirmed
+ * with a summary of what will happen before it is sent to the server
+ * as a single call.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ExportButton } from './ExportButton';
+import { applyBulkReviewAction } from '@/app/actions';
+import { describeBulkAction, planBulkAction } from '@/lib/bulk-actions';
+import type { BulkActionPlan, BulkReviewAction, Review, SortOptions, User } from '@/types';
+
+interface BulkActionBarProps {
+  selectedReviews: Review[];
+  matchingCount: number; // Reviews matching the current filters
+  assignees: User[];
+  sort: SortOptions;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onApplied: (action: BulkReviewAction, reviewIds: string[]) => void;
+}
+
+export function BulkActionBar({
+  selectedReviews,
+  matchingCount,
+  assignees,
+  sort,
+  onSelectAll,
+  onClear,
+  onApplied,
+}: BulkActionBarProps) {
+  const [tag, setTag] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [pending, setPending] = useState<{ action: BulkReviewAction; plan: BulkActionPlan } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reviewsById = new Map(selectedReviews.map(r => [r.id, r]));
+
+  const prepare = (action: BulkReviewAction) => {
+    setError(null);
+    setPending({ action, plan: planBulkAction(selectedReviews, action) });
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+
+    setIsApplying(true);
+    setError(null);
+
+    const result = await applyBulkReviewAction(pending.plan.reviewIds, pending.action);
+
+    setIsApplying(false);
+    if (result.success) {
+      onApplied(pending.action, pending.plan.reviewIds);
+      setPending(null);
+      setTag('');
+    } else {
+      setError(result.error ?? 'Failed to update reviews');
+    }
+  };
+
+  const buttonClass =
+    'px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium disabled:opacity-50';
+
+  return (
+    <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-blue-900">
+          {selectedReviews.length} selected
+        </span>
+        {selectedReviews.length < matchingCount && (
+          <button onClick={onSelectAll} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            Select all {matchingCount} matching reviews
+          </button>
+        )}
+        <button onClick={onClear} className="text-sm text-gray-600 hover:text-gray-800">
+          Clear selection
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => prepare({ type: 'publish' })} className={buttonClass}>
+          Publish
+        </button>
+        <button onClick={() => prepare({ type: 'unpublish' })} className={buttonClass}>
+          Unpublish
+        </button>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="Tag"
+            aria-label="Tag"
+            className="w-32 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={() => prepare({ type: 'tag', tag })}
+            disabled={!tag.trim()}
+            className={buttonClass}
+          >
+            Tag
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            aria-label="Assignee"
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Nobody</option>
+            {assignees.map(user => (
+              <option key={user.id} value={user.email}>{user.name ?? user.email}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => prepare({ type: 'assign', assignee: assignee || null })}
+            className={buttonClass}
+          >
+            Assign
+          </button>
+        </div>
+
+        <button
+          onClick={() => prepare({ type: 'delete' })}
+          className="px-3 py-1.5 text-sm border border-red-300 rounded-lg text-red-700 bg-white hover:bg-red-50 font-medium"
+        >
+          Delete
+        </button>
+
+        <div className="ml-auto">
+          <ExportButton reviews={selectedReviews} sort={sort} />
+        </div>
+      </div>
+
+      {/* Confirmation */}
+      {pending && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-gray-900">
+            {describeBulkAction(pending.action, pending.plan)}?
+          </p>
+          {pending.plan.skipped.length > 0 && (
+            <ul className="mt-2 text-xs text-gray-600 space-y-0.5 max-h-32 overflow-y-auto">
+              {pending.plan.skipped.map(({ reviewId, reason }) => (
+                <li key={reviewId}>
+                  {reviewsById.get(reviewId)?.guestName ?? reviewId}: {reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+          <div className="mt-3 flex items-center gap-2">
+            <button
+              onClick={handleConfirm}
+              disabled={isApplying || pending.plan.reviewIds.length === 0}
+              className={`px-4 py-1.5 text-sm text-white rounded-lg font-medium disabled:opacity-50 ${
+                pending.action.type === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isApplying ? 'Applying...' : 'Confirm'}
+            </button>
+            <button onClick={() => setPending(null)} disabled={isApplying} className={buttonClass}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * DataSourceBanner Component
+ *
+ * Warns managers when the data on screen is not real
+ */
+
+import { describeSource } from '@/lib/data-source';
+import type { DataProvenance } from '@/types';
+
+interface DataSourceBannerProps {
+  provenance: DataProvenance;
+}
+
+export function DataSourceBanner({ provenance }: DataSourceBannerProps) {
+  // Real data needs no warning
+  if (provenance.source !== 'mock') {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="mb-6 rounded-lg border border-yellow-300 bg-yellow-50 px-4 py-3"
+    >
+      <p className="text-sm font-semibold text-yellow-800">
+        Showing {describeSource(provenance.source).toLowerCase()}
+      </p>
+      <p className="text-sm text-yellow-700 mt-1">
+        {provenance.fallbackReason ?? 'Real review data is unavailable.'} Changes made here
+        will not be saved.
+      </p>
+    </div>
+  );
+}
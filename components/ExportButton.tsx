@@ -0,0 +1,72 @@
+/**
+ * ExportButton Component
+ *
+ * Downloads reviews as CSV, Excel-compatible CSV or JSON: either every
+ * review matching the dashboard filters, exported by GET
+ * /api/reviews/export, or a selection of loaded reviews, exported in
+ * the browser in the table's sort order
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { exportReviews, getExportContentType, getExportFileName } from '@/lib/export';
+import { sortReviews } from '@/lib/utils';
+import type { ExportFormat, Review, SortOptions } from '@/types';
+
+type ExportButtonProps =
+  | { query: string; count: number } // Filters and sort, as GET /api/reviews parameters
+  | { reviews: Review[]; sort: SortOptions };
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  excel: 'Excel (CSV)',
+  json: 'JSON',
+};
+
+export function ExportButton(props: ExportButtonProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const count = 'query' in props ? props.count : props.reviews.length;
+
+  const handleExport = () => {
+    if ('query' in props) {
+      const params = new URLSearchParams(props.query);
+      params.set('format', format);
+      window.location.assign(`/api/reviews/export?${params}`);
+      return;
+    }
+
+    const content = exportReviews(sortReviews(props.reviews, props.sort), format);
+    const blob = new Blob([content], { type: getExportContentType(format) });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getExportFileName(format);
+    link.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        aria-label="Export format"
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(value => (
+          <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={count === 0}
+        className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50"
+      >
+        Export {count} review{count !== 1 ? 's' : ''}
+      </button>
+    </div>
+  );
+}
@@ -1,102 +1,91 @@
 /**
  * FilterBar Component
  *
- * Provides filtering controls for the dashboard
+ * Provides filtering controls for the dashboard. Filters are kept as
+ * GET /api/reviews query parameters, which the dashboard reads from
+ * its URL; each change is reported as the parameters to set or remove.
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { Review } from '@/types';
+import { formatChannel } from '@/lib/hostaway/channels';
+import type { PropertyPerformance } from '@/types';
 
 interface FilterBarProps {
-  reviews: Review[];
-  onFilterChange: (filteredReviews: Review[]) => void;
+  params: URLSearchParams; // Current query parameters
+  properties: Pick<PropertyPerformance, 'propertyId' | 'propertyName'>[];
+  channels: string[];
+  categories: string[];
+  onFilterChange: (changes: Record<string, string | null>) => void; // null removes a parameter
 }
 
-export function FilterBar({ reviews, onFilterChange }: FilterBarProps) {
-  const [propertyFilter, setPropertyFilter] = useState<string>('all');
-  const [channelFilter, setChannelFilter] = useState<string>('all');
-  const [ratingFilter, setRatingFilter] = useState<string>('all');
-  const [typeFilter, setTypeFilter] = useState<string>('all');
-  const [dateFilter, setDateFilter] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState<string>('');
+const REVIEW_TYPES = ['guest-to-host', 'host-to-guest'];
+const DATE_RANGE_DAYS = [7, 30, 90];
 
-  // Extract unique values for filters
-  const properties = Array.from(new Set(reviews.map(r => r.propertyId)));
-  const channels = Array.from(new Set(reviews.map(r => r.channel)));
-  const types = Array.from(new Set(reviews.map(r => r.reviewType)));
+// Category ratings are stored to one decimal, so "below 5" is at most 4.9
+const CATEGORY_RATING_OPTIONS: { value: string; label: string; params: Record<string, string> }[] = [
+  { value: 'lt:5', label: 'Below 5', params: { categoryMaxRating: '4.9' } },
+  { value: 'lt:7', label: 'Below 7', params: { categoryMaxRating: '6.9' } },
+  { value: 'lt:9', label: 'Below 9', params: { categoryMaxRating: '8.9' } },
+  { value: 'gte:9', label: '9+ Stars', params: { categoryMinRating: '9' } },
+];
+
+// Filter parameters cleared by "Clear All"; sort and page size are kept
+const FILTER_PARAMS = [
+  'propertyId',
+  'channel',
+  'minRating',
+  'reviewType',
+  'dateFrom',
+  'category',
+  'categoryMinRating',
+  'categoryMaxRating',
+  'needsReapproval',
+  'search',
+];
+
+// Typing in the search box waits this long before filtering
+const SEARCH_DELAY_MS = 300;
+
+/** dateFrom of the last `days` days, as an ISO date */
+const getDateFrom = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export function FilterBar({ params, properties, channels, categories, onFilterChange }: FilterBarProps) {
+  const search = params.get('search') ?? '';
+  const [searchQuery, setSearchQuery] = useState<string>(search);
+
+  const dateFrom = params.get('dateFrom');
+  const dateDays = DATE_RANGE_DAYS.find(days => getDateFrom(days) === dateFrom);
+  const category = params.get('category');
+  const categoryRating = CATEGORY_RATING_OPTIONS.find(option =>
+    ['categoryMinRating', 'categoryMaxRating'].every(
+      name => params.get(name) === (option.params[name] ?? null)
+    )
+  );
+
+  // Follow the URL when it changes elsewhere, e.g. going back
+  useEffect(() => {
+    setSearchQuery(current => (current.trim() === search ? current : search));
+  }, [search]);
 
   useEffect(() => {
-    const filtered = reviews.filter(review => {
-      // Property filter
-      if (propertyFilter !== 'all' && review.propertyId !== propertyFilter) {
-        return false;
-      }
-
-      // Channel filter
-      if (channelFilter !== 'all' && review.channel !== channelFilter) {
-        return false;
-      }
-
-      // Rating filter
-      if (ratingFilter !== 'all') {
-        const minRating = parseInt(ratingFilter);
-        if (!review.rating || review.rating < minRating) {
-          return false;
-        }
-      }
-
-      // Type filter
-      if (typeFilter !== 'all' && review.reviewType !== typeFilter) {
-        return false;
-      }
-
-      // Date filter
-      if (dateFilter !== 'all') {
-        const now = new Date();
-        const reviewDate = new Date(review.submittedAt);
-        const daysAgo = parseInt(dateFilter);
-        const cutoffDate = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
-
-        if (reviewDate < cutoffDate) {
-          return false;
-        }
-      }
-
-      // Search query
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        const matchesName = review.guestName.toLowerCase().includes(query);
-        const matchesReview = review.publicReview.toLowerCase().includes(query);
-
-        if (!matchesName && !matchesReview) {
-          return false;
-        }
-      }
-
-      return true;
-    });
-
-    onFilterChange(filtered);
-  }, [propertyFilter, channelFilter, ratingFilter, typeFilter, dateFilter, searchQuery, reviews, onFilterChange]);
+    if (searchQuery.trim() === search) return;
+
+    const timer = setTimeout(() => onFilterChange({ search: searchQuery.trim() || null }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery, search, onFilterChange]);
+
+  const setFilter = (name: string) => (value: string) =>
+    onFilterChange({ [name]: value === 'all' ? null : value });
 
   const handleClearFilters = () => {
-    setPropertyFilter('all');
-    setChannelFilter('all');
-    setRatingFilter('all');
-    setTypeFilter('all');
-    setDateFilter('all');
     setSearchQuery('');
+    onFilterChange(Object.fromEntries(FILTER_PARAMS.map(name => [name, null])));
   };
 
-  const hasActiveFilters =
-    propertyFilter !== 'all' ||
-    channelFilter !== 'all' ||
-    ratingFilter !== 'all' ||
-    typeFilter !== 'all' ||
-    dateFilter !== 'all' ||
-    searchQuery !== '';
+  const hasActiveFilters = FILTER_PARAMS.some(name => params.has(name));
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6 mb-6">
@@ -124,21 +113,21 @@ export function FilterBar({ reviews, onFilterChange }: FilterBarProps) {
       </div>
 
       {/* Filter Controls */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Property Filter */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Property
           </label>
           <select
-            value={propertyFilter}
-            onChange={(e) => setPropertyFilter(e.target.value)}
+            value={params.get('propertyId') ?? 'all'}
+            onChange={(e) => setFilter('propertyId')(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="all">All Properties</option>
-            {properties.map(prop => (
-              <option key={prop} value={prop}>
-                {prop.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}
+            {properties.map(property => (
+              <option key={property.propertyId} value={property.propertyId}>
+                {property.propertyName}
               </option>
             ))}
           </select>
@@ -150,14 +139,14 @@ export function FilterBar({ reviews, onFilterChange }: FilterBarProps) {
             Channel
           </label>
           <select
-            value={channelFilter}
-            onChange={(e) => setChannelFilter(e.target.value)}
+            value={params.get('channel') ?? 'all'}
+            onChange={(e) => setFilter('channel')(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="all">All Channels</option>
             {channels.map(channel => (
               <option key={channel} value={channel}>
-                {channel.charAt(0).toUpperCase() + channel.slice(1)}
+                {formatChannel(channel)}
               </option>
             ))}
           </select>
@@ -169,8 +158,8 @@ export function FilterBar({ reviews, onFilterChange }: FilterBarProps) {
             Min Rating
           </label>
           <select
-            value={ratingFilter}
-            onChange={(e) => setRatingFilter(e.target.value)}
+            value={params.get('minRating') ?? 'all'}
+            onChange={(e) => setFilter('minRating')(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="all">All Ratings</option>
@@ -188,12 +177,12 @@ export function FilterBar({ reviews, onFilterChange }: FilterBarProps) {
             Review Type
           </label>
           <select
-            value={typeFilter}
-            onChange={(e) => setTypeFilter(e.target.value)}
+            value={params.get('reviewType') ?? 'all'}
+            onChange={(e) => setFilter('reviewType')(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="all">All Types</option>
-            {types.map(type => (
+            {REVIEW_TYPES.map(type => (
               <option key={type} value={type}>
                 {type.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' to ')}
               </option>
@@ -207,14 +196,64 @@ export function FilterBar({ reviews, onFilterChange }: FilterBarProps) {
             Date Range
           </label>
           <select
-            value={dateFilter}
-            onChange={(e) => setDateFilter(e.target.value)}
+            value={dateFrom ? (dateDays ? String(dateDays) : 'since') : 'all'}
+            onChange={(e) => onFilterChange({
+              dateFrom: e.target.value === 'all' ? null : getDateFrom(Number(e.target.value)),
+            })}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="all">All Time</option>
-            <option value="7">Last 7 Days</option>
-            <option value="30">Last 30 Days</option>
-            <option value="90">Last 90 Days</option>
+            {DATE_RANGE_DAYS.map(days => (
+              <option key={days} value={days}>Last {days} Days</option>
+            ))}
+            {/* A link from an earlier day keeps its start date */}
+            {dateFrom && !dateDays && <option value="since">Since {dateFrom}</option>}
+          </select>
+        </div>
+
+        {/* Category Filter */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Category
+          </label>
+          <select
+            value={category ?? 'all'}
+            onChange={(e) => {
+              // Category rating bounds need a category
+              onFilterChange(e.target.value === 'all'
+                ? { category: null, categoryMinRating: null, categoryMaxRating: null }
+                : { category: e.target.value });
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Categories</option>
+            {categories.map(category => (
+              <option key={category} value={category}>
+                {category.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Category Rating Filter */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Category Rating
+          </label>
+          <select
+            value={categoryRating?.value ?? 'all'}
+            onChange={(e) => onFilterChange({
+              categoryMinRating: null,
+              categoryMaxRating: null,
+              ...CATEGORY_RATING_OPTIONS.find(option => option.value === e.target.value)?.params,
+            })}
+            disabled={!category}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+          >
+            <option value="all">Any Rating</option>
+            {CATEGORY_RATING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -17,19 +17,14 @@ interface PropertyCardProps {
 }
 
 export function PropertyCard({ property, onClick }: PropertyCardProps) {
-  const { propertyName, totalReviews, averageRating, recentTrends } = property;
-
-  // Map property name to image filename
-  const getPropertyImage = (name: string) => {
-    return `/properties/${name}.png`;
-  };
+  const { propertyName, heroImage, totalReviews, averageRating, recentTrends } = property;
 
   const getTrendIcon = () => {
-    return recentTrends.direction === 'up' ? '↑' : '↓';
+    return recentTrends?.direction === 'up' ? '↑' : '↓';
   };
 
   const getTrendColor = () => {
-    return recentTrends.direction === 'up' ? 'text-green-600' : 'text-red-600';
+    return recentTrends?.direction === 'up' ? 'text-green-600' : 'text-red-600';
   };
 
   return (
@@ -40,14 +35,16 @@ export function PropertyCard({ property, onClick }: PropertyCardProps) {
       }`}
     >
       {/* Property Image */}
-      <div className="relative w-full h-48">
-        <Image
-          src={getPropertyImage(propertyName)}
-          alt={propertyName}
-          fill
-          className="object-cover"
-          sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-        />
+      <div className="relative w-full h-48 bg-gradient-to-br from-blue-50 to-indigo-100">
+        {heroImage && (
+          <Image
+            src={heroImage}
+            alt={propertyName}
+            fill
+            className="object-cover"
+            sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+          />
+        )}
       </div>
 
       {/* Card Content */}
@@ -60,8 +57,11 @@ export function PropertyCard({ property, onClick }: PropertyCardProps) {
             <p className="text-sm text-gray-500">{totalReviews} reviews</p>
           </div>
 
-          {recentTrends.percentage > 0 && (
-            <div className={`flex items-center gap-1 ${getTrendColor()}`}>
+          {recentTrends && recentTrends.direction !== 'flat' && (
+            <div
+              className={`flex items-center gap-1 ${getTrendColor()}`}
+              title="Average rating, last 30 days vs the 30 days before"
+            >
               <span className="text-xl">{getTrendIcon()}</span>
               <span className="text-sm font-medium">
                 {recentTrends.percentage}%
@@ -0,0 +1,358 @@
+/**
+ * RatingCharts Component
+ *
+ * Weekly or monthly charts of the average guest rating and review count,
+ * for all properties, one property or one channel, over a selectable
+ * range. The previous range can be overlaid for comparison. Each range
+ * is loaded from GET /api/analytics/ratings, so the buckets are built on
+ * the server.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getDefaultRange } from '@/lib/analytics';
+import { formatChannel } from '@/lib/hostaway/channels';
+import type {
+  AnalyticsPeriod,
+  PropertyPerformance,
+  RatingAnalytics,
+  RatingAnalyticsApiResponse,
+  RatingBucket,
+  RatingTrend,
+} from '@/types';
+
+interface RatingChartsProps {
+  properties: Pick<PropertyPerformance, 'propertyId' | 'propertyName'>[];
+  channels: string[];
+}
+
+const RANGES: { id: string; label: string; period: AnalyticsPeriod; buckets: number }[] = [
+  { id: '4w', label: 'Last 4 weeks', period: 'week', buckets: 4 },
+  { id: '12w', label: 'Last 12 weeks', period: 'week', buckets: 12 },
+  { id: '6m', label: 'Last 6 months', period: 'month', buckets: 6 },
+  { id: '12m', label: 'Last 12 months', period: 'month', buckets: 12 },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+export function RatingCharts({ properties, channels }: RatingChartsProps) {
+  const [rangeId, setRangeId] = useState('12w');
+  const [series, setSeries] = useState('all'); // 'all', 'property:<id>' or 'channel:<name>'
+  const [compare, setCompare] = useState(true);
+  const [analytics, setAnalytics] = useState<RatingAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const range = RANGES.find(r => r.id === rangeId) ?? RANGES[0];
+    const [kind, key] = series.split(/:(.*)/);
+    const params = new URLSearchParams({
+      period: range.period,
+      ...getDefaultRange(range.period, range.buckets),
+      compare: String(compare),
+    });
+    if (kind === 'property') params.set('propertyId', key);
+    if (kind === 'channel') params.set('channel', key);
+
+    // Only the latest selection's response is shown
+    const controller = new AbortController();
+    setError(null);
+
+    fetch(`/api/analytics/ratings?${params}`, { signal: controller.signal })
+      .then(response => response.json() as Promise<RatingAnalyticsApiResponse>)
+      .then(body => {
+        if (body.status !== 'success' || !body.result) {
+          throw new Error(body.message ?? 'Failed to load rating trends');
+        }
+        setAnalytics(body.result);
+      })
+      .catch(fetchError => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading rating trends:', fetchError);
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load rating trends');
+      });
+
+    return () => controller.abort();
+  }, [rangeId, series, compare]);
+
+  const sortedProperties = [...properties].sort((a, b) => a.propertyName.localeCompare(b.propertyName));
+  const sortedChannels = [...channels].sort();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">Rating Trends</h2>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={series}
+            onChange={(e) => setSeries(e.target.value)}
+            aria-label="Show ratings of"
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All properties</option>
+            <optgroup label="Property">
+              {sortedProperties.map(property => (
+                <option key={property.propertyId} value={`property:${property.propertyId}`}>
+                  {property.propertyName}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Channel">
+              {sortedChannels.map(channel => (
+                <option key={channel} value={`channel:${channel}`}>{formatChannel(channel)}</option>
+              ))}
+            </optgroup>
+          </select>
+          <select
+            value={rangeId}
+            onChange={(e) => setRangeId(e.target.value)}
+            aria-label="Date range"
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {RANGES.map(range => (
+              <option key={range.id} value={range.id}>{range.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={compare}
+              onChange={(e) => setCompare(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Compare to previous period
+          </label>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : analytics ? (
+        <RatingChartsContent analytics={analytics} />
+      ) : (
+        <p className="text-sm text-gray-500">Loading rating trends...</p>
+      )}
+    </div>
+  );
+}
+
+function RatingChartsContent({ analytics }: { analytics: RatingAnalytics }) {
+  const { overall, comparison, period } = analytics;
+  const previousBuckets = comparison?.buckets.slice(-overall.buckets.length);
+  const categories = Object.keys({
+    ...overall.summary.categoryAverages,
+    ...comparison?.summary.categoryAverages,
+  }).sort();
+
+  return (
+    <>
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-6 mb-6">
+        <div>
+          <p className="text-sm text-gray-500 mb-1">Average Rating</p>
+          <p className="text-3xl font-bold text-gray-900">
+            {overall.summary.averageRating?.toFixed(1) ?? 'N/A'}
+          </p>
+          {comparison && (
+            <p className="text-xs text-gray-500 mt-1">
+              <TrendLabel trend={comparison.trend} />
+              {' vs '}
+              {comparison.summary.averageRating?.toFixed(1) ?? 'N/A'} previous period
+            </p>
+          )}
+        </div>
+        <div>
+          <p className="text-sm text-gray-500 mb-1">Guest Reviews</p>
+          <p className="text-3xl font-bold text-gray-900">{overall.summary.reviewCount}</p>
+          {comparison && (
+            <p className="text-xs text-gray-500 mt-1">
+              vs {comparison.summary.reviewCount} previous period
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+            Average rating per {period}
+          </p>
+          <RatingLineChart buckets={overall.buckets} previous={previousBuckets} />
+          <BucketAxis buckets={overall.buckets} period={period} />
+        </div>
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+            Reviews per {period}
+          </p>
+          <ReviewCountChart buckets={overall.buckets} previous={previousBuckets} />
+          <BucketAxis buckets={overall.buckets} period={period} />
+        </div>
+      </div>
+
+      {comparison && (
+        <p className="mt-2 text-xs text-gray-500">
+          <span className="inline-block w-4 border-t-2 border-dashed border-gray-400 align-middle mr-1" />
+          Previous period ({comparison.from} to {comparison.to})
+        </p>
+      )}
+
+      {/* Category averages */}
+      {categories.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Categories</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2">
+            {categories.map(category => {
+              const current = overall.summary.categoryAverages[category];
+              const previous = comparison?.summary.categoryAverages[category];
+              const diff = current !== undefined && previous !== undefined ? current - previous : null;
+
+              return (
+                <div key={category} className="flex items-baseline justify-between text-sm">
+                  <span className="text-gray-600 capitalize">{category.replace(/_/g, ' ')}</span>
+                  <span className="font-medium text-gray-900">
+                    {current?.toFixed(1) ?? '–'}
+                    {diff !== null && diff !== 0 && (
+                      <span className={`ml-1 text-xs ${diff > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {diff > 0 ? '+' : ''}{diff.toFixed(1)}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+function TrendLabel({ trend }: { trend: RatingTrend | null }) {
+  if (!trend) return <span>No trend</span>;
+  if (trend.direction === 'flat') return <span>No change</span>;
+
+  return (
+    <span className={trend.direction === 'up' ? 'text-green-600' : 'text-red-600'}>
+      {trend.direction === 'up' ? '↑' : '↓'} {trend.percentage}%
+    </span>
+  );
+}
+
+function RatingLineChart({ buckets, previous }: { buckets: RatingBucket[]; previous?: RatingBucket[] }) {
+  const x = (index: number) => ((index + 0.5) / buckets.length) * CHART_WIDTH;
+  const y = (rating: number) => CHART_HEIGHT - (rating / 10) * CHART_HEIGHT;
+
+  // Gaps where a bucket has no rating
+  const toPath = (series: RatingBucket[]) =>
+    series
+      .map((bucket, idx) => {
+        if (bucket.averageRating === null) return '';
+        const previousRated = idx > 0 && series[idx - 1].averageRating !== null;
+        return `${previousRated ? 'L' : 'M'}${x(idx)},${y(bucket.averageRating)}`;
+      })
+      .join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-40 bg-gray-50 rounded"
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Average rating chart"
+    >
+      {[2.5, 5, 7.5].map(rating => (
+        <line key={rating} x1={0} x2={CHART_WIDTH} y1={y(rating)} y2={y(rating)} className="stroke-gray-200" />
+      ))}
+      {previous && (
+        <path
+          d={toPath(previous)}
+          fill="none"
+          strokeDasharray="6 4"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="stroke-gray-400"
+        />
+      )}
+      <path
+        d={toPath(buckets)}
+        fill="none"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        className="stroke-blue-600"
+      />
+      {buckets.map((bucket, idx) =>
+        bucket.averageRating !== null ? (
+          <circle key={bucket.start} cx={x(idx)} cy={y(bucket.averageRating)} r={3} className="fill-blue-600">
+            <title>{`${bucket.start}: ${bucket.averageRating.toFixed(1)}`}</title>
+          </circle>
+        ) : null
+      )}
+    </svg>
+  );
+}
+
+function ReviewCountChart({ buckets, previous }: { buckets: RatingBucket[]; previous?: RatingBucket[] }) {
+  const max = Math.max(1, ...buckets.map(b => b.reviewCount), ...(previous ?? []).map(b => b.reviewCount));
+  const slot = CHART_WIDTH / buckets.length;
+  const height = (count: number) => (count / max) * CHART_HEIGHT;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-40 bg-gray-50 rounded"
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Review count chart"
+    >
+      {buckets.map((bucket, idx) => {
+        const before = previous?.[idx];
+        return (
+          <g key={bucket.start}>
+            {before && (
+              <rect
+                x={idx * slot + slot * 0.15}
+                y={CHART_HEIGHT - height(before.reviewCount)}
+                width={slot * 0.35}
+                height={height(before.reviewCount)}
+                className="fill-gray-300"
+              >
+                <title>{`${before.start}: ${before.reviewCount}`}</title>
+              </rect>
+            )}
+            <rect
+              x={idx * slot + (before ? slot * 0.5 : slot * 0.2)}
+              y={CHART_HEIGHT - height(bucket.reviewCount)}
+              width={before ? slot * 0.35 : slot * 0.6}
+              height={height(bucket.reviewCount)}
+              className="fill-blue-600"
+            >
+              <title>{`${bucket.start}: ${bucket.reviewCount}`}</title>
+            </rect>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function BucketAxis({ buckets, period }: { buckets: RatingBucket[]; period: AnalyticsPeriod }) {
+  // Label every bucket when there are few, otherwise every other one
+  const step = buckets.length > 8 ? 2 : 1;
+  const format = (start: string) =>
+    new Date(start).toLocaleDateString('en-GB', {
+      timeZone: 'UTC',
+      ...(period === 'week' ? { day: 'numeric', month: 'short' } : { month: 'short', year: '2-digit' }),
+    });
+
+  return (
+    <div className="flex mt-1 text-xs text-gray-500">
+      {buckets.map((bucket, idx) => (
+        <span key={bucket.start} className="flex-1 text-center truncate">
+          {idx % step === 0 ? format(bucket.start) : ''}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@
 import { StarRating } from './StarRating';
 import { Badge } from './Badge';
 import { formatDate } from '@/lib/utils';
+import { formatChannel } from '@/lib/hostaway/channels';
 import type { Review } from '@/types';
 
 interface ReviewCardProps {
@@ -32,6 +33,16 @@ export function ReviewCard({ review }: ReviewCardProps) {
         <p className="text-gray-700 leading-relaxed">{review.publicReview}</p>
       </div>
 
+      {/* Management Reply */}
+      {review.response?.status === 'published' && (
+        <div className="mb-4 bg-gray-50 border-l-4 border-blue-600 rounded-r-lg px-4 py-3">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+            Response from Flex Living
+          </p>
+          <p className="text-sm text-gray-700 leading-relaxed">{review.response.body}</p>
+        </div>
+      )}
+
       {/* Category Ratings */}
       {review.categories && review.categories.length > 0 && (
         <div className="border-t border-gray-100 pt-4">
@@ -54,7 +65,7 @@ export function ReviewCard({ review }: ReviewCardProps) {
       {/* Channel Badge (subtle) */}
       <div className="mt-4 pt-4 border-t border-gray-100">
         <Badge variant="channel" value={review.channel}>
-          Via {review.channel}
+          Via {formatChannel(review.channel)}
         </Badge>
       </div>
     </div>
@@ -0,0 +1,166 @@
+/**
+ * ReviewDiffDrawer Component
+ *
+ * Side drawer showing what a guest changed in a review: a word diff
+ * between an earlier version and the current text. Reviews edited
+ * after approval can be re-approved or hidden from here.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getReviewVersions, reapproveReviewEdit, setReviewModeration } from '@/app/actions';
+import { diffWords } from '@/lib/text-diff';
+import { formatDateTime } from '@/lib/utils';
+import type { Review, ReviewRevision } from '@/types';
+
+interface ReviewDiffDrawerProps {
+  review: Review;
+  readOnly?: boolean;
+  onClose: () => void;
+  onResolved: (review: Review) => void;
+}
+
+export function ReviewDiffDrawer({ review, readOnly = false, onClose, onResolved }: ReviewDiffDrawerProps) {
+  const [revisions, setRevisions] = useState<ReviewRevision[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getReviewVersions(review.id).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setRevisions(result.revisions ?? []);
+      } else {
+        setError(result.error ?? 'Failed to load earlier versions');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [review.id]);
+
+  const handleResolve = async (keep: boolean) => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = keep
+      ? await reapproveReviewEdit(review.id)
+      : await setReviewModeration(review.id, { status: 'hidden' });
+
+    setIsSaving(false);
+    if (result.success && result.review) {
+      onResolved(result.review);
+      onClose();
+    } else {
+      setError(result.error ?? 'Failed to update review');
+    }
+  };
+
+  const revision = revisions?.[selected];
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end whitespace-normal" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg h-full bg-white shadow-xl overflow-y-auto p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Review Edits</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {review.guestName} · {review.id}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {review.needsReapproval && (
+          <p className="mb-4 text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg px-3 py-2">
+            The guest changed this review after it was approved. The new text is already on the website.
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {!error && revisions === null && <p className="text-sm text-gray-500">Loading...</p>}
+        {revisions && revisions.length === 0 && (
+          <p className="text-sm text-gray-500">No earlier versions</p>
+        )}
+
+        {revisions && revision && (
+          <>
+            {revisions.length > 1 && (
+              <select
+                value={selected}
+                onChange={(e) => setSelected(Number(e.target.value))}
+                aria-label="Compare with version"
+                className="mb-4 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {revisions.map((r, idx) => (
+                  <option key={r.id} value={idx}>
+                    Version replaced {formatDateTime(r.replacedAt)}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+              Changes since {formatDateTime(revision.replacedAt)}
+            </p>
+            {revision.rating !== review.rating && (
+              <p className="text-sm text-gray-700 mb-2">
+                Rating: <span className="line-through text-red-700">{revision.rating ?? '–'}</span>
+                {' → '}
+                <span className="text-green-700 font-medium">{review.rating ?? '–'}</span>
+              </p>
+            )}
+            <p className="text-sm text-gray-700 leading-relaxed border border-gray-200 rounded-lg p-3">
+              {diffWords(revision.publicReview, review.publicReview).map((part, idx) => (
+                <span
+                  key={idx}
+                  className={
+                    part.type === 'added'
+                      ? 'bg-green-100 text-green-800'
+                      : part.type === 'removed'
+                        ? 'bg-red-100 text-red-800 line-through'
+                        : undefined
+                  }
+                >
+                  {part.text}
+                </span>
+              ))}
+            </p>
+          </>
+        )}
+
+        {review.needsReapproval && !readOnly && (
+          <div className="mt-6 flex items-center gap-2">
+            <button
+              onClick={() => handleResolve(true)}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+            >
+              Re-approve
+            </button>
+            <button
+              onClick={() => handleResolve(false)}
+              disabled={isSaving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50"
+            >
+              Hide from website
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * ReviewHistoryDrawer Component
+ *
+ * Side drawer showing the audit history of a single review
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ActivityLog } from './ActivityLog';
+import { getReviewHistory } from '@/app/actions';
+import type { AuditEvent, Review } from '@/types';
+
+interface ReviewHistoryDrawerProps {
+  review: Review;
+  onClose: () => void;
+}
+
+export function ReviewHistoryDrawer({ review, onClose }: ReviewHistoryDrawerProps) {
+  const [events, setEvents] = useState<AuditEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getReviewHistory(review.id).then(result => {
+      if (cancelled) return;
+      if (result.success) {
+        setEvents(result.events ?? []);
+      } else {
+        setError(result.error ?? 'Failed to load history');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [review.id]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end whitespace-normal" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      <div className="relative w-full max-w-md h-full bg-white shadow-xl overflow-y-auto p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Review History</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {review.guestName} · {review.id}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && events === null && <p className="text-sm text-gray-500">Loading...</p>}
+        {events && <ActivityLog events={events} showReviewId={false} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * ReviewResponseEditor Component
+ *
+ * Writes the management reply to a review in the expanded dashboard row.
+ * Replies can be saved as drafts or published to the property page, and
+ * Hostaway replies can optionally be posted back to Hostaway.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { saveReviewReply } from '@/app/actions';
+import { formatDateTime, isHostawayReviewId } from '@/lib/utils';
+import type { ReviewResponse, ReviewResponseStatus } from '@/types';
+
+interface ReviewResponseEditorProps {
+  reviewId: string;
+  response: ReviewResponse | null;
+  onSaved: (response: ReviewResponse) => void;
+}
+
+export function ReviewResponseEditor({ reviewId, response, onSaved }: ReviewResponseEditorProps) {
+  const [body, setBody] = useState(response?.body ?? '');
+  const [pushToHostaway, setPushToHostaway] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canPush = isHostawayReviewId(reviewId);
+
+  const handleSave = async (status: ReviewResponseStatus) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    const result = await saveReviewReply(reviewId, { body, status, pushToHostaway });
+
+    setIsSaving(false);
+    if (result.success && result.response) {
+      onSaved(result.response);
+      if (result.warning) {
+        setError(result.warning);
+      } else {
+        setMessage(status === 'published' ? 'Published' : 'Draft saved');
+      }
+    } else {
+      setError(result.error ?? 'Failed to save reply');
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <div className="flex items-center justify-between mb-1">
+        <label htmlFor={`reply-${reviewId}`} className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+          Reply
+        </label>
+        {response && (
+          <span className="text-xs text-gray-500">
+            {response.status === 'published' ? 'Published' : 'Draft'} · {response.author}
+            {response.pushedToHostawayAt && ` · Posted to Hostaway ${formatDateTime(response.pushedToHostawayAt)}`}
+          </span>
+        )}
+      </div>
+      <textarea
+        id={`reply-${reviewId}`}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={3}
+        placeholder="Thank the guest or respond to their feedback"
+        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+      {response?.hostawayError && !error && (
+        <p className="text-xs text-red-600 mt-1">Last Hostaway post failed: {response.hostawayError}</p>
+      )}
+      <div className="mt-2 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => handleSave('draft')}
+          disabled={isSaving || !body.trim()}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium disabled:opacity-50"
+        >
+          Save draft
+        </button>
+        <button
+          onClick={() => handleSave('published')}
+          disabled={isSaving || !body.trim()}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Publish'}
+        </button>
+        {canPush && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={pushToHostaway}
+              onChange={(e) => setPushToHostaway(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Also post to Hostaway
+          </label>
+        )}
+        {message && <span className="text-sm text-green-600">{message}</span>}
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+    </div>
+  );
+}
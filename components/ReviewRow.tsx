@@ -9,17 +9,39 @@
 import { useState } from 'react';
 import { StarRating } from './StarRating';
 import { Badge } from './Badge';
+import { ReviewHistoryDrawer } from './ReviewHistoryDrawer';
+import { ReviewDiffDrawer } from './ReviewDiffDrawer';
+import { ReviewResponseEditor } from './ReviewResponseEditor';
 import { formatDate } from '@/lib/utils';
-import type { Review } from '@/types';
+import { formatChannel } from '@/lib/hostaway/channels';
+import { REJECTION_REASONS } from '@/lib/moderation';
+import { getDisplayRating } from '@/lib/rating-scales';
+import type { RatingDisplay, Review } from '@/types';
 
 interface ReviewRowProps {
   review: Review;
   onToggleDisplay: (reviewId: string, display: boolean) => Promise<void>;
+  readOnly?: boolean;
+  selected?: boolean;
+  onSelect?: (reviewId: string, shiftKey: boolean) => void;
+  onReviewChange?: (review: Review) => void;
+  ratingDisplay?: RatingDisplay;
 }
 
-export function ReviewRow({ review, onToggleDisplay }: ReviewRowProps) {
+export function ReviewRow({
+  review,
+  onToggleDisplay,
+  readOnly = false,
+  selected = false,
+  onSelect,
+  onReviewChange,
+  ratingDisplay = 'normalized',
+}: ReviewRowProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showEdits, setShowEdits] = useState(false);
+  const [response, setResponse] = useState(review.response ?? null);
 
   const handleCheckboxChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     setIsUpdating(true);
@@ -41,14 +63,28 @@ export function ReviewRow({ review, onToggleDisplay }: ReviewRowProps) {
     .join(' ');
 
   return (
-    <tr className="hover:bg-gray-50 transition-colors">
+    <tr className={`${selected ? 'bg-blue-50' : 'hover:bg-gray-50'} transition-colors`}>
+      {/* Selection */}
+      {onSelect && (
+        <td className="pl-6 py-4 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={(e) => onSelect(review.id, (e.nativeEvent as MouseEvent).shiftKey)}
+            aria-label={`Select review by ${review.guestName}`}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+        </td>
+      )}
+
       {/* Checkbox */}
       <td className="px-6 py-4 whitespace-nowrap">
         <input
           type="checkbox"
           checked={review.displayOnWebsite}
           onChange={handleCheckboxChange}
-          disabled={isUpdating}
+          disabled={readOnly || isUpdating || review.moderationStatus === 'rejected'}
+          title={review.moderationStatus === 'rejected' ? 'Rejected reviews must be reopened from the moderation queue' : undefined}
           className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
         />
       </td>
@@ -63,27 +99,56 @@ export function ReviewRow({ review, onToggleDisplay }: ReviewRowProps) {
       {/* Guest Name */}
       <td className="px-6 py-4 whitespace-nowrap">
         <div className="text-sm text-gray-900">{review.guestName}</div>
+        {review.assignedTo && (
+          <div className="text-xs text-gray-500 mt-0.5" title="Assigned to">
+            → {review.assignedTo}
+          </div>
+        )}
       </td>
 
       {/* Rating */}
       <td className="px-6 py-4 whitespace-nowrap">
-        <StarRating rating={review.rating} scale={10} size="sm" />
+        <StarRating
+          {...getDisplayRating(review, ratingDisplay)}
+          size="sm"
+          showScale={ratingDisplay === 'native'}
+        />
       </td>
 
       {/* Review Text */}
       <td className="px-6 py-4">
         <div className="text-sm text-gray-700 max-w-md">
           {isExpanded ? review.publicReview : truncateText(review.publicReview, 100)}
-          {review.publicReview.length > 100 && (
+          {(review.publicReview.length > 100 || !readOnly || response) && (
             <button
               onClick={() => setIsExpanded(!isExpanded)}
               className="ml-2 text-blue-600 hover:text-blue-700 font-medium"
             >
-              {isExpanded ? 'Show less' : 'Read more'}
+              {isExpanded ? 'Show less' : review.publicReview.length > 100 ? 'Read more' : 'Reply'}
             </button>
           )}
+          {response && !isExpanded && (
+            <span className="ml-2 text-xs text-gray-500">
+              {response.status === 'published' ? 'Replied' : 'Draft reply'}
+            </span>
+          )}
         </div>
 
+        {/* Reply */}
+        {isExpanded && (
+          readOnly ? (
+            response?.status === 'published' && (
+              <div className="mt-3 max-w-md border-l-2 border-blue-200 pl-3 text-sm text-gray-600">
+                {response.body}
+              </div>
+            )
+          ) : (
+            <div className="max-w-md">
+              <ReviewResponseEditor reviewId={review.id} response={response} onSaved={setResponse} />
+            </div>
+          )
+        )}
+
         {/* Categories */}
         {review.categories && review.categories.length > 0 && (
           <div className="mt-2 flex flex-wrap gap-1">
@@ -97,12 +162,26 @@ export function ReviewRow({ review, onToggleDisplay }: ReviewRowProps) {
             ))}
           </div>
         )}
+
+        {/* Tags */}
+        {review.tags && review.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {review.tags.map(tag => (
+              <span
+                key={tag}
+                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
       </td>
 
       {/* Channel */}
       <td className="px-6 py-4 whitespace-nowrap">
         <Badge variant="channel" value={review.channel}>
-          {review.channel}
+          {formatChannel(review.channel)}
         </Badge>
       </td>
 
@@ -120,9 +199,43 @@ export function ReviewRow({ review, onToggleDisplay }: ReviewRowProps) {
 
       {/* Status */}
       <td className="px-6 py-4 whitespace-nowrap">
-        <Badge variant="status" value={review.status}>
-          {review.status}
-        </Badge>
+        <span
+          title={
+            review.moderationReason
+              ? REJECTION_REASONS[review.moderationReason as keyof typeof REJECTION_REASONS] ?? review.moderationReason
+              : undefined
+          }
+        >
+          <Badge variant="status" value={review.moderationStatus}>
+            {review.moderationStatus}
+          </Badge>
+        </span>
+        {review.needsReapproval && (
+          <button
+            onClick={() => setShowEdits(true)}
+            title="Text changed after approval"
+            className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+          >
+            Edited
+          </button>
+        )}
+        <button
+          onClick={() => setShowHistory(true)}
+          className="ml-2 text-xs text-blue-600 hover:text-blue-700 font-medium"
+        >
+          History
+        </button>
+        {showHistory && (
+          <ReviewHistoryDrawer review={review} onClose={() => setShowHistory(false)} />
+        )}
+        {showEdits && (
+          <ReviewDiffDrawer
+            review={review}
+            readOnly={readOnly}
+            onClose={() => setShowEdits(false)}
+            onResolved={(updated) => onReviewChange?.(updated)}
+          />
+        )}
       </td>
     </tr>
   );
@@ -1,70 +1,104 @@
 /**
  * ReviewTable Component
  *
- * Main table displaying reviews with sorting capabilities
+ * Main table displaying one page of reviews, already sorted and paged
+ * by the server, with sortable columns, page controls and, for
+ * managers, multi-select (shift-click selects a range)
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useRef } from 'react';
 import { ReviewRow } from './ReviewRow';
 import { EmptyState } from './EmptyState';
-import type { Review, SortField, SortDirection } from '@/types';
+import { getSelectionRange } from '@/lib/bulk-actions';
+import type {
+  PaginatedResponse,
+  RatingDisplay,
+  Review,
+  SortField,
+  SortDirection,
+  SortOptions,
+} from '@/types';
 
 interface ReviewTableProps {
-  reviews: Review[];
+  reviews: Review[]; // The current page, in sort order
+  pagination: PaginatedResponse<Review>['pagination'];
+  sort: SortOptions;
   onToggleDisplay: (reviewId: string, display: boolean) => Promise<void>;
+  onSortChange: (sort: SortOptions) => void;
+  onPageChange: (page: number) => void;
+  readOnly?: boolean; // Viewers can't change which reviews are displayed
+  selectedIds?: Set<string>;
+  onSelectionChange?: (selectedIds: Set<string>) => void; // Enables the selection column
+  onReviewChange?: (review: Review) => void;
+  ratingDisplay?: RatingDisplay; // Ratings are sorted normalized either way
 }
 
-export function ReviewTable({ reviews, onToggleDisplay }: ReviewTableProps) {
-  const [sortField, setSortField] = useState<SortField>('submittedAt');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+export function ReviewTable({
+  reviews,
+  pagination,
+  sort,
+  onToggleDisplay,
+  onSortChange,
+  onPageChange,
+  readOnly = false,
+  selectedIds,
+  onSelectionChange,
+  onReviewChange,
+  ratingDisplay,
+}: ReviewTableProps) {
+  const selectionAnchor = useRef<string | null>(null);
 
   const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection('desc');
-    }
+    const direction: SortDirection =
+      sort.field === field && sort.direction === 'desc' ? 'asc' : 'desc';
+
+    onSortChange({ field, direction });
   };
 
-  const sortedReviews = [...reviews].sort((a, b) => {
-    let aValue: any = a[sortField];
-    let bValue: any = b[sortField];
+  const selectable = !readOnly && onSelectionChange !== undefined;
+  const selected = selectedIds ?? new Set<string>();
+  const allSelected = reviews.length > 0 && reviews.every(r => selected.has(r.id));
 
-    // Handle null ratings
-    if (sortField === 'rating') {
-      aValue = aValue ?? -1;
-      bValue = bValue ?? -1;
-    }
-
-    // Handle dates
-    if (sortField === 'submittedAt') {
-      aValue = new Date(aValue).getTime();
-      bValue = new Date(bValue).getTime();
-    }
+  const handleSelect = (reviewId: string, shiftKey: boolean) => {
+    const next = new Set(selected);
+    const select = !selected.has(reviewId);
+    const ids = shiftKey && selectionAnchor.current
+      ? getSelectionRange(reviews.map(r => r.id), selectionAnchor.current, reviewId)
+      : [reviewId];
 
-    // Handle strings
-    if (typeof aValue === 'string') {
-      aValue = aValue.toLowerCase();
-      bValue = bValue.toLowerCase();
-    }
+    ids.forEach(id => (select ? next.add(id) : next.delete(id)));
+    selectionAnchor.current = reviewId;
+    onSelectionChange?.(next);
+  };
 
-    if (sortDirection === 'asc') {
-      return aValue > bValue ? 1 : -1;
-    } else {
-      return aValue < bValue ? 1 : -1;
-    }
-  });
+  const handleSelectAll = () => {
+    onSelectionChange?.(allSelected ? new Set() : new Set(reviews.map(r => r.id)));
+  };
 
   const SortIcon = ({ field }: { field: SortField }) => {
-    if (sortField !== field) {
+    if (sort.field !== field) {
       return <span className="text-gray-400">↕</span>;
     }
-    return <span>{sortDirection === 'asc' ? '↑' : '↓'}</span>;
+    return <span>{sort.direction === 'asc' ? '↑' : '↓'}</span>;
   };
 
+  const firstShown = (pagination.currentPage - 1) * pagination.pageSize + 1;
+
+  // A page can run past the end after reviews are deleted
+  if (reviews.length === 0 && pagination.totalItems > 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-md">
+        <EmptyState
+          title="No reviews on this page"
+          description={`There are ${pagination.totalPages} pages of matching reviews.`}
+          action={{ label: 'Go to the last page', onClick: () => onPageChange(pagination.totalPages) }}
+        />
+      </div>
+    );
+  }
+
   if (reviews.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-md">
@@ -82,6 +116,17 @@ export function ReviewTable({ reviews, onToggleDisplay }: ReviewTableProps) {
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              {selectable && (
+                <th scope="col" className="pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={handleSelectAll}
+                    aria-label="Select all reviews"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                </th>
+              )}
               <th
                 scope="col"
                 className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
@@ -159,22 +204,49 @@ export function ReviewTable({ reviews, onToggleDisplay }: ReviewTableProps) {
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {sortedReviews.map((review) => (
+            {reviews.map((review) => (
               <ReviewRow
                 key={review.id}
                 review={review}
                 onToggleDisplay={onToggleDisplay}
+                readOnly={readOnly}
+                selected={selected.has(review.id)}
+                onSelect={selectable ? handleSelect : undefined}
+                onReviewChange={onReviewChange}
+                ratingDisplay={ratingDisplay}
               />
             ))}
           </tbody>
         </table>
       </div>
 
-      {/* Results count */}
-      <div className="px-6 py-4 bg-gray-50 border-t border-gray-200">
+      {/* Results count and pages */}
+      <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex items-center justify-between">
         <p className="text-sm text-gray-700">
-          Showing <span className="font-medium">{reviews.length}</span> review{reviews.length !== 1 ? 's' : ''}
+          Showing <span className="font-medium">{firstShown}-{firstShown + reviews.length - 1}</span> of{' '}
+          <span className="font-medium">{pagination.totalItems}</span> review{pagination.totalItems !== 1 ? 's' : ''}
         </p>
+        {pagination.totalPages > 1 && (
+          <div className="flex items-center gap-3 text-sm">
+            <button
+              onClick={() => onPageChange(pagination.currentPage - 1)}
+              disabled={pagination.currentPage <= 1}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-gray-700">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => onPageChange(pagination.currentPage + 1)}
+              disabled={pagination.currentPage >= pagination.totalPages}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
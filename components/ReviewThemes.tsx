@@ -0,0 +1,86 @@
+/**
+ * ReviewThemes Component
+ *
+ * What guests complain about and praise most at each property, with
+ * sample quotes. The dashboard analyzes the text of the most recent
+ * matching guest reviews on the server (see getPropertyThemeInsights).
+ */
+
+'use client';
+
+import type { PropertyThemeInsights, ThemeHighlight } from '@/types';
+
+interface ReviewThemesProps {
+  insights: PropertyThemeInsights[];
+}
+
+export function ReviewThemes({ insights }: ReviewThemesProps) {
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Guest Themes</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Topics guests mention most often in their recent reviews
+      </p>
+
+      {insights.length === 0 && (
+        <p className="text-sm text-gray-500">No guest reviews with text</p>
+      )}
+
+      <div className="divide-y divide-gray-200">
+        {insights.map(property => (
+          <div key={property.propertyId} className="py-4 first:pt-0 last:pb-0">
+            <div className="flex items-baseline justify-between gap-4 mb-3">
+              <h3 className="font-medium text-gray-900">{property.propertyName}</h3>
+              <p className="text-xs text-gray-500 whitespace-nowrap">
+                <span className="text-green-700">{property.sentiment.positive} positive</span>
+                {' · '}
+                <span className="text-red-700">{property.sentiment.negative} negative</span>
+                {' · '}
+                {property.sentiment.neutral} neutral
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <ThemeList title="Top Complaints" themes={property.topComplaints} tone="negative" />
+              <ThemeList title="Top Praise" themes={property.topPraise} tone="positive" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ThemeList({
+  title,
+  themes,
+  tone,
+}: {
+  title: string;
+  themes: ThemeHighlight[];
+  tone: 'positive' | 'negative';
+}) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{title}</p>
+      {themes.length === 0 ? (
+        <p className="text-sm text-gray-400">None mentioned</p>
+      ) : (
+        <ul className="space-y-2">
+          {themes.map(theme => (
+            <li key={theme.theme} className="text-sm">
+              <span className={`font-medium ${tone === 'negative' ? 'text-red-700' : 'text-green-700'}`}>
+                {theme.label}
+              </span>
+              <span className="text-gray-500"> · {theme.count} review{theme.count !== 1 ? 's' : ''}</span>
+              <p className="text-gray-600 italic truncate" title={theme.samples[0]?.quote}>
+                &ldquo;{theme.samples[0]?.quote}&rdquo;
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
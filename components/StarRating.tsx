@@ -2,28 +2,30 @@
  * StarRating Component
  *
  * Displays star ratings with visual representation
- * Supports both 0-10 scale (Hostaway) and 0-5 scale (display)
+ * Supports any scale, e.g. 0-10 (normalized) or 1-5 (Airbnb stars)
  */
 
 interface StarRatingProps {
   rating: number | null;
-  scale?: 10 | 5;
+  scale?: number; // Top of the rating's scale
   size?: 'sm' | 'md' | 'lg';
   showNumber?: boolean;
+  showScale?: boolean; // Show the number as e.g. "4.0/5"
 }
 
 export function StarRating({
   rating,
   scale = 10,
   size = 'md',
-  showNumber = true
+  showNumber = true,
+  showScale = false
 }: StarRatingProps) {
   if (rating === null) {
     return <span className="text-gray-400 text-sm">No rating</span>;
   }
 
-  // Convert to 5-star scale if needed
-  const normalizedRating = scale === 10 ? rating / 2 : rating;
+  // Convert to 5-star scale
+  const normalizedRating = (rating / scale) * 5;
   const fullStars = Math.floor(normalizedRating);
   const hasHalfStar = normalizedRating % 1 >= 0.5;
   const emptyStars = 5 - fullStars - (hasHalfStar ? 1 : 0);
@@ -56,6 +58,7 @@ export function StarRating({
       {showNumber && (
         <span className={`font-semibold text-gray-700 ${sizeClasses[size]}`}>
           {rating.toFixed(1)}
+          {showScale && <span className="font-normal text-gray-400">/{scale}</span>}
         </span>
       )}
     </div>
@@ -0,0 +1,43 @@
+/**
+ * SyncStatus Component
+ *
+ * When each review source last synced, e.g. "Hostaway synced 5 minutes ago",
+ * with how many reviews that sync quarantined
+ */
+
+import { formatDateTime, formatTimeAgo } from '@/lib/utils';
+import { formatChannel } from '@/lib/hostaway/channels';
+import type { SyncRun } from '@/types';
+
+interface SyncStatusProps {
+  runs: SyncRun[];
+}
+
+export function SyncStatus({ runs }: SyncStatusProps) {
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500 mt-1">Reviews have not been synced yet</p>;
+  }
+
+  return (
+    <p className="text-sm text-gray-500 mt-1">
+      {runs.map((run, index) => {
+        const finishedAt = run.finishedAt ?? run.startedAt;
+        return (
+          <span key={run.id}>
+            {index > 0 && ' · '}
+            <span
+              title={run.status === 'failed' ? run.errors.join('\n') : formatDateTime(finishedAt)}
+              className={run.status === 'failed' ? 'text-red-600' : undefined}
+            >
+              {formatChannel(run.source)}{' '}
+              {run.status === 'failed' ? 'sync failed' : 'synced'} {formatTimeAgo(finishedAt)}
+            </span>
+            {run.quarantined > 0 && (
+              <span className="text-amber-600"> ({run.quarantined} quarantined)</span>
+            )}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
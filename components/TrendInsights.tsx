@@ -1,64 +1,35 @@
 /**
  * TrendInsights Component
  *
- * Displays trend statistics and insights
+ * Displays trend statistics and insights of the reviews matching the
+ * dashboard filters, counted on the server
  */
 
 'use client';
 
-import type { Review } from '@/types';
+import type { ReviewStatistics } from '@/types';
 
 interface TrendInsightsProps {
-  reviews: Review[];
+  statistics: ReviewStatistics; // Of every review matching the filters
 }
 
-export function TrendInsights({ reviews }: TrendInsightsProps) {
-  // Calculate insights
-  const totalReviews = reviews.length;
-  const reviewsWithRating = reviews.filter(r => r.rating !== null);
-  const averageRating = reviewsWithRating.length > 0
-    ? reviewsWithRating.reduce((sum, r) => sum + r.rating!, 0) / reviewsWithRating.length
-    : 0;
+export function TrendInsights({ statistics }: TrendInsightsProps) {
+  const {
+    totalReviews,
+    averageRating,
+    reviewsByChannel,
+    categoryAverages,
+    recentReviews: recentReviewsCount,
+    selectedForWebsite: selectedCount,
+  } = statistics;
 
-  // Channel breakdown
-  const channelCounts: Record<string, number> = {};
-  reviews.forEach(r => {
-    channelCounts[r.channel] = (channelCounts[r.channel] || 0) + 1;
-  });
-  const mostActiveChannel = Object.entries(channelCounts)
+  const mostActiveChannel = Object.entries(reviewsByChannel)
     .sort(([, a], [, b]) => b - a)[0];
 
-  // Category analysis
-  const categoryRatings: Record<string, { total: number; count: number }> = {};
-  reviews.forEach(review => {
-    if (review.categories && Array.isArray(review.categories)) {
-      review.categories.forEach((cat: { category: string; rating: number }) => {
-        if (!categoryRatings[cat.category]) {
-          categoryRatings[cat.category] = { total: 0, count: 0 };
-        }
-        categoryRatings[cat.category].total += cat.rating;
-        categoryRatings[cat.category].count++;
-      });
-    }
-  });
-
-  const topCategory = Object.entries(categoryRatings)
-    .map(([category, data]) => ({
-      category,
-      average: data.total / data.count
-    }))
+  const topCategory = Object.entries(categoryAverages)
+    .map(([category, average]) => ({ category, average }))
     .sort((a, b) => b.average - a.average)[0];
 
-  // Recent reviews (last 7 days)
-  const sevenDaysAgo = new Date();
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-  const recentReviewsCount = reviews.filter(
-    r => new Date(r.submittedAt) >= sevenDaysAgo
-  ).length;
-
-  // Selected for website
-  const selectedCount = reviews.filter(r => r.displayOnWebsite).length;
-
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <h2 className="text-lg font-semibold text-gray-900 mb-6">Insights</h2>
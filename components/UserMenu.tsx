@@ -0,0 +1,28 @@
+/**
+ * UserMenu Component
+ *
+ * Shows the signed-in user and a sign-out button
+ */
+
+import { signOut } from '@/app/actions';
+import type { User } from '@/types';
+
+interface UserMenuProps {
+  user: User;
+}
+
+export function UserMenu({ user }: UserMenuProps) {
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <div className="text-right">
+        <div className="font-medium text-gray-900">{user.name ?? user.email}</div>
+        <div className="text-xs text-gray-500 capitalize">{user.role}</div>
+      </div>
+      <form action={signOut}>
+        <button type="submit" className="text-blue-600 hover:text-blue-700 font-medium">
+          Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when the server starts. Starts the sync scheduler when
+ * SYNC_CRON is set, so reviews are synced without anyone loading the
+ * sync endpoints.
+ */
+
+export async function register() {
+  // Checked in this form so the edge bundle leaves out the Node.js-only scheduler
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.SYNC_CRON) {
+    const { startSyncScheduler } = await import('./lib/sync-scheduler');
+    startSyncScheduler(process.env.SYNC_CRON);
+  }
+}
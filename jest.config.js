@@ -5,17 +5,36 @@ const createJestConfig = nextJest({
   dir: './',
 })
 
-// Add any custom config to be passed to Jest
-const customJestConfig = {
+// Shared by every project
+const baseConfig = {
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
-  testEnvironment: 'jest-environment-jsdom',
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
   },
-  testMatch: [
-    '**/__tests__/**/*.test.ts',
-    '**/__tests__/**/*.test.tsx',
-  ],
+}
+
+// API and lib tests run in Node, component tests in jsdom
+const apiConfig = {
+  ...baseConfig,
+  displayName: 'api',
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/__tests__/api/**/*.test.ts'],
+}
+
+const componentsConfig = {
+  ...baseConfig,
+  displayName: 'components',
+  testEnvironment: 'jest-environment-jsdom',
+  testMatch: ['<rootDir>/__tests__/components/**/*.test.tsx'],
+  testEnvironmentOptions: {
+    customExportConditions: [''],
+  },
+}
+
+// Each project goes through createJestConfig so it gets the Next.js SWC
+// transform; Jest doesn't pass the top-level transform on to projects.
+// createJestConfig is async so that next/jest can load the Next.js config
+module.exports = async () => ({
   collectCoverageFrom: [
     'app/**/*.{js,jsx,ts,tsx}',
     'lib/**/*.{js,jsx,ts,tsx}',
@@ -24,32 +43,8 @@ const customJestConfig = {
     '!**/node_modules/**',
     '!**/.next/**',
   ],
-  // Use different test environment for API tests
-  testEnvironmentOptions: {
-    customExportConditions: [''],
-  },
-  // Configure per-test environment
   projects: [
-    {
-      displayName: 'api',
-      testEnvironment: 'node',
-      testMatch: ['**/__tests__/api/**/*.test.ts'],
-      setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
-      moduleNameMapper: {
-        '^@/(.*)$': '<rootDir>/$1',
-      },
-    },
-    {
-      displayName: 'components',
-      testEnvironment: 'jest-environment-jsdom',
-      testMatch: ['**/__tests__/components/**/*.test.tsx'],
-      setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
-      moduleNameMapper: {
-        '^@/(.*)$': '<rootDir>/$1',
-      },
-    },
+    await createJestConfig(apiConfig)(),
+    await createJestConfig(componentsConfig)(),
   ],
-}
-
-// createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
-module.exports = createJestConfig(customJestConfig)
+})
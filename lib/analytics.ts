@@ -0,0 +1,363 @@
+/**
+ * Rating Analytics
+ *
+ * Groups guest reviews into weekly or monthly buckets of review count,
+ * average rating and per-category averages, overall, per property and
+ * per channel, and compares a date range with the one before it.
+ *
+ * Only guest reviews are counted; host reviews rate guests, not the
+ * property. Dates are bucketed in UTC. Shared by GET
+ * /api/analytics/ratings and the dashboard charts.
+ */
+
+import { formatChannel } from '@/lib/hostaway/channels';
+import type {
+  AnalyticsPeriod,
+  AnalyticsQuery,
+  RatingAnalytics,
+  RatingBucket,
+  RatingSeries,
+  RatingSummary,
+  RatingTrend,
+  Review,
+} from '@/types';
+
+export const ANALYTICS_PERIODS: AnalyticsPeriod[] = ['week', 'month'];
+
+// Buckets in the default range of each period
+const DEFAULT_BUCKETS: Record<AnalyticsPeriod, number> = { week: 12, month: 12 };
+
+// Keeps responses bounded: about two years of weeks or ten of months
+const MAX_BUCKETS = 120;
+
+// Window of the property card trend, compared with the window before it
+const RECENT_TREND_DAYS = 30;
+
+// Window of the dashboard's recent review count
+export const RECENT_REVIEW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse rating analytics query parameters
+ *
+ * Supported parameters:
+ * - period: week | month (default week)
+ * - from, to: YYYY-MM-DD, inclusive (default the last 12 periods up to today)
+ * - propertyId, channel
+ * - compare: true | false (default true)
+ *
+ * @param params - URL search parameters
+ * @param now - Current time, for the default range
+ * @returns Parsed query
+ * @throws Error describing the first invalid parameter
+ */
+export function parseAnalyticsQuery(params: URLSearchParams, now = new Date()): AnalyticsQuery {
+  const period = (params.get('period') ?? 'week') as AnalyticsPeriod;
+  if (!ANALYTICS_PERIODS.includes(period)) {
+    throw new Error(`Invalid period: ${period}`);
+  }
+
+  const defaults = getDefaultRange(period, DEFAULT_BUCKETS[period], now);
+  const from = params.get('from') || defaults.from;
+  const to = params.get('to') || defaults.to;
+
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (!DATE_PATTERN.test(value) || isNaN(parseDay(value).getTime())) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+  }
+  if (from > to) {
+    throw new Error('Invalid range: from is after to');
+  }
+  if (listBucketStarts(from, to, period).length > MAX_BUCKETS) {
+    throw new Error(`Invalid range: more than ${MAX_BUCKETS} ${period}s`);
+  }
+
+  const compare = params.get('compare') ?? 'true';
+  if (compare !== 'true' && compare !== 'false') {
+    throw new Error(`Invalid compare: ${compare}`);
+  }
+
+  const query: AnalyticsQuery = { period, from, to, compare: compare === 'true' };
+
+  const propertyId = params.get('propertyId');
+  if (propertyId) query.propertyId = propertyId;
+
+  const channel = params.get('channel');
+  if (channel) query.channel = channel;
+
+  return query;
+}
+
+/**
+ * Range covering the last few periods, up to and including today
+ *
+ * @param period - Bucket length
+ * @param buckets - Number of periods, including the current one
+ * @param now - Current time
+ * @returns Inclusive range as YYYY-MM-DD
+ */
+export function getDefaultRange(
+  period: AnalyticsPeriod,
+  buckets: number,
+  now = new Date()
+): { from: string; to: string } {
+  const start = getPeriodStart(now, period);
+  if (period === 'week') {
+    start.setUTCDate(start.getUTCDate() - 7 * (buckets - 1));
+  } else {
+    start.setUTCMonth(start.getUTCMonth() - (buckets - 1));
+  }
+
+  return { from: toDay(start), to: toDay(now) };
+}
+
+/**
+ * Dates to load reviews for: the query range and, when comparing, the
+ * range before it
+ *
+ * @param query - Analytics query
+ * @returns First and last instant to load
+ */
+export function getAnalyticsDateRange(query: AnalyticsQuery): { dateFrom: Date; dateTo: Date } {
+  const from = query.compare ? getPreviousRange(query.from, query.to).from : query.from;
+
+  return {
+    dateFrom: parseDay(from),
+    dateTo: new Date(parseDay(query.to).getTime() + DAY_MS - 1),
+  };
+}
+
+/**
+ * Build rating analytics from reviews
+ *
+ * @param reviews - Reviews covering at least getAnalyticsDateRange(query);
+ *   others are ignored
+ * @param query - Analytics query
+ * @returns Buckets overall, per property and per channel, and the
+ *   comparison with the previous range when requested
+ */
+export function buildRatingAnalytics(reviews: Review[], query: AnalyticsQuery): RatingAnalytics {
+  const matching = reviews.filter(
+    r =>
+      r.reviewType === 'guest-to-host' &&
+      (!query.propertyId || r.propertyId === query.propertyId) &&
+      (!query.channel || r.channel === query.channel)
+  );
+  const current = filterByDay(matching, query.from, query.to);
+  const starts = listBucketStarts(query.from, query.to, query.period);
+
+  const analytics: RatingAnalytics = {
+    period: query.period,
+    from: query.from,
+    to: query.to,
+    overall: toSeries('all', 'All properties', current, starts, query.period),
+    byProperty: groupSeries(current, r => r.propertyId, r => r.propertyName ?? r.propertyId, starts, query.period),
+    byChannel: groupSeries(current, r => r.channel, r => formatChannel(r.channel), starts, query.period),
+  };
+
+  if (query.compare) {
+    const previousRange = getPreviousRange(query.from, query.to);
+    const previous = filterByDay(matching, previousRange.from, previousRange.to);
+    const summary = summarizeRatings(previous);
+
+    analytics.comparison = {
+      ...previousRange,
+      summary,
+      buckets: toBuckets(previous, listBucketStarts(previousRange.from, previousRange.to, query.period), query.period),
+      trend: compareRatings(analytics.overall.summary, summary),
+    };
+  }
+
+  return analytics;
+}
+
+/**
+ * Review count, average rating and per-category averages
+ *
+ * @param reviews - Reviews to summarize
+ * @returns Summary with averages rounded to one decimal
+ */
+export function summarizeRatings(reviews: Review[]): RatingSummary {
+  const rated = reviews.filter(r => r.rating !== null);
+  const categories: Record<string, { total: number; count: number }> = {};
+
+  reviews.forEach(review => {
+    review.categories.forEach(({ category, rating }) => {
+      categories[category] ??= { total: 0, count: 0 };
+      categories[category].total += rating;
+      categories[category].count++;
+    });
+  });
+
+  const categoryAverages: Record<string, number> = {};
+  Object.entries(categories).forEach(([category, { total, count }]) => {
+    categoryAverages[category] = roundRating(total / count);
+  });
+
+  return {
+    reviewCount: reviews.length,
+    averageRating: rated.length > 0
+      ? roundRating(rated.reduce((sum, r) => sum + r.rating!, 0) / rated.length)
+      : null,
+    categoryAverages,
+  };
+}
+
+/**
+ * Change of the average rating from an earlier summary to a later one
+ *
+ * @param current - Later summary
+ * @param previous - Earlier summary
+ * @returns Direction and percentage, or null when either has no
+ *   average rating (or the earlier average is 0)
+ */
+export function compareRatings(current: RatingSummary, previous: RatingSummary): RatingTrend | null {
+  if (current.averageRating === null || !previous.averageRating) {
+    return null;
+  }
+
+  const diff = current.averageRating - previous.averageRating;
+  const percentage = Math.round(Math.abs((diff / previous.averageRating) * 100));
+
+  return {
+    direction: percentage === 0 ? 'flat' : diff > 0 ? 'up' : 'down',
+    percentage,
+  };
+}
+
+/**
+ * Trend of a property's average rating: the last 30 days compared with
+ * the 30 days before
+ *
+ * @param reviews - Reviews of the property
+ * @param now - Current time
+ * @returns Trend, or null without ratings in both windows
+ */
+export function calculateRecentTrend(reviews: Review[], now = new Date()): RatingTrend | null {
+  const recentStart = now.getTime() - RECENT_TREND_DAYS * DAY_MS;
+  const previousStart = recentStart - RECENT_TREND_DAYS * DAY_MS;
+  const submitted = (r: Review) => new Date(r.submittedAt).getTime();
+
+  return compareRatings(
+    summarizeRatings(reviews.filter(r => submitted(r) >= recentStart)),
+    summarizeRatings(reviews.filter(r => submitted(r) >= previousStart && submitted(r) < recentStart))
+  );
+}
+
+/**
+ * First instant of the week (Monday) or month containing a date, in UTC
+ *
+ * @param date - Any date
+ * @param period - Bucket length
+ * @returns Start of the period
+ */
+export function getPeriodStart(date: Date, period: AnalyticsPeriod): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (period === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * Start days of the periods overlapping an inclusive range
+ *
+ * @param from - First day, YYYY-MM-DD
+ * @param to - Last day, YYYY-MM-DD
+ * @param period - Bucket length
+ * @returns Period starts as YYYY-MM-DD, oldest first
+ */
+export function listBucketStarts(from: string, to: string, period: AnalyticsPeriod): string[] {
+  const starts: string[] = [];
+  const cursor = getPeriodStart(parseDay(from), period);
+  const end = parseDay(to);
+
+  while (cursor <= end) {
+    starts.push(toDay(cursor));
+    if (period === 'week') {
+      cursor.setUTCDate(cursor.getUTCDate() + 7);
+    } else {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+  }
+  return starts;
+}
+
+// The equally long range ending the day before `from`
+function getPreviousRange(from: string, to: string): { from: string; to: string } {
+  const start = parseDay(from).getTime();
+  const days = Math.round((parseDay(to).getTime() - start) / DAY_MS) + 1;
+
+  return {
+    from: toDay(new Date(start - days * DAY_MS)),
+    to: toDay(new Date(start - DAY_MS)),
+  };
+}
+
+function groupSeries(
+  reviews: Review[],
+  keyOf: (review: Review) => string,
+  labelOf: (review: Review) => string,
+  starts: string[],
+  period: AnalyticsPeriod
+): RatingSeries[] {
+  const groups = new Map<string, Review[]>();
+  reviews.forEach(review => {
+    const key = keyOf(review);
+    groups.set(key, [...(groups.get(key) ?? []), review]);
+  });
+
+  return Array.from(groups, ([key, group]) => toSeries(key, labelOf(group[0]), group, starts, period))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function toSeries(
+  key: string,
+  label: string,
+  reviews: Review[],
+  starts: string[],
+  period: AnalyticsPeriod
+): RatingSeries {
+  return {
+    key,
+    label,
+    summary: summarizeRatings(reviews),
+    buckets: toBuckets(reviews, starts, period),
+  };
+}
+
+// One bucket per start, including empty ones, so series line up
+function toBuckets(reviews: Review[], starts: string[], period: AnalyticsPeriod): RatingBucket[] {
+  const byStart = new Map<string, Review[]>(starts.map(start => [start, []]));
+  reviews.forEach(review => {
+    byStart.get(toDay(getPeriodStart(new Date(review.submittedAt), period)))?.push(review);
+  });
+
+  return starts.map(start => ({ start, ...summarizeRatings(byStart.get(start)!) }));
+}
+
+function filterByDay(reviews: Review[], from: string, to: string): Review[] {
+  return reviews.filter(r => {
+    const day = toDay(new Date(r.submittedAt));
+    return day >= from && day <= to;
+  });
+}
+
+function parseDay(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundRating(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,106 @@
+/**
+ * Audit Log Formatting
+ *
+ * Turns recorded audit events into short descriptions for the
+ * dashboard Activity tab and the per-review history drawer.
+ */
+
+import type { AuditAction, AuditEvent } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'toggle-display': 'Display toggled',
+  'batch-toggle-display': 'Display toggled (batch)',
+  moderate: 'Moderated',
+  delete: 'Deleted',
+  import: 'Import',
+  sync: 'Sync',
+  'assign-properties': 'Properties assigned',
+  respond: 'Reply saved',
+  tag: 'Tagged',
+  assign: 'Assigned',
+  reapprove: 'Edit re-approved',
+  'replay-webhook': 'Webhook replayed',
+  'reingest-review': 'Quarantined review re-ingested',
+  'discard-quarantined': 'Quarantined review discarded',
+};
+
+/**
+ * Describe what an audit event changed
+ *
+ * @param event - Recorded audit event
+ * @returns One-line description, e.g. "Status new → approved"
+ */
+export function describeAuditEvent(event: AuditEvent): string {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+
+  switch (event.action) {
+    case 'toggle-display':
+    case 'batch-toggle-display':
+    case 'moderate': {
+      const description = `Status ${before.moderationStatus ?? '?'} → ${after.moderationStatus ?? '?'}`;
+      return after.moderationReason
+        ? `${description} (${after.moderationReason})`
+        : description;
+    }
+
+    case 'delete':
+      return before.guestName
+        ? `Deleted review by ${before.guestName}`
+        : 'Deleted review';
+
+    case 'import':
+      return `Imported ${after.imported ?? 0} of ${after.totalRows ?? 0} rows` +
+        (after.format ? ` from ${String(after.format).toUpperCase()}` : '') +
+        describeSaveCounts(after);
+
+    case 'sync':
+      return `${after.source ?? 'Review'} sync ${after.status ?? 'finished'}: ` +
+        `${after.saved ?? 0} saved${describeSaveCounts(after)}, ${after.failed ?? 0} failed` +
+        (after.quarantined ? `, ${after.quarantined} quarantined` : '');
+
+    case 'assign-properties': {
+      const propertyIds = Array.isArray(after.propertyIds) ? after.propertyIds : [];
+      return `Assigned ${propertyIds.length} properties to user ${after.userId ?? '?'}`;
+    }
+
+    case 'respond':
+      return before.status
+        ? `Reply ${before.status} → ${after.status ?? '?'}`
+        : `Reply saved as ${after.status ?? 'draft'}`;
+
+    case 'tag':
+      return `Tagged "${after.tag ?? '?'}"`;
+
+    case 'assign':
+      return after.assignedTo
+        ? `Assigned to ${after.assignedTo}`
+        : `Unassigned from ${before.assignedTo ?? '?'}`;
+
+    case 'reapprove':
+      return 'Re-approved the edited review text';
+
+    case 'replay-webhook':
+      return `Replayed webhook event ${after.eventId ?? '?'}: ${after.status ?? '?'}` +
+        (after.error ? ` (${after.error})` : '');
+
+    case 'reingest-review':
+      return `Re-ingested ${after.source ?? '?'} review ${after.sourceReviewId ?? '?'} from quarantine`;
+
+    case 'discard-quarantined':
+      return `Discarded quarantined ${before.source ?? '?'} review ${before.sourceReviewId ?? '?'}`;
+
+    default:
+      return event.action;
+  }
+}
+
+/**
+ * Describe inserted/updated/unchanged counts, for events recorded
+ * since saveReviewsToDb started reporting them
+ */
+function describeSaveCounts(values: Record<string, unknown>): string {
+  if (values.inserted === undefined) return '';
+
+  return ` (${values.inserted} new, ${values.updated ?? 0} updated, ${values.unchanged ?? 0} unchanged)`;
+}
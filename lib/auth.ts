@@ -0,0 +1,157 @@
+/**
+ * Authentication
+ *
+ * Email and password sign-in for the manager dashboard. The signed-in
+ * user is kept in a signed session cookie (see lib/session.ts) and
+ * re-loaded from the database on every permission check, so deleted
+ * users and role changes take effect immediately.
+ *
+ * Managers and viewers are limited to their assigned properties; the
+ * helpers below check that scope for server actions and pages.
+ *
+ * Server-only: uses next/headers and the database.
+ */
+
+import { cookies } from 'next/headers';
+import {
+  getAssignedPropertyIds,
+  getReviewPropertyIds,
+  getUserById,
+  getUserCredentials,
+} from './db';
+import { verifyPassword } from './password';
+import { hasPermission, isPropertyInScope } from './permissions';
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  createSessionToken,
+  verifySessionToken,
+} from './session';
+import type { Permission, PropertyScope, User } from '@/types';
+
+/**
+ * Check an email and password and start a session
+ *
+ * @param email - Email address
+ * @param password - Plain-text password
+ * @returns Promise resolving to the signed-in user, or null if the
+ *   credentials are wrong
+ */
+export async function signInWithPassword(email: string, password: string): Promise<User | null> {
+  const credentials = await getUserCredentials(email);
+
+  if (!credentials || !(await verifyPassword(password, credentials.passwordHash))) {
+    return null;
+  }
+
+  const { user } = credentials;
+  const token = await createSessionToken({ id: user.id, email: user.email, role: user.role });
+
+  cookies().set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+
+  return user;
+}
+
+/**
+ * End the current session
+ */
+export function signOut(): void {
+  cookies().delete(SESSION_COOKIE);
+}
+
+/**
+ * Get the signed-in user
+ *
+ * @returns Promise resolving to the User, or null if not signed in
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const session = await verifySessionToken(cookies().get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  return getUserById(session.id);
+}
+
+/**
+ * Get the signed-in user, requiring a permission
+ *
+ * @param permission - Permission the action needs
+ * @returns Promise resolving to the signed-in User
+ * @throws Error if nobody is signed in or the user's role lacks the permission
+ */
+export async function requirePermission(permission: Permission): Promise<User> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    throw new Error('You must be signed in');
+  }
+
+  if (!hasPermission(user.role, permission)) {
+    throw new Error(`Your role (${user.role}) does not allow ${permission}`);
+  }
+
+  return user;
+}
+
+/**
+ * Get the properties a user can see and curate
+ *
+ * @param user - Signed-in user
+ * @returns Promise resolving to assigned property IDs, or null for admins
+ */
+export async function getPropertyScope(user: User): Promise<PropertyScope> {
+  return user.role === 'admin' ? null : getAssignedPropertyIds(user.id);
+}
+
+/**
+ * Require that a user may access every given property
+ *
+ * @param user - Signed-in user
+ * @param propertyIds - Properties the action touches
+ * @throws Error if any property is outside the user's scope
+ */
+export async function requirePropertyAccess(user: User, propertyIds: string[]): Promise<void> {
+  const scope = await getPropertyScope(user);
+  const denied = propertyIds.find((propertyId) => !isPropertyInScope(scope, propertyId));
+
+  if (denied !== undefined) {
+    throw new Error(`Property ${denied} is not assigned to you`);
+  }
+}
+
+/**
+ * Require that a user may access a record kept for a property, such as
+ * a webhook delivery
+ *
+ * @param user - Signed-in user
+ * @param propertyId - Property of the record, or null if unknown (admins only)
+ * @throws Error if the property is outside the user's scope
+ */
+export async function requireRecordPropertyAccess(
+  user: User,
+  propertyId: string | null
+): Promise<void> {
+  if (!isPropertyInScope(await getPropertyScope(user), propertyId)) {
+    throw new Error(
+      propertyId ? `Property ${propertyId} is not assigned to you` : 'Only admins can access this record'
+    );
+  }
+}
+
+/**
+ * Require that a user may access the properties of every given review
+ *
+ * @param user - Signed-in user
+ * @param reviewIds - Reviews the action touches
+ * @throws Error if any review belongs to a property outside the user's scope
+ */
+export async function requireReviewAccess(user: User, reviewIds: string[]): Promise<void> {
+  if (user.role === 'admin') return;
+
+  await requirePropertyAccess(user, await getReviewPropertyIds(reviewIds));
+}
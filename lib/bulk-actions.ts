@@ -0,0 +1,131 @@
+/**
+ * Bulk Review Actions
+ *
+ * Works out what a bulk action will do to the selected reviews so the
+ * dashboard can show a confirmation summary and only send the reviews
+ * the action applies to. The server applies the action in a single
+ * transaction (see applyBulkReviewAction in app/actions.ts) and rejects
+ * the whole batch if any review can't take it. Exporting a selection
+ * uses ExportButton and needs no plan.
+ */
+
+import { getAllowedTransitions } from './moderation';
+import type { BulkActionPlan, BulkActionType, BulkReviewAction, Review } from '@/types';
+
+export const BULK_ACTION_LABELS: Record<BulkActionType, string> = {
+  publish: 'Publish',
+  unpublish: 'Unpublish',
+  tag: 'Tag',
+  assign: 'Assign',
+  delete: 'Delete',
+};
+
+/**
+ * Normalize a tag for storage and comparison
+ *
+ * @param tag - Tag as typed by the manager
+ * @returns Trimmed, lowercase tag with inner whitespace collapsed
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Work out which selected reviews a bulk action applies to
+ *
+ * Reviews that would not change (already published, already tagged,
+ * ...) or can't take the action (rejected reviews can't be published)
+ * are skipped with a reason.
+ *
+ * @param reviews - Selected reviews
+ * @param action - Bulk action to apply
+ * @returns Reviews the action applies to and the skipped ones
+ */
+export function planBulkAction(reviews: Review[], action: BulkReviewAction): BulkActionPlan {
+  const plan: BulkActionPlan = { reviewIds: [], skipped: [] };
+
+  reviews.forEach((review) => {
+    const reason = getSkipReason(review, action);
+    if (reason) {
+      plan.skipped.push({ reviewId: review.id, reason });
+    } else {
+      plan.reviewIds.push(review.id);
+    }
+  });
+
+  return plan;
+}
+
+function getSkipReason(review: Review, action: BulkReviewAction): string | null {
+  switch (action.type) {
+    case 'publish':
+      if (review.moderationStatus === 'approved') return 'Already published';
+      return getAllowedTransitions(review.moderationStatus).includes('approved')
+        ? null
+        : `Can't publish a ${review.moderationStatus} review`;
+
+    case 'unpublish':
+      return review.moderationStatus === 'approved' ? null : 'Not published';
+
+    case 'tag':
+      return review.tags?.includes(normalizeTag(action.tag)) ? 'Already tagged' : null;
+
+    case 'assign':
+      return (review.assignedTo ?? null) === action.assignee ? 'Already assigned' : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the reviews between two rows, for shift-click range selection
+ *
+ * @param orderedIds - Review IDs in the order shown in the table
+ * @param anchorId - Row clicked before (without shift)
+ * @param targetId - Row shift-clicked
+ * @returns IDs from anchor to target inclusive, or just the target if
+ *   the anchor is no longer shown
+ */
+export function getSelectionRange(orderedIds: string[], anchorId: string, targetId: string): string[] {
+  const from = orderedIds.indexOf(anchorId);
+  const to = orderedIds.indexOf(targetId);
+
+  if (from === -1 || to === -1) {
+    return [targetId];
+  }
+
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
+
+/**
+ * Describe a planned bulk action for the confirmation prompt
+ *
+ * @param action - Bulk action to apply
+ * @param plan - Result of planBulkAction
+ * @returns One-line summary, e.g. 'Publish 12 reviews (2 skipped)'
+ */
+export function describeBulkAction(action: BulkReviewAction, plan: BulkActionPlan): string {
+  const count = `${plan.reviewIds.length} review${plan.reviewIds.length !== 1 ? 's' : ''}`;
+  let description: string;
+
+  switch (action.type) {
+    case 'tag':
+      description = `Tag ${count} "${normalizeTag(action.tag)}"`;
+      break;
+    case 'assign':
+      description = action.assignee
+        ? `Assign ${count} to ${action.assignee}`
+        : `Unassign ${count}`;
+      break;
+    case 'delete':
+      description = `Permanently delete ${count}`;
+      break;
+    default:
+      description = `${BULK_ACTION_LABELS[action.type]} ${count}`;
+  }
+
+  return plan.skipped.length > 0
+    ? `${description} (${plan.skipped.length} skipped)`
+    : description;
+}
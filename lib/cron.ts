@@ -0,0 +1,161 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard five-field cron expressions (minute, hour, day of
+ * month, month, day of week) and finds the next time they match. Used
+ * by the sync scheduler, so schedules can be written the way they would
+ * be in a crontab, e.g. "*\/15 * * * *" for every 15 minutes.
+ *
+ * Each field accepts *, numbers, ranges (1-5), lists (1,15) and steps
+ * (*\/10, 0-30/5). Day of week is 0-7, where both 0 and 7 are Sunday.
+ * As in cron, when both day of month and day of week are restricted, a
+ * day matching either one matches.
+ *
+ * Times are evaluated in UTC, so a schedule doesn't depend on the
+ * server's timezone.
+ */
+
+import type { CronSchedule } from '@/types';
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// Far enough ahead for any valid expression, including "0 0 29 2 *"
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression
+ *
+ * @param expression - Five-field cron expression
+ * @returns The values each field matches
+ * @throws Error if the expression is malformed or out of range
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => {
+    try {
+      return parseField(part, FIELDS[index].min, FIELDS[index].max);
+    } catch (error) {
+      throw new Error(
+        `Invalid cron expression "${expression}": ${FIELDS[index].name} ${
+          error instanceof Error ? error.message : 'is invalid'
+        }`
+      );
+    }
+  });
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+/**
+ * Find the next time a cron schedule matches
+ *
+ * @param schedule - Schedule from parseCronExpression
+ * @param after - Time to search from; the result is strictly later
+ * @returns Start of the next matching minute
+ * @throws Error if the schedule never matches (e.g. "0 0 31 2 *")
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+      continue;
+    }
+    return time;
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+function matchesDay(schedule: CronSchedule, time: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(time.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(time.getUTCDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText);
+    if (step < 1) {
+      throw new Error(`has an invalid step "${stepText}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = parseNumber(startText);
+      // "5/15" means every 15 from 5, like "5-59/15"
+      end = endText !== undefined ? parseNumber(endText) : stepText !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`"${item}" is outside ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseNumber(text: string | undefined): number {
+  if (!text || !/^\d+$/.test(text)) {
+    throw new Error(`has an invalid value "${text ?? ''}"`);
+  }
+  return Number(text);
+}
@@ -0,0 +1,87 @@
+/**
+ * Data Source Selection
+ *
+ * Decides where review data comes from and records that decision so it
+ * can be shown to users instead of silently falling back to mock data.
+ *
+ * Controlled by the REVIEWS_DATA_MODE environment variable:
+ * - fallback (default): use real data, fall back to mock data on failure
+ * - strict: never use mock data; failures are surfaced as errors
+ * - mock: always use mock data (demos without a database or API)
+ */
+
+import type { DataProvenance, DataSource, ReviewsDataMode } from '@/types';
+
+const DATA_MODES: ReviewsDataMode[] = ['fallback', 'strict', 'mock'];
+
+/**
+ * Get the configured reviews data mode
+ *
+ * Unknown values are treated as 'strict' so a typo never enables mock data.
+ *
+ * @returns The active ReviewsDataMode
+ */
+export function getReviewsDataMode(): ReviewsDataMode {
+  const mode = process.env.REVIEWS_DATA_MODE;
+
+  if (!mode) return 'fallback';
+
+  if (DATA_MODES.includes(mode as ReviewsDataMode)) {
+    return mode as ReviewsDataMode;
+  }
+
+  console.warn(`Unknown REVIEWS_DATA_MODE "${mode}", using strict mode`);
+  return 'strict';
+}
+
+/**
+ * Load data from a real source, falling back to mock data if allowed
+ *
+ * @param source - The real source being loaded ('live' or 'database')
+ * @param load - Loads data from the real source
+ * @param loadMock - Loads equivalent mock data
+ * @returns Promise resolving to the data and where it came from
+ */
+export async function loadWithFallback<T>(
+  source: Exclude<DataSource, 'mock'>,
+  load: () => Promise<T>,
+  loadMock: () => Promise<T>
+): Promise<{ data: T; provenance: DataProvenance }> {
+  const mode = getReviewsDataMode();
+
+  if (mode === 'mock') {
+    return {
+      data: await loadMock(),
+      provenance: { source: 'mock', fallbackReason: 'REVIEWS_DATA_MODE is set to mock' },
+    };
+  }
+
+  try {
+    return { data: await load(), provenance: { source } };
+  } catch (error) {
+    if (mode === 'strict') throw error;
+
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error loading reviews from ${source}, falling back to mock data:`, error);
+
+    return {
+      data: await loadMock(),
+      provenance: { source: 'mock', fallbackReason: `${describeSource(source)} unavailable: ${reason}` },
+    };
+  }
+}
+
+/**
+ * Human-readable name for a data source
+ *
+ * @param source - Data source
+ * @returns Display label
+ */
+export function describeSource(source: DataSource): string {
+  const labels: Record<DataSource, string> = {
+    live: 'Hostaway API',
+    database: 'Database',
+    mock: 'Mock data',
+  };
+  return labels[source];
+}
@@ -2,89 +2,399 @@
  * Database Operations for Flex Living Reviews Dashboard
  *
  * This file contains all database operations using Prisma.
- * Handles CRUD operations for Properties and Reviews.
+ * Handles CRUD operations for Properties, Reviews, Sync Runs, Locks,
+ * Webhook Events, Quarantined Reviews, Users and the audit log.
  */
 
+import type {
+  Prisma,
+  AuditEvent as DbAuditEvent,
+  Review as DbReview,
+  ReviewCategoryRating as DbReviewCategoryRating,
+  ReviewResponse as DbReviewResponse,
+  ReviewRevision as DbReviewRevision,
+  ReviewTag as DbReviewTag,
+  SyncRun as DbSyncRun,
+  User as DbUser,
+  WebhookEvent as DbWebhookEvent,
+  QuarantinedReview as DbQuarantinedReview,
+} from '@prisma/client';
+import { randomUUID } from 'crypto';
 import { prisma } from './prisma';
-import type { Review, Property, PropertyPerformance } from '@/types';
+import { findHeroImage } from './listings';
+import { calculateRecentTrend, RECENT_REVIEW_DAYS } from './analytics';
+import { mapListingToPropertyId } from './utils';
+import { validateModerationDecision } from './moderation';
+import { computeReviewContentHash } from './review-hash';
+import { HOSTAWAY_CHANNEL, resolveHostawayChannel } from './hostaway/channels';
+import type {
+  Review,
+  Property,
+  PropertyPerformance,
+  ReviewFilters,
+  ReviewFilterOptions,
+  ReviewStatistics,
+  SortOptions,
+  PaginationParams,
+  PaginatedResponse,
+  SyncMode,
+  SyncRun,
+  SyncRunStatus,
+  ReviewCategory,
+  ModerationDecision,
+  ModerationStatus,
+  RejectionReason,
+  AuditAction,
+  AuditEvent,
+  AuditEventInput,
+  ReviewResponse,
+  ReviewResponseStatus,
+  ReviewRevision,
+  SaveReviewsResult,
+  ChannelBackfillResult,
+  User,
+  PropertyScope,
+  WebhookEvent,
+  WebhookEventStatus,
+  QuarantinedReview,
+  QuarantineInput,
+  QuarantineStatus,
+} from '@/types';
+
+// Loads category ratings, tags and the management reply with every review read through toReview
+const REVIEW_INCLUDE = {
+  categoryRatings: { orderBy: { category: 'asc' } },
+  tags: { orderBy: { tag: 'asc' } },
+  response: true,
+} satisfies Prisma.ReviewInclude;
+
+type DbReviewWithCategories = DbReview & {
+  categoryRatings: DbReviewCategoryRating[];
+  tags?: DbReviewTag[];
+  response?: DbReviewResponse | null;
+};
+
+// Review fields recorded in the audit log when a review is moderated
+const MODERATION_SELECT = {
+  moderationStatus: true,
+  moderationReason: true,
+  moderationNote: true,
+  displayOnWebsite: true,
+} satisfies Prisma.ReviewSelect;
+
+// Actor recorded for changes made by background jobs such as syncs
+const SYSTEM_ACTOR = 'system';
+
+// Reviews read and written per round trip by saveReviewsToDb
+const SAVE_BATCH_SIZE = 500;
+
+// Large syncs run in a single transaction, well past Prisma's 5s default
+const SAVE_TRANSACTION_TIMEOUT_MS = 120 * 1000;
 
 /**
- * Save reviews to database with upsert logic
+ * Save reviews to the database
+ *
+ * Creates or updates reviews and their associated properties in one
+ * transaction, so a failure part-way leaves nothing half-saved. Reviews
+ * are written in batches: new reviews with `createMany`, changed ones
+ * with targeted updates. Stored reviews whose content hash matches are
+ * not written at all. If the same review appears twice, the last copy
+ * wins.
+ *
+ * Before a changed review is updated, its previous version is kept as a
+ * ReviewRevision. Approved reviews whose text changed are flagged with
+ * `needsReapproval` so managers can check the new text.
  *
- * Creates or updates reviews and their associated properties.
- * Uses upsert to avoid duplicates and handle updates gracefully.
+ * Existing reviews keep their manager-owned moderation state;
+ * only newly created reviews take it from the normalized input.
+ *
+ * Hostaway reviews are attached to the property with the same
+ * `listingMapId`, so renaming a listing in Hostaway renames the
+ * property instead of orphaning its reviews.
  *
  * @param reviews - Array of normalized Review objects
- * @returns Promise that resolves when all reviews are saved
+ * @returns Promise resolving to the inserted, updated and unchanged counts
  */
-export async function saveReviewsToDb(reviews: Review[]): Promise<void> {
+export async function saveReviewsToDb(reviews: Review[]): Promise<SaveReviewsResult> {
   try {
     console.log(`Saving ${reviews.length} reviews to database...`);
 
-    // Group reviews by property to batch process
+    const uniqueReviews = Array.from(new Map(reviews.map((r) => [r.id, r])).values());
+
+    // Group reviews by listing (or property when there is no listing ID)
     const reviewsByProperty = new Map<string, Review[]>();
 
-    for (const review of reviews) {
-      const propertyReviews = reviewsByProperty.get(review.propertyId) || [];
+    for (const review of uniqueReviews) {
+      const key =
+        review.listingMapId != null ? `listing:${review.listingMapId}` : review.propertyId;
+      const propertyReviews = reviewsByProperty.get(key) || [];
       propertyReviews.push(review);
-      reviewsByProperty.set(review.propertyId, propertyReviews);
+      reviewsByProperty.set(key, propertyReviews);
     }
 
-    // Process each property and its reviews
-    for (const [propertyId, propertyReviews] of reviewsByProperty) {
-      const propertyName = propertyReviews[0]?.guestName
-        ? getPropertyNameFromId(propertyId)
-        : 'Unknown Property';
-
-      // Ensure property exists
-      await prisma.property.upsert({
-        where: { id: propertyId },
-        update: { name: propertyName },
-        create: {
-          id: propertyId,
-          name: propertyName,
-        },
-      });
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const counts: SaveReviewsResult = { inserted: 0, updated: 0, unchanged: 0 };
+        const rows: Array<{ review: Review; contentHash: string }> = [];
 
-      // Upsert each review
-      for (const review of propertyReviews) {
-        await prisma.review.upsert({
-          where: { id: review.id },
-          update: {
-            guestName: review.guestName,
-            rating: review.rating,
-            publicReview: review.publicReview,
-            channel: review.channel,
-            reviewType: review.reviewType,
-            status: review.status,
-            displayOnWebsite: review.displayOnWebsite,
-            categories: JSON.stringify(review.categories),
-            submittedAt: review.submittedAt,
-          },
-          create: {
-            id: review.id,
-            propertyId: review.propertyId,
-            guestName: review.guestName,
-            rating: review.rating,
-            publicReview: review.publicReview,
-            channel: review.channel,
-            reviewType: review.reviewType,
-            status: review.status,
-            displayOnWebsite: review.displayOnWebsite,
-            categories: JSON.stringify(review.categories),
-            submittedAt: review.submittedAt,
-          },
-        });
-      }
-    }
+        // Ensure every property exists and attach its reviews to it
+        for (const propertyReviews of reviewsByProperty.values()) {
+          const propertyId = await ensureProperty(tx, propertyReviews[0]);
+
+          propertyReviews.forEach((review) => {
+            const stored = { ...review, propertyId };
+            rows.push({ review: stored, contentHash: computeReviewContentHash(stored) });
+          });
+        }
+
+        for (let i = 0; i < rows.length; i += SAVE_BATCH_SIZE) {
+          const batch = rows.slice(i, i + SAVE_BATCH_SIZE);
+          const existing = await tx.review.findMany({
+            where: { id: { in: batch.map(({ review }) => review.id) } },
+            include: { categoryRatings: true },
+          });
+          const storedReviews = new Map(existing.map((r) => [r.id, r]));
+          const storedHash = (stored: DbReview & { categoryRatings: DbReviewCategoryRating[] }) =>
+            stored.contentHash ?? computeReviewContentHash(toReview(stored));
+
+          const toInsert = batch.filter(({ review }) => !storedReviews.has(review.id));
+          const toUpdate = batch.filter(({ review, contentHash }) => {
+            const stored = storedReviews.get(review.id);
+            return stored !== undefined && storedHash(stored) !== contentHash;
+          });
+
+          // Rows saved before content hashing: store the hash without counting an update
+          for (const { review, contentHash } of batch) {
+            const stored = storedReviews.get(review.id);
+            if (stored && stored.contentHash === null && storedHash(stored) === contentHash) {
+              await tx.review.update({ where: { id: review.id }, data: { contentHash } });
+            }
+          }
+
+          if (toInsert.length > 0) {
+            await tx.review.createMany({
+              data: toInsert.map(({ review, contentHash }) => ({
+                id: review.id,
+                ...toReviewSourceFields(review),
+                contentHash,
+                displayOnWebsite: review.moderationStatus === 'approved',
+                moderationStatus: review.moderationStatus,
+              })),
+            });
+          }
+
+          // Keep the version being replaced; guests can edit reviews after submitting
+          const revised = toUpdate.filter(({ review }) =>
+            isGuestContentChanged(storedReviews.get(review.id)!, review)
+          );
+          if (revised.length > 0) {
+            await tx.reviewRevision.createMany({
+              data: revised.map(({ review }) => {
+                const stored = storedReviews.get(review.id)!;
+                return {
+                  reviewId: stored.id,
+                  guestName: stored.guestName,
+                  rating: stored.rating,
+                  publicReview: stored.publicReview,
+                  categories: JSON.stringify(
+                    stored.categoryRatings.map(({ category, rating }) => ({ category, rating }))
+                  ),
+                  submittedAt: stored.submittedAt,
+                };
+              }),
+            });
+          }
+
+          // Moderation fields are owned by managers and must survive re-syncs,
+          // but approved reviews whose text changed are flagged for re-approval
+          for (const { review, contentHash } of toUpdate) {
+            const stored = storedReviews.get(review.id)!;
+            const textChangedWhileApproved =
+              stored.moderationStatus === 'approved' && stored.publicReview !== review.publicReview;
+
+            await tx.review.update({
+              where: { id: review.id },
+              data: {
+                ...toReviewSourceFields(review),
+                contentHash,
+                ...(textChangedWhileApproved && { needsReapproval: true }),
+              },
+            });
+          }
+
+          if (toUpdate.length > 0) {
+            await tx.reviewCategoryRating.deleteMany({
+              where: { reviewId: { in: toUpdate.map(({ review }) => review.id) } },
+            });
+          }
+
+          const categoryRows = [...toInsert, ...toUpdate].flatMap(({ review }) =>
+            toCategoryRatingRows(review.categories).map((row) => ({ ...row, reviewId: review.id }))
+          );
+          if (categoryRows.length > 0) {
+            await tx.reviewCategoryRating.createMany({ data: categoryRows });
+          }
 
-    console.log(`Successfully saved ${reviews.length} reviews`);
+          counts.inserted += toInsert.length;
+          counts.updated += toUpdate.length;
+          counts.unchanged += batch.length - toInsert.length - toUpdate.length;
+        }
+
+        return counts;
+      },
+      { timeout: SAVE_TRANSACTION_TIMEOUT_MS }
+    );
+
+    console.log(
+      `Saved ${uniqueReviews.length} reviews: ${result.inserted} inserted, ` +
+        `${result.updated} updated, ${result.unchanged} unchanged`
+    );
+    return result;
   } catch (error) {
     console.error('Error saving reviews to database:', error);
     throw error;
   }
 }
 
+/**
+ * Get the review columns that come from the review's source
+ */
+function toReviewSourceFields(review: Review) {
+  return {
+    propertyId: review.propertyId,
+    guestName: review.guestName,
+    rating: review.rating,
+    rawRating: review.rawRating,
+    ratingScale: review.ratingScale,
+    publicReview: review.publicReview,
+    channel: review.channel,
+    sourceChannelId: review.sourceChannelId,
+    sourceChannelName: review.sourceChannelName,
+    reviewType: review.reviewType,
+    status: review.status,
+    submittedAt: review.submittedAt,
+  };
+}
+
+/**
+ * Check whether what the guest wrote differs from the stored review
+ *
+ * Revisions only record the guest's own edits; a remapped channel or a
+ * new status at the source doesn't need one.
+ */
+function isGuestContentChanged(stored: DbReviewWithCategories, review: Review): boolean {
+  const categories = (list: ReviewCategory[]) =>
+    JSON.stringify(
+      list
+        .map(({ category, rating }) => [category, rating])
+        .sort(([a], [b]) => String(a).localeCompare(String(b)))
+    );
+
+  // On the same scale the guest's own rating is compared; across scales
+  // only the normalized one is, so rescaling alone is not a revision
+  const ratingChanged =
+    stored.ratingScale !== null && stored.ratingScale === review.ratingScale
+      ? stored.rawRating !== (review.rawRating ?? null)
+      : stored.rating !== review.rating;
+
+  return (
+    stored.guestName !== review.guestName ||
+    ratingChanged ||
+    stored.publicReview !== review.publicReview ||
+    categories(stored.categoryRatings) !== categories(review.categories)
+  );
+}
+
+/**
+ * Find or create the property a review belongs to
+ *
+ * Properties are matched by Hostaway listing ID first, then by ID.
+ * Properties created before listing IDs were stored are adopted by the
+ * first review that carries their listing ID. When the review has a
+ * source display name, the property's name and slug follow it.
+ *
+ * @param client - Prisma client or transaction to use
+ * @param review - Review carrying the property ID, listing ID and name
+ * @returns Promise resolving to the ID of the property to attach it to
+ */
+async function ensureProperty(client: Prisma.TransactionClient, review: Review): Promise<string> {
+  const listingMapId = review.listingMapId ?? null;
+  const name = review.propertyName?.trim() || getPropertyNameFromId(review.propertyId);
+
+  let existing =
+    listingMapId !== null
+      ? await client.property.findUnique({ where: { listingMapId } })
+      : null;
+
+  if (!existing) {
+    const byId = await client.property.findUnique({ where: { id: review.propertyId } });
+
+    // A property with this ID but another listing ID is a different listing
+    if (byId && (listingMapId === null || byId.listingMapId === null)) {
+      existing = byId;
+    }
+  }
+
+  if (existing) {
+    if (review.propertyName || (listingMapId !== null && existing.listingMapId === null)) {
+      await client.property.update({
+        where: { id: existing.id },
+        data: {
+          listingMapId: listingMapId ?? undefined,
+          ...(review.propertyName && {
+            name,
+            slug: await getAvailableSlug(client, name, existing.id),
+            heroImage: existing.heroImage ?? findHeroImage(name),
+          }),
+        },
+      });
+    }
+
+    return existing.id;
+  }
+
+  const idTaken = await client.property.findUnique({
+    where: { id: review.propertyId },
+    select: { id: true },
+  });
+  const id = idTaken ? `${review.propertyId}-${listingMapId}` : review.propertyId;
+
+  await client.property.create({
+    data: {
+      id,
+      name,
+      slug: await getAvailableSlug(client, name),
+      listingMapId,
+      heroImage: findHeroImage(name),
+    },
+  });
+
+  return id;
+}
+
+/**
+ * Get a URL slug for a property name that no other property uses
+ *
+ * @param client - Prisma client or transaction to use
+ * @param name - Property display name
+ * @param propertyId - Property the slug is for, if it already exists
+ * @returns Slug, suffixed with -2, -3, ... when taken
+ */
+async function getAvailableSlug(
+  client: Prisma.TransactionClient,
+  name: string,
+  propertyId?: string
+): Promise<string> {
+  const base = mapListingToPropertyId(name) || 'property';
+
+  for (let suffix = 1; ; suffix++) {
+    const slug = suffix === 1 ? base : `${base}-${suffix}`;
+    const owner = await client.property.findUnique({ where: { slug }, select: { id: true } });
+
+    if (!owner || owner.id === propertyId) return slug;
+  }
+}
+
 /**
  * Get all reviews for a specific property
  *
@@ -96,23 +406,10 @@ export async function getReviewsByProperty(propertyId: string): Promise<Review[]
     const dbReviews = await prisma.review.findMany({
       where: { propertyId },
       orderBy: { submittedAt: 'desc' },
+      include: REVIEW_INCLUDE,
     });
 
-    return dbReviews.map((dbReview) => ({
-      id: dbReview.id,
-      propertyId: dbReview.propertyId,
-      guestName: dbReview.guestName,
-      rating: dbReview.rating,
-      publicReview: dbReview.publicReview,
-      channel: dbReview.channel,
-      reviewType: dbReview.reviewType as 'host-to-guest' | 'guest-to-host',
-      status: dbReview.status,
-      displayOnWebsite: dbReview.displayOnWebsite,
-      categories: JSON.parse(dbReview.categories),
-      submittedAt: dbReview.submittedAt,
-      createdAt: dbReview.createdAt,
-      updatedAt: dbReview.updatedAt,
-    }));
+    return dbReviews.map(toReview);
   } catch (error) {
     console.error(`Error fetching reviews for property ${propertyId}:`, error);
     throw error;
@@ -128,31 +425,21 @@ export async function getReviewsByProperty(propertyId: string): Promise<Review[]
 export async function getAllReviews(filters?: {
   displayOnWebsite?: boolean;
   propertyId?: string;
+  propertyIds?: string[];
 }): Promise<Review[]> {
   try {
+    const { propertyIds, ...where } = filters ?? {};
+
     const dbReviews = await prisma.review.findMany({
-      where: filters,
+      where: propertyIds ? { ...where, AND: [{ propertyId: { in: propertyIds } }] } : where,
       orderBy: { submittedAt: 'desc' },
       include: {
         property: true,
+        ...REVIEW_INCLUDE,
       },
     });
 
-    return dbReviews.map((dbReview) => ({
-      id: dbReview.id,
-      propertyId: dbReview.propertyId,
-      guestName: dbReview.guestName,
-      rating: dbReview.rating,
-      publicReview: dbReview.publicReview,
-      channel: dbReview.channel,
-      reviewType: dbReview.reviewType as 'host-to-guest' | 'guest-to-host',
-      status: dbReview.status,
-      displayOnWebsite: dbReview.displayOnWebsite,
-      categories: JSON.parse(dbReview.categories),
-      submittedAt: dbReview.submittedAt,
-      createdAt: dbReview.createdAt,
-      updatedAt: dbReview.updatedAt,
-    }));
+    return dbReviews.map(toReview);
   } catch (error) {
     console.error('Error fetching all reviews:', error);
     throw error;
@@ -160,204 +447,1980 @@ export async function getAllReviews(filters?: {
 }
 
 /**
- * Update a review's display status
+ * Get a page of reviews with filtering and sorting
  *
- * @param reviewId - The review ID to update
- * @param display - Whether to display on website
- * @returns Promise resolving when update is complete
+ * Filtering, sorting and pagination all run in the database so the
+ * cost does not grow with the total number of reviews.
+ *
+ * @param filters - Filter criteria
+ * @param sort - Sort field and direction
+ * @param pagination - Page number (1-based) and page size
+ * @returns Promise resolving to a PaginatedResponse of Review objects
  */
-export async function updateReviewDisplayStatus(
-  reviewId: string,
-  display: boolean
-): Promise<void> {
+export async function getReviewsPage(
+  filters: ReviewFilters,
+  sort: SortOptions,
+  pagination: PaginationParams
+): Promise<PaginatedResponse<Review>> {
   try {
-    await prisma.review.update({
-      where: { id: reviewId },
-      data: { displayOnWebsite: display },
-    });
+    const where = buildReviewWhere(filters);
 
-    console.log(`Updated review ${reviewId} display status to ${display}`);
+    const [totalItems, dbReviews] = await prisma.$transaction([
+      prisma.review.count({ where }),
+      prisma.review.findMany({
+        where,
+        orderBy: buildReviewOrderBy(sort),
+        skip: (pagination.page - 1) * pagination.pageSize,
+        take: pagination.pageSize,
+        include: REVIEW_INCLUDE,
+      }),
+    ]);
+
+    return {
+      data: dbReviews.map(toReview),
+      pagination: {
+        currentPage: pagination.page,
+        pageSize: pagination.pageSize,
+        totalItems,
+        totalPages: Math.ceil(totalItems / pagination.pageSize),
+      },
+    };
   } catch (error) {
-    console.error(`Error updating review ${reviewId} display status:`, error);
+    console.error('Error fetching reviews page:', error);
     throw error;
   }
 }
 
 /**
- * Get all properties with review statistics
+ * Get every review matching filters, in sort order
  *
- * Calculates performance metrics for each property including:
- * - Total review count
- * - Average rating
- * - Category ratings breakdown
- * - Recent trends
+ * Used for exports, which need all matching rows rather than a page.
  *
- * @returns Promise resolving to array of PropertyPerformance objects
+ * @param filters - Filter criteria
+ * @param sort - Sort field and direction
+ * @returns Promise resolving to matching reviews
  */
-export async function getPropertiesWithReviews(): Promise<PropertyPerformance[]> {
+export async function getReviewsMatching(
+  filters: ReviewFilters,
+  sort: SortOptions
+): Promise<Review[]> {
   try {
-    const properties = await prisma.property.findMany({
-      include: {
-        reviews: {
-          orderBy: { submittedAt: 'desc' },
-        },
-      },
+    const dbReviews = await prisma.review.findMany({
+      where: buildReviewWhere(filters),
+      orderBy: buildReviewOrderBy(sort),
+      include: REVIEW_INCLUDE,
     });
 
-    return properties.map((property) => {
-      const reviews = property.reviews.map((r) => ({
-        ...r,
-        categories: JSON.parse(r.categories),
-        reviewType: r.reviewType as 'host-to-guest' | 'guest-to-host',
-      }));
+    return dbReviews.map(toReview);
+  } catch (error) {
+    console.error('Error fetching matching reviews:', error);
+    throw error;
+  }
+}
 
-      // Calculate average rating
-      const ratingsWithValue = reviews
-        .filter((r) => r.rating !== null)
-        .map((r) => r.rating!);
+/**
+ * Count the reviews matching filters
+ *
+ * @param filters - Filter criteria
+ * @returns Promise resolving to the number of matching reviews
+ */
+export async function countReviews(filters: ReviewFilters): Promise<number> {
+  try {
+    return await prisma.review.count({ where: buildReviewWhere(filters) });
+  } catch (error) {
+    console.error('Error counting reviews:', error);
+    throw error;
+  }
+}
 
-      const averageRating =
-        ratingsWithValue.length > 0
-          ? ratingsWithValue.reduce((sum, r) => sum + r, 0) / ratingsWithValue.length
-          : 0;
+/**
+ * Get dashboard statistics of every review matching filters
+ *
+ * Counted and averaged in the database, so only the totals are read.
+ *
+ * @param filters - Filter criteria
+ * @returns Promise resolving to ReviewStatistics
+ */
+export async function getReviewStatistics(filters: ReviewFilters): Promise<ReviewStatistics> {
+  try {
+    const where = buildReviewWhere(filters);
+    const recentSince = new Date(Date.now() - RECENT_REVIEW_DAYS * 24 * 60 * 60 * 1000);
 
-      // Calculate category ratings
-      const categoryRatings: Record<string, number> = {};
-      const categoryCounts: Record<string, number> = {};
+    const [totals, byChannel, byType, selectedForWebsite, recentReviews, byCategory] =
+      await Promise.all([
+        prisma.review.aggregate({ where, _count: { _all: true }, _avg: { rating: true } }),
+        prisma.review.groupBy({ by: ['channel'], where, _count: { _all: true } }),
+        prisma.review.groupBy({ by: ['reviewType'], where, _count: { _all: true } }),
+        prisma.review.count({ where: { AND: [where, { displayOnWebsite: true }] } }),
+        prisma.review.count({ where: { AND: [where, { submittedAt: { gte: recentSince } }] } }),
+        prisma.reviewCategoryRating.groupBy({
+          by: ['category'],
+          where: { review: where },
+          _avg: { rating: true },
+        }),
+      ]);
 
-      reviews.forEach((review) => {
-        if (review.categories && Array.isArray(review.categories)) {
-          review.categories.forEach((cat: { category: string; rating: number }) => {
-            if (!categoryRatings[cat.category]) {
-              categoryRatings[cat.category] = 0;
-              categoryCounts[cat.category] = 0;
-            }
-            categoryRatings[cat.category] += cat.rating;
-            categoryCounts[cat.category]++;
-          });
-        }
-      });
+    return {
+      totalReviews: totals._count._all,
+      averageRating: Math.round((totals._avg.rating ?? 0) * 10) / 10,
+      reviewsByChannel: Object.fromEntries(byChannel.map((g) => [g.channel, g._count._all])),
+      reviewsByType: Object.fromEntries(byType.map((g) => [g.reviewType, g._count._all])),
+      selectedForWebsite,
+      categoryAverages: Object.fromEntries(
+        byCategory.map((g) => [g.category, Math.round((g._avg.rating ?? 0) * 10) / 10])
+      ),
+      recentReviews,
+    };
+  } catch (error) {
+    console.error('Error fetching review statistics:', error);
+    throw error;
+  }
+}
 
-      // Calculate averages for each category
-      Object.keys(categoryRatings).forEach((category) => {
-        categoryRatings[category] =
-          Math.round((categoryRatings[category] / categoryCounts[category]) * 10) / 10;
-      });
+/**
+ * Get the channels and categories of reviews, for the dashboard filters
+ *
+ * @param propertyIds - Only these properties (a manager's assignments); all if omitted
+ * @returns Promise resolving to sorted channels and categories
+ */
+export async function getReviewFilterOptions(
+  propertyIds?: string[] | null
+): Promise<ReviewFilterOptions> {
+  try {
+    const where: Prisma.ReviewWhereInput = propertyIds ? { propertyId: { in: propertyIds } } : {};
 
-      // Calculate recent trends (last 30 days vs previous 30 days)
-      const now = new Date();
-      const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
-
-      const recentReviews = reviews.filter(
-        (r) => r.submittedAt >= thirtyDaysAgo && r.rating !== null
-      );
-      const previousReviews = reviews.filter(
-        (r) => r.submittedAt >= sixtyDaysAgo && r.submittedAt < thirtyDaysAgo && r.rating !== null
-      );
-
-      // Default to 'up' but only matters if we have data
-      let trendDirection: 'up' | 'down' = 'up';
-      let trendPercentage = 0;
-
-      if (recentReviews.length > 0 && previousReviews.length > 0) {
-        const recentAvg =
-          recentReviews.reduce((sum, r) => sum + r.rating!, 0) / recentReviews.length;
-        const previousAvg =
-          previousReviews.reduce((sum, r) => sum + r.rating!, 0) / previousReviews.length;
-
-        const diff = recentAvg - previousAvg;
-        trendPercentage = Math.round(Math.abs((diff / previousAvg) * 100));
-
-        // Determine direction based on actual change
-        if (diff >= 0) {
-          trendDirection = 'up';    // Improving or stable
-        } else {
-          trendDirection = 'down';  // Declining
-        }
-      }
+    const [channels, categories] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        distinct: ['channel'],
+        select: { channel: true },
+        orderBy: { channel: 'asc' },
+      }),
+      prisma.reviewCategoryRating.findMany({
+        where: { review: where },
+        distinct: ['category'],
+        select: { category: true },
+        orderBy: { category: 'asc' },
+      }),
+    ]);
 
-      return {
-        propertyId: property.id,
-        propertyName: property.name,
-        totalReviews: reviews.length,
-        averageRating: Math.round(averageRating * 10) / 10,
-        categoryRatings,
-        recentTrends: {
-          direction: trendDirection,
-          percentage: trendPercentage,
-        },
-      };
-    });
+    return {
+      channels: channels.map((r) => r.channel),
+      categories: categories.map((r) => r.category),
+    };
   } catch (error) {
-    console.error('Error fetching properties with reviews:', error);
+    console.error('Error fetching review filter options:', error);
     throw error;
   }
 }
 
 /**
- * Helper function to convert property ID back to readable name
+ * Build a Prisma orderBy clause from sort options
  *
- * @param propertyId - Property ID in kebab-case
- * @returns Human-readable property name
+ * @param sort - Sort field and direction
+ * @returns Prisma orderBy list with a stable tie-breaker
  */
-function getPropertyNameFromId(propertyId: string): string {
-  return propertyId
-    .split('-')
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
+function buildReviewOrderBy(sort: SortOptions): Prisma.ReviewOrderByWithRelationInput[] {
+  return [
+    sort.field === 'rating'
+      ? { rating: { sort: sort.direction, nulls: 'last' } }
+      : { [sort.field]: sort.direction },
+    // Tie-breaker keeps pages stable when sort values repeat
+    { id: 'asc' },
+  ];
 }
 
 /**
- * Delete a review by ID
+ * Build a Prisma where clause from review filters
  *
- * @param reviewId - The review ID to delete
- * @returns Promise resolving when deletion is complete
+ * @param filters - Filter criteria
+ * @returns Prisma ReviewWhereInput
+ */
+function buildReviewWhere(filters: ReviewFilters): Prisma.ReviewWhereInput {
+  const where: Prisma.ReviewWhereInput = {};
+
+  if (filters.propertyId) where.propertyId = filters.propertyId;
+  if (filters.propertyIds) where.AND = [{ propertyId: { in: filters.propertyIds } }];
+  if (filters.channel) where.channel = filters.channel;
+  if (filters.status) where.status = filters.status;
+  if (filters.reviewType && filters.reviewType !== 'all') {
+    where.reviewType = filters.reviewType;
+  }
+  if (filters.displayOnWebsite !== undefined) {
+    where.displayOnWebsite = filters.displayOnWebsite;
+  }
+  if (filters.needsReapproval !== undefined) {
+    where.needsReapproval = filters.needsReapproval;
+  }
+  if (filters.moderationStatus && filters.moderationStatus.length > 0) {
+    where.moderationStatus = { in: filters.moderationStatus };
+  }
+
+  if (filters.minRating !== undefined || filters.maxRating !== undefined) {
+    where.rating = {
+      gte: filters.minRating,
+      lte: filters.maxRating,
+    };
+  }
+
+  if (filters.dateFrom || filters.dateTo) {
+    where.submittedAt = {
+      gte: filters.dateFrom,
+      lte: filters.dateTo,
+    };
+  }
+
+  if (filters.category) {
+    where.categoryRatings = {
+      some: {
+        category: filters.category,
+        rating: {
+          gte: filters.categoryMinRating,
+          lte: filters.categoryMaxRating,
+        },
+      },
+    };
+  }
+
+  if (filters.search) {
+    where.OR = [
+      { guestName: { contains: filters.search, mode: 'insensitive' } },
+      { publicReview: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  return where;
+}
+
+/**
+ * Apply a moderation decision to a review
+ *
+ * The decision is checked against the moderation state machine inside
+ * a transaction, so two moderators acting at once cannot make an
+ * invalid transition. `displayOnWebsite` is kept in step: only approved
+ * reviews are displayed. The change is written to the audit log in the
+ * same transaction.
+ *
+ * @param reviewId - The review ID to moderate
+ * @param decision - New status with optional reason code and note
+ * @param moderatedBy - Who made the decision
+ * @param action - Audit action to record (defaults to 'moderate')
+ * @returns Promise resolving to the updated Review
+ * @throws Error if the review does not exist or the decision is invalid
  */
-export async function deleteReview(reviewId: string): Promise<void> {
+export async function moderateReview(
+  reviewId: string,
+  decision: ModerationDecision,
+  moderatedBy: string,
+  action: AuditAction = 'moderate'
+): Promise<Review> {
   try {
-    await prisma.review.delete({
-      where: { id: reviewId },
+    const dbReview = await prisma.$transaction((tx) =>
+      applyModerationDecision(tx, reviewId, decision, moderatedBy, action)
+    );
+
+    console.log(`Review ${reviewId} moderated to ${decision.status} by ${moderatedBy}`);
+    return toReview(dbReview);
+  } catch (error) {
+    console.error(`Error moderating review ${reviewId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Apply moderation decisions to several reviews in one transaction
+ *
+ * Either every decision is applied or, if any is invalid, none are.
+ *
+ * @param updates - Review IDs with their decisions
+ * @param moderatedBy - Who made the decisions
+ * @param action - Audit action to record (defaults to 'batch-toggle-display')
+ * @returns Promise resolving to the updated Reviews
+ * @throws Error if any review does not exist or any decision is invalid
+ */
+export async function moderateReviews(
+  updates: Array<{ reviewId: string; decision: ModerationDecision }>,
+  moderatedBy: string,
+  action: AuditAction = 'batch-toggle-display'
+): Promise<Review[]> {
+  try {
+    const dbReviews = await prisma.$transaction(async (tx) => {
+      const updated: DbReviewWithCategories[] = [];
+      for (const { reviewId, decision } of updates) {
+        updated.push(await applyModerationDecision(tx, reviewId, decision, moderatedBy, action));
+      }
+      return updated;
     });
 
-    console.log(`Deleted review ${reviewId}`);
+    console.log(`${updates.length} reviews moderated by ${moderatedBy}`);
+    return dbReviews.map(toReview);
   } catch (error) {
-    console.error(`Error deleting review ${reviewId}:`, error);
+    console.error('Error moderating reviews:', error);
     throw error;
   }
 }
 
+async function applyModerationDecision(
+  tx: Prisma.TransactionClient,
+  reviewId: string,
+  decision: ModerationDecision,
+  moderatedBy: string,
+  action: AuditAction
+): Promise<DbReviewWithCategories> {
+  const current = await tx.review.findUnique({
+    where: { id: reviewId },
+    select: MODERATION_SELECT,
+  });
+
+  if (!current) {
+    throw new Error(`Review ${reviewId} not found`);
+  }
+
+  const error = validateModerationDecision(
+    current.moderationStatus as ModerationStatus,
+    decision
+  );
+  if (error) {
+    throw new Error(error);
+  }
+
+  const updated = await tx.review.update({
+    where: { id: reviewId },
+    data: {
+      moderationStatus: decision.status,
+      moderationReason: decision.status === 'rejected' ? decision.reason : null,
+      moderationNote: decision.note?.trim() || null,
+      moderatedBy,
+      moderatedAt: new Date(),
+      displayOnWebsite: decision.status === 'approved',
+      needsReapproval: false,
+    },
+    include: REVIEW_INCLUDE,
+  });
+
+  await createAuditEvent(tx, {
+    actor: moderatedBy,
+    action,
+    reviewId,
+    before: current,
+    after: {
+      moderationStatus: updated.moderationStatus,
+      moderationReason: updated.moderationReason,
+      moderationNote: updated.moderationNote,
+      displayOnWebsite: updated.displayOnWebsite,
+    },
+  });
+
+  return updated;
+}
+
 /**
- * Get a single review by ID
+ * Re-approve a review whose text changed after it was approved
+ *
+ * Clears `needsReapproval` and keeps the review on the website. To take
+ * it off the website instead, moderate it as hidden.
  *
  * @param reviewId - The review ID
- * @returns Promise resolving to Review object or null if not found
+ * @param approvedBy - Who checked the new text
+ * @returns Promise resolving to the updated Review
+ * @throws Error if the review does not exist or is not flagged
  */
-export async function getReviewById(reviewId: string): Promise<Review | null> {
+export async function reapproveReview(reviewId: string, approvedBy: string): Promise<Review> {
   try {
-    const dbReview = await prisma.review.findUnique({
-      where: { id: reviewId },
-    });
+    const dbReview = await prisma.$transaction(async (tx) => {
+      const current = await tx.review.findUnique({
+        where: { id: reviewId },
+        select: { needsReapproval: true, moderationStatus: true },
+      });
 
-    if (!dbReview) return null;
+      if (!current) {
+        throw new Error(`Review ${reviewId} not found`);
+      }
+      if (!current.needsReapproval || current.moderationStatus !== 'approved') {
+        throw new Error(`Review ${reviewId} has no edits awaiting re-approval`);
+      }
 
-    return {
-      id: dbReview.id,
-      propertyId: dbReview.propertyId,
-      guestName: dbReview.guestName,
-      rating: dbReview.rating,
-      publicReview: dbReview.publicReview,
-      channel: dbReview.channel,
-      reviewType: dbReview.reviewType as 'host-to-guest' | 'guest-to-host',
-      status: dbReview.status,
-      displayOnWebsite: dbReview.displayOnWebsite,
-      categories: JSON.parse(dbReview.categories),
-      submittedAt: dbReview.submittedAt,
-      createdAt: dbReview.createdAt,
-      updatedAt: dbReview.updatedAt,
-    };
+      const updated = await tx.review.update({
+        where: { id: reviewId },
+        data: { needsReapproval: false, moderatedBy: approvedBy, moderatedAt: new Date() },
+        include: REVIEW_INCLUDE,
+      });
+
+      await createAuditEvent(tx, {
+        actor: approvedBy,
+        action: 'reapprove',
+        reviewId,
+        before: { needsReapproval: true },
+        after: { needsReapproval: false },
+      });
+
+      return updated;
+    });
+
+    console.log(`Review ${reviewId} re-approved by ${approvedBy}`);
+    return toReview(dbReview);
   } catch (error) {
-    console.error(`Error fetching review ${reviewId}:`, error);
+    console.error(`Error re-approving review ${reviewId}:`, error);
     throw error;
   }
 }
+
+/**
+ * Get the earlier versions of a review, newest first
+ *
+ * @param reviewId - The review ID
+ * @returns Promise resolving to array of ReviewRevision objects
+ */
+export async function getReviewRevisions(reviewId: string): Promise<ReviewRevision[]> {
+  try {
+    const dbRevisions = await prisma.reviewRevision.findMany({
+      where: { reviewId },
+      orderBy: { replacedAt: 'desc' },
+    });
+
+    return dbRevisions.map(toReviewRevision);
+  } catch (error) {
+    console.error(`Error fetching revisions of review ${reviewId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Add a tag to several reviews in one transaction
+ *
+ * Reviews that already have the tag are left as they are.
+ *
+ * @param reviewIds - The reviews to tag
+ * @param tag - Normalized (lowercase) tag
+ * @param taggedBy - Who added the tag
+ * @returns Promise resolving to the number of reviews tagged
+ */
+export async function tagReviews(
+  reviewIds: string[],
+  tag: string,
+  taggedBy: string
+): Promise<number> {
+  try {
+    if (!tag) {
+      throw new Error('Tag cannot be empty');
+    }
+
+    const tagged = await prisma.$transaction(async (tx) => {
+      const existing = await tx.reviewTag.findMany({
+        where: { reviewId: { in: reviewIds }, tag },
+        select: { reviewId: true },
+      });
+      const alreadyTagged = new Set(existing.map((t) => t.reviewId));
+      const toTag = reviewIds.filter((id) => !alreadyTagged.has(id));
+
+      for (const reviewId of toTag) {
+        await tx.reviewTag.create({ data: { reviewId, tag } });
+        await createAuditEvent(tx, { actor: taggedBy, action: 'tag', reviewId, after: { tag } });
+      }
+
+      return toTag.length;
+    });
+
+    console.log(`Tagged ${tagged} reviews "${tag}" by ${taggedBy}`);
+    return tagged;
+  } catch (error) {
+    console.error(`Error tagging reviews "${tag}":`, error);
+    throw error;
+  }
+}
+
+/**
+ * Assign several reviews to a user in one transaction
+ *
+ * @param reviewIds - The reviews to assign
+ * @param assignee - Email of the user to follow them up, or null to unassign
+ * @param assignedBy - Who made the assignment
+ * @returns Promise resolving to the number of reviews assigned
+ * @throws Error if the assignee is not an admin or manager
+ */
+export async function assignReviews(
+  reviewIds: string[],
+  assignee: string | null,
+  assignedBy: string
+): Promise<number> {
+  try {
+    const assigned = await prisma.$transaction(async (tx) => {
+      if (assignee) {
+        const user = await tx.user.findUnique({ where: { email: assignee.toLowerCase() } });
+        if (!user || user.role === 'viewer') {
+          throw new Error(`${assignee} can't be assigned reviews`);
+        }
+      }
+
+      const current = await tx.review.findMany({
+        where: { id: { in: reviewIds } },
+        select: { id: true, assignedTo: true },
+      });
+      if (current.length !== reviewIds.length) {
+        throw new Error('Some reviews were not found');
+      }
+
+      const assignedTo = assignee?.toLowerCase() ?? null;
+      for (const review of current) {
+        await tx.review.update({ where: { id: review.id }, data: { assignedTo } });
+        await createAuditEvent(tx, {
+          actor: assignedBy,
+          action: 'assign',
+          reviewId: review.id,
+          before: { assignedTo: review.assignedTo },
+          after: { assignedTo },
+        });
+      }
+
+      return current.length;
+    });
+
+    console.log(`Assigned ${assigned} reviews to ${assignee ?? 'nobody'} by ${assignedBy}`);
+    return assigned;
+  } catch (error) {
+    console.error('Error assigning reviews:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save the management reply to a review
+ *
+ * Creates the reply or replaces its text and status. Publishing sets
+ * `publishedAt` the first time; returning to draft clears it. The
+ * change is recorded in the audit log in the same transaction.
+ *
+ * @param reviewId - The review being replied to
+ * @param input - Reply text and status
+ * @param author - Who saved the reply
+ * @returns Promise resolving to the saved ReviewResponse
+ * @throws Error if the review does not exist or the reply is empty
+ */
+export async function saveReviewResponse(
+  reviewId: string,
+  input: { body: string; status: ReviewResponseStatus },
+  author: string
+): Promise<ReviewResponse> {
+  const body = input.body.trim();
+
+  try {
+    if (!body) {
+      throw new Error('Reply cannot be empty');
+    }
+
+    const dbResponse = await prisma.$transaction(async (tx) => {
+      const review = await tx.review.findUnique({
+        where: { id: reviewId },
+        select: { response: true },
+      });
+
+      if (!review) {
+        throw new Error(`Review ${reviewId} not found`);
+      }
+
+      const current = review.response;
+      const publishedAt = input.status === 'published'
+        ? current?.publishedAt ?? new Date()
+        : null;
+
+      const saved = await tx.reviewResponse.upsert({
+        where: { reviewId },
+        create: { reviewId, body, status: input.status, author, publishedAt },
+        update: { body, status: input.status, author, publishedAt },
+      });
+
+      await createAuditEvent(tx, {
+        actor: author,
+        action: 'respond',
+        reviewId,
+        before: current ? { status: current.status, body: current.body } : null,
+        after: { status: saved.status, body: saved.body },
+      });
+
+      return saved;
+    });
+
+    console.log(`Reply to review ${reviewId} saved as ${input.status} by ${author}`);
+    return toReviewResponse(dbResponse);
+  } catch (error) {
+    console.error(`Error saving reply to review ${reviewId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Record the outcome of pushing a reply to Hostaway
+ *
+ * @param reviewId - The review whose reply was pushed
+ * @param error - Error message if the push failed, null on success
+ * @returns Promise resolving to the updated ReviewResponse
+ */
+export async function recordResponsePush(
+  reviewId: string,
+  error: string | null
+): Promise<ReviewResponse> {
+  try {
+    const dbResponse = await prisma.reviewResponse.update({
+      where: { reviewId },
+      data: error
+        ? { hostawayError: error }
+        : { hostawayError: null, pushedToHostawayAt: new Date() },
+    });
+
+    return toReviewResponse(dbResponse);
+  } catch (err) {
+    console.error(`Error recording Hostaway push for review ${reviewId}:`, err);
+    throw err;
+  }
+}
+
+/**
+ * Get all properties with review statistics
+ *
+ * Calculates performance metrics for each property including:
+ * - Total review count
+ * - Average rating
+ * - Category ratings breakdown
+ * - Recent trends
+ *
+ * @param propertyIds - Only these properties (a manager's assignments); all if omitted
+ * @returns Promise resolving to array of PropertyPerformance objects
+ */
+export async function getPropertiesWithReviews(
+  propertyIds?: string[] | null
+): Promise<PropertyPerformance[]> {
+  try {
+    const properties = await prisma.property.findMany({
+      where: propertyIds ? { id: { in: propertyIds } } : undefined,
+      include: {
+        reviews: {
+          orderBy: { submittedAt: 'desc' },
+          include: REVIEW_INCLUDE,
+        },
+      },
+    });
+
+    return properties.map((property) => {
+      const reviews = property.reviews.map(toReview);
+
+      // Calculate average rating
+      const ratingsWithValue = reviews
+        .filter((r) => r.rating !== null)
+        .map((r) => r.rating!);
+
+      const averageRating =
+        ratingsWithValue.length > 0
+          ? ratingsWithValue.reduce((sum, r) => sum + r, 0) / ratingsWithValue.length
+          : 0;
+
+      // Calculate category ratings
+      const categoryRatings: Record<string, number> = {};
+      const categoryCounts: Record<string, number> = {};
+
+      reviews.forEach((review) => {
+        review.categories.forEach((cat) => {
+          if (!categoryRatings[cat.category]) {
+            categoryRatings[cat.category] = 0;
+            categoryCounts[cat.category] = 0;
+          }
+          categoryRatings[cat.category] += cat.rating;
+          categoryCounts[cat.category]++;
+        });
+      });
+
+      // Calculate averages for each category
+      Object.keys(categoryRatings).forEach((category) => {
+        categoryRatings[category] =
+          Math.round((categoryRatings[category] / categoryCounts[category]) * 10) / 10;
+      });
+
+      return {
+        propertyId: property.id,
+        propertyName: property.name,
+        slug: property.slug,
+        heroImage: property.heroImage,
+        totalReviews: reviews.length,
+        averageRating: Math.round(averageRating * 10) / 10,
+        categoryRatings,
+        recentTrends: calculateRecentTrend(reviews),
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching properties with reviews:', error);
+    throw error;
+  }
+}
+
+/**
+ * Helper function to convert property ID back to readable name
+ *
+ * @param propertyId - Property ID in kebab-case
+ * @returns Human-readable property name
+ */
+function getPropertyNameFromId(propertyId: string): string {
+  return propertyId
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Delete a review by ID
+ *
+ * The deleted review is kept in the audit log so it can be restored
+ * by hand if it was removed by mistake.
+ *
+ * @param reviewId - The review ID to delete
+ * @param deletedBy - Who deleted the review
+ * @returns Promise resolving when deletion is complete
+ */
+export async function deleteReview(reviewId: string, deletedBy: string): Promise<void> {
+  try {
+    await prisma.$transaction((tx) => deleteReviewWithSnapshot(tx, reviewId, deletedBy));
+
+    console.log(`Deleted review ${reviewId} by ${deletedBy}`);
+  } catch (error) {
+    console.error(`Error deleting review ${reviewId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete several reviews in one transaction
+ *
+ * Either every review is deleted or, if any is missing, none are.
+ *
+ * @param reviewIds - The review IDs to delete
+ * @param deletedBy - Who deleted the reviews
+ * @returns Promise resolving to the number of reviews deleted
+ */
+export async function deleteReviews(reviewIds: string[], deletedBy: string): Promise<number> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      for (const reviewId of reviewIds) {
+        await deleteReviewWithSnapshot(tx, reviewId, deletedBy);
+      }
+    });
+
+    console.log(`Deleted ${reviewIds.length} reviews by ${deletedBy}`);
+    return reviewIds.length;
+  } catch (error) {
+    console.error('Error deleting reviews:', error);
+    throw error;
+  }
+}
+
+async function deleteReviewWithSnapshot(
+  tx: Prisma.TransactionClient,
+  reviewId: string,
+  deletedBy: string
+): Promise<void> {
+  const deleted = await tx.review.delete({
+    where: { id: reviewId },
+    include: REVIEW_INCLUDE,
+  });
+
+  await createAuditEvent(tx, {
+    actor: deletedBy,
+    action: 'delete',
+    reviewId,
+    before: { ...toReview(deleted) },
+  });
+}
+
+/**
+ * Get a single review by ID
+ *
+ * @param reviewId - The review ID
+ * @returns Promise resolving to Review object or null if not found
+ */
+export async function getReviewById(reviewId: string): Promise<Review | null> {
+  try {
+    const dbReview = await prisma.review.findUnique({
+      where: { id: reviewId },
+      include: REVIEW_INCLUDE,
+    });
+
+    if (!dbReview) return null;
+
+    return toReview(dbReview);
+  } catch (error) {
+    console.error(`Error fetching review ${reviewId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get a property by its URL slug or ID
+ *
+ * Public pages are linked by slug; looking up by ID as well keeps
+ * links made before a rename working.
+ *
+ * @param slugOrId - Property slug or ID
+ * @returns Promise resolving to the Property or null if not found
+ */
+export async function getPropertyBySlug(slugOrId: string): Promise<Property | null> {
+  try {
+    return (
+      (await prisma.property.findUnique({ where: { slug: slugOrId } })) ??
+      (await prisma.property.findUnique({ where: { id: slugOrId } }))
+    );
+  } catch (error) {
+    console.error(`Error fetching property ${slugOrId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Find the property a raw Hostaway review belongs to
+ *
+ * Matches the way saving does, by listing ID and then by the ID derived
+ * from the listing name, without creating anything. The review doesn't
+ * have to be valid.
+ *
+ * @param raw - Review as received from Hostaway
+ * @returns Promise resolving to the property ID, or null if none matches
+ */
+export async function findHostawayReviewPropertyId(raw: unknown): Promise<string | null> {
+  const { listingMapId, listingName } = (raw ?? {}) as { listingMapId?: unknown; listingName?: unknown };
+
+  try {
+    if (typeof listingMapId === 'number' && Number.isInteger(listingMapId)) {
+      const property = await prisma.property.findUnique({
+        where: { listingMapId },
+        select: { id: true },
+      });
+      if (property) return property.id;
+    }
+
+    if (typeof listingName === 'string' && /[a-z0-9]/i.test(listingName)) {
+      const property = await prisma.property.findUnique({
+        where: { id: mapListingToPropertyId(listingName) },
+        select: { id: true },
+      });
+      if (property) return property.id;
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error finding property of Hostaway review:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get Hostaway listing IDs of properties without listing metadata
+ *
+ * @returns Promise resolving to listing IDs whose address is not yet known
+ */
+export async function getListingsMissingMetadata(): Promise<number[]> {
+  try {
+    const properties = await prisma.property.findMany({
+      where: { listingMapId: { not: null }, address: null },
+      select: { listingMapId: true },
+    });
+
+    return properties.map((property) => property.listingMapId!);
+  } catch (error) {
+    console.error('Error fetching listings missing metadata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Store listing metadata fetched from Hostaway on its property
+ *
+ * @param listingMapId - Hostaway listing ID
+ * @param metadata - Address and number of bedrooms
+ * @returns Promise resolving when update is complete
+ */
+export async function updateListingMetadata(
+  listingMapId: number,
+  metadata: { address: string | null; bedrooms: number | null }
+): Promise<void> {
+  try {
+    await prisma.property.update({
+      where: { listingMapId },
+      data: metadata,
+    });
+
+    console.log(`Updated metadata for listing ${listingMapId}`);
+  } catch (error) {
+    console.error(`Error updating metadata for listing ${listingMapId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Re-derive the channel of stored Hostaway reviews
+ *
+ * Reviews synced before channels were derived are stored on the
+ * 'hostaway' channel without a source channel; `sourceChannels`, fresh
+ * from Hostaway, fills it in. Reviews that already have a source channel
+ * are mapped again with the current mapping table, e.g. after
+ * HOSTAWAY_CHANNEL_MAP changed. Content hashes are updated to match,
+ * and no revisions are recorded.
+ *
+ * @param sourceChannels - Hostaway channel ID and name per review ID
+ * @returns Promise resolving to the number of reviews updated, unchanged
+ *   and without any source channel
+ */
+export async function backfillReviewChannels(
+  sourceChannels: Map<string, { channelId: number | null; channelName: string | null }>
+): Promise<ChannelBackfillResult> {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const result: ChannelBackfillResult = { updated: 0, unchanged: 0, unresolved: 0 };
+        const reviews = await tx.review.findMany({
+          where: {
+            OR: [
+              { channel: HOSTAWAY_CHANNEL },
+              { sourceChannelId: { not: null } },
+              { sourceChannelName: { not: null } },
+            ],
+          },
+          include: { categoryRatings: true },
+        });
+
+        for (const stored of reviews) {
+          const source = sourceChannels.get(stored.id) ?? {
+            channelId: stored.sourceChannelId,
+            channelName: stored.sourceChannelName,
+          };
+          if (source.channelId === null && source.channelName === null) {
+            result.unresolved++;
+            continue;
+          }
+
+          const channel = resolveHostawayChannel(source.channelId, source.channelName);
+          if (
+            channel === stored.channel &&
+            source.channelId === stored.sourceChannelId &&
+            source.channelName === stored.sourceChannelName
+          ) {
+            result.unchanged++;
+            continue;
+          }
+
+          await tx.review.update({
+            where: { id: stored.id },
+            data: {
+              channel,
+              sourceChannelId: source.channelId,
+              sourceChannelName: source.channelName,
+              contentHash: computeReviewContentHash({
+                ...toReview(stored),
+                channel,
+                sourceChannelId: source.channelId,
+                sourceChannelName: source.channelName,
+              }),
+            },
+          });
+          result.updated++;
+        }
+
+        return result;
+      },
+      { timeout: SAVE_TRANSACTION_TIMEOUT_MS }
+    );
+  } catch (error) {
+    console.error('Error backfilling review channels:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get properties that are mapped to a Google Place ID
+ *
+ * @param propertyId - Optional property ID to restrict the result to
+ * @returns Promise resolving to property/place ID pairs
+ */
+export async function getGooglePlaceMappings(
+  propertyId?: string
+): Promise<Array<{ propertyId: string; placeId: string }>> {
+  try {
+    const properties = await prisma.property.findMany({
+      where: {
+        googlePlaceId: { not: null },
+        ...(propertyId ? { id: propertyId } : {}),
+      },
+      select: { id: true, googlePlaceId: true },
+    });
+
+    return properties.map((property) => ({
+      propertyId: property.id,
+      placeId: property.googlePlaceId!,
+    }));
+  } catch (error) {
+    console.error('Error fetching Google Place mappings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Map a property to a Google Place ID
+ *
+ * @param propertyId - The property ID
+ * @param placeId - Google Place ID, or null to remove the mapping
+ * @returns Promise resolving when update is complete
+ */
+export async function setPropertyGooglePlaceId(
+  propertyId: string,
+  placeId: string | null
+): Promise<void> {
+  try {
+    await prisma.property.update({
+      where: { id: propertyId },
+      data: { googlePlaceId: placeId },
+    });
+
+    console.log(`Updated property ${propertyId} Google Place ID to ${placeId}`);
+  } catch (error) {
+    console.error(`Error updating Google Place ID for property ${propertyId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Start recording a sync run
+ *
+ * @param source - Review source being synced (e.g., 'hostaway')
+ * @param mode - Full or incremental sync
+ * @returns Promise resolving to the created SyncRun in 'running' state
+ */
+export async function createSyncRun(source: string, mode: SyncMode): Promise<SyncRun> {
+  try {
+    const dbRun = await prisma.syncRun.create({
+      data: { source, mode, status: 'running' },
+    });
+
+    return toSyncRun(dbRun);
+  } catch (error) {
+    console.error(`Error creating sync run for ${source}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Record the outcome of a sync run
+ *
+ * Also adds a 'sync' event to the audit log with the run's counts.
+ *
+ * @param runId - The sync run ID
+ * @param outcome - Final status, counts, errors and cursor
+ * @returns Promise resolving to the updated SyncRun
+ */
+export async function completeSyncRun(
+  runId: string,
+  outcome: Partial<SaveReviewsResult> & {
+    status: Exclude<SyncRunStatus, 'running'>;
+    fetched: number;
+    saved: number;
+    failed: number;
+    quarantined?: number;
+    errors: string[];
+    cursor: Date | null;
+  }
+): Promise<SyncRun> {
+  try {
+    const dbRun = await prisma.$transaction(async (tx) => {
+      const updated = await tx.syncRun.update({
+        where: { id: runId },
+        data: {
+          status: outcome.status,
+          fetched: outcome.fetched,
+          saved: outcome.saved,
+          inserted: outcome.inserted ?? 0,
+          updated: outcome.updated ?? 0,
+          unchanged: outcome.unchanged ?? 0,
+          failed: outcome.failed,
+          quarantined: outcome.quarantined ?? 0,
+          errors: JSON.stringify(outcome.errors),
+          cursor: outcome.cursor,
+          finishedAt: new Date(),
+        },
+      });
+
+      await createAuditEvent(tx, {
+        actor: SYSTEM_ACTOR,
+        action: 'sync',
+        after: {
+          runId,
+          source: updated.source,
+          mode: updated.mode,
+          status: updated.status,
+          fetched: updated.fetched,
+          saved: updated.saved,
+          inserted: updated.inserted,
+          updated: updated.updated,
+          unchanged: updated.unchanged,
+          failed: updated.failed,
+          quarantined: updated.quarantined,
+        },
+      });
+
+      return updated;
+    });
+
+    return toSyncRun(dbRun);
+  } catch (error) {
+    console.error(`Error completing sync run ${runId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the most recent successful sync run for a source
+ *
+ * Its cursor is the starting point for the next incremental sync.
+ *
+ * @param source - Review source (e.g., 'hostaway')
+ * @returns Promise resolving to SyncRun or null if the source never synced
+ */
+export async function getLastSuccessfulSyncRun(source: string): Promise<SyncRun | null> {
+  try {
+    const dbRun = await prisma.syncRun.findFirst({
+      where: { source, status: 'success' },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    return dbRun ? toSyncRun(dbRun) : null;
+  } catch (error) {
+    console.error(`Error fetching last sync run for ${source}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the latest finished sync run of every source
+ *
+ * Runs still in progress are left out, so a failed run shows until the
+ * next run finishes.
+ *
+ * @returns Promise resolving to one SyncRun per source that has synced
+ */
+export async function getLatestSyncRuns(): Promise<SyncRun[]> {
+  try {
+    const dbRuns = await prisma.syncRun.findMany({
+      where: { status: { not: 'running' } },
+      distinct: ['source'],
+      orderBy: [{ source: 'asc' }, { startedAt: 'desc' }],
+    });
+
+    return dbRuns.map(toSyncRun);
+  } catch (error) {
+    console.error('Error fetching latest sync runs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run a function while holding a named lock
+ *
+ * The lock is a lease row in the Lock table, taken in one statement when
+ * it is free or its lease has expired. The lease is renewed while fn
+ * runs and the row is deleted when it finishes, so a lock is only left
+ * behind by a process that died, until its lease expires. Locks are
+ * shared by every instance using the database. No connection or
+ * transaction is held while fn runs, so fn can use the database freely.
+ *
+ * If a renewal fails or finds the lease taken over, another process may
+ * already hold the lock, so the signal passed to fn is aborted; fn
+ * should check it before each write and stop.
+ *
+ * @param name - Lock name, e.g. 'review-sync:hostaway'
+ * @param fn - Work to do while holding the lock, given a signal that is
+ *   aborted when the lock is lost
+ * @param leaseMs - How long the lock outlives a process that died holding it
+ * @returns Promise resolving to fn's result, or acquired: false if
+ *   another process holds the lock
+ */
+export async function withLock<T>(
+  name: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+  leaseMs: number
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+  const holder = randomUUID();
+
+  try {
+    const acquired = await prisma.$queryRaw<{ holder: string }[]>`
+      INSERT INTO "Lock" ("name", "holder", "expiresAt")
+      VALUES (${name}, ${holder}, NOW() + ${leaseMs}::int * INTERVAL '1 millisecond')
+      ON CONFLICT ("name") DO UPDATE
+        SET "holder" = EXCLUDED."holder",
+            "acquiredAt" = CURRENT_TIMESTAMP,
+            "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "Lock"."expiresAt" < NOW()
+      RETURNING "holder"
+    `;
+    if (acquired.length === 0) {
+      return { acquired: false };
+    }
+  } catch (error) {
+    console.error(`Error acquiring lock ${name}:`, error);
+    throw error;
+  }
+
+  const lost = new AbortController();
+  const renewal = setInterval(() => {
+    // Lease times come from the database clock, like when acquiring
+    prisma.$executeRaw`
+      UPDATE "Lock" SET "expiresAt" = NOW() + ${leaseMs}::int * INTERVAL '1 millisecond'
+      WHERE "name" = ${name} AND "holder" = ${holder}
+    `
+      .then((count) => {
+        if (count === 0) throw new Error('its lease expired');
+      })
+      .catch((error) => {
+        const reason = new Error(
+          `Lost lock ${name}: ${error instanceof Error ? error.message : 'renewal failed'}`
+        );
+        console.error(reason.message);
+        clearInterval(renewal);
+        lost.abort(reason);
+      });
+  }, leaseMs / 3);
+  renewal.unref();
+
+  try {
+    return { acquired: true, result: await fn(lost.signal) };
+  } finally {
+    clearInterval(renewal);
+    await prisma.lock
+      .deleteMany({ where: { name, holder } })
+      .catch((error) => console.error(`Error releasing lock ${name}:`, error));
+  }
+}
+
+/**
+ * Get a stored webhook delivery by its source and event ID
+ *
+ * @param source - Webhook source (e.g., 'hostaway')
+ * @param eventId - Event ID from the delivery
+ * @returns Promise resolving to WebhookEvent or null if never received
+ */
+export async function getWebhookEvent(source: string, eventId: string): Promise<WebhookEvent | null> {
+  try {
+    const dbEvent = await prisma.webhookEvent.findUnique({
+      where: { source_eventId: { source, eventId } },
+    });
+
+    return dbEvent ? toWebhookEvent(dbEvent) : null;
+  } catch (error) {
+    console.error(`Error fetching ${source} webhook event ${eventId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get a stored webhook delivery by its ID
+ *
+ * @param id - The webhook event ID (not the source's event ID)
+ * @returns Promise resolving to WebhookEvent or null if not found
+ */
+export async function getWebhookEventById(id: string): Promise<WebhookEvent | null> {
+  try {
+    const dbEvent = await prisma.webhookEvent.findUnique({ where: { id } });
+
+    return dbEvent ? toWebhookEvent(dbEvent) : null;
+  } catch (error) {
+    console.error(`Error fetching webhook event ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get stored webhook deliveries, newest first
+ *
+ * Events whose property isn't known are left out for scoped users.
+ *
+ * @param options - Optional status to filter by, property scope (see
+ *   getPropertyScope) and a limit
+ * @returns Promise resolving to array of WebhookEvent objects
+ */
+export async function getWebhookEvents(
+  options: { status?: WebhookEventStatus; propertyIds?: PropertyScope; limit?: number } = {}
+): Promise<WebhookEvent[]> {
+  try {
+    const dbEvents = await prisma.webhookEvent.findMany({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(options.propertyIds && { propertyId: { in: options.propertyIds } }),
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: options.limit ?? 100,
+    });
+
+    return dbEvents.map(toWebhookEvent);
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record an attempt at processing a webhook delivery
+ *
+ * The first attempt creates the event; redeliveries and replays update
+ * it and count another attempt.
+ *
+ * @param delivery - Source, event, delivered body and outcome
+ * @returns Promise resolving to the stored WebhookEvent
+ */
+export async function recordWebhookEvent(delivery: {
+  source: string;
+  eventId: string;
+  event: string;
+  payload: string;
+  status: WebhookEventStatus;
+  error?: string | null;
+  reviewId?: string | null;
+  propertyId?: string | null;
+}): Promise<WebhookEvent> {
+  const outcome = {
+    status: delivery.status,
+    error: delivery.error ?? null,
+    reviewId: delivery.reviewId ?? null,
+    propertyId: delivery.propertyId ?? null,
+    processedAt: delivery.status === 'processed' ? new Date() : null,
+  };
+
+  try {
+    const dbEvent = await prisma.webhookEvent.upsert({
+      where: { source_eventId: { source: delivery.source, eventId: delivery.eventId } },
+      create: {
+        source: delivery.source,
+        eventId: delivery.eventId,
+        event: delivery.event,
+        payload: delivery.payload,
+        ...outcome,
+      },
+      update: { ...outcome, attempts: { increment: 1 } },
+    });
+
+    return toWebhookEvent(dbEvent);
+  } catch (error) {
+    console.error(`Error recording ${delivery.source} webhook event ${delivery.eventId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Quarantine raw reviews that failed validation
+ *
+ * Reviews are keyed by source and source review ID, so a review that
+ * fails on every sync is stored once. One that was re-ingested or
+ * discarded goes back to quarantine only if the source sends a
+ * different payload.
+ *
+ * @param source - Review source (e.g., 'hostaway')
+ * @param reviews - Raw payloads with their validation errors
+ * @param syncRunId - Sync run that found them; null for webhooks
+ */
+export async function quarantineReviews(
+  source: string,
+  reviews: QuarantineInput[],
+  syncRunId: string | null
+): Promise<void> {
+  if (reviews.length === 0) return;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      for (const review of reviews) {
+        const where = {
+          source_sourceReviewId: { source, sourceReviewId: review.sourceReviewId },
+        };
+        const existing = await tx.quarantinedReview.findUnique({ where });
+        const seen = { syncRunId, propertyId: review.propertyId, lastSeenAt: new Date() };
+        const errors = JSON.stringify(review.errors);
+
+        if (!existing) {
+          await tx.quarantinedReview.create({
+            data: {
+              source,
+              sourceReviewId: review.sourceReviewId,
+              payload: review.payload,
+              errors,
+              ...seen,
+            },
+          });
+        } else if (existing.status !== 'quarantined' && existing.payload === review.payload) {
+          await tx.quarantinedReview.update({ where, data: seen });
+        } else {
+          await tx.quarantinedReview.update({
+            where,
+            data: {
+              payload: review.payload,
+              errors,
+              status: 'quarantined',
+              fixedPayload: null,
+              resolvedAt: null,
+              resolvedBy: null,
+              ...seen,
+            },
+          });
+        }
+      }
+    });
+
+    console.log(`Quarantined ${reviews.length} invalid ${source} reviews`);
+  } catch (error) {
+    console.error(`Error quarantining ${source} reviews:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Release quarantined reviews the source has since sent valid versions of
+ *
+ * @param source - Review source (e.g., 'hostaway')
+ * @param sourceReviewIds - Source IDs of reviews that were just saved
+ * @returns Promise resolving to the number of reviews released
+ */
+export async function releaseQuarantinedReviews(
+  source: string,
+  sourceReviewIds: string[]
+): Promise<number> {
+  if (sourceReviewIds.length === 0) return 0;
+
+  try {
+    const { count } = await prisma.quarantinedReview.updateMany({
+      where: { source, sourceReviewId: { in: sourceReviewIds }, status: 'quarantined' },
+      data: { status: 'reingested', resolvedAt: new Date(), resolvedBy: SYSTEM_ACTOR },
+    });
+
+    return count;
+  } catch (error) {
+    console.error(`Error releasing quarantined ${source} reviews:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get quarantined reviews, most recently seen first
+ *
+ * Reviews whose property isn't known are left out for scoped users.
+ *
+ * @param options - Optional status to filter by, property scope (see
+ *   getPropertyScope) and a limit
+ * @returns Promise resolving to array of QuarantinedReview objects
+ */
+export async function getQuarantinedReviews(
+  options: { status?: QuarantineStatus; propertyIds?: PropertyScope; limit?: number } = {}
+): Promise<QuarantinedReview[]> {
+  try {
+    const dbReviews = await prisma.quarantinedReview.findMany({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(options.propertyIds && { propertyId: { in: options.propertyIds } }),
+      },
+      orderBy: { lastSeenAt: 'desc' },
+      take: options.limit ?? 100,
+    });
+
+    return dbReviews.map(toQuarantinedReview);
+  } catch (error) {
+    console.error('Error fetching quarantined reviews:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a quarantined review by its ID
+ *
+ * @param id - The quarantined review ID (not the source review ID)
+ * @returns Promise resolving to QuarantinedReview or null if not found
+ */
+export async function getQuarantinedReviewById(id: string): Promise<QuarantinedReview | null> {
+  try {
+    const dbReview = await prisma.quarantinedReview.findUnique({ where: { id } });
+
+    return dbReview ? toQuarantinedReview(dbReview) : null;
+  } catch (error) {
+    console.error(`Error fetching quarantined review ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Take a review out of quarantine
+ *
+ * @param id - The quarantined review ID
+ * @param resolution - Whether it was re-ingested (with the fixed JSON)
+ *   or discarded, and who did it
+ * @returns Promise resolving to the updated QuarantinedReview
+ */
+export async function resolveQuarantinedReview(
+  id: string,
+  resolution: {
+    status: Exclude<QuarantineStatus, 'quarantined'>;
+    resolvedBy: string;
+    fixedPayload?: string;
+  }
+): Promise<QuarantinedReview> {
+  try {
+    const dbReview = await prisma.quarantinedReview.update({
+      where: { id },
+      data: {
+        status: resolution.status,
+        fixedPayload: resolution.fixedPayload ?? null,
+        resolvedAt: new Date(),
+        resolvedBy: resolution.resolvedBy,
+      },
+    });
+
+    return toQuarantinedReview(dbReview);
+  } catch (error) {
+    console.error(`Error resolving quarantined review ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Record an event in the audit log
+ *
+ * Used for actions that are not recorded by the functions above,
+ * such as imports.
+ *
+ * @param event - Actor, action and affected values
+ * @returns Promise resolving to the recorded AuditEvent
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<AuditEvent> {
+  try {
+    const dbEvent = await createAuditEvent(prisma, event);
+
+    return toAuditEvent(dbEvent);
+  } catch (error) {
+    console.error(`Error recording ${event.action} audit event:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get audit events, newest first
+ *
+ * @param options - Optional review, or properties whose reviews, to get the history of, and a limit
+ * @returns Promise resolving to array of AuditEvent objects
+ */
+export async function getAuditEvents(
+  options: { reviewId?: string; propertyIds?: string[]; limit?: number } = {}
+): Promise<AuditEvent[]> {
+  try {
+    const where: Prisma.AuditEventWhereInput = {};
+    if (options.reviewId) where.reviewId = options.reviewId;
+    if (options.propertyIds) {
+      // Audit events aren't related to reviews, so match their review IDs
+      const reviews = await prisma.review.findMany({
+        where: { propertyId: { in: options.propertyIds } },
+        select: { id: true },
+      });
+      where.AND = [{ reviewId: { in: reviews.map((r) => r.id) } }];
+    }
+
+    const dbEvents = await prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 100,
+    });
+
+    return dbEvents.map(toAuditEvent);
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    throw error;
+  }
+}
+
+function createAuditEvent(
+  client: Prisma.TransactionClient,
+  event: AuditEventInput
+): Promise<DbAuditEvent> {
+  return client.auditEvent.create({
+    data: {
+      actor: event.actor,
+      action: event.action,
+      reviewId: event.reviewId ?? null,
+      before: event.before ? JSON.stringify(event.before) : null,
+      after: event.after ? JSON.stringify(event.after) : null,
+    },
+  });
+}
+
+/**
+ * Get a user and their password hash by email, for signing in
+ *
+ * @param email - Email address (case-insensitive)
+ * @returns Promise resolving to the user and password hash, or null if not found
+ */
+export async function getUserCredentials(
+  email: string
+): Promise<{ user: User; passwordHash: string } | null> {
+  try {
+    const dbUser = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    return dbUser ? { user: toUser(dbUser), passwordHash: dbUser.passwordHash } : null;
+  } catch (error) {
+    console.error(`Error fetching user ${email}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user by ID
+ *
+ * @param userId - The user ID
+ * @returns Promise resolving to User or null if not found
+ */
+export async function getUserById(userId: string): Promise<User | null> {
+  try {
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } });
+
+    return dbUser ? toUser(dbUser) : null;
+  } catch (error) {
+    console.error(`Error fetching user ${userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get every user with their assigned properties
+ *
+ * @returns Promise resolving to users ordered by email
+ */
+export async function getUsersWithAssignments(): Promise<User[]> {
+  try {
+    const dbUsers = await prisma.user.findMany({
+      orderBy: { email: 'asc' },
+      include: { assignments: { select: { propertyId: true } } },
+    });
+
+    return dbUsers.map((dbUser) => ({
+      ...toUser(dbUser),
+      propertyIds: dbUser.assignments.map((a) => a.propertyId),
+    }));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the users reviews can be assigned to (admins and managers)
+ *
+ * @returns Promise resolving to users ordered by email
+ */
+export async function getAssignableUsers(): Promise<User[]> {
+  try {
+    const dbUsers = await prisma.user.findMany({
+      where: { role: { in: ['admin', 'manager'] } },
+      orderBy: { email: 'asc' },
+    });
+
+    return dbUsers.map(toUser);
+  } catch (error) {
+    console.error('Error fetching assignable users:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the IDs of the properties assigned to a user
+ *
+ * @param userId - The user ID
+ * @returns Promise resolving to property IDs
+ */
+export async function getAssignedPropertyIds(userId: string): Promise<string[]> {
+  try {
+    const assignments = await prisma.propertyAssignment.findMany({
+      where: { userId },
+      select: { propertyId: true },
+    });
+
+    return assignments.map((a) => a.propertyId);
+  } catch (error) {
+    console.error(`Error fetching property assignments for user ${userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Replace the properties assigned to a user
+ *
+ * @param userId - The user ID
+ * @param propertyIds - Every property the user should have
+ * @param assignedBy - Who changed the assignments
+ * @returns Promise resolving when the assignments are saved
+ */
+export async function setPropertyAssignments(
+  userId: string,
+  propertyIds: string[],
+  assignedBy: string
+): Promise<void> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const current = await tx.propertyAssignment.findMany({
+        where: { userId },
+        select: { propertyId: true },
+      });
+
+      await tx.propertyAssignment.deleteMany({ where: { userId } });
+      await tx.propertyAssignment.createMany({
+        data: Array.from(new Set(propertyIds), (propertyId) => ({ userId, propertyId })),
+      });
+
+      await createAuditEvent(tx, {
+        actor: assignedBy,
+        action: 'assign-properties',
+        before: { userId, propertyIds: current.map((a) => a.propertyId) },
+        after: { userId, propertyIds },
+      });
+    });
+
+    console.log(`Assigned ${propertyIds.length} properties to user ${userId} by ${assignedBy}`);
+  } catch (error) {
+    console.error(`Error assigning properties to user ${userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get every property, ordered by name
+ *
+ * @returns Promise resolving to array of Property objects
+ */
+export async function getProperties(): Promise<Property[]> {
+  try {
+    return await prisma.property.findMany({ orderBy: { name: 'asc' } });
+  } catch (error) {
+    console.error('Error fetching properties:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the properties that a set of reviews belong to
+ *
+ * Used to check that a manager may act on the reviews.
+ *
+ * @param reviewIds - Review IDs
+ * @returns Promise resolving to the distinct property IDs
+ */
+export async function getReviewPropertyIds(reviewIds: string[]): Promise<string[]> {
+  try {
+    const reviews = await prisma.review.findMany({
+      where: { id: { in: reviewIds } },
+      select: { propertyId: true },
+      distinct: ['propertyId'],
+    });
+
+    return reviews.map((r) => r.propertyId);
+  } catch (error) {
+    console.error('Error fetching review properties:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the property of each existing review
+ *
+ * Used to check that an import or re-ingest only updates reviews the
+ * user may act on; IDs without a review are left out.
+ *
+ * @param reviewIds - Review IDs
+ * @returns Promise resolving to the property ID of each review, by review ID
+ */
+export async function getReviewPropertyMap(reviewIds: string[]): Promise<Map<string, string>> {
+  try {
+    const reviews = await prisma.review.findMany({
+      where: { id: { in: reviewIds } },
+      select: { id: true, propertyId: true },
+    });
+
+    return new Map(reviews.map((r) => [r.id, r.propertyId]));
+  } catch (error) {
+    console.error('Error fetching review properties:', error);
+    throw error;
+  }
+}
+
+/**
+ * Convert a database review row to the Review type
+ */
+function toReview(dbReview: DbReviewWithCategories): Review {
+  return {
+    id: dbReview.id,
+    propertyId: dbReview.propertyId,
+    guestName: dbReview.guestName,
+    rating: dbReview.rating,
+    rawRating: dbReview.rawRating,
+    ratingScale: dbReview.ratingScale,
+    publicReview: dbReview.publicReview,
+    channel: dbReview.channel,
+    sourceChannelId: dbReview.sourceChannelId,
+    sourceChannelName: dbReview.sourceChannelName,
+    reviewType: dbReview.reviewType as 'host-to-guest' | 'guest-to-host',
+    status: dbReview.status,
+    displayOnWebsite: dbReview.displayOnWebsite,
+    moderationStatus: dbReview.moderationStatus as ModerationStatus,
+    moderationReason: dbReview.moderationReason as RejectionReason | null,
+    moderationNote: dbReview.moderationNote,
+    moderatedBy: dbReview.moderatedBy,
+    moderatedAt: dbReview.moderatedAt,
+    assignedTo: dbReview.assignedTo,
+    needsReapproval: dbReview.needsReapproval,
+    tags: dbReview.tags?.map(({ tag }) => tag) ?? [],
+    categories: dbReview.categoryRatings.map(({ category, rating }) => ({ category, rating })),
+    response: dbReview.response ? toReviewResponse(dbReview.response) : null,
+    submittedAt: dbReview.submittedAt,
+    createdAt: dbReview.createdAt,
+    updatedAt: dbReview.updatedAt,
+  };
+}
+
+/**
+ * Convert a database review response row to the ReviewResponse type
+ */
+function toReviewResponse(dbResponse: DbReviewResponse): ReviewResponse {
+  return {
+    id: dbResponse.id,
+    reviewId: dbResponse.reviewId,
+    body: dbResponse.body,
+    status: dbResponse.status as ReviewResponseStatus,
+    author: dbResponse.author,
+    publishedAt: dbResponse.publishedAt,
+    pushedToHostawayAt: dbResponse.pushedToHostawayAt,
+    hostawayError: dbResponse.hostawayError,
+    createdAt: dbResponse.createdAt,
+    updatedAt: dbResponse.updatedAt,
+  };
+}
+
+/**
+ * Convert a database review revision row to the ReviewRevision type
+ */
+function toReviewRevision(dbRevision: DbReviewRevision): ReviewRevision {
+  return {
+    id: dbRevision.id,
+    reviewId: dbRevision.reviewId,
+    guestName: dbRevision.guestName,
+    rating: dbRevision.rating,
+    publicReview: dbRevision.publicReview,
+    categories: JSON.parse(dbRevision.categories),
+    submittedAt: dbRevision.submittedAt,
+    replacedAt: dbRevision.replacedAt,
+  };
+}
+
+/**
+ * Convert review categories to category rating rows
+ *
+ * Drops entries without a numeric rating (Hostaway sends null for
+ * categories the guest skipped) and keeps the first of any duplicates.
+ */
+function toCategoryRatingRows(
+  categories: ReviewCategory[]
+): Prisma.ReviewCategoryRatingCreateWithoutReviewInput[] {
+  const rows = new Map<string, number>();
+
+  categories.forEach(({ category, rating }) => {
+    if (category && typeof rating === 'number' && !rows.has(category)) {
+      rows.set(category, rating);
+    }
+  });
+
+  return Array.from(rows, ([category, rating]) => ({ category, rating }));
+}
+
+/**
+ * Convert a database audit event row to the AuditEvent type
+ */
+function toAuditEvent(dbEvent: DbAuditEvent): AuditEvent {
+  return {
+    id: dbEvent.id,
+    actor: dbEvent.actor,
+    action: dbEvent.action as AuditAction,
+    reviewId: dbEvent.reviewId,
+    before: dbEvent.before ? JSON.parse(dbEvent.before) : null,
+    after: dbEvent.after ? JSON.parse(dbEvent.after) : null,
+    createdAt: dbEvent.createdAt,
+  };
+}
+
+/**
+ * Convert a database user row to the User type, without the password hash
+ */
+function toUser(dbUser: DbUser): User {
+  return {
+    id: dbUser.id,
+    email: dbUser.email,
+    name: dbUser.name,
+    role: dbUser.role,
+    createdAt: dbUser.createdAt,
+  };
+}
+
+/**
+ * Convert a database webhook event row to the WebhookEvent type
+ */
+function toWebhookEvent(dbEvent: DbWebhookEvent): WebhookEvent {
+  return {
+    id: dbEvent.id,
+    source: dbEvent.source,
+    eventId: dbEvent.eventId,
+    event: dbEvent.event,
+    payload: dbEvent.payload,
+    status: dbEvent.status as WebhookEventStatus,
+    error: dbEvent.error,
+    attempts: dbEvent.attempts,
+    reviewId: dbEvent.reviewId,
+    propertyId: dbEvent.propertyId,
+    receivedAt: dbEvent.receivedAt,
+    processedAt: dbEvent.processedAt,
+  };
+}
+
+/**
+ * Convert a database quarantined review row to the QuarantinedReview type
+ */
+function toQuarantinedReview(dbReview: DbQuarantinedReview): QuarantinedReview {
+  return {
+    id: dbReview.id,
+    source: dbReview.source,
+    sourceReviewId: dbReview.sourceReviewId,
+    payload: dbReview.payload,
+    fixedPayload: dbReview.fixedPayload,
+    errors: JSON.parse(dbReview.errors),
+    status: dbReview.status as QuarantineStatus,
+    syncRunId: dbReview.syncRunId,
+    propertyId: dbReview.propertyId,
+    firstSeenAt: dbReview.firstSeenAt,
+    lastSeenAt: dbReview.lastSeenAt,
+    resolvedAt: dbReview.resolvedAt,
+    resolvedBy: dbReview.resolvedBy,
+  };
+}
+
+/**
+ * Convert a database sync run row to the SyncRun type
+ */
+function toSyncRun(dbRun: DbSyncRun): SyncRun {
+  return {
+    id: dbRun.id,
+    source: dbRun.source,
+    mode: dbRun.mode as SyncMode,
+    status: dbRun.status as SyncRunStatus,
+    fetched: dbRun.fetched,
+    saved: dbRun.saved,
+    inserted: dbRun.inserted,
+    updated: dbRun.updated,
+    unchanged: dbRun.unchanged,
+    failed: dbRun.failed,
+    quarantined: dbRun.quarantined,
+    errors: JSON.parse(dbRun.errors),
+    cursor: dbRun.cursor,
+    startedAt: dbRun.startedAt,
+    finishedAt: dbRun.finishedAt,
+  };
+}
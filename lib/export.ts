@@ -0,0 +1,163 @@
+/**
+ * Review Export
+ *
+ * Serializes reviews to CSV or JSON for owner reports. Each category in
+ * Review.categories becomes its own column (cleanliness, communication,
+ * etc.) so exports can be filtered and charted in a spreadsheet.
+ * Ratings are exported normalized to 0-10 and as given at the source.
+ *
+ * Used by the dashboard export button (in the browser) and by
+ * GET /api/reviews/export (streamed from the server).
+ */
+
+import type { ExportFormat, Review } from '@/types';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'excel', 'json'];
+
+const BASE_COLUMNS = [
+  'id',
+  'propertyId',
+  'guestName',
+  'rating',
+  'rawRating',
+  'ratingScale',
+  'channel',
+  'reviewType',
+  'status',
+  'displayOnWebsite',
+  'moderationStatus',
+  'submittedAt',
+  'publicReview',
+] as const;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  excel: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+type ExportRecord = Record<string, string | number | boolean | null>;
+
+/**
+ * Get the category columns for a set of reviews
+ *
+ * @param reviews - Reviews being exported
+ * @returns Category names in alphabetical order
+ */
+export function getCategoryColumns(reviews: Review[]): string[] {
+  const categories = new Set<string>();
+  reviews.forEach((review) => review.categories.forEach((c) => categories.add(c.category)));
+  return Array.from(categories).sort();
+}
+
+/**
+ * Flatten a review into an export record
+ *
+ * @param review - Review to flatten
+ * @param categoryColumns - Category columns to include
+ * @returns Record keyed by column name; missing categories are null
+ */
+export function toExportRecord(review: Review, categoryColumns: string[]): ExportRecord {
+  const record: ExportRecord = {
+    id: review.id,
+    propertyId: review.propertyId,
+    guestName: review.guestName,
+    rating: review.rating,
+    rawRating: review.rawRating ?? null,
+    ratingScale: review.ratingScale ?? null,
+    channel: review.channel,
+    reviewType: review.reviewType,
+    status: review.status,
+    displayOnWebsite: review.displayOnWebsite,
+    moderationStatus: review.moderationStatus,
+    submittedAt: new Date(review.submittedAt).toISOString(),
+    publicReview: review.publicReview,
+  };
+
+  categoryColumns.forEach((category) => {
+    record[category] = review.categories.find((c) => c.category === category)?.rating ?? null;
+  });
+
+  return record;
+}
+
+/**
+ * Serialize reviews in chunks
+ *
+ * Yields the header (or opening bracket) first and then one chunk per
+ * review, so callers can stream large exports or join them into a string.
+ *
+ * @param reviews - Reviews in export order
+ * @param format - Export format
+ * @returns Generator of output chunks
+ */
+export function* serializeReviews(reviews: Review[], format: ExportFormat): Generator<string> {
+  const categoryColumns = getCategoryColumns(reviews);
+
+  if (format === 'json') {
+    yield '[';
+    for (let i = 0; i < reviews.length; i++) {
+      yield (i > 0 ? ',' : '') + JSON.stringify(toExportRecord(reviews[i], categoryColumns));
+    }
+    yield ']';
+    return;
+  }
+
+  const excel = format === 'excel';
+  const columns = [...BASE_COLUMNS, ...categoryColumns];
+
+  // The byte order mark makes Excel read the file as UTF-8 instead of the system code page
+  yield (excel ? '﻿' : '') + formatCsvRow(columns, excel);
+
+  for (const review of reviews) {
+    const record = toExportRecord(review, categoryColumns);
+    yield formatCsvRow(columns.map((column) => record[column]), excel);
+  }
+}
+
+/**
+ * Serialize reviews to a string
+ *
+ * @param reviews - Reviews in export order
+ * @param format - Export format
+ * @returns Complete file content
+ */
+export function exportReviews(reviews: Review[], format: ExportFormat): string {
+  return Array.from(serializeReviews(reviews, format)).join('');
+}
+
+/**
+ * Get the Content-Type header for an export format
+ */
+export function getExportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Build a download file name for an export
+ *
+ * @param format - Export format
+ * @param date - Export date (defaults to now)
+ * @returns File name, e.g. "reviews-2025-03-01.csv"
+ */
+export function getExportFileName(format: ExportFormat, date: Date = new Date()): string {
+  const extension = format === 'json' ? 'json' : 'csv';
+  return `reviews-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+function formatCsvRow(values: Array<string | number | boolean | null>, excel: boolean): string {
+  return values.map((value) => formatCsvCell(value, excel)).join(',') + '\r\n';
+}
+
+function formatCsvCell(value: string | number | boolean | null, excel: boolean): string {
+  if (value === null) return '';
+
+  let cell = String(value);
+
+  // Stop spreadsheets from evaluating guest-written text as a formula
+  if (excel && typeof value === 'string' && /^[=+\-@\t\r]/.test(cell)) {
+    cell = `'${cell}`;
+  }
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -0,0 +1,114 @@
+/**
+ * Google Places Reviews API
+ *
+ * Functions for retrieving reviews from the Google Places API (New).
+ * See docs/google-reviews-research.md for the API details and limits
+ * (at most 5 reviews per place).
+ */
+
+import type { GooglePlaceDetailsResponse, Review } from '@/types';
+import { normalizeGoogleReview } from '@/lib/utils';
+
+const DEFAULT_API_URL = 'https://places.googleapis.com/v1';
+const FIELD_MASK = 'id,displayName,rating,reviews';
+
+/**
+ * Get the Google Places API base URL
+ *
+ * Can be overridden with GOOGLE_PLACES_API_URL, e.g. to point at a local stub.
+ *
+ * @returns Base URL without trailing slash
+ */
+export function getGooglePlacesApiUrl(): string {
+  return (process.env.GOOGLE_PLACES_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Check whether the Google Places API key is configured
+ *
+ * @returns True if GOOGLE_API_KEY is set
+ */
+export function isGoogleConfigured(): boolean {
+  return Boolean(process.env.GOOGLE_API_KEY);
+}
+
+/**
+ * Fetch place details, including reviews, for a Google Place
+ *
+ * @param placeId - Google Place ID
+ * @returns Promise resolving to the Place Details response
+ * @throws Error if the API key is missing or the request fails
+ */
+export async function fetchGooglePlaceDetails(
+  placeId: string
+): Promise<GooglePlaceDetailsResponse> {
+  const apiKey = process.env.GOOGLE_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('Google Places API key not configured');
+  }
+
+  const url = `${getGooglePlacesApiUrl()}/places/${encodeURIComponent(placeId)}`;
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'X-Goog-Api-Key': apiKey,
+      'X-Goog-FieldMask': FIELD_MASK,
+    },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Google Places API returned status ${response.status} for place ${placeId}: ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch and normalize Google reviews for mapped properties
+ *
+ * Each place is fetched independently; a failure for one place is
+ * recorded in `errors` and does not stop the others. Reviews that fail
+ * normalization are skipped and recorded the same way.
+ *
+ * @param mappings - Property to Google Place ID pairs
+ * @returns Promise resolving to normalized reviews and any errors
+ */
+export async function fetchGoogleReviews(
+  mappings: Array<{ propertyId: string; placeId: string }>
+): Promise<{ reviews: Review[]; fetched: number; errors: string[] }> {
+  const reviews: Review[] = [];
+  const errors: string[] = [];
+  let fetched = 0;
+
+  for (const { propertyId, placeId } of mappings) {
+    try {
+      const place = await fetchGooglePlaceDetails(placeId);
+      const placeReviews = place.reviews ?? [];
+      fetched += placeReviews.length;
+
+      for (const rawReview of placeReviews) {
+        try {
+          reviews.push(normalizeGoogleReview(rawReview, propertyId));
+        } catch (error) {
+          console.error(`Error normalizing Google review ${rawReview.name}:`, error);
+          errors.push(
+            `Review ${rawReview.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`Error fetching Google reviews for ${propertyId}:`, error);
+      errors.push(
+        `Property ${propertyId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  console.log(`Fetched ${reviews.length} reviews from Google Places API`);
+  return { reviews, fetched, errors };
+}
@@ -0,0 +1,86 @@
+/**
+ * Google Review Sync
+ *
+ * Fetches reviews for every property mapped to a Google Place ID and
+ * persists them to the database. Google only returns the five most
+ * relevant reviews per place, so every run is a full sync.
+ */
+
+import type { SaveReviewsResult, SyncResult } from '@/types';
+import {
+  saveReviewsToDb,
+  createSyncRun,
+  completeSyncRun,
+  getGooglePlaceMappings,
+} from '@/lib/db';
+import { fetchGoogleReviews } from './places';
+
+const SOURCE = 'google';
+
+/**
+ * Sync reviews from Google Places into the database
+ *
+ * @param options - Signal that stops the sync before it saves, e.g.
+ *   when the sync lock was lost
+ * @returns Promise resolving to a summary of the sync run
+ */
+export async function syncGoogleReviews(
+  options: { signal?: AbortSignal } = {}
+): Promise<SyncResult> {
+  console.log('=== Google Review Sync ===');
+
+  const run = await createSyncRun(SOURCE, 'full');
+
+  try {
+    const mappings = await getGooglePlaceMappings();
+    const { reviews, fetched, errors } = await fetchGoogleReviews(mappings);
+
+    let saved: SaveReviewsResult = { inserted: 0, updated: 0, unchanged: 0 };
+    if (reviews.length > 0) {
+      options.signal?.throwIfAborted();
+      saved = await saveReviewsToDb(reviews);
+    }
+
+    const completed = await completeSyncRun(run.id, {
+      status: 'success',
+      fetched,
+      saved: reviews.length,
+      ...saved,
+      failed: errors.length,
+      errors,
+      cursor: null,
+    });
+
+    console.log(`Synced ${reviews.length} reviews from ${mappings.length} Google places`);
+    console.log('=== End Google Review Sync ===');
+
+    return {
+      runId: run.id,
+      mode: 'full',
+      fetched,
+      saved: reviews.length,
+      ...saved,
+      failed: errors.length,
+      quarantined: 0,
+      errors,
+      cursor: null,
+      startedAt: run.startedAt,
+      finishedAt: completed.finishedAt ?? new Date(),
+    };
+  } catch (error) {
+    console.error('Error syncing Google reviews:', error);
+
+    await completeSyncRun(run.id, {
+      status: 'failed',
+      fetched: 0,
+      saved: 0,
+      failed: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+      cursor: null,
+    }).catch((recordError) => {
+      console.error(`Error recording failed sync run ${run.id}:`, recordError);
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Hostaway Channels
+ *
+ * Maps the channel a Hostaway review came through (Airbnb, Booking.com,
+ * Vrbo, a direct booking...) to our channel slugs. Hostaway reports the
+ * channel as a numeric channel ID and, on some accounts, a channel name.
+ *
+ * The default mapping table can be extended or overridden with the
+ * HOSTAWAY_CHANNEL_MAP environment variable, a JSON object of channel
+ * IDs or names to slugs, e.g. {"2022": "google", "partner": "direct"}.
+ *
+ * Has no imports, so review normalization and the seed script can use
+ * it anywhere.
+ */
+
+/** Channel of Hostaway reviews that don't say where they came from */
+export const HOSTAWAY_CHANNEL = 'hostaway';
+
+/**
+ * Default mapping of Hostaway channel IDs and names to channel slugs
+ *
+ * Names are matched in lowercase without punctuation, so "Booking.com",
+ * "bookingcom" and "booking_com" are the same name.
+ */
+export const DEFAULT_CHANNEL_MAP: Record<string, string> = {
+  // Channel IDs
+  '2000': 'direct',
+  '2002': 'vrbo', // HomeAway
+  '2005': 'booking',
+  '2007': 'expedia',
+  '2009': 'vrbo', // HomeAway iCal
+  '2010': 'vrbo', // Vrbo iCal
+  '2013': 'direct', // Booking engine
+  '2018': 'airbnb',
+
+  // Channel names
+  airbnb: 'airbnb',
+  airbnbofficial: 'airbnb',
+  booking: 'booking',
+  bookingcom: 'booking',
+  bookingengine: 'direct',
+  direct: 'direct',
+  expedia: 'expedia',
+  homeaway: 'vrbo',
+  vrbo: 'vrbo',
+  website: 'direct',
+};
+
+/**
+ * Display names of channel slugs; others are shown capitalized
+ */
+export const CHANNEL_LABELS: Record<string, string> = {
+  airbnb: 'Airbnb',
+  booking: 'Booking.com',
+  direct: 'Direct',
+  expedia: 'Expedia',
+  google: 'Google',
+  hostaway: 'Hostaway',
+  vrbo: 'Vrbo',
+};
+
+// Parsed HOSTAWAY_CHANNEL_MAP, reused until the variable changes
+let parsedOverrides: { source: string; map: Record<string, string> } | null = null;
+
+/**
+ * Get the channel mapping table, with HOSTAWAY_CHANNEL_MAP applied
+ *
+ * An invalid HOSTAWAY_CHANNEL_MAP is ignored with a warning, so a typo
+ * doesn't stop syncs.
+ *
+ * @returns Mapping of channel IDs and normalized names to slugs
+ */
+export function getChannelMap(): Record<string, string> {
+  const overrides = process.env.HOSTAWAY_CHANNEL_MAP;
+  if (!overrides) return DEFAULT_CHANNEL_MAP;
+
+  if (parsedOverrides?.source !== overrides) {
+    parsedOverrides = { source: overrides, map: parseChannelMap(overrides) };
+  }
+  return parsedOverrides.map;
+}
+
+function parseChannelMap(overrides: string): Record<string, string> {
+  try {
+    const parsed: unknown = JSON.parse(overrides);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+
+    const map = { ...DEFAULT_CHANNEL_MAP };
+    for (const [key, channel] of Object.entries(parsed)) {
+      if (typeof channel !== 'string' || !toSlug(channel)) {
+        throw new Error(`invalid channel for "${key}"`);
+      }
+      map[normalizeChannelKey(key)] = toSlug(channel);
+    }
+    return map;
+  } catch (error) {
+    console.warn(
+      `Ignoring HOSTAWAY_CHANNEL_MAP: ${error instanceof Error ? error.message : 'invalid JSON'}`
+    );
+    return DEFAULT_CHANNEL_MAP;
+  }
+}
+
+/**
+ * Derive the channel slug of a Hostaway review
+ *
+ * The channel ID is looked up first, then the channel name. An unmapped
+ * name is used as a slug itself; a review with neither is a 'hostaway'
+ * review.
+ *
+ * @param channelId - Hostaway channel ID
+ * @param channelName - Hostaway channel name
+ * @param map - Mapping table (defaults to getChannelMap())
+ * @returns Channel slug, e.g. 'airbnb'
+ */
+export function resolveHostawayChannel(
+  channelId: number | null | undefined,
+  channelName: string | null | undefined,
+  map: Record<string, string> = getChannelMap()
+): string {
+  const byId = channelId != null ? lookup(map, String(channelId)) : undefined;
+  const byName = channelName ? lookup(map, normalizeChannelKey(channelName)) : undefined;
+
+  return byId ?? byName ?? ((channelName && toSlug(channelName)) || HOSTAWAY_CHANNEL);
+}
+
+/**
+ * Display name of a channel slug
+ *
+ * @param channel - Channel slug
+ * @returns Label, e.g. 'Booking.com' for 'booking'
+ */
+export function formatChannel(channel: string): string {
+  return lookup(CHANNEL_LABELS, channel) ?? channel.charAt(0).toUpperCase() + channel.slice(1);
+}
+
+function lookup(table: Record<string, string>, key: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+function normalizeChannelKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toSlug(value: string): string {
+  return value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,237 @@
+/**
+ * Hostaway API Client
+ *
+ * Handles authentication and transport for every request made to the
+ * Hostaway API:
+ * - Exchanges HOSTAWAY_ACCOUNT_ID / HOSTAWAY_API_KEY for an access token
+ *   using the OAuth client-credentials flow (POST /v1/accessTokens)
+ * - Caches the token until shortly before it expires
+ * - Refreshes the token once when a request comes back 401
+ * - Retries 429 and 5xx responses with exponential backoff
+ */
+
+const DEFAULT_API_URL = 'https://api.hostaway.com/v1';
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+// Refresh tokens a minute early so they never expire mid-request
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Access token response from POST /v1/accessTokens
+ */
+interface AccessTokenResponse {
+  token_type: string;
+  expires_in: number; // Seconds until the token expires
+  access_token: string;
+}
+
+/**
+ * Options for a single Hostaway API request
+ */
+export interface HostawayRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, string | number>;
+  body?: unknown;
+  /** Number of retries for 429/5xx responses */
+  retries?: number;
+  /** Base delay before the first retry; doubles on each attempt */
+  retryDelayMs?: number;
+}
+
+let cachedToken: { accessToken: string; expiresAt: number } | null = null;
+
+/**
+ * Get the Hostaway API base URL
+ *
+ * Can be overridden with HOSTAWAY_API_URL, e.g. to point at a local stub.
+ *
+ * @returns Base URL without trailing slash
+ */
+export function getHostawayApiUrl(): string {
+  return (process.env.HOSTAWAY_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Check whether Hostaway credentials are configured
+ *
+ * @returns True if both account ID and API key are set
+ */
+export function isHostawayConfigured(): boolean {
+  return Boolean(process.env.HOSTAWAY_ACCOUNT_ID && process.env.HOSTAWAY_API_KEY);
+}
+
+/**
+ * Clear the cached access token
+ *
+ * The next request will exchange credentials for a new token.
+ */
+export function clearHostawayTokenCache(): void {
+  cachedToken = null;
+}
+
+/**
+ * Get a Hostaway access token
+ *
+ * Returns the cached token while it is still valid, otherwise exchanges
+ * the account ID and API key for a new one.
+ *
+ * @param forceRefresh - Ignore the cached token and request a new one
+ * @returns Promise resolving to the access token
+ */
+export async function getHostawayAccessToken(forceRefresh = false): Promise<string> {
+  if (!forceRefresh && cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.accessToken;
+  }
+
+  const accountId = process.env.HOSTAWAY_ACCOUNT_ID;
+  const apiKey = process.env.HOSTAWAY_API_KEY;
+
+  if (!accountId || !apiKey) {
+    throw new Error('Hostaway credentials not configured');
+  }
+
+  const response = await fetchWithRetry(
+    `${getHostawayApiUrl()}/accessTokens`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Cache-Control': 'no-cache',
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: accountId,
+        client_secret: apiKey,
+        scope: 'general',
+      }).toString(),
+      cache: 'no-store',
+    },
+    DEFAULT_RETRIES,
+    DEFAULT_RETRY_DELAY_MS
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Hostaway token exchange failed with status ${response.status}: ${response.statusText}`
+    );
+  }
+
+  const data: AccessTokenResponse = await response.json();
+
+  if (!data.access_token) {
+    throw new Error('Hostaway token response did not include an access token');
+  }
+
+  cachedToken = {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+  };
+
+  return cachedToken.accessToken;
+}
+
+/**
+ * Make an authenticated request to the Hostaway API
+ *
+ * @param path - API path relative to the base URL (e.g., '/reviews')
+ * @param options - Method, query string, body and retry settings
+ * @returns Promise resolving to the parsed JSON response
+ */
+export async function hostawayRequest<T>(
+  path: string,
+  options: HostawayRequestOptions = {}
+): Promise<T> {
+  const {
+    method = 'GET',
+    query,
+    body,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  } = options;
+
+  const url = new URL(`${getHostawayApiUrl()}${path}`);
+  if (query) {
+    Object.entries(query).forEach(([key, value]) => {
+      url.searchParams.set(key, String(value));
+    });
+  }
+
+  const send = async (token: string) =>
+    fetchWithRetry(
+      url.toString(),
+      {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+          'Cache-Control': 'no-cache',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        cache: 'no-store',
+      },
+      retries,
+      retryDelayMs
+    );
+
+  let response = await send(await getHostawayAccessToken());
+
+  // Token may have been revoked or expired early; refresh once and retry
+  if (response.status === 401) {
+    console.warn('Hostaway access token rejected, requesting a new one');
+    response = await send(await getHostawayAccessToken(true));
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `Hostaway API returned status ${response.status}: ${response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch with exponential backoff on 429 and 5xx responses
+ *
+ * Honours the Retry-After header when Hostaway sends one. Network errors
+ * are retried the same way. The last response is returned as-is once
+ * retries are exhausted.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  retries: number,
+  retryDelayMs: number
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      console.warn(`Hostaway request failed, retrying (${attempt + 1}/${retries}):`, error);
+      await sleep(retryDelayMs * 2 ** attempt);
+      continue;
+    }
+
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= retries) {
+      return response;
+    }
+
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    const delay =
+      retryAfter > 0 ? retryAfter * 1000 : retryDelayMs * 2 ** attempt;
+
+    console.warn(
+      `Hostaway API returned status ${response.status}, retrying in ${delay}ms (${attempt + 1}/${retries})`
+    );
+    await sleep(delay);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
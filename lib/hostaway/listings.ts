@@ -0,0 +1,28 @@
+/**
+ * Hostaway Listings API
+ *
+ * Functions for retrieving listing metadata (name, address, bedrooms)
+ * from the Hostaway API.
+ */
+
+import type { HostawayListing } from '@/types';
+import { hostawayRequest } from './client';
+
+/**
+ * Fetch a single listing from Hostaway
+ *
+ * @param listingMapId - Hostaway listing ID
+ * @returns Promise resolving to the listing
+ * @throws Error if the request fails or the response is malformed
+ */
+export async function fetchHostawayListing(listingMapId: number): Promise<HostawayListing> {
+  const data = await hostawayRequest<{ status: string; result: HostawayListing | null }>(
+    `/listings/${listingMapId}`
+  );
+
+  if (data.status !== 'success' || !data.result) {
+    throw new Error(`Hostaway API returned no listing ${listingMapId}`);
+  }
+
+  return data.result;
+}
@@ -0,0 +1,133 @@
+/**
+ * Hostaway Review Quarantine
+ *
+ * Re-ingests quarantined Hostaway reviews once someone has fixed their
+ * JSON on the dashboard, or discards them. The fixed review goes through
+ * the same validation as a sync, so nothing invalid is stored this way
+ * either. Managers can only act on reviews of their assigned properties.
+ */
+
+import type { PropertyScope, QuarantinedReview, ReviewValidationError } from '@/types';
+import {
+  findHostawayReviewPropertyId,
+  getQuarantinedReviewById,
+  getReviewPropertyMap,
+  resolveQuarantinedReview,
+  saveReviewsToDb,
+} from '@/lib/db';
+import { isPropertyInScope } from '@/lib/permissions';
+import { getQuarantineId, parseHostawayReview } from './validation';
+
+const SOURCE = 'hostaway';
+
+/**
+ * Validate a fixed quarantined review and save it
+ *
+ * The fixed review must keep its Hostaway ID, unless it was quarantined
+ * because the ID itself was missing or invalid, and its listing, and that
+ * of any review it would update, must be one of the user's properties.
+ *
+ * @param id - Quarantined review ID
+ * @param fixedPayload - Corrected review JSON
+ * @param actor - Email of the user re-ingesting it
+ * @param propertyScope - The user's assigned properties, or null for admins
+ * @returns Promise resolving to the saved review's ID, or the problems
+ *   with the fixed review if it's still invalid
+ * @throws Error if the review doesn't exist, is no longer quarantined or
+ *   is outside the user's scope
+ */
+export async function reingestHostawayReview(
+  id: string,
+  fixedPayload: string,
+  actor: string,
+  propertyScope: PropertyScope
+): Promise<{ reviewId: string; errors: [] } | { reviewId: null; errors: ReviewValidationError[] }> {
+  const quarantined = await getQuarantinedHostawayReview(id, propertyScope);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fixedPayload);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'parse error';
+    return { reviewId: null, errors: [{ field: 'review', message: `Invalid JSON: ${message}` }] };
+  }
+
+  const { review, errors } = parseHostawayReview(raw);
+  if (!review) {
+    return { reviewId: null, errors };
+  }
+
+  const hadValidId = !quarantined.sourceReviewId.startsWith('sha256-');
+  if (hadValidId && getQuarantineId(raw) !== quarantined.sourceReviewId) {
+    return {
+      reviewId: null,
+      errors: [{ field: 'id', message: `Review ID must stay ${quarantined.sourceReviewId}` }],
+    };
+  }
+
+  // Editing the listing must not move the review to someone else's property
+  if (!isPropertyInScope(propertyScope, await findHostawayReviewPropertyId(raw))) {
+    return {
+      reviewId: null,
+      errors: [{ field: 'listingName', message: 'The listing is not one of your properties' }],
+    };
+  }
+
+  // A placeholder ID could be fixed to the ID of a review elsewhere, which
+  // saving would move into this property
+  const existingPropertyId = (await getReviewPropertyMap([review.id])).get(review.id);
+  if (existingPropertyId && !isPropertyInScope(propertyScope, existingPropertyId)) {
+    return {
+      reviewId: null,
+      errors: [
+        { field: 'id', message: `Review ${review.id} belongs to a property not assigned to you` },
+      ],
+    };
+  }
+
+  await saveReviewsToDb([review]);
+  await resolveQuarantinedReview(id, { status: 'reingested', resolvedBy: actor, fixedPayload });
+
+  console.log(`Re-ingested quarantined Hostaway review ${review.id}`);
+  return { reviewId: review.id, errors: [] };
+}
+
+/**
+ * Dismiss a quarantined review without saving it
+ *
+ * @param id - Quarantined review ID
+ * @param actor - Email of the user discarding it
+ * @param propertyScope - The user's assigned properties, or null for admins
+ * @returns Promise resolving to the discarded QuarantinedReview
+ * @throws Error if the review doesn't exist, is no longer quarantined or
+ *   is outside the user's scope
+ */
+export async function discardHostawayReview(
+  id: string,
+  actor: string,
+  propertyScope: PropertyScope
+): Promise<QuarantinedReview> {
+  await getQuarantinedHostawayReview(id, propertyScope);
+
+  return resolveQuarantinedReview(id, { status: 'discarded', resolvedBy: actor });
+}
+
+// Reviews whose property isn't known are for admins only
+async function getQuarantinedHostawayReview(
+  id: string,
+  propertyScope: PropertyScope
+): Promise<QuarantinedReview> {
+  const quarantined = await getQuarantinedReviewById(id);
+  if (
+    !quarantined ||
+    quarantined.source !== SOURCE ||
+    !isPropertyInScope(propertyScope, quarantined.propertyId)
+  ) {
+    throw new Error(`Quarantined review ${id} not found`);
+  }
+  if (quarantined.status !== 'quarantined') {
+    throw new Error(`Review ${quarantined.sourceReviewId} was already ${quarantined.status}`);
+  }
+
+  return quarantined;
+}
@@ -0,0 +1,34 @@
+/**
+ * Hostaway Review Responses API
+ *
+ * Posts management replies back to Hostaway so they appear on the
+ * channel the review came from. Hostaway stores the reply on the review
+ * itself, in its `revieweeResponse` field, and replaces any previous
+ * reply on every push.
+ */
+
+import { isHostawayReviewId } from '@/lib/utils';
+import { hostawayRequest } from './client';
+
+/**
+ * Post a reply to a Hostaway review
+ *
+ * @param reviewId - Hostaway review ID
+ * @param body - Reply text
+ * @returns Promise resolving when Hostaway has accepted the reply
+ * @throws Error if the review is not a Hostaway review or the request fails
+ */
+export async function pushHostawayReviewResponse(reviewId: string, body: string): Promise<void> {
+  if (!isHostawayReviewId(reviewId)) {
+    throw new Error(`Review ${reviewId} did not come from Hostaway`);
+  }
+
+  const data = await hostawayRequest<{ status: string }>(`/reviews/${reviewId}`, {
+    method: 'PUT',
+    body: { revieweeResponse: body },
+  });
+
+  if (data.status !== 'success') {
+    throw new Error(`Hostaway API did not accept the reply to review ${reviewId}`);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Hostaway Reviews API
+ *
+ * Functions for retrieving raw review data from the Hostaway API.
+ */
+
+import type { HostawayApiResponse, HostawayReview } from '@/types';
+import { parseHostawayDate } from '@/lib/utils';
+import { hostawayRequest, isHostawayConfigured } from './client';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Options for fetching reviews from Hostaway
+ */
+export interface FetchHostawayReviewsOptions {
+  /** Number of reviews requested per page */
+  pageSize?: number;
+  /** Only return reviews submitted at or after this date (incremental sync) */
+  since?: Date | null;
+  /** Stops paging when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch reviews from Hostaway API
+ *
+ * Walks the reviews endpoint page by page using limit/offset until all
+ * reviews have been retrieved. Authentication and retries are handled
+ * by the Hostaway client. Returns an empty array when credentials are
+ * not configured, and throws if any page request fails so callers can
+ * record the error.
+ *
+ * When `since` is provided, reviews submitted before that date are
+ * dropped and paging stops after the first page that contains none at or
+ * after it. Reviews are requested newest first, so nothing after that
+ * page can be newer than the cursor. Reviews submitted at the cursor
+ * itself are fetched again, so others sharing its timestamp aren't
+ * missed; saving them again is a no-op, as their content hash matches.
+ *
+ * @param options - Page size and optional incremental cursor
+ * @returns Promise resolving to array of HostawayReview objects
+ */
+export async function fetchHostawayReviews(
+  options: FetchHostawayReviewsOptions = {}
+): Promise<HostawayReview[]> {
+  if (!isHostawayConfigured()) {
+    console.warn('Hostaway credentials not configured. Using mock data.');
+    return [];
+  }
+
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const since = options.since ?? null;
+  const reviews: HostawayReview[] = [];
+
+  console.log(
+    `Fetching reviews from Hostaway API (Account: ${process.env.HOSTAWAY_ACCOUNT_ID}${
+      since ? `, since ${since.toISOString()}` : ''
+    })...`
+  );
+
+  let offset = 0;
+
+  while (true) {
+    options.signal?.throwIfAborted();
+    const data = await hostawayRequest<HostawayApiResponse>('/reviews', {
+      query: { limit: pageSize, offset, sortBy: 'submittedAt', sortOrder: 'desc' },
+    });
+
+    if (data.status !== 'success' || !Array.isArray(data.result)) {
+      throw new Error('Hostaway API response format unexpected');
+    }
+
+    const page = since
+      ? data.result.filter((review) => isNewerThan(review, since))
+      : data.result;
+
+    reviews.push(...page);
+    offset += data.result.length;
+
+    // Stop when the API has nothing left to give
+    if (data.result.length < pageSize) break;
+    if (typeof data.count === 'number' && offset >= data.count) break;
+
+    // In incremental mode, a page with nothing new means we've caught up
+    if (since && page.length === 0) break;
+  }
+
+  console.log(`Fetched ${reviews.length} reviews from Hostaway API`);
+  return reviews;
+}
+
+/**
+ * Check whether a review was submitted at or after the given date
+ *
+ * Reviews with unparseable dates are kept so they are not silently lost.
+ */
+function isNewerThan(review: HostawayReview, since: Date): boolean {
+  const submittedAt = parseHostawayDate(review.submittedAt);
+  return submittedAt === null || submittedAt >= since;
+}
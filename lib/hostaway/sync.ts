@@ -0,0 +1,239 @@
+/**
+ * Hostaway Review Sync
+ *
+ * Fetches reviews from the Hostaway API, normalizes them and persists
+ * them to the database. Used by the sync API route and can be reused
+ * by any other caller that needs to refresh stored reviews.
+ *
+ * Every run is recorded as a SyncRun with its counts and errors. The
+ * latest review date seen by a successful run becomes the cursor for
+ * the next incremental run.
+ *
+ * After saving, address and bedrooms are fetched for any listing that
+ * doesn't have them yet.
+ *
+ * Reviews stored before channels were derived from Hostaway data can be
+ * moved to their real channel with backfillHostawayChannels.
+ */
+
+import type {
+  ChannelBackfillResult,
+  QuarantineInput,
+  Review,
+  SaveReviewsResult,
+  SyncMode,
+  SyncResult,
+} from '@/types';
+import {
+  saveReviewsToDb,
+  createSyncRun,
+  completeSyncRun,
+  getLastSuccessfulSyncRun,
+  getListingsMissingMetadata,
+  updateListingMetadata,
+  backfillReviewChannels,
+  quarantineReviews,
+  findHostawayReviewPropertyId,
+  releaseQuarantinedReviews,
+} from '@/lib/db';
+import { fetchHostawayReviews } from './reviews';
+import { fetchHostawayListing } from './listings';
+import { getQuarantineId, parseHostawayReview } from './validation';
+
+const SOURCE = 'hostaway';
+
+/**
+ * Sync reviews from Hostaway into the database
+ *
+ * Pulls reviews from Hostaway, validates and normalizes them and upserts
+ * them. Reviews that fail validation are quarantined with the reasons
+ * (see QuarantinedReview) rather than being stored with made-up values;
+ * quarantined reviews that Hostaway now sends valid are released.
+ * Manager-owned fields such as `displayOnWebsite` are preserved by
+ * `saveReviewsToDb`, which also reports how many reviews were new,
+ * changed or unchanged.
+ *
+ * In incremental mode only reviews submitted at or after the cursor of
+ * the last successful run are fetched. With no previous run it behaves like a
+ * full sync.
+ *
+ * When the signal is aborted, e.g. because the sync lock was lost, the
+ * sync stops before its next write and is recorded as failed.
+ *
+ * @param options - Sync mode (defaults to 'incremental') and abort signal
+ * @returns Promise resolving to a summary of the sync run
+ */
+export async function syncHostawayReviews(
+  options: { mode?: SyncMode; signal?: AbortSignal } = {}
+): Promise<SyncResult> {
+  const mode = options.mode ?? 'incremental';
+  const { signal } = options;
+
+  console.log(`=== Hostaway Review Sync (${mode}) ===`);
+
+  const run = await createSyncRun(SOURCE, mode);
+
+  let fetched = 0;
+  let quarantined = 0;
+  let since: Date | null = null;
+  const errors: string[] = [];
+
+  try {
+    if (mode === 'incremental') {
+      const lastRun = await getLastSuccessfulSyncRun(SOURCE);
+      since = lastRun?.cursor ?? null;
+    }
+
+    const rawReviews = await fetchHostawayReviews({ since, signal });
+    fetched = rawReviews.length;
+
+    const normalizedReviews: Review[] = [];
+    const invalidReviews: QuarantineInput[] = [];
+
+    for (const rawReview of rawReviews) {
+      const { review, errors: validationErrors } = parseHostawayReview(rawReview);
+      if (review) {
+        normalizedReviews.push(review);
+      } else {
+        const sourceReviewId = getQuarantineId(rawReview);
+        console.warn(`Quarantining invalid review ${sourceReviewId}:`, validationErrors);
+        invalidReviews.push({
+          sourceReviewId,
+          payload: JSON.stringify(rawReview),
+          errors: validationErrors,
+          propertyId: await findHostawayReviewPropertyId(rawReview),
+        });
+      }
+    }
+
+    signal?.throwIfAborted();
+    await quarantineReviews(SOURCE, invalidReviews, run.id);
+    quarantined = invalidReviews.length;
+
+    let saved: SaveReviewsResult = { inserted: 0, updated: 0, unchanged: 0 };
+    if (normalizedReviews.length > 0) {
+      signal?.throwIfAborted();
+      saved = await saveReviewsToDb(normalizedReviews);
+      await releaseQuarantinedReviews(SOURCE, normalizedReviews.map((review) => review.id));
+      await refreshListingMetadata();
+    }
+
+    // Advance the cursor to the newest review we have stored
+    const cursor = normalizedReviews.reduce<Date | null>(
+      (latest, review) =>
+        latest === null || review.submittedAt > latest ? review.submittedAt : latest,
+      since
+    );
+
+    // Don't advance the cursor past what another sync may have stored
+    signal?.throwIfAborted();
+    const completed = await completeSyncRun(run.id, {
+      status: 'success',
+      fetched,
+      saved: normalizedReviews.length,
+      ...saved,
+      failed: errors.length,
+      quarantined,
+      errors,
+      cursor,
+    });
+
+    console.log(
+      `Synced ${normalizedReviews.length} of ${fetched} reviews from Hostaway, ${quarantined} quarantined`
+    );
+    console.log('=== End Hostaway Review Sync ===');
+
+    return {
+      runId: run.id,
+      mode,
+      fetched,
+      saved: normalizedReviews.length,
+      ...saved,
+      failed: errors.length,
+      quarantined,
+      errors,
+      cursor,
+      startedAt: run.startedAt,
+      finishedAt: completed.finishedAt ?? new Date(),
+    };
+  } catch (error) {
+    console.error('Error syncing Hostaway reviews:', error);
+
+    // Record the failure; the cursor stays put so the next run retries
+    await completeSyncRun(run.id, {
+      status: 'failed',
+      fetched,
+      saved: 0,
+      failed: fetched,
+      quarantined,
+      errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
+      cursor: since,
+    }).catch((recordError) => {
+      console.error(`Error recording failed sync run ${run.id}:`, recordError);
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Move stored Hostaway reviews to the channel they came through
+ *
+ * Fetches every review from Hostaway for its channel ID and name, then
+ * re-derives the channel of stored reviews with the current mapping
+ * table. Only the channel is changed; nothing else is re-synced. When
+ * Hostaway isn't configured, only reviews that already have a source
+ * channel are remapped.
+ *
+ * @returns Promise resolving to the number of reviews updated, unchanged
+ *   and without a source channel
+ */
+export async function backfillHostawayChannels(): Promise<ChannelBackfillResult> {
+  console.log('=== Hostaway Channel Backfill ===');
+
+  const rawReviews = await fetchHostawayReviews();
+  const sourceChannels = new Map(
+    rawReviews
+      .filter((review) => review.channelId != null || review.channelName)
+      .map((review) => [
+        review.id.toString(),
+        { channelId: review.channelId ?? null, channelName: review.channelName || null },
+      ])
+  );
+
+  const result = await backfillReviewChannels(sourceChannels);
+
+  console.log(
+    `Backfilled channels: ${result.updated} updated, ${result.unchanged} unchanged, ` +
+      `${result.unresolved} without a source channel`
+  );
+  console.log('=== End Hostaway Channel Backfill ===');
+
+  return result;
+}
+
+/**
+ * Fetch address and bedrooms for listings that don't have them yet
+ *
+ * Listing metadata is nice to have, so failures are logged and do not
+ * fail the review sync.
+ */
+async function refreshListingMetadata(): Promise<void> {
+  try {
+    const listingMapIds = await getListingsMissingMetadata();
+
+    for (const listingMapId of listingMapIds) {
+      try {
+        const listing = await fetchHostawayListing(listingMapId);
+        await updateListingMetadata(listingMapId, {
+          address: listing.address ?? null,
+          bedrooms: listing.bedroomsNumber ?? null,
+        });
+      } catch (error) {
+        console.warn(`Could not refresh metadata for listing ${listingMapId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('Could not refresh listing metadata:', error);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Hostaway Review Validation
+ *
+ * Checks raw reviews from the Hostaway API and webhooks against the
+ * shape normalizeHostawayReview relies on, before anything is stored.
+ * Reviews that fail are quarantined with the reasons (see
+ * QuarantinedReview) rather than stored with made-up values such as an
+ * 'unknown' property or today's date, which would skew trends.
+ */
+
+import { createHash } from 'crypto';
+import type { HostawayReview, Review, ReviewValidationError } from '@/types';
+import { normalizeHostawayReview, parseHostawayDate } from '@/lib/utils';
+import { HOSTAWAY_RATING_SCALE, isValidRating, NORMALIZED_SCALE } from '@/lib/rating-scales';
+
+const REVIEW_TYPES = ['guest-to-host', 'host-to-guest'];
+
+/**
+ * Check a raw Hostaway review
+ *
+ * @param raw - Review as received, not yet trusted
+ * @returns Every problem found; empty if the review is valid
+ */
+export function validateHostawayReview(raw: unknown): ReviewValidationError[] {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return [{ field: 'review', message: 'Review is not an object' }];
+  }
+
+  const review = raw as Record<string, unknown>;
+  const errors: ReviewValidationError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  if (!isPositiveInteger(review.id)) {
+    fail('id', `Invalid review ID: ${describe(review.id)}`);
+  }
+
+  if (typeof review.type !== 'string' || !REVIEW_TYPES.includes(review.type)) {
+    fail('type', `Invalid review type: ${describe(review.type)}`);
+  }
+
+  if (typeof review.status !== 'string' || !review.status) {
+    fail('status', 'Status is required');
+  }
+
+  if (typeof review.listingName !== 'string' || !/[a-z0-9]/i.test(review.listingName)) {
+    fail('listingName', 'Listing name is required');
+  }
+
+  if (typeof review.submittedAt !== 'string' || !review.submittedAt) {
+    fail('submittedAt', 'Date is required');
+  } else if (!parseHostawayDate(review.submittedAt)) {
+    fail('submittedAt', `Invalid date: ${review.submittedAt}`);
+  }
+
+  if (!isOptionalString(review.publicReview)) {
+    fail('publicReview', 'Review text must be a string');
+  }
+  if (!isOptionalString(review.guestName)) {
+    fail('guestName', 'Guest name must be a string');
+  }
+  if (!isOptional(review.listingMapId) && !isPositiveInteger(review.listingMapId)) {
+    fail('listingMapId', `Invalid listing ID: ${describe(review.listingMapId)}`);
+  }
+
+  if (!isOptional(review.channelId) && !isPositiveInteger(review.channelId)) {
+    fail('channelId', `Invalid channel ID: ${describe(review.channelId)}`);
+  }
+  if (!isOptionalString(review.channelName)) {
+    fail('channelName', 'Channel name must be a string');
+  }
+
+  // Hostaway gives the overall rating on its own scale, whatever the channel
+  if (
+    !isOptional(review.rating) &&
+    (typeof review.rating !== 'number' || !isValidRating(review.rating, HOSTAWAY_RATING_SCALE))
+  ) {
+    fail(
+      'rating',
+      `Rating must be a number from ${HOSTAWAY_RATING_SCALE.min} to ${HOSTAWAY_RATING_SCALE.max}, got ${describe(review.rating)}`
+    );
+  }
+
+  // Category ratings are always 0-10
+  if (!isOptional(review.reviewCategory)) {
+    if (!Array.isArray(review.reviewCategory)) {
+      fail('reviewCategory', 'Categories must be a list');
+    } else {
+      review.reviewCategory.forEach((category: unknown, index) => {
+        const { category: name, rating } = (category ?? {}) as Record<string, unknown>;
+        if (typeof name !== 'string' || !name) {
+          fail('reviewCategory', `Category ${index + 1} has no name`);
+        } else if (
+          rating !== null &&
+          (typeof rating !== 'number' || !isValidRating(rating, NORMALIZED_SCALE))
+        ) {
+          fail(
+            'reviewCategory',
+            `${name} rating must be a number from 0 to 10, got ${describe(rating)}`
+          );
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate and normalize a raw Hostaway review
+ *
+ * @param raw - Review as received, not yet trusted
+ * @returns The normalized review, or null with the reasons it is invalid
+ */
+export function parseHostawayReview(
+  raw: unknown
+): { review: Review; errors: [] } | { review: null; errors: ReviewValidationError[] } {
+  const errors = validateHostawayReview(raw);
+  if (errors.length > 0) {
+    return { review: null, errors };
+  }
+
+  try {
+    return { review: normalizeHostawayReview(raw as HostawayReview), errors: [] };
+  } catch (error) {
+    return {
+      review: null,
+      errors: [
+        { field: 'review', message: error instanceof Error ? error.message : 'Unknown error' },
+      ],
+    };
+  }
+}
+
+/**
+ * Get the ID a raw review is quarantined under
+ *
+ * Uses the Hostaway review ID. Without a usable one, a hash of the
+ * review stands in for it, so the same payload isn't quarantined twice.
+ *
+ * @param raw - Review as received
+ * @returns Hostaway review ID, or 'sha256-<hash>'
+ */
+export function getQuarantineId(raw: unknown): string {
+  const id = typeof raw === 'object' && raw !== null ? (raw as { id?: unknown }).id : undefined;
+  if (isPositiveInteger(id)) return String(id);
+
+  return `sha256-${createHash('sha256').update(JSON.stringify(raw) ?? String(raw)).digest('hex')}`;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isOptional(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function isOptionalString(value: unknown): boolean {
+  return isOptional(value) || typeof value === 'string';
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'missing' : JSON.stringify(value) ?? String(value);
+}
@@ -0,0 +1,256 @@
+/**
+ * Hostaway Webhooks
+ *
+ * Receives Hostaway's review.created and review.updated events, so new
+ * and edited reviews are stored as soon as Hostaway sends them instead
+ * of waiting for the next sync.
+ *
+ * Deliveries are authenticated with a shared secret (the
+ * X-Webhook-Secret header, HOSTAWAY_WEBHOOK_SECRET) or basic auth
+ * (HOSTAWAY_WEBHOOK_LOGIN / HOSTAWAY_WEBHOOK_PASSWORD), as configured
+ * for the webhook in Hostaway.
+ *
+ * Every delivery is stored as a WebhookEvent keyed by its event ID:
+ * a redelivery of a processed event is skipped, and a failed one is
+ * kept with its body so it can be replayed from the dashboard. A review
+ * that fails validation is quarantined (see QuarantinedReview).
+ *
+ * Server-only: uses Node's crypto module.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type {
+  HostawayReview,
+  HostawayWebhookEventType,
+  HostawayWebhookPayload,
+  WebhookDeliveryResult,
+} from '@/types';
+import {
+  findHostawayReviewPropertyId,
+  getReviewPropertyIds,
+  getWebhookEvent,
+  getWebhookEventById,
+  quarantineReviews,
+  recordWebhookEvent,
+  releaseQuarantinedReviews,
+  saveReviewsToDb,
+} from '@/lib/db';
+import { getQuarantineId, parseHostawayReview } from './validation';
+
+const SOURCE = 'hostaway';
+
+export const HOSTAWAY_REVIEW_EVENTS: HostawayWebhookEventType[] = ['review.created', 'review.updated'];
+
+/**
+ * Check whether webhook authentication is configured
+ *
+ * Deliveries are refused until it is, so the endpoint is never open.
+ *
+ * @returns True if a shared secret or basic auth credentials are set
+ */
+export function isHostawayWebhookConfigured(): boolean {
+  return Boolean(
+    process.env.HOSTAWAY_WEBHOOK_SECRET ||
+      (process.env.HOSTAWAY_WEBHOOK_LOGIN && process.env.HOSTAWAY_WEBHOOK_PASSWORD)
+  );
+}
+
+/**
+ * Check the credentials of a webhook delivery
+ *
+ * @param headers - Request headers
+ * @returns True if the shared secret or basic auth credentials match
+ */
+export function verifyHostawayWebhookAuth(headers: Headers): boolean {
+  const secret = process.env.HOSTAWAY_WEBHOOK_SECRET;
+  const sentSecret = headers.get('x-webhook-secret');
+  if (secret && sentSecret !== null && safeEqual(sentSecret, secret)) {
+    return true;
+  }
+
+  const login = process.env.HOSTAWAY_WEBHOOK_LOGIN;
+  const password = process.env.HOSTAWAY_WEBHOOK_PASSWORD;
+  const authorization = headers.get('authorization');
+  if (login && password && authorization?.startsWith('Basic ')) {
+    const credentials = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+    return safeEqual(credentials, `${login}:${password}`);
+  }
+
+  return false;
+}
+
+/**
+ * Parse the body of a webhook delivery
+ *
+ * @param body - Raw request body
+ * @returns Parsed payload
+ * @throws Error if the body is not JSON or a review event has no review
+ */
+export function parseHostawayWebhook(body: string): HostawayWebhookPayload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    throw new Error('Webhook body is not valid JSON');
+  }
+
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    typeof (payload as { event?: unknown }).event !== 'string'
+  ) {
+    throw new Error('Webhook body has no event');
+  }
+
+  const parsed = payload as HostawayWebhookPayload;
+  if (isReviewEvent(parsed.event) && (typeof parsed.data !== 'object' || parsed.data === null)) {
+    throw new Error(`${parsed.event} event has no review data`);
+  }
+  return parsed;
+}
+
+/**
+ * Get the ID of a webhook event
+ *
+ * Uses the event ID from the body or the X-Hostaway-Event-Id header.
+ * Without either, a hash of the body stands in for it, so an identical
+ * redelivery is still recognized.
+ *
+ * @param payload - Parsed body
+ * @param body - Raw request body
+ * @param headers - Request headers
+ * @returns Event ID
+ */
+export function getWebhookEventId(
+  payload: HostawayWebhookPayload,
+  body: string,
+  headers: Headers
+): string {
+  const eventId = payload.eventId ?? headers.get('x-hostaway-event-id');
+  if (eventId) return String(eventId);
+
+  return `sha256-${createHash('sha256').update(body).digest('hex')}`;
+}
+
+/**
+ * Handle a webhook delivery
+ *
+ * Events other than review.created and review.updated are acknowledged
+ * and ignored. A redelivered event that was already processed is
+ * skipped; a redelivered failure is retried.
+ *
+ * @param payload - Body parsed with parseHostawayWebhook
+ * @param body - Raw request body, already authenticated
+ * @param headers - Request headers
+ * @returns Promise resolving to what happened to the delivery
+ */
+export async function handleHostawayWebhook(
+  payload: HostawayWebhookPayload,
+  body: string,
+  headers: Headers
+): Promise<WebhookDeliveryResult> {
+  const eventId = getWebhookEventId(payload, body, headers);
+
+  if (!isReviewEvent(payload.event)) {
+    console.log(`Ignoring Hostaway webhook event ${eventId} (${payload.event})`);
+    return { eventId, status: 'ignored' };
+  }
+
+  const existing = await getWebhookEvent(SOURCE, eventId);
+  if (existing?.status === 'processed') {
+    console.log(`Skipping Hostaway webhook event ${eventId}: already processed`);
+    return { eventId, status: 'duplicate', reviewId: existing.reviewId };
+  }
+
+  return processReviewEvent(eventId, payload.event, payload.data!, body);
+}
+
+/**
+ * Process a failed webhook delivery again
+ *
+ * @param id - Stored webhook event ID
+ * @returns Promise resolving to the outcome of the new attempt
+ * @throws Error if the event doesn't exist or was already processed
+ */
+export async function replayHostawayWebhook(id: string): Promise<WebhookDeliveryResult> {
+  const stored = await getWebhookEventById(id);
+  if (!stored || stored.source !== SOURCE) {
+    throw new Error(`Webhook event ${id} not found`);
+  }
+  if (stored.status === 'processed') {
+    throw new Error(`Webhook event ${stored.eventId} was already processed`);
+  }
+
+  const payload = parseHostawayWebhook(stored.payload);
+  return processReviewEvent(stored.eventId, stored.event, payload.data!, stored.payload);
+}
+
+// Validates and saves the review, recording the outcome either way with
+// the review's property, if known, so managers only see their own. An
+// invalid review is quarantined and the delivery acknowledged, since
+// retrying the same body can't succeed
+async function processReviewEvent(
+  eventId: string,
+  event: string,
+  rawReview: HostawayReview,
+  payload: string
+): Promise<WebhookDeliveryResult> {
+  const delivery = { source: SOURCE, eventId, event, payload };
+  let propertyId: string | null = null;
+
+  try {
+    propertyId = await findHostawayReviewPropertyId(rawReview);
+    const { review, errors } = parseHostawayReview(rawReview);
+
+    if (!review) {
+      const sourceReviewId = getQuarantineId(rawReview);
+      await quarantineReviews(
+        SOURCE,
+        [{ sourceReviewId, payload: JSON.stringify(rawReview), errors, propertyId }],
+        null
+      );
+
+      const message = errors.map((error) => error.message).join('; ');
+      await recordWebhookEvent({
+        ...delivery,
+        status: 'processed',
+        error: message,
+        reviewId: sourceReviewId,
+        propertyId,
+      });
+
+      console.warn(`Quarantined review ${sourceReviewId} from Hostaway webhook event ${eventId}: ${message}`);
+      return { eventId, status: 'quarantined', reviewId: sourceReviewId, error: message };
+    }
+
+    await saveReviewsToDb([review]);
+    await releaseQuarantinedReviews(SOURCE, [review.id]);
+    propertyId = (await getReviewPropertyIds([review.id]))[0] ?? null;
+    await recordWebhookEvent({ ...delivery, status: 'processed', reviewId: review.id, propertyId });
+
+    console.log(`Processed Hostaway webhook event ${eventId} (${event}) for review ${review.id}`);
+    return { eventId, status: 'processed', reviewId: review.id };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error processing Hostaway webhook event ${eventId}:`, error);
+
+    await recordWebhookEvent({
+      ...delivery,
+      status: 'failed',
+      error: message,
+      reviewId: rawReview.id != null ? String(rawReview.id) : null,
+      propertyId,
+    });
+    return { eventId, status: 'failed', error: message };
+  }
+}
+
+function isReviewEvent(event: string): event is HostawayWebhookEventType {
+  return (HOSTAWAY_REVIEW_EVENTS as string[]).includes(event);
+}
+
+// Compares hashes, so neither the length nor the content leaks through timing
+function safeEqual(a: string, b: string): boolean {
+  const hash = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
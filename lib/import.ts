@@ -0,0 +1,416 @@
+/**
+ * Review Import
+ *
+ * Parses CSV and JSON review exports from other channels (Booking.com,
+ * VRBO, etc.) and converts their rows into normalized Review objects.
+ * Parsing and column suggestions run in the browser for the import
+ * page; normalization runs again on the server before saving.
+ */
+
+import type {
+  ImportColumnMapping,
+  ImportField,
+  ImportFormat,
+  ImportOptions,
+  ImportRowError,
+  Property,
+  PropertyScope,
+  RatingScale,
+  Review,
+  ReviewCategory,
+} from '@/types';
+import { mapListingToPropertyId, parseHostawayDate } from './utils';
+import { isPropertyInScope } from './permissions';
+import { getRatingScale, isValidRating, NORMALIZED_SCALE, normalizeRating } from './rating-scales';
+
+export type ImportRow = Record<string, string>;
+
+/**
+ * Parsed import file
+ */
+export interface ParsedImportFile {
+  columns: string[];
+  rows: ImportRow[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'id',
+  'propertyId',
+  'guestName',
+  'rating',
+  'publicReview',
+  'channel',
+  'reviewType',
+  'status',
+  'submittedAt',
+];
+
+// Column names commonly used for each field in channel exports
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'reviewid', 'review_id', 'reservationid'],
+  propertyId: ['propertyid', 'property', 'propertyname', 'listing', 'listingname', 'accommodation'],
+  guestName: ['guestname', 'guest', 'name', 'reviewer', 'reviewername', 'author'],
+  rating: ['rating', 'score', 'overall', 'overallrating', 'reviewscore'],
+  publicReview: ['publicreview', 'review', 'comment', 'comments', 'text', 'reviewtext', 'positive'],
+  channel: ['channel', 'source', 'platform'],
+  reviewType: ['reviewtype', 'type'],
+  status: ['status'],
+  submittedAt: ['submittedat', 'date', 'reviewdate', 'submitted', 'createdat', 'publishtime'],
+};
+
+/**
+ * Detect the format of an uploaded file from its name
+ *
+ * @param fileName - Uploaded file name
+ * @returns 'json' for .json files, otherwise 'csv'
+ */
+export function detectImportFormat(fileName: string): ImportFormat {
+  return fileName.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+}
+
+/**
+ * Parse CSV text into rows of cells
+ *
+ * Handles quoted cells containing commas, newlines and escaped quotes
+ * ("") as well as CRLF line endings. Blank lines are skipped.
+ *
+ * @param text - CSV content
+ * @returns Array of rows, each an array of cell values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.replace(/^﻿/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse an import file into columns and rows
+ *
+ * CSV files must have a header row. JSON files may contain an array of
+ * objects or a Hostaway-style `{ "result": [...] }` wrapper. Nested
+ * values are kept as JSON strings.
+ *
+ * @param content - File content
+ * @param format - File format
+ * @returns Parsed columns and rows
+ * @throws Error if the file cannot be parsed
+ */
+export function parseImportFile(content: string, format: ImportFormat): ParsedImportFile {
+  if (format === 'csv') {
+    const [header, ...records] = parseCsv(content);
+
+    if (!header) {
+      throw new Error('CSV file is empty');
+    }
+
+    const columns = header.map((column) => column.trim());
+    const rows = records.map((record) =>
+      Object.fromEntries(columns.map((column, index) => [column, record[index] ?? '']))
+    );
+
+    return { columns, rows };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const records =
+    data && typeof data === 'object' && !Array.isArray(data) && 'result' in data
+      ? (data as { result: unknown }).result
+      : data;
+
+  if (!Array.isArray(records)) {
+    throw new Error('JSON file must contain an array of reviews');
+  }
+
+  const columns: string[] = [];
+  const rows = records.map((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error(`Item ${index + 1} is not an object`);
+    }
+
+    const row: ImportRow = {};
+    Object.entries(record).forEach(([key, value]) => {
+      if (!columns.includes(key)) columns.push(key);
+      row[key] =
+        value === null || value === undefined
+          ? ''
+          : typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value);
+    });
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+/**
+ * Suggest a column mapping from column names
+ *
+ * Matches columns against common names used in channel exports,
+ * ignoring case, spaces and punctuation.
+ *
+ * @param columns - Column names in the file
+ * @returns Suggested mapping of review fields to columns
+ */
+export function suggestColumnMapping(columns: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const simplify = (name: string) => name.toLowerCase().replace(/[^a-z0-9_]/g, '');
+
+  IMPORT_FIELDS.forEach((field) => {
+    const match = columns.find((column) => {
+      const simplified = simplify(column);
+      return FIELD_ALIASES[field].some(
+        (alias) => simplified === alias || simplified === alias.replace(/_/g, '')
+      );
+    });
+
+    if (match) mapping[field] = match;
+  });
+
+  return mapping;
+}
+
+/**
+ * Parse an imported date
+ *
+ * Accepts ISO dates, Hostaway-style "YYYY-MM-DD HH:mm:ss" and UK
+ * "DD/MM/YYYY" dates, which is what Booking.com exports for our account.
+ *
+ * @param value - Date string from the file
+ * @returns Date object, or null if the value cannot be parsed
+ */
+export function parseImportDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const ukDate = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+
+  if (ukDate) {
+    const [, day, month, year] = ukDate.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 ? date : null;
+  }
+
+  return parseHostawayDate(trimmed);
+}
+
+/**
+ * Convert imported rows to normalized reviews
+ *
+ * Every row is validated independently. Rows with errors are left out
+ * of `reviews` and reported in `errors` with their row number.
+ *
+ * Properties are matched to existing ones by name, slug or ID, so a
+ * file using a property's old or new name imports into the same
+ * property. Only admins can import into properties that don't exist yet.
+ *
+ * Reviews without an ID column get a stable ID built from the channel,
+ * property, date and guest, so importing the same file twice updates the
+ * existing reviews instead of duplicating them.
+ *
+ * @param rows - Parsed rows
+ * @param options - Column mapping and defaults
+ * @param propertyScope - Properties the importing user manages (null for all);
+ *   rows for other properties are reported as errors
+ * @param properties - Existing properties to match rows against
+ * @param reviewProperties - Property of each existing review, by ID; rows
+ *   that would update a review outside the scope are reported as errors
+ * @returns Valid reviews and per-row errors
+ */
+export function normalizeImportRows(
+  rows: ImportRow[],
+  options: ImportOptions,
+  propertyScope: PropertyScope = null,
+  properties: Pick<Property, 'id' | 'name' | 'slug'>[] = [],
+  reviewProperties: ReadonlyMap<string, string> = new Map()
+): { reviews: Review[]; errors: ImportRowError[] } {
+  const reviews: Review[] = [];
+  const errors: ImportRowError[] = [];
+  const { mapping } = options;
+
+  const read = (row: ImportRow, field: ImportField) => {
+    const column = mapping[field];
+    return column ? (row[column] ?? '').trim() : '';
+  };
+
+  // An explicit scale starts at 0, as before channel scales existed
+  const scaleOf = (channel: string): RatingScale =>
+    options.ratingScale === 'channel'
+      ? getRatingScale(channel)
+      : { min: NORMALIZED_SCALE.min, max: options.ratingScale };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: ImportField | undefined, message: string) =>
+      rowErrors.push({ row: rowNumber, field, message });
+
+    // Property
+    const property = read(row, 'propertyId');
+    const existing = property ? findImportProperty(properties, property) : undefined;
+    let propertyId = existing?.id ?? '';
+    if (!property) {
+      fail('propertyId', 'Property is required');
+    } else if (!existing && propertyScope !== null) {
+      fail('propertyId', `Unknown property: ${property}`);
+    } else {
+      propertyId ||= mapListingToPropertyId(property);
+      if (!propertyId) {
+        fail('propertyId', `Invalid property: ${property}`);
+      } else if (!isPropertyInScope(propertyScope, propertyId)) {
+        fail('propertyId', `Property ${property} is not assigned to you`);
+      }
+    }
+
+    // Date
+    const dateValue = read(row, 'submittedAt');
+    const submittedAt = dateValue ? parseImportDate(dateValue) : null;
+    if (!dateValue) {
+      fail('submittedAt', 'Date is required');
+    } else if (!submittedAt) {
+      fail('submittedAt', `Invalid date: ${dateValue}`);
+    }
+
+    // Rating, on the scale of the file or the row's channel
+    const channel = (read(row, 'channel') || options.defaultChannel).toLowerCase();
+    const scale = scaleOf(channel);
+    const ratingValue = read(row, 'rating');
+    let rating = normalizeRating(null, scale);
+    if (ratingValue) {
+      const parsed = Number(ratingValue);
+      if (!isValidRating(parsed, scale)) {
+        fail('rating', `Rating must be a number from ${scale.min} to ${scale.max}`);
+      } else {
+        rating = normalizeRating(parsed, scale);
+      }
+    }
+
+    // Review type
+    const reviewType = read(row, 'reviewType') || 'guest-to-host';
+    if (reviewType !== 'guest-to-host' && reviewType !== 'host-to-guest') {
+      fail('reviewType', `Invalid review type: ${reviewType}`);
+    }
+
+    // Category ratings
+    const categories: ReviewCategory[] = [];
+    options.categoryColumns.forEach((column) => {
+      const value = (row[column] ?? '').trim();
+      if (!value) return;
+
+      const parsed = Number(value);
+      if (!isValidRating(parsed, scale)) {
+        fail(undefined, `Invalid ${column} rating: ${value}`);
+      } else {
+        categories.push({
+          category: column.trim().toLowerCase(),
+          rating: normalizeRating(parsed, scale).rating!,
+        });
+      }
+    });
+
+    if (rowErrors.length > 0 || !submittedAt) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const guestName = read(row, 'guestName') || 'Anonymous';
+    const sourceId = read(row, 'id');
+    const id = sourceId
+      ? `${channel}-${sourceId}`
+      : `${channel}-${propertyId}-${submittedAt.getTime()}-${mapListingToPropertyId(guestName)}`;
+
+    // Saving would move the existing review into this row's property
+    const existingPropertyId = reviewProperties.get(id);
+    if (existingPropertyId && !isPropertyInScope(propertyScope, existingPropertyId)) {
+      fail(
+        sourceId ? 'id' : undefined,
+        `Review ${sourceId || id} belongs to a property not assigned to you`
+      );
+      errors.push(...rowErrors);
+      return;
+    }
+
+    reviews.push({
+      id,
+      propertyId,
+      guestName,
+      ...rating,
+      publicReview: read(row, 'publicReview'),
+      channel,
+      reviewType: reviewType as Review['reviewType'],
+      status: read(row, 'status') || 'published',
+      displayOnWebsite: false,
+      moderationStatus: 'new',
+      categories,
+      submittedAt,
+      // Existing properties keep their current name
+      ...(!existing && { propertyName: property }),
+    });
+  });
+
+  return { reviews, errors };
+}
+
+// Match by name, slug or ID, then by the slug the name would get
+function findImportProperty<T extends Pick<Property, 'id' | 'name' | 'slug'>>(
+  properties: T[],
+  value: string
+): T | undefined {
+  const name = value.toLowerCase();
+  const slug = mapListingToPropertyId(value);
+
+  return (
+    properties.find(
+      (p) => p.name.trim().toLowerCase() === name || p.slug === value || p.id === value
+    ) ??
+    properties.find((p) => p.slug === slug || p.id === slug)
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Listing Metadata
+ *
+ * Server-side helpers for property listing metadata that isn't stored
+ * in Hostaway, such as the hero images under public/properties/.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { mapListingToPropertyId } from './utils';
+
+const PROPERTY_IMAGES_DIR = path.join(process.cwd(), 'public', 'properties');
+
+let propertyImages: string[] | null = null;
+
+/**
+ * Find the hero image for a listing
+ *
+ * Image files are named after the listing, but not always with its exact
+ * punctuation ("2B N1 A - 29 Shoreditch Heights" is stored as
+ * "2b N1 A 29 Shoreditch Heights.png"), so names are compared by slug.
+ *
+ * @param listingName - Listing display name
+ * @returns Public image path, or null if there is no matching image
+ */
+export function findHeroImage(listingName: string): string | null {
+  if (propertyImages === null) {
+    try {
+      propertyImages = fs.readdirSync(PROPERTY_IMAGES_DIR);
+    } catch (error) {
+      console.error('Error reading property images:', error);
+      propertyImages = [];
+    }
+  }
+
+  const slug = mapListingToPropertyId(listingName);
+  const file = propertyImages.find(
+    (image) => mapListingToPropertyId(path.parse(image).name) === slug
+  );
+
+  return file ? `/properties/${file}` : null;
+}
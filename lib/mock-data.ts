@@ -5,8 +5,21 @@
  * for use when database or API is unavailable.
  */
 
-import type { HostawayReview, Review, PropertyPerformance } from '@/types';
-import { normalizeHostawayReview } from './utils';
+import type {
+  HostawayReview,
+  Review,
+  PropertyPerformance,
+  PaginatedResponse,
+  PaginationParams,
+  ReviewFilterOptions,
+  ReviewFilters,
+  ReviewStatistics,
+  SortOptions,
+} from '@/types';
+import { getQuarantineId, parseHostawayReview } from './hostaway/validation';
+import { findHeroImage } from './listings';
+import { calculateRecentTrend, RECENT_REVIEW_DAYS } from './analytics';
+import { filterReviews, sortReviews } from './utils';
 
 /**
  * Load mock reviews from JSON file and normalize them
@@ -20,28 +33,16 @@ export async function loadMockReviewsNormalized(): Promise<Review[]> {
     if (mockData.status === 'success' && Array.isArray(mockData.result)) {
       console.log(`Loaded ${mockData.result.length} reviews from mock data`);
 
-      // Normalize all reviews
-      const normalized = mockData.result.map((rawReview: any) => {
-        try {
-          return normalizeHostawayReview(rawReview);
-        } catch (error) {
-          console.error(`Error normalizing mock review ${rawReview.id}:`, error);
-          // Return a fallback review
-          return {
-            id: rawReview.id.toString(),
-            propertyId: 'unknown',
-            guestName: rawReview.guestName || 'Anonymous',
-            rating: rawReview.rating,
-            publicReview: rawReview.publicReview || '',
-            channel: 'hostaway',
-            reviewType: rawReview.type,
-            status: rawReview.status,
-            displayOnWebsite: false,
-            categories: rawReview.reviewCategory || [],
-            submittedAt: new Date(),
-          };
+      // Normalize all reviews, leaving out any that fail validation
+      const normalized: Review[] = [];
+      for (const rawReview of mockData.result) {
+        const { review, errors } = parseHostawayReview(rawReview);
+        if (review) {
+          normalized.push(review);
+        } else {
+          console.error(`Skipping invalid mock review ${getQuarantineId(rawReview)}:`, errors);
         }
-      });
+      }
 
       console.log(`Successfully normalized ${normalized.length} mock reviews`);
       return normalized;
@@ -73,11 +74,13 @@ export function calculatePropertyPerformance(reviews: Review[]): PropertyPerform
 
   // Calculate metrics for each property
   return Array.from(reviewsByProperty.entries()).map(([propertyId, propertyReviews]) => {
-    // Property name from ID
-    const propertyName = propertyId
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
+    // Listing display name, falling back to a name built from the ID
+    const propertyName =
+      propertyReviews[0].propertyName ||
+      propertyId
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
 
     // Calculate average rating
     const ratingsWithValue = propertyReviews
@@ -112,49 +115,98 @@ export function calculatePropertyPerformance(reviews: Review[]): PropertyPerform
         Math.round((categoryRatings[category] / categoryCounts[category]) * 10) / 10;
     });
 
-    // Calculate recent trends (last 30 days vs previous 30 days)
-    const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
-
-    const recentReviews = propertyReviews.filter(
-      r => r.submittedAt >= thirtyDaysAgo && r.rating !== null
-    );
-    const previousReviews = propertyReviews.filter(
-      r => r.submittedAt >= sixtyDaysAgo && r.submittedAt < thirtyDaysAgo && r.rating !== null
-    );
-
-    // Default to 'up' but only matters if we have data
-    let trendDirection: 'up' | 'down' = 'up';
-    let trendPercentage = 0;
-
-    if (recentReviews.length > 0 && previousReviews.length > 0) {
-      const recentAvg =
-        recentReviews.reduce((sum, r) => sum + r.rating!, 0) / recentReviews.length;
-      const previousAvg =
-        previousReviews.reduce((sum, r) => sum + r.rating!, 0) / previousReviews.length;
-
-      const diff = recentAvg - previousAvg;
-      trendPercentage = Math.round(Math.abs((diff / previousAvg) * 100));
-
-      // Determine direction based on actual change
-      if (diff >= 0) {
-        trendDirection = 'up';    // Improving or stable
-      } else {
-        trendDirection = 'down';  // Declining
-      }
-    }
-
     return {
       propertyId,
       propertyName,
+      slug: propertyId,
+      heroImage: findHeroImage(propertyName),
       totalReviews: propertyReviews.length,
       averageRating: Math.round(averageRating * 10) / 10,
       categoryRatings,
-      recentTrends: {
-        direction: trendDirection,
-        percentage: trendPercentage,
-      },
+      recentTrends: calculateRecentTrend(propertyReviews),
     };
   });
 }
+
+/**
+ * Get a page of mock reviews, filtered and sorted like getReviewsPage
+ *
+ * @param reviews - Array of Review objects
+ * @param filters - Filter criteria
+ * @param sort - Sort field and direction
+ * @param pagination - Page number (1-based) and page size
+ * @returns PaginatedResponse of the matching reviews
+ */
+export function getMockReviewsPage(
+  reviews: Review[],
+  filters: ReviewFilters,
+  sort: SortOptions,
+  pagination: PaginationParams
+): PaginatedResponse<Review> {
+  const matching = sortReviews(filterReviews(reviews, filters), sort);
+  const start = (pagination.page - 1) * pagination.pageSize;
+
+  return {
+    data: matching.slice(start, start + pagination.pageSize),
+    pagination: {
+      currentPage: pagination.page,
+      pageSize: pagination.pageSize,
+      totalItems: matching.length,
+      totalPages: Math.ceil(matching.length / pagination.pageSize),
+    },
+  };
+}
+
+/**
+ * Calculate dashboard statistics from reviews, like getReviewStatistics
+ *
+ * @param reviews - Array of Review objects
+ * @param now - Current time
+ * @returns ReviewStatistics of the reviews
+ */
+export function calculateReviewStatistics(reviews: Review[], now = new Date()): ReviewStatistics {
+  const recentSince = now.getTime() - RECENT_REVIEW_DAYS * 24 * 60 * 60 * 1000;
+  const ratings = reviews.filter(r => r.rating !== null).map(r => r.rating!);
+  const countBy = (key: (review: Review) => string) =>
+    reviews.reduce<Record<string, number>>((counts, review) => {
+      counts[key(review)] = (counts[key(review)] ?? 0) + 1;
+      return counts;
+    }, {});
+
+  const categoryRatings = new Map<string, number[]>();
+  reviews.forEach(review => {
+    review.categories.forEach(cat => {
+      categoryRatings.set(cat.category, [...(categoryRatings.get(cat.category) ?? []), cat.rating]);
+    });
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0
+      ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+      : 0;
+
+  return {
+    totalReviews: reviews.length,
+    averageRating: average(ratings),
+    reviewsByChannel: countBy(r => r.channel),
+    reviewsByType: countBy(r => r.reviewType),
+    selectedForWebsite: reviews.filter(r => r.displayOnWebsite).length,
+    categoryAverages: Object.fromEntries(
+      Array.from(categoryRatings, ([category, values]) => [category, average(values)])
+    ),
+    recentReviews: reviews.filter(r => new Date(r.submittedAt).getTime() >= recentSince).length,
+  };
+}
+
+/**
+ * Get the channels and categories of mock reviews, like getReviewFilterOptions
+ *
+ * @param reviews - Array of Review objects
+ * @returns Sorted channels and categories
+ */
+export function getMockFilterOptions(reviews: Review[]): ReviewFilterOptions {
+  return {
+    channels: Array.from(new Set(reviews.map(r => r.channel))).sort(),
+    categories: Array.from(new Set(reviews.flatMap(r => r.categories.map(c => c.category)))).sort(),
+  };
+}
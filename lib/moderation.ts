@@ -0,0 +1,84 @@
+/**
+ * Review Moderation
+ *
+ * State machine for moderating reviews before they appear on the public
+ * website. Shared by the server (which enforces it) and the dashboard
+ * (which only offers allowed actions).
+ *
+ * Reviews arrive as `new`, are queued as `pending` and end up
+ * `approved`, `rejected` or `hidden`. Any decision can be reopened by
+ * moving the review back to `pending`.
+ */
+
+import type { ModerationDecision, ModerationStatus, RejectionReason } from '@/types';
+
+export const MODERATION_STATUSES: ModerationStatus[] = [
+  'new',
+  'pending',
+  'approved',
+  'rejected',
+  'hidden',
+];
+
+/** States that still need a moderator's decision */
+export const QUEUE_STATUSES: ModerationStatus[] = ['new', 'pending'];
+
+const TRANSITIONS: Record<ModerationStatus, ModerationStatus[]> = {
+  new: ['pending', 'approved', 'rejected', 'hidden'],
+  pending: ['approved', 'rejected', 'hidden'],
+  approved: ['hidden', 'pending'],
+  rejected: ['pending'],
+  hidden: ['approved', 'pending'],
+};
+
+export const REJECTION_REASONS: Record<RejectionReason, string> = {
+  'inappropriate-language': 'Inappropriate language',
+  'personal-information': 'Contains personal information',
+  spam: 'Spam or advertising',
+  'not-about-stay': 'Not about the stay',
+  other: 'Other',
+};
+
+/**
+ * Get the states a review can move to from its current state
+ *
+ * @param from - Current moderation status
+ * @returns Allowed next states
+ */
+export function getAllowedTransitions(from: ModerationStatus): ModerationStatus[] {
+  return TRANSITIONS[from] ?? [];
+}
+
+/**
+ * Check whether a moderation decision is valid for a review
+ *
+ * @param from - Current moderation status
+ * @param decision - Requested decision
+ * @returns Error message, or null if the decision is valid
+ */
+export function validateModerationDecision(
+  from: ModerationStatus,
+  decision: ModerationDecision
+): string | null {
+  if (!MODERATION_STATUSES.includes(decision.status)) {
+    return `Unknown moderation status: ${decision.status}`;
+  }
+
+  if (!getAllowedTransitions(from).includes(decision.status)) {
+    return `Cannot change a review from ${from} to ${decision.status}`;
+  }
+
+  if (decision.status === 'rejected') {
+    if (!decision.reason) {
+      return 'A reason is required to reject a review';
+    }
+    if (!(decision.reason in REJECTION_REASONS)) {
+      return `Unknown rejection reason: ${decision.reason}`;
+    }
+    if (decision.reason === 'other' && !decision.note?.trim()) {
+      return 'A note is required when the reason is "other"';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Password Hashing
+ *
+ * scrypt password hashes stored as "scrypt$<salt>$<hash>" (hex).
+ * Uses relative imports only so the seed script can reuse it.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password for storage
+ *
+ * @param password - Plain-text password
+ * @returns Promise resolving to the encoded hash
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await deriveKey(password, salt);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash
+ *
+ * @param password - Plain-text password
+ * @param stored - Encoded hash from hashPassword
+ * @returns Promise resolving to true if the password matches
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hex] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hex) return false;
+
+  const expected = Buffer.from(hex, 'hex');
+  const actual = await deriveKey(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function deriveKey(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Role Permissions
+ *
+ * What each role may do on the manager dashboard. Kept free of server
+ * imports so it can be used by middleware and client components.
+ */
+
+import type { Permission, PropertyScope, Role } from '@/types';
+
+export const ROLES: Role[] = ['admin', 'manager', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'reviews:read',
+    'reviews:moderate',
+    'reviews:respond',
+    'reviews:import',
+    'reviews:sync',
+    'properties:manage',
+    'users:manage',
+  ],
+  manager: [
+    'reviews:read',
+    'reviews:moderate',
+    'reviews:respond',
+    'reviews:import',
+    'reviews:sync',
+    'properties:manage',
+  ],
+  viewer: ['reviews:read'],
+};
+
+/**
+ * Check whether a role has a permission
+ *
+ * @param role - User role
+ * @param permission - Permission to check
+ * @returns True if the role grants the permission
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Check whether a property is within a user's property scope
+ *
+ * Records whose property isn't known (null) are only in the admin scope.
+ *
+ * @param scope - Assigned property IDs, or null for every property
+ * @param propertyId - Property to check, or null if unknown
+ * @returns True if the user may access the property
+ */
+export function isPropertyInScope(scope: PropertyScope, propertyId: string | null): boolean {
+  return scope === null || (propertyId !== null && scope.includes(propertyId));
+}
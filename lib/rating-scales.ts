@@ -0,0 +1,109 @@
+/**
+ * Rating Scales
+ *
+ * Channels rate on different scales: Airbnb, Vrbo and Google give 1-5
+ * stars and Booking.com and Expedia score 1-10. Hostaway reports every
+ * channel's rating, and its category ratings, on 0-10. Every ingestion
+ * path (Hostaway, Google, imports and the seed script) converts ratings
+ * through this registry,
+ * so `Review.rating` is always 0-10 while the rating as given at the
+ * source and its scale are kept alongside it.
+ *
+ * Ratings are scaled proportionally, so 4 of 5 stars is 8 of 10.
+ *
+ * Only has type imports, so the seed script can use it.
+ */
+
+import type { NormalizedRating, RatingDisplay, RatingScale, Review } from '../types';
+
+/** Scale of normalized ratings */
+export const NORMALIZED_SCALE: RatingScale = { min: 0, max: 10 };
+
+/**
+ * Scale of Hostaway ratings, whatever the channel: Hostaway has already
+ * converted them, e.g. a 4.75-star Airbnb rating arrives as 9.5
+ */
+export const HOSTAWAY_RATING_SCALE: RatingScale = { min: 0, max: 10 };
+
+/**
+ * Rating scale of each channel, for ratings taken from the channel itself
+ * (Google, imports); other channels use NORMALIZED_SCALE
+ */
+export const CHANNEL_RATING_SCALES: Record<string, RatingScale> = {
+  airbnb: { min: 1, max: 5 },
+  booking: { min: 1, max: 10 },
+  expedia: { min: 1, max: 10 },
+  google: { min: 1, max: 5 },
+  vrbo: { min: 1, max: 5 },
+};
+
+/**
+ * Get the rating scale of a channel
+ *
+ * @param channel - Channel slug, e.g. 'airbnb'
+ * @returns Scale of the ratings the channel gives
+ */
+export function getRatingScale(channel: string): RatingScale {
+  return Object.prototype.hasOwnProperty.call(CHANNEL_RATING_SCALES, channel)
+    ? CHANNEL_RATING_SCALES[channel]
+    : NORMALIZED_SCALE;
+}
+
+/**
+ * Check whether a rating is a number within a scale
+ *
+ * @param value - Rating as given at the source
+ * @param scale - Scale the rating is on
+ * @returns True if the rating can be normalized
+ */
+export function isValidRating(value: number, scale: RatingScale): boolean {
+  return Number.isFinite(value) && value >= scale.min && value <= scale.max;
+}
+
+/**
+ * Convert a rating to the 0-10 scale
+ *
+ * @param value - Rating as given at the source, or null if there is none
+ * @param scale - Scale the rating is on
+ * @returns Normalized rating (rounded to 1 decimal), raw rating and the
+ *   top of the source scale; all null without a rating
+ * @throws Error if the rating is outside the scale
+ */
+export function normalizeRating(
+  value: number | null | undefined,
+  scale: RatingScale
+): NormalizedRating {
+  if (value === null || value === undefined) {
+    return { rating: null, rawRating: null, ratingScale: null };
+  }
+
+  if (!isValidRating(value, scale)) {
+    throw new Error(`Rating ${value} is outside the ${scale.min}-${scale.max} scale`);
+  }
+
+  return {
+    rating: Math.round((value / scale.max) * NORMALIZED_SCALE.max * 10) / 10,
+    rawRating: value,
+    ratingScale: scale.max,
+  };
+}
+
+/**
+ * Rating of a review to show on the dashboard
+ *
+ * Reviews stored before scales were recorded have no raw rating and are
+ * always shown normalized.
+ *
+ * @param review - Review to show
+ * @param display - 'native' for the source scale, 'normalized' for 0-10
+ * @returns Rating and the top of the scale it is on
+ */
+export function getDisplayRating(
+  review: Review,
+  display: RatingDisplay
+): { rating: number | null; scale: number } {
+  if (display === 'native' && review.rawRating != null && review.ratingScale) {
+    return { rating: review.rawRating, scale: review.ratingScale };
+  }
+  return { rating: review.rating, scale: NORMALIZED_SCALE.max };
+}
@@ -0,0 +1,46 @@
+/**
+ * Review Content Hashing
+ *
+ * Hashes the fields of a review that come from its source, so re-syncs
+ * and re-imports can skip rows that have not changed. Manager-owned
+ * fields (moderation, tags, assignee, reply) are not part of the hash.
+ *
+ * Server-only: uses Node's crypto module.
+ */
+
+import { createHash } from 'crypto';
+import type { Review } from '@/types';
+
+/**
+ * Compute the content hash of a review
+ *
+ * Category ratings are hashed in category order, so the order the
+ * source lists them in does not matter.
+ *
+ * @param review - Normalized review, with the property it is stored under
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function computeReviewContentHash(review: Review): string {
+  const categories = review.categories
+    .filter(({ rating }) => typeof rating === 'number')
+    .map(({ category, rating }) => [category, rating])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+  const content = [
+    review.propertyId,
+    review.guestName,
+    review.rating,
+    review.rawRating ?? null,
+    review.ratingScale ?? null,
+    review.publicReview,
+    review.channel,
+    review.sourceChannelId ?? null,
+    review.sourceChannelName ?? null,
+    review.reviewType,
+    review.status,
+    review.submittedAt.toISOString(),
+    categories,
+  ];
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
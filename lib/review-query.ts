@@ -0,0 +1,184 @@
+/**
+ * Review Query Parsing
+ *
+ * Converts URL query parameters into typed review filters, sort options
+ * and pagination for server-side review listing.
+ */
+
+import type {
+  ModerationStatus,
+  PaginationParams,
+  ReviewFilters,
+  SortDirection,
+  SortField,
+  SortOptions,
+} from '@/types';
+import { MODERATION_STATUSES } from './moderation';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const SORT_FIELDS: SortField[] = ['submittedAt', 'rating', 'guestName', 'channel'];
+const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+const REVIEW_TYPES = ['host-to-guest', 'guest-to-host', 'all'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parsed review query
+ */
+export interface ReviewQuery {
+  filters: ReviewFilters;
+  sort: SortOptions;
+  pagination: PaginationParams;
+}
+
+/**
+ * Parse review query parameters
+ *
+ * Supported parameters:
+ * - propertyId, channel, status, search
+ * - reviewType: host-to-guest | guest-to-host | all
+ * - minRating, maxRating: numbers on the 0-10 scale
+ * - category: category name, e.g. cleanliness
+ * - categoryMinRating, categoryMaxRating: bounds on that category's rating
+ * - dateFrom, dateTo: ISO dates; a date-only dateTo includes that whole day
+ * - displayOnWebsite: true | false
+ * - needsReapproval: true | false
+ * - moderationStatus: comma-separated list, e.g. new,pending
+ * - sortBy: submittedAt | rating | guestName | channel (default submittedAt)
+ * - sortDirection: asc | desc (default desc)
+ * - page: 1-based page number (default 1)
+ * - pageSize: 1-100 (default 20)
+ *
+ * @param params - URL search parameters
+ * @returns Parsed query
+ * @throws Error describing the first invalid parameter
+ */
+export function parseReviewQuery(params: URLSearchParams): ReviewQuery {
+  const filters: ReviewFilters = {};
+
+  const propertyId = params.get('propertyId');
+  if (propertyId) filters.propertyId = propertyId;
+
+  const channel = params.get('channel');
+  if (channel) filters.channel = channel;
+
+  const status = params.get('status');
+  if (status) filters.status = status;
+
+  const search = params.get('search')?.trim();
+  if (search) filters.search = search;
+
+  const reviewType = params.get('reviewType');
+  if (reviewType) {
+    if (!REVIEW_TYPES.includes(reviewType as (typeof REVIEW_TYPES)[number])) {
+      throw new Error(`Invalid reviewType: ${reviewType}`);
+    }
+    filters.reviewType = reviewType as ReviewFilters['reviewType'];
+  }
+
+  const minRating = parseNumber(params, 'minRating');
+  if (minRating !== undefined) filters.minRating = minRating;
+
+  const maxRating = parseNumber(params, 'maxRating');
+  if (maxRating !== undefined) filters.maxRating = maxRating;
+
+  const category = params.get('category')?.trim();
+  if (category) filters.category = category;
+
+  const categoryMinRating = parseNumber(params, 'categoryMinRating');
+  if (categoryMinRating !== undefined) filters.categoryMinRating = categoryMinRating;
+
+  const categoryMaxRating = parseNumber(params, 'categoryMaxRating');
+  if (categoryMaxRating !== undefined) filters.categoryMaxRating = categoryMaxRating;
+
+  if (!category && (categoryMinRating !== undefined || categoryMaxRating !== undefined)) {
+    throw new Error('Invalid category rating filter: category is required');
+  }
+
+  const dateFrom = parseDate(params, 'dateFrom');
+  if (dateFrom) filters.dateFrom = dateFrom;
+
+  const dateTo = parseDate(params, 'dateTo');
+  if (dateTo) {
+    filters.dateTo = DATE_PATTERN.test(params.get('dateTo')!)
+      ? new Date(dateTo.getTime() + DAY_MS - 1)
+      : dateTo;
+  }
+
+  const displayOnWebsite = params.get('displayOnWebsite');
+  if (displayOnWebsite) {
+    if (displayOnWebsite !== 'true' && displayOnWebsite !== 'false') {
+      throw new Error(`Invalid displayOnWebsite: ${displayOnWebsite}`);
+    }
+    filters.displayOnWebsite = displayOnWebsite === 'true';
+  }
+
+  const needsReapproval = params.get('needsReapproval');
+  if (needsReapproval) {
+    if (needsReapproval !== 'true' && needsReapproval !== 'false') {
+      throw new Error(`Invalid needsReapproval: ${needsReapproval}`);
+    }
+    filters.needsReapproval = needsReapproval === 'true';
+  }
+
+  const moderationStatus = params.get('moderationStatus');
+  if (moderationStatus) {
+    const statuses = moderationStatus.split(',').map((value) => value.trim());
+    const invalid = statuses.find((value) => !MODERATION_STATUSES.includes(value as ModerationStatus));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid moderationStatus: ${invalid}`);
+    }
+    filters.moderationStatus = statuses as ModerationStatus[];
+  }
+
+  const sortBy = params.get('sortBy') ?? 'submittedAt';
+  if (!SORT_FIELDS.includes(sortBy as SortField)) {
+    throw new Error(`Invalid sortBy: ${sortBy}`);
+  }
+
+  const sortDirection = params.get('sortDirection') ?? 'desc';
+  if (!SORT_DIRECTIONS.includes(sortDirection as SortDirection)) {
+    throw new Error(`Invalid sortDirection: ${sortDirection}`);
+  }
+
+  const page = parseNumber(params, 'page') ?? 1;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`Invalid page: ${page}`);
+  }
+
+  const pageSize = parseNumber(params, 'pageSize') ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new Error(`Invalid pageSize: must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return {
+    filters,
+    sort: { field: sortBy as SortField, direction: sortDirection as SortDirection },
+    pagination: { page, pageSize },
+  };
+}
+
+function parseNumber(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function parseDate(params: URLSearchParams, name: string): Date | undefined {
+  const value = params.get(name);
+  if (!value) return undefined;
+
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,107 @@
+/**
+ * Session Tokens
+ *
+ * Signed session cookies for the manager dashboard. A token is the
+ * base64url-encoded session JSON followed by an HMAC-SHA256 signature
+ * made with AUTH_SECRET. Uses Web Crypto so it also runs in middleware
+ * (Edge runtime).
+ */
+
+import type { Role, SessionUser } from '@/types';
+
+export const SESSION_COOKIE = 'flex_session';
+
+/** Session lifetime in seconds (8 hours) */
+export const SESSION_MAX_AGE = 8 * 60 * 60;
+
+interface SessionPayload extends SessionUser {
+  exp: number; // Expiry, seconds since epoch
+}
+
+/**
+ * Create a signed session token
+ *
+ * @param user - Signed-in user
+ * @param now - Current time (for testing)
+ * @returns Promise resolving to the token
+ * @throws Error if AUTH_SECRET is not set
+ */
+export async function createSessionToken(user: SessionUser, now: Date = new Date()): Promise<string> {
+  const payload: SessionPayload = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    exp: Math.floor(now.getTime() / 1000) + SESSION_MAX_AGE,
+  };
+
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${body}.${await sign(body)}`;
+}
+
+/**
+ * Verify a session token
+ *
+ * @param token - Token from the session cookie
+ * @param now - Current time (for testing)
+ * @returns Promise resolving to the session user, or null if the token
+ *   is missing, tampered with or expired
+ */
+export async function verifySessionToken(
+  token: string | undefined,
+  now: Date = new Date()
+): Promise<SessionUser | null> {
+  if (!token || !process.env.AUTH_SECRET) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(body)
+    );
+    if (!valid) return null;
+
+    const payload: SessionPayload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    if (payload.exp * 1000 <= now.getTime()) return null;
+
+    return { id: payload.id, email: payload.email, role: payload.role as Role };
+  } catch {
+    return null;
+  }
+}
+
+async function sign(body: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), new TextEncoder().encode(body));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+async function getKey(): Promise<CryptoKey> {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not set');
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
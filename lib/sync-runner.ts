@@ -0,0 +1,122 @@
+/**
+ * Sync Runner
+ *
+ * Runs review syncs for the sync API routes, the `npm run sync` CLI and
+ * the sync scheduler. Each source is synced while holding a lock in the
+ * database, so two instances (or a scheduled run and a manual one)
+ * never sync the same source at the same time: the second one is
+ * skipped and reported as locked.
+ *
+ * Every run is recorded as a SyncRun by the source's sync function.
+ */
+
+import type { SourceSyncOutcome, SyncMode, SyncResult, SyncSource } from '@/types';
+import { withLock } from '@/lib/db';
+import { syncHostawayReviews } from '@/lib/hostaway/sync';
+import { syncGoogleReviews } from '@/lib/google/sync';
+import { isHostawayConfigured } from '@/lib/hostaway/client';
+import { isGoogleConfigured } from '@/lib/google/places';
+
+// How long the lock of a sync whose process died blocks the next sync
+const SYNC_LOCK_LEASE_MS = 2 * 60 * 1000;
+
+const SYNC_SOURCES: Record<
+  SyncSource,
+  {
+    isConfigured: () => boolean;
+    sync: (mode: SyncMode, signal: AbortSignal) => Promise<SyncResult>;
+  }
+> = {
+  hostaway: {
+    isConfigured: isHostawayConfigured,
+    sync: (mode, signal) => syncHostawayReviews({ mode, signal }),
+  },
+  // Google only returns a handful of reviews per place, so it always syncs in full
+  google: {
+    isConfigured: isGoogleConfigured,
+    sync: (_mode, signal) => syncGoogleReviews({ signal }),
+  },
+};
+
+/**
+ * Check whether a string names a sync source
+ *
+ * @param value - Source name, e.g. from a CLI argument
+ * @returns True if it is a SyncSource
+ */
+export function isSyncSource(value: string): value is SyncSource {
+  return Object.prototype.hasOwnProperty.call(SYNC_SOURCES, value);
+}
+
+/**
+ * Get the sources that have credentials configured
+ *
+ * @returns Sources to sync, in a stable order
+ */
+export function getConfiguredSyncSources(): SyncSource[] {
+  return (Object.keys(SYNC_SOURCES) as SyncSource[]).filter((source) =>
+    SYNC_SOURCES[source].isConfigured()
+  );
+}
+
+/**
+ * Sync one source while holding its lock
+ *
+ * Errors from the sync are not caught; callers that sync several
+ * sources should use runSyncs. If the lock is lost while syncing, the
+ * sync stops before its next write and fails.
+ *
+ * @param source - Source to sync
+ * @param options - Sync mode (defaults to 'incremental'; Google is always full)
+ * @returns Promise resolving to the sync result, or null if another
+ *   process is already syncing the source
+ */
+export async function runLockedSync(
+  source: SyncSource,
+  options: { mode?: SyncMode } = {}
+): Promise<SyncResult | null> {
+  const mode = options.mode ?? 'incremental';
+
+  const outcome = await withLock(
+    `review-sync:${source}`,
+    (signal) => SYNC_SOURCES[source].sync(mode, signal),
+    SYNC_LOCK_LEASE_MS
+  );
+
+  if (!outcome.acquired) {
+    console.log(`Skipping ${source} sync: another sync of ${source} is running`);
+    return null;
+  }
+  return outcome.result;
+}
+
+/**
+ * Sync several sources, one after the other
+ *
+ * A failing source doesn't stop the others.
+ *
+ * @param options - Sources to sync (defaults to every configured source)
+ *   and sync mode
+ * @returns Promise resolving to the outcome of each source
+ */
+export async function runSyncs(
+  options: { sources?: SyncSource[]; mode?: SyncMode } = {}
+): Promise<SourceSyncOutcome[]> {
+  const sources = options.sources ?? getConfiguredSyncSources();
+  const outcomes: SourceSyncOutcome[] = [];
+
+  for (const source of sources) {
+    try {
+      const result = await runLockedSync(source, { mode: options.mode });
+      outcomes.push(result ? { source, status: 'success', result } : { source, status: 'locked' });
+    } catch (error) {
+      outcomes.push({
+        source,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,100 @@
+/**
+ * Sync Scheduler
+ *
+ * Runs every configured review sync on a cron schedule, inside the
+ * process that starts it: the Next.js server when SYNC_CRON is set (see
+ * instrumentation.ts), or `npm run sync -- --cron "<expression>"` as a
+ * standalone worker.
+ *
+ * Runs never overlap within a process, since the next run is scheduled
+ * after the current one finishes. Across processes the sync runner's
+ * locks make sure only one instance syncs a source at a time, so every
+ * instance can run the scheduler.
+ */
+
+import type { SyncMode } from '@/types';
+import { getNextCronTime, parseCronExpression } from '@/lib/cron';
+import { runSyncs } from '@/lib/sync-runner';
+
+// setTimeout overflows above ~24.8 days, so longer waits are done in steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Survives hot reloads in development, so only one scheduler runs per process
+const globalForScheduler = globalThis as unknown as {
+  syncScheduler: { expression: string; stop: () => void } | undefined;
+};
+
+/**
+ * Start running syncs on a cron schedule
+ *
+ * Starting again with the same expression keeps the running scheduler;
+ * a different expression replaces it.
+ *
+ * @param expression - Five-field cron expression, evaluated in UTC
+ * @param options - Sync mode (defaults to 'incremental')
+ * @returns Function that stops the scheduler
+ * @throws Error if the cron expression is invalid
+ */
+export function startSyncScheduler(
+  expression: string,
+  options: { mode?: SyncMode } = {}
+): () => void {
+  const existing = globalForScheduler.syncScheduler;
+  if (existing?.expression === expression) {
+    return existing.stop;
+  }
+
+  const schedule = parseCronExpression(expression);
+  existing?.stop();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const waitUntil = (next: Date) => {
+    if (stopped) return;
+
+    const delay = next.getTime() - Date.now();
+    if (delay > MAX_TIMEOUT_MS) {
+      timer = setTimeout(() => waitUntil(next), MAX_TIMEOUT_MS);
+      return;
+    }
+    timer = setTimeout(() => void run(), Math.max(delay, 0));
+  };
+
+  const scheduleNext = () => {
+    const next = getNextCronTime(schedule, new Date());
+    console.log(`Next scheduled sync at ${next.toISOString()}`);
+    waitUntil(next);
+  };
+
+  const run = async () => {
+    console.log(`=== Scheduled Sync (${expression}) ===`);
+    try {
+      const outcomes = await runSyncs({ mode: options.mode });
+      for (const outcome of outcomes) {
+        console.log(
+          `${outcome.source}: ${outcome.status}${outcome.error ? ` (${outcome.error})` : ''}`
+        );
+      }
+    } catch (error) {
+      console.error('Error running scheduled sync:', error);
+    }
+    console.log('=== End Scheduled Sync ===');
+
+    scheduleNext();
+  };
+
+  const stop = () => {
+    stopped = true;
+    clearTimeout(timer);
+    if (globalForScheduler.syncScheduler?.stop === stop) {
+      globalForScheduler.syncScheduler = undefined;
+    }
+  };
+
+  globalForScheduler.syncScheduler = { expression, stop };
+  console.log(`Starting sync scheduler (${expression})`);
+  scheduleNext();
+
+  return stop;
+}
@@ -0,0 +1,387 @@
+/**
+ * Review Text Analysis
+ *
+ * Offline sentiment scoring and theme extraction for review text, with
+ * no external services or packages. Sentiment comes from a small bundled
+ * lexicon of hospitality vocabulary (weights -3 to +3), adjusted for
+ * negation ("not clean") and intensity ("very", "slightly"). Themes are
+ * recurring topics ("wifi", "noise", "check-in") found by keyword, each
+ * scored on the clause that mentions it, so "great location but noisy
+ * at night" counts as praise for location and a complaint about noise.
+ *
+ * Shared by the server and the dashboard.
+ */
+
+import type {
+  PropertyThemeInsights,
+  Review,
+  SentimentLabel,
+  SentimentScore,
+  TextAnalysis,
+  ThemeHighlight,
+  ThemeId,
+  ThemeMention,
+  ThemeSample,
+  ThemeSummary,
+} from '@/types';
+
+const LEXICON = new Map<string, number>(Object.entries({
+  // Positive
+  amazing: 3, awesome: 3, beautiful: 3, best: 3, brilliant: 3, delightful: 3,
+  excellent: 3, exceptional: 3, fabulous: 3, fantastic: 3, flawless: 3,
+  gorgeous: 3, immaculate: 3, incredible: 3, love: 3, loved: 3,
+  outstanding: 3, perfect: 3, perfectly: 3, spotless: 3, stunning: 3,
+  superb: 3, terrific: 3, unbeatable: 3, wonderful: 3,
+  accommodating: 2, attentive: 2, calm: 2, charming: 2, clean: 2,
+  comfortable: 2, comfy: 2, considerate: 2, convenient: 2, cosy: 2, cozy: 2,
+  enjoy: 2, enjoyed: 2, friendly: 2, gem: 2, good: 2, great: 2, happy: 2,
+  helpful: 2, impressive: 2, lovely: 2, nice: 2, peaceful: 2, pleasant: 2,
+  pleased: 2, prompt: 2, quiet: 2, recommend: 2, recommended: 2, relaxing: 2,
+  reliable: 2, respectful: 2, satisfied: 2, seamless: 2, smooth: 2,
+  spacious: 2, stylish: 2, thoughtful: 2, tidy: 2, welcoming: 2,
+  'well-equipped': 2, 'well-maintained': 2, worth: 2,
+  bright: 1, decent: 1, easy: 1, equipped: 1, fast: 1, fine: 1,
+  functional: 1, modern: 1, quick: 1, safe: 1, thanks: 1, warm: 1,
+
+  // Negative
+  awful: -3, cockroaches: -3, disgusting: -3, filthy: -3, horrible: -3,
+  mice: -3, nightmare: -3, rude: -3, terrible: -3, worst: -3,
+  annoying: -2, avoid: -2, bad: -2, broken: -2, bugs: -2, cramped: -2,
+  damp: -2, dirty: -2, disappointed: -2, disappointing: -2, dusty: -2,
+  freezing: -2, inconvenient: -2, issue: -2, issues: -2, leak: -2,
+  leaking: -2, mold: -2, mould: -2, noisy: -2, overpriced: -2, poor: -2,
+  problem: -2, problems: -2, smelly: -2, stained: -2, stains: -2,
+  uncomfortable: -2, unhelpful: -2, unreliable: -2, unresponsive: -2,
+  unsafe: -2, useless: -2, waste: -2,
+  cold: -1, complicated: -1, confusing: -1, dated: -1, delay: -1,
+  delayed: -1, difficult: -1, expensive: -1, lacking: -1, late: -1,
+  loud: -1, mediocre: -1, missing: -1, noise: -1, outdated: -1, sadly: -1,
+  slow: -1, small: -1, smell: -1, tiny: -1, unfortunately: -1, worn: -1,
+}));
+
+// Two-word entries take precedence over the single words they contain
+const PHRASE_LEXICON = new Map<string, number>(Object.entries({
+  'as described': 2,
+  'could benefit': -1,
+  'could use': -1,
+  "didn't work": -2,
+  "doesn't work": -2,
+  'not working': -2,
+  'stopped working': -2,
+  'took ages': -2,
+}));
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'without', 'hardly', 'cannot', "can't",
+  "isn't", "wasn't", "weren't", "aren't", "don't", "doesn't", "didn't",
+  "couldn't", "won't", "wouldn't",
+]);
+
+// Scale the next sentiment word
+const MODIFIERS = new Map<string, number>(Object.entries({
+  absolutely: 1.5, extremely: 1.75, highly: 1.5, incredibly: 1.5,
+  really: 1.5, so: 1.25, super: 1.5, very: 1.5,
+  bit: 0.5, little: 0.5, minor: 0.5, slightly: 0.5, somewhat: 0.5,
+}));
+
+// A negator flips the first sentiment word within this many words
+const NEGATION_WINDOW = 3;
+
+// "not great" is milder than "bad"
+const NEGATION_FACTOR = -0.75;
+
+// Example quotes kept per theme
+const MAX_SAMPLES = 3;
+
+/**
+ * Topics guests write about, matched by single words or two-word phrases
+ */
+export const THEMES: { id: ThemeId; label: string; keywords: string[] }[] = [
+  { id: 'wifi', label: 'Wi-Fi', keywords: ['wifi', 'wi-fi', 'internet', 'broadband', 'connection', 'signal'] },
+  { id: 'noise', label: 'Noise', keywords: ['noise', 'noisy', 'loud', 'quiet', 'neighbors', 'neighbours', 'traffic', 'soundproofing', 'thin walls'] },
+  { id: 'check-in', label: 'Check-in', keywords: ['check-in', 'checkin', 'check in', 'check-out', 'checkout', 'check out', 'keys', 'key', 'lockbox', 'arrival'] },
+  { id: 'cleanliness', label: 'Cleanliness', keywords: ['clean', 'cleanliness', 'cleaning', 'spotless', 'immaculate', 'tidy', 'dirty', 'filthy', 'dust', 'dusty', 'stains', 'stained', 'hygiene', 'mould', 'mold', 'smell', 'smelly'] },
+  { id: 'location', label: 'Location', keywords: ['location', 'located', 'neighborhood', 'neighbourhood', 'area', 'walking distance', 'transport', 'tube', 'station', 'central'] },
+  { id: 'communication', label: 'Host & communication', keywords: ['host', 'communication', 'communicate', 'responsive', 'unresponsive', 'response', 'replied'] },
+  { id: 'comfort', label: 'Bed & comfort', keywords: ['bed', 'beds', 'mattress', 'pillows', 'sofa', 'comfortable', 'uncomfortable', 'comfy', 'cozy', 'cosy'] },
+  { id: 'heating', label: 'Heating & cooling', keywords: ['heating', 'heater', 'radiator', 'radiators', 'air conditioning', 'aircon', 'cold', 'freezing', 'hot water'] },
+  { id: 'amenities', label: 'Kitchen & amenities', keywords: ['kitchen', 'amenities', 'appliances', 'equipped', 'well-equipped', 'towels', 'toiletries', 'washing machine', 'dishwasher', 'coffee'] },
+  { id: 'maintenance', label: 'Maintenance', keywords: ['maintenance', 'broken', 'repair', 'repairs', 'fix', 'fixed', 'leak', 'leaking', 'furniture', 'worn', 'outdated'] },
+  { id: 'parking', label: 'Parking', keywords: ['parking', 'car', 'garage'] },
+  { id: 'space', label: 'Space', keywords: ['space', 'spacious', 'small', 'cramped', 'tiny', 'size'] },
+  { id: 'value', label: 'Value for money', keywords: ['value', 'price', 'priced', 'expensive', 'overpriced', 'cheap', 'worth', 'money'] },
+];
+
+const THEME_LABELS = new Map(THEMES.map(theme => [theme.id, theme.label]));
+
+/**
+ * Split text into lowercase words
+ *
+ * Hyphenated words and contractions stay whole ("check-in", "didn't").
+ *
+ * @param text - Any text
+ * @returns Words in reading order
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) ?? [];
+}
+
+/**
+ * Score the sentiment of a piece of text
+ *
+ * @param text - Review text
+ * @returns Lexicon score, score per word and a label
+ */
+export function scoreSentiment(text: string): SentimentScore {
+  const tokens = tokenize(text);
+  const score = scoreTokens(tokens);
+
+  return {
+    score,
+    comparative: tokens.length > 0 ? round(score / tokens.length) : 0,
+    label: toSentimentLabel(score),
+  };
+}
+
+/**
+ * Analyze a review's text: overall sentiment and the themes it mentions
+ *
+ * A theme mentioned more than once is reported once, with the scores of
+ * its clauses added up and the sentence of the strongest one as quote.
+ *
+ * @param text - Review text
+ * @returns Sentiment and one mention per theme, in order of appearance
+ */
+export function analyzeReviewText(text: string): TextAnalysis {
+  const mentions = new Map<ThemeId, ThemeMention & { strength: number }>();
+
+  for (const sentence of splitSentences(text)) {
+    for (const clause of splitClauses(sentence)) {
+      const tokens = tokenize(clause);
+      const themes = findThemes(tokens);
+      if (themes.length === 0) continue;
+
+      const score = scoreTokens(tokens);
+      for (const theme of themes) {
+        const existing = mentions.get(theme);
+        if (!existing) {
+          mentions.set(theme, { theme, quote: sentence, score, strength: Math.abs(score) });
+          continue;
+        }
+
+        existing.score = round(existing.score + score);
+        if (Math.abs(score) > existing.strength) {
+          existing.quote = sentence;
+          existing.strength = Math.abs(score);
+        }
+      }
+    }
+  }
+
+  return {
+    sentiment: scoreSentiment(text),
+    mentions: Array.from(mentions.values(), ({ theme, quote, score }) => ({ theme, quote, score })),
+  };
+}
+
+/**
+ * Count how often each theme comes up across reviews
+ *
+ * @param reviews - Reviews to analyze
+ * @returns Mentioned themes, most mentioned first, with the strongest quotes
+ */
+export function extractThemes(reviews: Review[]): ThemeSummary[] {
+  return summarizeThemes(analyzeReviews(reviews));
+}
+
+/**
+ * Themes guests complain about or praise most often
+ *
+ * @param reviews - Reviews to analyze
+ * @param polarity - 'complaint' for negative mentions, 'praise' for positive
+ * @param limit - Maximum number of themes
+ * @returns Themes with their number of matching reviews and quotes
+ */
+export function getTopThemes(
+  reviews: Review[],
+  polarity: 'complaint' | 'praise',
+  limit = 3
+): ThemeHighlight[] {
+  return highlightThemes(analyzeReviews(reviews), polarity, limit);
+}
+
+/**
+ * Sentiment, top complaints and top praise for each property
+ *
+ * Only guest reviews with text are analyzed; host reviews of guests say
+ * nothing about the property.
+ *
+ * @param reviews - Reviews of any number of properties
+ * @param limit - Maximum number of complaints and of praised themes
+ * @returns One entry per property with guest reviews, by property name
+ */
+export function getPropertyThemeInsights(reviews: Review[], limit = 3): PropertyThemeInsights[] {
+  const byProperty = new Map<string, AnalyzedReview[]>();
+  for (const analyzed of analyzeReviews(reviews)) {
+    const group = byProperty.get(analyzed.review.propertyId) ?? [];
+    group.push(analyzed);
+    byProperty.set(analyzed.review.propertyId, group);
+  }
+
+  return Array.from(byProperty, ([propertyId, analyzed]) => {
+    const sentiment: Record<SentimentLabel, number> = { positive: 0, negative: 0, neutral: 0 };
+    analyzed.forEach(({ analysis }) => sentiment[analysis.sentiment.label]++);
+
+    return {
+      propertyId,
+      propertyName: analyzed[0].review.propertyName ?? propertyId,
+      analyzedReviews: analyzed.length,
+      sentiment,
+      topComplaints: highlightThemes(analyzed, 'complaint', limit),
+      topPraise: highlightThemes(analyzed, 'praise', limit),
+    };
+  }).sort((a, b) => a.propertyName.localeCompare(b.propertyName));
+}
+
+interface AnalyzedReview {
+  review: Review;
+  analysis: TextAnalysis;
+}
+
+function analyzeReviews(reviews: Review[]): AnalyzedReview[] {
+  return reviews
+    .filter(review => review.reviewType === 'guest-to-host' && review.publicReview.trim())
+    .map(review => ({ review, analysis: analyzeReviewText(review.publicReview) }));
+}
+
+function summarizeThemes(analyzed: AnalyzedReview[]): ThemeSummary[] {
+  const summaries = new Map<ThemeId, ThemeSummary>();
+
+  for (const { review, analysis } of analyzed) {
+    for (const mention of analysis.mentions) {
+      const summary = summaries.get(mention.theme) ?? {
+        theme: mention.theme,
+        label: THEME_LABELS.get(mention.theme) ?? mention.theme,
+        mentions: 0,
+        positive: 0,
+        negative: 0,
+        samples: [],
+      };
+
+      summary.mentions++;
+      if (mention.score > 0) summary.positive++;
+      if (mention.score < 0) summary.negative++;
+      summary.samples.push(toSample(review, mention));
+      summaries.set(mention.theme, summary);
+    }
+  }
+
+  return Array.from(summaries.values())
+    .map(summary => ({ ...summary, samples: strongestSamples(summary.samples) }))
+    .sort((a, b) => b.mentions - a.mentions || a.label.localeCompare(b.label));
+}
+
+function highlightThemes(
+  analyzed: AnalyzedReview[],
+  polarity: 'complaint' | 'praise',
+  limit: number
+): ThemeHighlight[] {
+  const sign = polarity === 'complaint' ? -1 : 1;
+  const samples = new Map<ThemeId, ThemeSample[]>();
+
+  for (const { review, analysis } of analyzed) {
+    for (const mention of analysis.mentions) {
+      if (Math.sign(mention.score) !== sign) continue;
+      samples.set(mention.theme, [...(samples.get(mention.theme) ?? []), toSample(review, mention)]);
+    }
+  }
+
+  return Array.from(samples, ([theme, themeSamples]) => ({
+    theme,
+    label: THEME_LABELS.get(theme) ?? theme,
+    count: themeSamples.length,
+    samples: strongestSamples(themeSamples),
+  }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+function toSample(review: Review, mention: ThemeMention): ThemeSample {
+  return {
+    reviewId: review.id,
+    guestName: review.guestName,
+    quote: mention.quote,
+    score: mention.score,
+  };
+}
+
+function strongestSamples(samples: ThemeSample[]): ThemeSample[] {
+  return [...samples]
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .slice(0, MAX_SAMPLES);
+}
+
+function scoreTokens(tokens: string[]): number {
+  let score = 0;
+  let negation = 0; // Words left in which a negator applies
+  let modifier = 1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    let weight = PHRASE_LEXICON.get(`${token} ${tokens[i + 1]}`);
+    if (weight !== undefined) {
+      i++;
+    } else {
+      weight = LEXICON.get(token);
+    }
+
+    if (weight === undefined) {
+      const scale = MODIFIERS.get(token);
+      if (scale !== undefined) {
+        modifier *= scale;
+        continue;
+      }
+
+      negation = NEGATORS.has(token) ? NEGATION_WINDOW : Math.max(0, negation - 1);
+      modifier = 1;
+      continue;
+    }
+
+    score += weight * modifier * (negation > 0 ? NEGATION_FACTOR : 1);
+    negation = 0;
+    modifier = 1;
+  }
+
+  return round(score);
+}
+
+function findThemes(tokens: string[]): ThemeId[] {
+  const text = ` ${tokens.join(' ')} `;
+  return THEMES
+    .filter(theme => theme.keywords.some(keyword => text.includes(` ${keyword} `)))
+    .map(theme => theme.id);
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]*/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Contrasts start a new clause: "great location, but noisy at night"
+function splitClauses(sentence: string): string[] {
+  return sentence.split(/[,;:]|\s[-–—]\s|\b(?:but|though|although|however|except|whereas)\b/i);
+}
+
+function toSentimentLabel(score: number): SentimentLabel {
+  if (score > 0) return 'positive';
+  if (score < 0) return 'negative';
+  return 'neutral';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,81 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff between two versions of a review, used to show
+ * managers what a guest changed. Uses a longest-common-subsequence
+ * table over words and whitespace, which is plenty for review-sized text.
+ */
+
+import type { TextDiffPart } from '@/types';
+
+// Above this many table cells, fall back to showing the whole text replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Diff two texts word by word
+ *
+ * @param before - Earlier text
+ * @param after - Later text
+ * @returns Segments in reading order; joining the 'same' and 'removed'
+ *   parts gives `before`, joining 'same' and 'added' gives `after`
+ */
+export function diffWords(before: string, after: string): TextDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeParts([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'removed', text: a[i++] });
+    } else {
+      parts.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) parts.push({ type: 'added', text: b[j++] });
+
+  return mergeParts(parts);
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function mergeParts(parts: TextDiffPart[]): TextDiffPart[] {
+  return parts.reduce<TextDiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (!part.text) return merged;
+
+    if (last && last.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
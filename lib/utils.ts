@@ -6,10 +6,20 @@
  */
 
 import type {
+  GoogleReview,
   HostawayReview,
   HostawayReviewCategory,
   Review,
+  ReviewFilters,
+  SortOptions,
 } from '@/types';
+import { resolveHostawayChannel } from './hostaway/channels';
+import {
+  getRatingScale,
+  HOSTAWAY_RATING_SCALE,
+  NORMALIZED_SCALE,
+  normalizeRating,
+} from './rating-scales';
 
 /**
  * Calculate average rating from category ratings
@@ -62,66 +72,256 @@ export function mapListingToPropertyId(listingName: string): string {
     .replace(/^-+|-+$/g, '');
 }
 
+/**
+ * Parse a Hostaway date string
+ *
+ * Hostaway returns dates like "2020-08-21 22:45:14" which not every
+ * runtime accepts, so this falls back to an ISO form with a 'T'.
+ *
+ * @param value - Date string from Hostaway
+ * @returns Date object, or null if the value cannot be parsed
+ */
+export function parseHostawayDate(value: string): Date | null {
+  if (!value) return null;
+
+  let date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    date = new Date(value.replace(' ', 'T'));
+  }
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * Normalize Hostaway review to internal format
  *
  * Transforms Hostaway API format to our internal Review type by:
  * - Converting ID to string format
  * - Mapping listing name to property ID
- * - Calculating average rating from categories (if not provided)
+ * - Deriving the channel (airbnb, booking...) from the Hostaway channel
+ * - Normalizing the rating from Hostaway's 0-10 scale, or
+ *   calculating it from the (0-10) categories if not provided
  * - Converting date strings to Date objects
  * - Setting default values for internal fields
  *
+ * Untrusted reviews should go through parseHostawayReview
+ * (lib/hostaway/validation.ts), which validates them first.
+ *
  * @param raw - Raw review data from Hostaway API
  * @returns Normalized Review object
+ * @throws Error if the rating is outside Hostaway's scale or the date is invalid
  */
 export function normalizeHostawayReview(raw: HostawayReview): Review {
+  const channel = resolveHostawayChannel(raw.channelId, raw.channelName);
+
   // Use the provided overall rating if available, otherwise calculate from categories
   // This ensures we display the actual rating given by the guest
-  let finalRating: number | null = raw.rating;
-
-  // Only calculate from categories if there's NO overall rating
-  if (finalRating === null || finalRating === undefined) {
-    finalRating = calculateAverageRating(raw.reviewCategory);
-  }
-
-  // Parse the date - handle both ISO and custom formats
-  let submittedDate: Date;
-  try {
-    // Try parsing the date string
-    submittedDate = new Date(raw.submittedAt);
-
-    // Check if the date is valid
-    if (isNaN(submittedDate.getTime())) {
-      // If invalid, try replacing space with 'T' for ISO format
-      submittedDate = new Date(raw.submittedAt.replace(' ', 'T'));
-    }
+  const rating =
+    raw.rating !== null && raw.rating !== undefined
+      ? normalizeRating(raw.rating, HOSTAWAY_RATING_SCALE)
+      : normalizeRating(calculateAverageRating(raw.reviewCategory), NORMALIZED_SCALE);
 
-    // If still invalid, use current date as fallback
-    if (isNaN(submittedDate.getTime())) {
-      console.warn(`Invalid date format for review ${raw.id}: ${raw.submittedAt}`);
-      submittedDate = new Date();
-    }
-  } catch (error) {
-    console.warn(`Error parsing date for review ${raw.id}:`, error);
-    submittedDate = new Date();
+  // Parse the date - handle both ISO and custom formats. A made-up date
+  // would skew trends, so an invalid one fails the review instead
+  const submittedDate = parseHostawayDate(raw.submittedAt);
+  if (!submittedDate) {
+    throw new Error(`Invalid submittedAt for review ${raw.id}: ${raw.submittedAt}`);
   }
 
   return {
     id: raw.id.toString(),
     propertyId: mapListingToPropertyId(raw.listingName),
     guestName: raw.guestName || 'Anonymous',
-    rating: finalRating,
+    ...rating,
     publicReview: raw.publicReview || '',
-    channel: 'hostaway',
+    channel,
     reviewType: raw.type,
     status: raw.status,
     displayOnWebsite: false,
+    moderationStatus: 'new',
     categories: raw.reviewCategory || [],
     submittedAt: submittedDate,
+    listingMapId: raw.listingMapId ?? null,
+    propertyName: raw.listingName,
+    sourceChannelId: raw.channelId ?? null,
+    sourceChannelName: raw.channelName ?? null,
   };
 }
 
+/**
+ * Check whether a review came from Hostaway
+ *
+ * Hostaway reviews keep Hostaway's numeric review ID as their ID (see
+ * normalizeHostawayReview); Google and imported reviews use prefixed IDs.
+ *
+ * @param reviewId - Our review ID
+ * @returns True if the review can be replied to through Hostaway
+ */
+export function isHostawayReviewId(reviewId: string): boolean {
+  return /^\d+$/.test(reviewId);
+}
+
+/**
+ * Normalize Google Places review to internal format
+ *
+ * Transforms a Google Places API (New) review to our internal Review type by:
+ * - Prefixing the review ID with 'google-' so it cannot clash with Hostaway IDs
+ * - Converting the 1-5 star rating to our 0-10 scale, keeping the stars
+ * - Using the author's display name as the guest name
+ * - Converting publishTime to a Date object
+ *
+ * Google reviews are always public guest reviews with no category breakdown.
+ *
+ * @param raw - Raw review data from Google Places API
+ * @param propertyId - Property the reviewed place is mapped to
+ * @returns Normalized Review object
+ * @throws Error if the review has no ID, an invalid publish time or rating
+ */
+export function normalizeGoogleReview(raw: GoogleReview, propertyId: string): Review {
+  const reviewId = raw.name?.split('/').pop();
+  if (!reviewId) {
+    throw new Error('Google review is missing its name');
+  }
+
+  const submittedAt = new Date(raw.publishTime);
+  if (isNaN(submittedAt.getTime())) {
+    throw new Error(`Invalid publishTime for Google review ${reviewId}: ${raw.publishTime}`);
+  }
+
+  const rating = normalizeRating(
+    typeof raw.rating === 'number' ? raw.rating : null,
+    getRatingScale('google')
+  );
+
+  return {
+    id: `google-${reviewId}`,
+    propertyId,
+    guestName: raw.authorAttribution?.displayName || 'Anonymous',
+    ...rating,
+    publicReview: raw.text?.text || raw.originalText?.text || '',
+    channel: 'google',
+    reviewType: 'guest-to-host',
+    status: 'published',
+    displayOnWebsite: false,
+    moderationStatus: 'new',
+    categories: [],
+    submittedAt,
+  };
+}
+
+/**
+ * Sort reviews by a field
+ *
+ * Null ratings sort below every rating. Strings are compared case-insensitively.
+ *
+ * @param reviews - Reviews to sort (not modified)
+ * @param sort - Sort field and direction
+ * @returns New sorted array
+ */
+export function sortReviews(reviews: Review[], sort: SortOptions): Review[] {
+  return [...reviews].sort((a, b) => {
+    let aValue: any = a[sort.field];
+    let bValue: any = b[sort.field];
+
+    // Handle null ratings
+    if (sort.field === 'rating') {
+      aValue = aValue ?? -1;
+      bValue = bValue ?? -1;
+    }
+
+    // Handle dates
+    if (sort.field === 'submittedAt') {
+      aValue = new Date(aValue).getTime();
+      bValue = new Date(bValue).getTime();
+    }
+
+    // Handle strings
+    if (typeof aValue === 'string') {
+      aValue = aValue.toLowerCase();
+      bValue = bValue.toLowerCase();
+    }
+
+    if (sort.direction === 'asc') {
+      return aValue > bValue ? 1 : -1;
+    } else {
+      return aValue < bValue ? 1 : -1;
+    }
+  });
+}
+
+/**
+ * Filter reviews in memory
+ *
+ * Matches the same reviews as the database query of getReviewsPage,
+ * for when reviews come from mock data.
+ *
+ * @param reviews - Reviews to filter (not modified)
+ * @param filters - Filter criteria
+ * @returns Matching reviews, in their original order
+ */
+export function filterReviews(reviews: Review[], filters: ReviewFilters): Review[] {
+  const search = filters.search?.toLowerCase();
+
+  return reviews.filter(review => {
+    const submittedAt = new Date(review.submittedAt);
+    const categoryRating = filters.category
+      ? review.categories.find(c => c.category === filters.category)?.rating
+      : undefined;
+
+    if (filters.propertyId && review.propertyId !== filters.propertyId) return false;
+    if (filters.propertyIds && !filters.propertyIds.includes(review.propertyId)) return false;
+    if (filters.channel && review.channel !== filters.channel) return false;
+    if (filters.status && review.status !== filters.status) return false;
+    if (filters.reviewType && filters.reviewType !== 'all' && review.reviewType !== filters.reviewType) {
+      return false;
+    }
+    if (filters.displayOnWebsite !== undefined && review.displayOnWebsite !== filters.displayOnWebsite) {
+      return false;
+    }
+    if (
+      filters.needsReapproval !== undefined &&
+      (review.needsReapproval ?? false) !== filters.needsReapproval
+    ) {
+      return false;
+    }
+    if (filters.moderationStatus?.length && !filters.moderationStatus.includes(review.moderationStatus)) {
+      return false;
+    }
+
+    // Reviews without a rating never match a rating bound
+    if (filters.minRating !== undefined && (review.rating === null || review.rating < filters.minRating)) {
+      return false;
+    }
+    if (filters.maxRating !== undefined && (review.rating === null || review.rating > filters.maxRating)) {
+      return false;
+    }
+
+    if (filters.dateFrom && submittedAt < filters.dateFrom) return false;
+    if (filters.dateTo && submittedAt > filters.dateTo) return false;
+
+    if (filters.category) {
+      if (categoryRating === undefined) return false;
+      if (filters.categoryMinRating !== undefined && categoryRating < filters.categoryMinRating) {
+        return false;
+      }
+      if (filters.categoryMaxRating !== undefined && categoryRating > filters.categoryMaxRating) {
+        return false;
+      }
+    }
+
+    if (
+      search &&
+      !review.guestName.toLowerCase().includes(search) &&
+      !review.publicReview.toLowerCase().includes(search)
+    ) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
 /**
  * Format date for display
  *
@@ -137,6 +337,48 @@ export function formatDate(date: Date | string): string {
   });
 }
 
+/**
+ * Format date and time for display
+ *
+ * @param date - Date object or ISO string
+ * @returns Formatted date and time string (e.g., "Jan 15, 2024, 2:30 PM")
+ */
+export function formatDateTime(date: Date | string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format how long ago a time was
+ *
+ * @param date - Date object or ISO string
+ * @param now - Time to measure from (defaults to the current time)
+ * @returns Relative time string (e.g., "just now", "5 minutes ago", "2 days ago")
+ */
+export function formatTimeAgo(date: Date | string, now: Date = new Date()): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const minutes = Math.floor((now.getTime() - d.getTime()) / 60000);
+
+  if (minutes < 1) return 'just now';
+
+  if (minutes < 60) return pluralizeAgo(minutes, 'minute');
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return pluralizeAgo(hours, 'hour');
+
+  return pluralizeAgo(Math.floor(hours / 24), 'day');
+}
+
+function pluralizeAgo(count: number, unit: string): string {
+  return `${count} ${unit}${count !== 1 ? 's' : ''} ago`;
+}
+
 /**
  * Format rating for display
  *
@@ -0,0 +1,78 @@
+/**
+ * Authentication Middleware
+ *
+ * Keeps signed-out visitors away from the manager dashboard, the routes
+ * that change data and the ones that list stored or Google reviews. Dashboard pages redirect to
+ * /login; API routes respond with 401 (not signed in) or 403 (role not
+ * allowed).
+ *
+ * Server actions check permissions themselves (see app/actions.ts), as
+ * they can be posted to any page.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session';
+import { hasPermission } from '@/lib/permissions';
+import type { Permission } from '@/types';
+
+// Permission needed for each protected API route
+const API_PERMISSIONS: Record<string, Permission> = {
+  '/api/reviews/hostaway/sync': 'reviews:sync',
+  '/api/reviews/hostaway/backfill-channels': 'reviews:sync',
+  '/api/reviews/google/sync': 'reviews:sync',
+  '/api/reviews': 'reviews:read',
+  '/api/reviews/google': 'reviews:read',
+  '/api/reviews/export': 'reviews:read',
+};
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (pathname.startsWith('/api/')) {
+    if (!session) {
+      return errorResponse(401, 'Unauthorized', 'Sign in to use this endpoint');
+    }
+    const permission = API_PERMISSIONS[pathname];
+    if (permission && !hasPermission(session.role, permission)) {
+      return errorResponse(403, 'Forbidden', `Your role (${session.role}) does not allow ${permission}`);
+    }
+    return NextResponse.next();
+  }
+
+  if (!session) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return NextResponse.next();
+}
+
+function errorResponse(status: number, error: string, message: string) {
+  return NextResponse.json(
+    {
+      status: 'error',
+      error,
+      message,
+    },
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+export const config = {
+  matcher: [
+    '/dashboard/:path*',
+    '/api/reviews',
+    '/api/reviews/google',
+    '/api/reviews/hostaway/sync',
+    '/api/reviews/hostaway/backfill-channels',
+    '/api/reviews/google/sync',
+    '/api/reviews/export',
+  ],
+};
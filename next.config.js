@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Runs instrumentation.ts on startup, which starts the sync scheduler
+    instrumentationHook: true,
+  },
+}
 
 module.exports = nextConfig
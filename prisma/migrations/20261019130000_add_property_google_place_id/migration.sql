@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "googlePlaceId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Property_googlePlaceId_key" ON "Property"("googlePlaceId");
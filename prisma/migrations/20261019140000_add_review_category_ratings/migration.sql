@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "ReviewCategoryRating" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "rating" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "ReviewCategoryRating_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewCategoryRating_reviewId_category_key" ON "ReviewCategoryRating"("reviewId", "category");
+
+-- CreateIndex
+CREATE INDEX "ReviewCategoryRating_category_rating_idx" ON "ReviewCategoryRating"("category", "rating");
+
+-- AddForeignKey
+ALTER TABLE "ReviewCategoryRating" ADD CONSTRAINT "ReviewCategoryRating_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the JSON categories column. Entries without a category
+-- or numeric rating are dropped; duplicate categories keep the first.
+INSERT INTO "ReviewCategoryRating" ("id", "reviewId", "category", "rating")
+SELECT DISTINCT ON (r."id", c.value->>'category')
+    gen_random_uuid()::text,
+    r."id",
+    c.value->>'category',
+    (c.value->>'rating')::double precision
+FROM "Review" r
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(r."categories"::jsonb) = 'array' THEN r."categories"::jsonb ELSE '[]'::jsonb END
+) WITH ORDINALITY AS c(value, position)
+WHERE c.value->>'category' IS NOT NULL
+  AND jsonb_typeof(c.value->'rating') = 'number'
+ORDER BY r."id", c.value->>'category', c.position;
+
+-- AlterTable
+ALTER TABLE "Review" DROP COLUMN "categories";
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "slug" TEXT,
+ADD COLUMN "listingMapId" INTEGER,
+ADD COLUMN "address" TEXT,
+ADD COLUMN "bedrooms" INTEGER,
+ADD COLUMN "heroImage" TEXT;
+
+-- Existing property IDs are slugs of the listing name. Hostaway listing
+-- IDs and metadata are filled in by the next Hostaway sync.
+UPDATE "Property" SET "slug" = "id";
+
+ALTER TABLE "Property" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Property_slug_key" ON "Property"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Property_listingMapId_key" ON "Property"("listingMapId");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "moderationStatus" TEXT NOT NULL DEFAULT 'new',
+ADD COLUMN "moderationReason" TEXT,
+ADD COLUMN "moderationNote" TEXT,
+ADD COLUMN "moderatedBy" TEXT,
+ADD COLUMN "moderatedAt" TIMESTAMP(3);
+
+-- Reviews already selected for the website count as approved
+UPDATE "Review" SET "moderationStatus" = 'approved' WHERE "displayOnWebsite" = true;
+
+-- CreateIndex
+CREATE INDEX "Review_moderationStatus_idx" ON "Review"("moderationStatus");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PropertyAssignment" (
+    "userId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PropertyAssignment_pkey" PRIMARY KEY ("userId","propertyId")
+);
+
+-- CreateIndex
+CREATE INDEX "PropertyAssignment_propertyId_idx" ON "PropertyAssignment"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "PropertyAssignment" ADD CONSTRAINT "PropertyAssignment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyAssignment" ADD CONSTRAINT "PropertyAssignment_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ReviewResponse" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "author" TEXT NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "pushedToHostawayAt" TIMESTAMP(3),
+    "hostawayError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewResponse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewResponse_reviewId_key" ON "ReviewResponse"("reviewId");
+
+-- AddForeignKey
+ALTER TABLE "ReviewResponse" ADD CONSTRAINT "ReviewResponse_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "assignedTo" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReviewTag" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_assignedTo_idx" ON "Review"("assignedTo");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewTag_reviewId_tag_key" ON "ReviewTag"("reviewId", "tag");
+
+-- CreateIndex
+CREATE INDEX "ReviewTag_tag_idx" ON "ReviewTag"("tag");
+
+-- AddForeignKey
+ALTER TABLE "ReviewTag" ADD CONSTRAINT "ReviewTag_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
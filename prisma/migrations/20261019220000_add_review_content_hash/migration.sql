@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "contentHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN "inserted" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "updated" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "unchanged" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "needsReapproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ReviewRevision" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "guestName" TEXT NOT NULL,
+    "rating" DOUBLE PRECISION,
+    "publicReview" TEXT NOT NULL,
+    "categories" TEXT NOT NULL DEFAULT '[]',
+    "submittedAt" TIMESTAMP(3) NOT NULL,
+    "replacedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_needsReapproval_idx" ON "Review"("needsReapproval");
+
+-- CreateIndex
+CREATE INDEX "ReviewRevision_reviewId_replacedAt_idx" ON "ReviewRevision"("reviewId", "replacedAt");
+
+-- AddForeignKey
+ALTER TABLE "ReviewRevision" ADD CONSTRAINT "ReviewRevision_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "sourceChannelId" INTEGER,
+ADD COLUMN "sourceChannelName" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Review_channel_idx" ON "Review"("channel");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "rawRating" DOUBLE PRECISION,
+ADD COLUMN "ratingScale" INTEGER;
+
+-- Existing ratings were stored on the 0-10 scale
+UPDATE "Review" SET "rawRating" = "rating", "ratingScale" = 10 WHERE "rating" IS NOT NULL;
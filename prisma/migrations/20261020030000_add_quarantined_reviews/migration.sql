@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "SyncRun" ADD COLUMN "quarantined" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "QuarantinedReview" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "sourceReviewId" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "fixedPayload" TEXT,
+    "errors" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'quarantined',
+    "syncRunId" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+
+    CONSTRAINT "QuarantinedReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuarantinedReview_source_sourceReviewId_key" ON "QuarantinedReview"("source", "sourceReviewId");
+
+-- CreateIndex
+CREATE INDEX "QuarantinedReview_status_lastSeenAt_idx" ON "QuarantinedReview"("status", "lastSeenAt");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN "propertyId" TEXT;
+
+-- Backfill from the saved review, where there is one; the rest stay
+-- visible to admins only
+UPDATE "WebhookEvent" AS w
+SET "propertyId" = r."propertyId"
+FROM "Review" AS r
+WHERE r."id" = w."reviewId";
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_propertyId_idx" ON "WebhookEvent"("propertyId");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "QuarantinedReview" ADD COLUMN "propertyId" TEXT;
+
+-- Backfill from the Hostaway listing ID in the payload, where a property
+-- has it; the rest stay visible to admins only
+UPDATE "QuarantinedReview" AS q
+SET "propertyId" = p."id"
+FROM "Property" AS p
+WHERE jsonb_typeof(q."payload"::jsonb -> 'listingMapId') = 'number'
+  AND p."listingMapId"::text = q."payload"::jsonb ->> 'listingMapId';
+
+-- CreateIndex
+CREATE INDEX "QuarantinedReview_propertyId_idx" ON "QuarantinedReview"("propertyId");
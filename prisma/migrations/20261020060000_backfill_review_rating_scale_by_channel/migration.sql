@@ -0,0 +1,3 @@
+-- Google reviews were stored normalized from 1-5 stars, not on the 0-10 scale
+UPDATE "Review" SET "rawRating" = "rating" / 2, "ratingScale" = 5
+WHERE "channel" = 'google' AND "rating" IS NOT NULL AND "ratingScale" = 10;
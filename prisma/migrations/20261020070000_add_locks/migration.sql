@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "Lock" (
+    "name" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Lock_pkey" PRIMARY KEY ("name")
+);
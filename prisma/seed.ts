@@ -6,7 +6,12 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
 import mockData from '../lib/mock-reviews.json';
+import { hashPassword } from '../lib/password';
+import { resolveHostawayChannel } from '../lib/hostaway/channels';
+import { HOSTAWAY_RATING_SCALE, NORMALIZED_SCALE, normalizeRating } from '../lib/rating-scales';
 
 const prisma = new PrismaClient();
 
@@ -23,49 +28,88 @@ function normalizeHostawayReview(raw: any): any {
     throw new Error(`Review ${raw.id} missing listingName/listingMapName field`);
   }
 
-  const propertyId = listingName
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
+  const propertyId = toSlug(listingName);
+  const channel = resolveHostawayChannel(raw.channelId, raw.channelName);
 
-  // Use the provided overall rating if available, otherwise calculate from categories
-  let finalRating: number | null = raw.rating;
+  // Use the provided overall rating (on Hostaway's 0-10 scale) if available,
+  // otherwise calculate from the 0-10 categories
+  let finalRating = normalizeRating(raw.rating, HOSTAWAY_RATING_SCALE);
 
   // Only calculate from categories if there's NO overall rating
-  if (finalRating === null || finalRating === undefined) {
+  if (finalRating.rating === null) {
     const ratings = raw.reviewCategory
       .filter((cat: any) => cat.rating !== null)
       .map((cat: any) => cat.rating);
 
-    finalRating = ratings.length > 0
-      ? ratings.reduce((sum: number, r: number) => sum + r, 0) / ratings.length
-      : null;
+    finalRating = normalizeRating(
+      ratings.length > 0
+        ? ratings.reduce((sum: number, r: number) => sum + r, 0) / ratings.length
+        : null,
+      NORMALIZED_SCALE
+    );
   }
 
   return {
     id: raw.id.toString(),
     propertyId,
     guestName: raw.guestName,
-    rating: finalRating,
+    ...finalRating,
     publicReview: raw.publicReview,
-    channel: 'hostaway',
+    channel,
+    sourceChannelId: raw.channelId ?? null,
+    sourceChannelName: raw.channelName ?? null,
     reviewType: raw.type,
     status: raw.status,
     displayOnWebsite: false,
     categories: raw.reviewCategory,
     submittedAt: new Date(raw.submittedAt),
+    listingMapId: raw.listingMapId ?? null,
+    propertyName: listingName,
   };
 }
 
 /**
- * Get property name from property ID
+ * Convert a name to a kebab-case slug
+ */
+function toSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Find the hero image under public/properties/ for a listing name
+ * (Duplicated from lib/listings.ts to avoid import issues in seed script)
  */
-function getPropertyNameFromId(propertyId: string): string {
-  return propertyId
-    .split('-')
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
+function findHeroImage(listingName: string): string | null {
+  const images = fs.readdirSync(path.join(__dirname, '..', 'public', 'properties'));
+  const file = images.find((image) => toSlug(path.parse(image).name) === toSlug(listingName));
+  return file ? `/properties/${file}` : null;
+}
+
+/**
+ * Create or update the first admin user from SEED_ADMIN_EMAIL and
+ * SEED_ADMIN_PASSWORD, so someone can sign in to the dashboard
+ */
+async function seedAdminUser() {
+  const email = process.env.SEED_ADMIN_EMAIL?.trim().toLowerCase();
+  const password = process.env.SEED_ADMIN_PASSWORD;
+
+  if (!email || !password) {
+    console.log('SEED_ADMIN_EMAIL/SEED_ADMIN_PASSWORD not set, skipping admin user');
+    return;
+  }
+
+  const passwordHash = await hashPassword(password);
+  await prisma.user.upsert({
+    where: { email },
+    create: { email, name: 'Admin', passwordHash, role: 'admin' },
+    update: { passwordHash, role: 'admin' },
+  });
+
+  console.log(`Admin user ready: ${email}`);
 }
 
 async function main() {
@@ -73,6 +117,7 @@ async function main() {
 
   // Clear existing data
   console.log('Clearing existing data...');
+  await prisma.reviewCategoryRating.deleteMany();
   await prisma.review.deleteMany();
   await prisma.property.deleteMany();
 
@@ -100,7 +145,7 @@ async function main() {
   let totalReviewsCreated = 0;
 
   for (const [propertyId, propertyReviews] of reviewsByProperty) {
-    const propertyName = getPropertyNameFromId(propertyId);
+    const propertyName = propertyReviews[0].propertyName;
 
     console.log(`Creating property: ${propertyName} (${propertyReviews.length} reviews)`);
 
@@ -109,6 +154,9 @@ async function main() {
       data: {
         id: propertyId,
         name: propertyName,
+        slug: propertyId,
+        listingMapId: propertyReviews[0].listingMapId,
+        heroImage: findHeroImage(propertyName),
       },
     });
 
@@ -120,12 +168,20 @@ async function main() {
           propertyId: review.propertyId,
           guestName: review.guestName,
           rating: review.rating,
+          rawRating: review.rawRating,
+          ratingScale: review.ratingScale,
           publicReview: review.publicReview,
           channel: review.channel,
+          sourceChannelId: review.sourceChannelId,
+          sourceChannelName: review.sourceChannelName,
           reviewType: review.reviewType,
           status: review.status,
           displayOnWebsite: review.displayOnWebsite,
-          categories: JSON.stringify(review.categories),
+          categoryRatings: {
+            create: review.categories
+              .filter((cat: any) => cat.rating !== null)
+              .map((cat: any) => ({ category: cat.category, rating: cat.rating })),
+          },
           submittedAt: review.submittedAt,
         },
       });
@@ -133,6 +189,8 @@ async function main() {
     }
   }
 
+  await seedAdminUser();
+
   console.log(`✅ Seed completed successfully!`);
   console.log(`   Properties created: ${reviewsByProperty.size}`);
   console.log(`   Reviews created: ${totalReviewsCreated}`);
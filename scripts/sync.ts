@@ -0,0 +1,112 @@
+/**
+ * Review Sync CLI
+ *
+ * Syncs reviews from every configured source (Hostaway, Google) once,
+ * or keeps running them on a cron schedule. Suitable for a system cron
+ * job or a worker process.
+ *
+ * Run with:
+ *   npm run sync
+ *   npm run sync -- --source hostaway --mode full
+ *   npm run sync -- --cron "*\/15 * * * *"
+ *
+ * Options:
+ * - --source: source to sync; repeat for several (default: all configured)
+ * - --mode: 'incremental' (default) or 'full'
+ * - --cron: keep running, syncing on this schedule (UTC)
+ *
+ * Exits with code 1 if any source failed. A source skipped because
+ * another process is syncing it is not a failure.
+ */
+
+import { prisma } from '../lib/prisma';
+import { getConfiguredSyncSources, isSyncSource, runSyncs } from '../lib/sync-runner';
+import { startSyncScheduler } from '../lib/sync-scheduler';
+import type { SyncMode, SyncSource } from '../types';
+
+interface SyncCliOptions {
+  sources: SyncSource[];
+  mode: SyncMode;
+  cron: string | null;
+}
+
+function parseArgs(args: string[]): SyncCliOptions {
+  const options: SyncCliOptions = { sources: [], mode: 'incremental', cron: null };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+
+    switch (args[i]) {
+      case '--source':
+        if (!value || !isSyncSource(value)) {
+          throw new Error(`Unknown source "${value ?? ''}"; expected hostaway or google`);
+        }
+        options.sources.push(value);
+        i++;
+        break;
+      case '--mode':
+        if (value !== 'full' && value !== 'incremental') {
+          throw new Error(`Invalid mode "${value ?? ''}"; expected full or incremental`);
+        }
+        options.mode = value;
+        i++;
+        break;
+      case '--cron':
+        if (!value) {
+          throw new Error('--cron needs a cron expression');
+        }
+        options.cron = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown option "${args[i]}"`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.cron) {
+    // Keeps the process alive until it is stopped
+    startSyncScheduler(options.cron, { mode: options.mode });
+    return;
+  }
+
+  try {
+    const sources = options.sources.length > 0 ? options.sources : getConfiguredSyncSources();
+    if (sources.length === 0) {
+      console.log('No review sources configured; set HOSTAWAY_ACCOUNT_ID/HOSTAWAY_API_KEY or GOOGLE_API_KEY');
+      return;
+    }
+
+    const outcomes = await runSyncs({ sources, mode: options.mode });
+
+    for (const outcome of outcomes) {
+      if (outcome.status === 'success' && outcome.result) {
+        const { fetched, inserted, updated, unchanged, failed } = outcome.result;
+        console.log(
+          `✅ ${outcome.source}: ${fetched} fetched, ${inserted} new, ${updated} updated, ` +
+            `${unchanged} unchanged, ${failed} failed`
+        );
+      } else if (outcome.status === 'locked') {
+        console.log(`⏭️  ${outcome.source}: skipped, another sync is running`);
+      } else {
+        console.error(`❌ ${outcome.source}: ${outcome.error}`);
+      }
+    }
+
+    if (outcomes.some((outcome) => outcome.status === 'failed')) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Sync failed:', e);
+  process.exit(1);
+});
@@ -31,6 +31,19 @@ export interface HostawayReview {
   submittedAt: string; // ISO date string
   guestName: string;
   listingName: string;
+  listingMapId?: number; // Stable Hostaway listing ID; survives listing renames
+  channelId?: number | null; // Hostaway channel the review came through, e.g. 2018 (Airbnb)
+  channelName?: string | null; // Channel name, on accounts that report it
+}
+
+/**
+ * Raw listing data from the Hostaway listings API
+ */
+export interface HostawayListing {
+  id: number;
+  name: string;
+  address?: string | null;
+  bedroomsNumber?: number | null;
 }
 
 /**
@@ -39,6 +52,48 @@ export interface HostawayReview {
 export interface HostawayApiResponse {
   status: 'success' | 'error';
   result: HostawayReview[];
+  count?: number; // Total number of reviews available
+  limit?: number;
+  offset?: number;
+}
+
+// ============================================================================
+// Google Places API Types (Raw API Response)
+// ============================================================================
+
+/**
+ * Localized text object from Google Places API
+ */
+export interface GoogleLocalizedText {
+  text: string;
+  languageCode: string;
+}
+
+/**
+ * Raw review data structure from Google Places API (New)
+ */
+export interface GoogleReview {
+  name: string; // places/{placeId}/reviews/{reviewId}
+  relativePublishTimeDescription: string;
+  rating: number; // 1-5
+  text?: GoogleLocalizedText;
+  originalText?: GoogleLocalizedText;
+  authorAttribution: {
+    displayName: string;
+    uri?: string;
+    photoUri?: string;
+  };
+  publishTime: string; // ISO 8601 timestamp
+}
+
+/**
+ * Place Details response from GET places/{placeId}
+ */
+export interface GooglePlaceDetailsResponse {
+  id: string;
+  displayName?: GoogleLocalizedText;
+  rating?: number;
+  reviews?: GoogleReview[];
 }
 
 // ============================================================================
@@ -61,14 +116,29 @@ export interface Review {
   id: string;
   propertyId: string;
   guestName: string;
-  rating: number | null;
+  rating: number | null; // Normalized to 0-10
+  rawRating?: number | null; // Rating as given at the source, on ratingScale
+  ratingScale?: number | null; // Top of the source scale, e.g. 5 for Airbnb stars
   publicReview: string;
-  channel: string; // e.g., 'hostaway', 'airbnb', 'booking'
+  channel: string; // e.g., 'hostaway', 'airbnb', 'booking', 'google'
   reviewType: 'host-to-guest' | 'guest-to-host';
-  status: string;
-  displayOnWebsite: boolean;
+  status: string; // Status at the source channel, e.g. 'published'
+  displayOnWebsite: boolean; // Mirrors moderationStatus === 'approved'
+  moderationStatus: ModerationStatus;
+  moderationReason?: RejectionReason | null;
+  moderationNote?: string | null;
+  moderatedBy?: string | null;
+  moderatedAt?: Date | null;
+  assignedTo?: string | null; // Email of the user following the review up
+  tags?: string[]; // Lowercase labels added by managers
+  needsReapproval?: boolean; // Text changed at the source while approved
   categories: ReviewCategory[];
+  response?: ReviewResponse | null; // Management reply, if one has been written
   submittedAt: Date;
+  listingMapId?: number | null; // Hostaway listing the review belongs to, if known
+  propertyName?: string; // Listing display name at the source, used to create/rename the property
+  sourceChannelId?: number | null; // Channel as reported by Hostaway, kept so channels can be remapped
+  sourceChannelName?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -77,13 +147,45 @@ export interface Review {
  * Property data structure
  */
 export interface Property {
-  id: string;
-  name: string;
+  id: string; // Stable internal ID; never changes when the listing is renamed
+  name: string; // Original listing display name
+  slug: string; // URL slug derived from the current name
+  listingMapId?: number | null; // Hostaway listing ID
+  address?: string | null;
+  bedrooms?: number | null;
+  heroImage?: string | null; // Public path of an image under public/properties/
+  googlePlaceId?: string | null;
   reviews?: Review[];
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// ============================================================================
+// Rating Scale Types
+// ============================================================================
+
+/**
+ * Range of the ratings a channel gives, e.g. 1-5 stars
+ */
+export interface RatingScale {
+  min: number;
+  max: number;
+}
+
+/**
+ * Rating of a review on its source scale and normalized to 0-10
+ */
+export interface NormalizedRating {
+  rating: number | null;
+  rawRating: number | null;
+  ratingScale: number | null;
+}
+
+/**
+ * Whether the dashboard shows ratings as given at the source or on 0-10
+ */
+export type RatingDisplay = 'native' | 'normalized';
+
 // ============================================================================
 // UI/Component Types
 // ============================================================================
@@ -93,6 +195,7 @@ export interface Property {
  */
 export interface ReviewFilters {
   propertyId?: string;
+  propertyIds?: string[]; // Only reviews of these properties (a manager's assignments)
   channel?: string;
   reviewType?: 'host-to-guest' | 'guest-to-host' | 'all';
   minRating?: number;
@@ -101,6 +204,12 @@ export interface ReviewFilters {
   dateTo?: Date;
   status?: string;
   displayOnWebsite?: boolean;
+  moderationStatus?: ModerationStatus[]; // Matches any of the given states
+  search?: string; // Matches guest name or review text
+  category?: string; // Only reviews rated in this category (e.g., cleanliness)
+  categoryMinRating?: number; // Bounds on the category rating; require category
+  categoryMaxRating?: number;
+  needsReapproval?: boolean; // Only published reviews the guest has since edited
 }
 
 /**
@@ -123,6 +232,16 @@ export interface ReviewStatistics {
   reviewsByChannel: Record<string, number>;
   reviewsByType: Record<string, number>;
   selectedForWebsite: number;
+  categoryAverages: Record<string, number>; // Rounded to 1 decimal
+  recentReviews: number; // Submitted in the last 7 days
+}
+
+/**
+ * Values the dashboard filters offer, from the reviews a user can see
+ */
+export interface ReviewFilterOptions {
+  channels: string[];
+  categories: string[];
 }
 
 /**
@@ -131,13 +250,709 @@ export interface ReviewStatistics {
 export interface PropertyPerformance {
   propertyId: string;
   propertyName: string;
+  slug?: string;
+  heroImage?: string | null;
   totalReviews: number;
   averageRating: number;
   categoryRatings: Record<string, number>;
-  recentTrends: {
-    direction: 'up' | 'down';
-    percentage: number;
-  };
+  recentTrends: RatingTrend | null; // Last 30 days vs the 30 before; null without ratings in both
+}
+
+// ============================================================================
+// Analytics Types
+// ============================================================================
+
+/**
+ * Length of an analytics bucket; weeks start on Monday (UTC)
+ */
+export type AnalyticsPeriod = 'week' | 'month';
+
+/**
+ * Rating analytics request
+ * - from, to: inclusive date range as YYYY-MM-DD (UTC)
+ * - compare: also summarize the equally long range just before `from`
+ */
+export interface AnalyticsQuery {
+  period: AnalyticsPeriod;
+  from: string;
+  to: string;
+  propertyId?: string;
+  channel?: string;
+  compare: boolean;
+}
+
+/**
+ * Review count and average ratings of a set of reviews
+ */
+export interface RatingSummary {
+  reviewCount: number;
+  averageRating: number | null; // Null when no review has a rating
+  categoryAverages: Record<string, number>;
+}
+
+/**
+ * Ratings of reviews submitted in one week or month
+ */
+export interface RatingBucket extends RatingSummary {
+  start: string; // First day of the period, YYYY-MM-DD
+}
+
+/**
+ * Buckets of one slice of reviews (all, a property or a channel)
+ */
+export interface RatingSeries {
+  key: string; // 'all', a property ID or a channel
+  label: string;
+  summary: RatingSummary;
+  buckets: RatingBucket[];
+}
+
+/**
+ * Change of the average rating between two ranges
+ */
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+export interface RatingTrend {
+  direction: TrendDirection;
+  percentage: number; // Absolute change relative to the earlier average
+}
+
+/**
+ * The range before the requested one, for comparison
+ */
+export interface RatingComparison {
+  from: string;
+  to: string;
+  summary: RatingSummary;
+  buckets: RatingBucket[];
+  trend: RatingTrend | null; // Null without ratings in both ranges
+}
+
+/**
+ * Time-series rating analytics (GET /api/analytics/ratings)
+ */
+export interface RatingAnalytics {
+  period: AnalyticsPeriod;
+  from: string;
+  to: string;
+  overall: RatingSeries;
+  byProperty: RatingSeries[];
+  byChannel: RatingSeries[];
+  comparison?: RatingComparison;
+}
+
+// ============================================================================
+// Text Analysis Types
+// ============================================================================
+
+/**
+ * Lexicon sentiment of a piece of review text
+ * - score: sum of the lexicon weights of its words
+ * - comparative: score per word, comparable across texts of any length
+ */
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentScore {
+  score: number;
+  comparative: number;
+  label: SentimentLabel;
+}
+
+/**
+ * Recurring topics guests write about (see THEMES in lib/text-analysis)
+ */
+export type ThemeId =
+  | 'wifi'
+  | 'noise'
+  | 'check-in'
+  | 'cleanliness'
+  | 'location'
+  | 'communication'
+  | 'comfort'
+  | 'heating'
+  | 'amenities'
+  | 'maintenance'
+  | 'parking'
+  | 'space'
+  | 'value';
+
+/**
+ * A passage of a review that mentions a theme, scored on its own
+ */
+export interface ThemeMention {
+  theme: ThemeId;
+  quote: string; // The sentence the theme is mentioned in
+  score: number; // Sentiment of the clause mentioning it
+}
+
+/**
+ * Sentiment and themes of a single review's text
+ */
+export interface TextAnalysis {
+  sentiment: SentimentScore;
+  mentions: ThemeMention[];
+}
+
+/**
+ * Quote from a review, shown as an example of a theme
+ */
+export interface ThemeSample {
+  reviewId: string;
+  guestName: string;
+  quote: string;
+  score: number;
+}
+
+/**
+ * How often a theme comes up across reviews, with example quotes
+ */
+export interface ThemeSummary {
+  theme: ThemeId;
+  label: string;
+  mentions: number; // Reviews mentioning the theme
+  positive: number; // ...in a positive clause
+  negative: number; // ...in a negative clause
+  samples: ThemeSample[];
+}
+
+/**
+ * A theme guests praise or complain about, with its count and quotes
+ */
+export interface ThemeHighlight {
+  theme: ThemeId;
+  label: string;
+  count: number;
+  samples: ThemeSample[];
+}
+
+/**
+ * Sentiment and top themes of one property's guest reviews
+ */
+export interface PropertyThemeInsights {
+  propertyId: string;
+  propertyName: string;
+  analyzedReviews: number;
+  sentiment: Record<SentimentLabel, number>; // Reviews per label
+  topComplaints: ThemeHighlight[];
+  topPraise: ThemeHighlight[];
+}
+
+// ============================================================================
+// Moderation Types
+// ============================================================================
+
+/**
+ * Moderation state of a review
+ * - new: not looked at yet
+ * - pending: in the moderation queue awaiting a decision
+ * - approved: shown on the public website
+ * - rejected: not suitable for the website (requires a reason)
+ * - hidden: previously acceptable but withdrawn from the website
+ */
+export type ModerationStatus = 'new' | 'pending' | 'approved' | 'rejected' | 'hidden';
+
+/**
+ * Reason codes recorded when a review is rejected
+ */
+export type RejectionReason =
+  | 'inappropriate-language'
+  | 'personal-information'
+  | 'spam'
+  | 'not-about-stay'
+  | 'other';
+
+/**
+ * A moderation decision
+ */
+export interface ModerationDecision {
+  status: ModerationStatus;
+  reason?: RejectionReason | null; // Required when rejecting
+  note?: string | null;
+}
+
+// ============================================================================
+// Review Revision Types
+// ============================================================================
+
+/**
+ * Earlier version of a review's source fields, stored when a sync or
+ * import brings in a changed version (guests can edit reviews on
+ * Airbnb and Booking.com)
+ */
+export interface ReviewRevision {
+  id: string;
+  reviewId: string;
+  guestName: string;
+  rating: number | null;
+  publicReview: string;
+  categories: ReviewCategory[];
+  submittedAt: Date;
+  replacedAt: Date; // When the newer version arrived
+}
+
+/**
+ * Segment of a word diff between two versions of a review
+ */
+export interface TextDiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// ============================================================================
+// Bulk Action Types
+// ============================================================================
+
+/**
+ * Action applied to every selected review on the dashboard
+ * - publish / unpublish: approve or hide for the website
+ * - tag: add a label
+ * - assign: set (or clear, with null) who follows the reviews up
+ * - delete: remove the reviews; they are kept in the audit log
+ *
+ * Exporting a selection happens in the browser and changes nothing.
+ */
+export type BulkReviewAction =
+  | { type: 'publish' }
+  | { type: 'unpublish' }
+  | { type: 'tag'; tag: string }
+  | { type: 'assign'; assignee: string | null }
+  | { type: 'delete' };
+
+export type BulkActionType = BulkReviewAction['type'];
+
+/**
+ * What a bulk action will do to a selection, shown for confirmation
+ */
+export interface BulkActionPlan {
+  reviewIds: string[]; // Reviews the action applies to
+  skipped: Array<{ reviewId: string; reason: string }>; // Reviews left unchanged
+}
+
+// ============================================================================
+// Review Response Types
+// ============================================================================
+
+/**
+ * State of a management reply
+ * - draft: saved but only visible on the dashboard
+ * - published: shown beneath the review on the property page
+ */
+export type ReviewResponseStatus = 'draft' | 'published';
+
+/**
+ * Management reply to a guest review
+ */
+export interface ReviewResponse {
+  id: string;
+  reviewId: string;
+  body: string;
+  status: ReviewResponseStatus;
+  author: string; // Who last saved the reply
+  publishedAt: Date | null;
+  pushedToHostawayAt: Date | null; // Last successful push to the Hostaway API
+  hostawayError: string | null; // Error from the last failed push
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Data Provenance Types
+// ============================================================================
+
+/**
+ * Where review data came from
+ * - live: fetched from the Hostaway API during the request
+ * - database: read from our database
+ * - mock: loaded from lib/mock-reviews.json
+ */
+export type DataSource = 'live' | 'database' | 'mock';
+
+/**
+ * REVIEWS_DATA_MODE setting values
+ */
+export type ReviewsDataMode = 'fallback' | 'strict' | 'mock';
+
+/**
+ * Provenance of a set of reviews, shown to users when data is not real
+ */
+export interface DataProvenance {
+  source: DataSource;
+  fallbackReason?: string; // Why real data was not used
+}
+
+// ============================================================================
+// Sync Types
+// ============================================================================
+
+/**
+ * Sync modes
+ * - full: fetch every review from the source
+ * - incremental: only fetch reviews newer than the last successful sync
+ */
+export type SyncMode = 'full' | 'incremental';
+
+export type SyncRunStatus = 'running' | 'success' | 'failed';
+
+/**
+ * What saving a batch of reviews did
+ * - inserted: reviews that were not stored yet
+ * - updated: stored reviews whose source fields changed
+ * - unchanged: stored reviews that were identical, so were not written
+ */
+export interface SaveReviewsResult {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+/**
+ * Recorded sync run, as stored in the database
+ */
+export interface SyncRun {
+  id: string;
+  source: string; // e.g., 'hostaway'
+  mode: SyncMode;
+  status: SyncRunStatus;
+  fetched: number;
+  saved: number; // inserted + updated + unchanged
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  quarantined: number; // Reviews that failed validation, see QuarantinedReview
+  errors: string[];
+  cursor: Date | null; // Latest submittedAt seen, used by the next incremental sync
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+/**
+ * Summary of a review sync run
+ */
+export interface SyncResult extends SaveReviewsResult {
+  runId: string;
+  mode: SyncMode;
+  fetched: number;
+  saved: number; // inserted + updated + unchanged
+  failed: number;
+  quarantined: number; // Reviews that failed validation, see QuarantinedReview
+  errors: string[];
+  cursor: Date | null;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+/**
+ * Summary of re-deriving the channel of stored Hostaway reviews
+ * - updated: reviews whose channel or source channel changed
+ * - unchanged: reviews already on the right channel
+ * - unresolved: reviews with no source channel, stored or from Hostaway
+ */
+export interface ChannelBackfillResult {
+  updated: number;
+  unchanged: number;
+  unresolved: number;
+}
+
+/**
+ * Review sources the sync runner can sync
+ */
+export type SyncSource = 'hostaway' | 'google';
+
+/**
+ * Outcome of syncing one source through the sync runner
+ * - success: the sync ran; result has its counts
+ * - failed: the sync threw; error has the message
+ * - locked: another process was already syncing the source, so it was skipped
+ */
+export interface SourceSyncOutcome {
+  source: SyncSource;
+  status: 'success' | 'failed' | 'locked';
+  result?: SyncResult;
+  error?: string;
+}
+
+/**
+ * Parsed cron expression: the values each field matches
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 is Sunday
+  anyDayOfMonth: boolean; // Day of month field is *
+  anyDayOfWeek: boolean; // Day of week field is *
+}
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/**
+ * Hostaway review events the webhook receiver handles
+ */
+export type HostawayWebhookEventType = 'review.created' | 'review.updated';
+
+/**
+ * Body of a Hostaway webhook delivery
+ */
+export interface HostawayWebhookPayload {
+  event: string; // e.g. 'review.created'; other events are ignored
+  eventId?: string; // Unique per event; redeliveries repeat it
+  accountId?: number;
+  data?: HostawayReview;
+}
+
+/**
+ * Outcome of a stored webhook delivery
+ */
+export type WebhookEventStatus = 'processed' | 'failed';
+
+/**
+ * Webhook delivery, as stored for idempotency and replay
+ */
+export interface WebhookEvent {
+  id: string;
+  source: string; // e.g. 'hostaway'
+  eventId: string;
+  event: string;
+  payload: string; // Delivered body, replayed as is
+  status: WebhookEventStatus;
+  error: string | null; // Error of the last failed attempt
+  attempts: number;
+  reviewId: string | null;
+  propertyId: string | null; // Property of the review, when known
+  receivedAt: Date;
+  processedAt: Date | null;
+}
+
+/**
+ * Result of handling a webhook delivery
+ * - processed: the review was saved
+ * - duplicate: the event was already processed
+ * - ignored: not a review event
+ * - failed: recorded for replay
+ */
+export interface WebhookDeliveryResult {
+  eventId: string;
+  status: WebhookEventStatus | 'duplicate' | 'ignored' | 'quarantined';
+  reviewId?: string | null;
+  error?: string;
+}
+
+// ============================================================================
+// Quarantine Types
+// ============================================================================
+
+/**
+ * Why a raw review failed validation
+ */
+export interface ReviewValidationError {
+  field: string; // e.g. 'submittedAt', or 'review' for the payload as a whole
+  message: string;
+}
+
+/**
+ * Quarantine status
+ * - quarantined: waiting to be fixed or discarded
+ * - reingested: saved as a review, after a fix or because the source sent a valid version
+ * - discarded: dismissed by a manager
+ */
+export type QuarantineStatus = 'quarantined' | 'reingested' | 'discarded';
+
+/**
+ * Raw review that failed validation, kept instead of being stored with
+ * made-up values
+ */
+export interface QuarantinedReview {
+  id: string;
+  source: string; // e.g. 'hostaway'
+  sourceReviewId: string; // Review ID at the source, or a hash of the payload without one
+  payload: string; // Raw JSON, as received
+  fixedPayload: string | null; // JSON that was re-ingested after a fix
+  errors: ReviewValidationError[];
+  status: QuarantineStatus;
+  syncRunId: string | null; // Sync run that last quarantined it; null for webhooks
+  propertyId: string | null; // Property of the listing, when known
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+}
+
+/**
+ * Raw review to quarantine, with the reasons it failed validation
+ */
+export interface QuarantineInput {
+  sourceReviewId: string;
+  payload: string;
+  errors: ReviewValidationError[];
+  propertyId: string | null; // Property of the listing, when known
+}
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+export type ImportFormat = 'csv' | 'json';
+
+/**
+ * Review fields that can be populated from an imported column
+ */
+export type ImportField =
+  | 'id'
+  | 'propertyId'
+  | 'guestName'
+  | 'rating'
+  | 'publicReview'
+  | 'channel'
+  | 'reviewType'
+  | 'status'
+  | 'submittedAt';
+
+/**
+ * Maps review fields to column names in the imported file
+ */
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * Options applied to every imported row
+ */
+export interface ImportOptions {
+  mapping: ImportColumnMapping;
+  categoryColumns: string[]; // Columns holding category ratings (e.g., cleanliness)
+  defaultChannel: string; // Used when no channel column is mapped or it is empty
+  ratingScale: 5 | 10 | 'channel'; // Scale of the rating columns; 'channel' uses each row's channel scale
+}
+
+/**
+ * Validation error for a single imported row
+ */
+export interface ImportRowError {
+  row: number; // 1-based row number in the file (excluding the CSV header)
+  field?: ImportField;
+  message: string;
+}
+
+/**
+ * Result of validating or importing a file
+ */
+export interface ImportResult {
+  totalRows: number;
+  reviews: Review[]; // Valid, normalized rows
+  errors: ImportRowError[];
+  imported: number; // 0 for a dry run
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+/**
+ * Review export format
+ * - csv: RFC 4180 CSV
+ * - excel: CSV that opens cleanly in Excel (UTF-8 BOM, formula-safe cells)
+ * - json: Array of flat review records
+ */
+export type ExportFormat = 'csv' | 'excel' | 'json';
+
+// ============================================================================
+// Audit Types
+// ============================================================================
+
+/**
+ * Manager and system actions recorded in the audit log
+ */
+export type AuditAction =
+  | 'toggle-display'
+  | 'batch-toggle-display'
+  | 'moderate'
+  | 'delete'
+  | 'import'
+  | 'sync'
+  | 'assign-properties'
+  | 'respond'
+  | 'tag'
+  | 'assign'
+  | 'reapprove'
+  | 'replay-webhook'
+  | 'reingest-review'
+  | 'discard-quarantined';
+
+/**
+ * Audit event to record
+ */
+export interface AuditEventInput {
+  actor: string; // Who acted, e.g. 'manager' or 'system'
+  action: AuditAction;
+  reviewId?: string | null; // Null for actions on many reviews (imports, syncs)
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+/**
+ * Recorded audit event, as stored in the database
+ */
+export interface AuditEvent {
+  id: string;
+  actor: string;
+  action: AuditAction;
+  reviewId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Auth Types
+// ============================================================================
+
+/**
+ * User roles
+ * - admin: everything, including managing users
+ * - manager: moderate, import and sync reviews
+ * - viewer: read-only dashboard access
+ *
+ * Managers and viewers only see the properties assigned to them.
+ * Admins see every property.
+ */
+export type Role = 'admin' | 'manager' | 'viewer';
+
+export type Permission =
+  | 'reviews:read'
+  | 'reviews:moderate'
+  | 'reviews:respond'
+  | 'reviews:import'
+  | 'reviews:sync'
+  | 'properties:manage'
+  | 'users:manage';
+
+/**
+ * Dashboard user
+ */
+export interface User {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  propertyIds?: string[]; // Assigned properties, when loaded
+  createdAt?: Date;
+}
+
+/**
+ * Properties a user can see and curate; null means every property
+ */
+export type PropertyScope = string[] | null;
+
+/**
+ * Signed-in user, as stored in the session cookie
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: Role;
 }
 
 // ============================================================================
@@ -157,7 +972,20 @@ export interface ApiResponse<T> {
 /**
  * Reviews API response
  */
-export type ReviewsApiResponse = ApiResponse<Review[]>;
+export type ReviewsApiResponse = ApiResponse<Review[]> &
+  Partial<DataProvenance> & {
+    invalid?: Pick<QuarantineInput, 'sourceReviewId' | 'errors'>[]; // Reviews left out because they failed validation
+  };
+
+/**
+ * Paginated reviews API response
+ */
+export type PaginatedReviewsApiResponse = ApiResponse<PaginatedResponse<Review>>;
+
+/**
+ * Rating analytics API response
+ */
+export type RatingAnalyticsApiResponse = ApiResponse<RatingAnalytics>;
 
 /**
  * Property API response